@@ -15,6 +15,7 @@ module.exports = {
     getCdkOverrides("cdk/lib"),
     getCdkOverrides("cdk/custom-auth"),
     getCdkOverrides("end-to-end-example/cdk"),
+    getTestOverrides("test"),
     getClientOverrides("client"),
     getClientOverrides("end-to-end-example/client"),
   ],
@@ -56,6 +57,18 @@ function getCdkOverrides(basedir) {
   };
 }
 
+function getTestOverrides(basedir) {
+  const overrides = getCdkOverrides(basedir);
+  return {
+    ...overrides,
+    rules: {
+      ...overrides.rules,
+      // node:test's describe() and it() return promises, that the test runner awaits
+      "@typescript-eslint/no-floating-promises": "off",
+    },
+  };
+}
+
 function getClientOverrides(basedir) {
   return {
     env: {
@@ -0,0 +1,221 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { createHash, createHmac } from "crypto";
+import {
+  CreateAuthChallengeTriggerEvent,
+  DefineAuthChallengeTriggerEvent,
+  PreTokenGenerationTriggerEvent,
+  VerifyAuthChallengeResponseTriggerEvent,
+} from "aws-lambda";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import { KinesisClient, PutRecordsCommand } from "@aws-sdk/client-kinesis";
+import { logger, determineSourceIp } from "./common.js";
+
+let config = {
+  /** Where to send audit events to. If undefined, audit events are only logged (at debug level) */
+  auditSink: auditSinkFromEnvironment(),
+  /** Secret salt to hash usernames with. If not provided, usernames are hashed with plain SHA-256 */
+  usernameHashSalt: process.env.AUDIT_USERNAME_HASH_SALT || undefined,
+};
+
+export function configure(update?: Partial<typeof config>) {
+  config = { ...config, ...update };
+  return config;
+}
+
+export type AuditEventType =
+  /** A challenge (e.g. FIDO2, SMS OTP) was issued to the user */
+  | "CHALLENGE_ISSUED"
+  /** The user's answer to a challenge was incorrect */
+  | "CHALLENGE_FAILED"
+  /** A challenge was not issued, because the user requested one too soon after the previous one */
+  | "CHALLENGE_THROTTLED"
+  /** Define Auth Challenge decided to issue tokens */
+  | "AUTHENTICATION_ALLOWED"
+  /** Define Auth Challenge decided to fail the authentication */
+  | "AUTHENTICATION_DENIED"
+  /** A Magic Link was e-mailed to the user */
+  | "MAGIC_LINK_SENT"
+  /** A FIDO2 credential was registered for the user */
+  | "CREDENTIAL_REGISTERED"
+  /** A FIDO2 credential of the user was deleted */
+  | "CREDENTIAL_DELETED"
+  /** The user signed in with a recovery code */
+  | "RECOVERY_CODE_USED";
+
+export interface AuditEvent {
+  eventType: AuditEventType;
+  /** ISO 8601 timestamp */
+  timestamp: string;
+  /** Hash of the username, so events of the same user can be correlated, without including the username itself */
+  usernameHash: string;
+  userPoolId?: string;
+  clientId?: string;
+  /** The sign-in method, e.g. "MAGIC_LINK" or "FIDO2" */
+  signInMethod?: string;
+  /** Why the event happened, e.g. why authentication was denied */
+  reason?: string;
+  sourceIp?: string;
+  /** For Cognito triggers, this is the user agent as reported by the client in the client metadata (i.e. not verified) */
+  userAgent?: string;
+}
+
+export interface AuditSink {
+  send(events: AuditEvent[]): Promise<void>;
+}
+
+/**
+ * Sends audit events to an Amazon EventBridge event bus, with detail-type equal to the event type
+ */
+export class EventBridgeAuditSink implements AuditSink {
+  private eventBridge: EventBridgeClient;
+  private eventBusName: string;
+  private source: string;
+  constructor({
+    eventBusName,
+    source = "cognito-passwordless",
+  }: {
+    eventBusName: string;
+    source?: string;
+  }) {
+    this.eventBridge = new EventBridgeClient({});
+    this.eventBusName = eventBusName;
+    this.source = source;
+  }
+  async send(events: AuditEvent[]) {
+    // PutEvents accepts up to 10 entries per call
+    for (let i = 0; i < events.length; i += 10) {
+      const { FailedEntryCount } = await this.eventBridge.send(
+        new PutEventsCommand({
+          Entries: events.slice(i, i + 10).map((event) => ({
+            EventBusName: this.eventBusName,
+            Source: this.source,
+            DetailType: event.eventType,
+            Time: new Date(event.timestamp),
+            Detail: JSON.stringify(event),
+          })),
+        })
+      );
+      if (FailedEntryCount) {
+        throw new Error(
+          `Failed to put ${FailedEntryCount} audit event(s) on EventBridge`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Sends audit events to an Amazon Kinesis data stream, partitioned by username hash
+ */
+export class KinesisAuditSink implements AuditSink {
+  private kinesis: KinesisClient;
+  private streamName: string;
+  constructor({ streamName }: { streamName: string }) {
+    this.kinesis = new KinesisClient({});
+    this.streamName = streamName;
+  }
+  async send(events: AuditEvent[]) {
+    if (!events.length) return;
+    const { FailedRecordCount } = await this.kinesis.send(
+      new PutRecordsCommand({
+        StreamName: this.streamName,
+        Records: events.map((event) => ({
+          PartitionKey: event.usernameHash,
+          Data: Buffer.from(JSON.stringify(event)),
+        })),
+      })
+    );
+    if (FailedRecordCount) {
+      throw new Error(
+        `Failed to put ${FailedRecordCount} audit event(s) on Kinesis`
+      );
+    }
+  }
+}
+
+/**
+ * Create the audit sink that is configured in the environment (AUDIT_SINK), if any
+ */
+export function auditSinkFromEnvironment(): AuditSink | undefined {
+  if (process.env.AUDIT_SINK === "EVENTBRIDGE") {
+    return new EventBridgeAuditSink({
+      eventBusName: process.env.AUDIT_EVENT_BUS_NAME || "default",
+      source: process.env.AUDIT_EVENT_SOURCE || undefined,
+    });
+  } else if (process.env.AUDIT_SINK === "KINESIS") {
+    const streamName = process.env.AUDIT_KINESIS_STREAM_NAME;
+    if (!streamName) {
+      throw new Error("Missing configuration for: AUDIT_KINESIS_STREAM_NAME");
+    }
+    return new KinesisAuditSink({ streamName });
+  }
+  return undefined;
+}
+
+/**
+ * Emit an audit event to the configured audit sink.
+ * This never throws: failure to emit an audit event is logged, but doesn't break authentication
+ */
+export async function emitAuditEvent({
+  username,
+  ...event
+}: Omit<AuditEvent, "timestamp" | "usernameHash"> & { username: string }) {
+  const auditEvent: AuditEvent = {
+    ...event,
+    timestamp: new Date().toISOString(),
+    usernameHash: hashUsername(username),
+  };
+  logger.debug("Audit event:", JSON.stringify(auditEvent));
+  if (!config.auditSink) return;
+  try {
+    await config.auditSink.send([auditEvent]);
+  } catch (err) {
+    logger.error("Failed to emit audit event:", err);
+  }
+}
+
+/**
+ * Get the fields for an audit event, from a Cognito custom auth (or pre token generation) trigger event
+ */
+export function auditContextFromTriggerEvent(
+  event:
+    | DefineAuthChallengeTriggerEvent
+    | CreateAuthChallengeTriggerEvent
+    | VerifyAuthChallengeResponseTriggerEvent
+    | PreTokenGenerationTriggerEvent
+) {
+  return {
+    username: event.userName,
+    userPoolId: event.userPoolId,
+    clientId: event.callerContext.clientId,
+    signInMethod: event.request.clientMetadata?.signInMethod,
+    sourceIp: determineSourceIp(event),
+    userAgent: event.request.clientMetadata?.userAgent,
+  };
+}
+
+function hashUsername(username: string) {
+  return (
+    config.usernameHashSalt
+      ? createHmac("sha256", config.usernameHashSalt)
+      : createHash("sha256")
+  )
+    .update(username)
+    .digest("base64url");
+}
@@ -0,0 +1,136 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  DeleteCommand,
+} from "@aws-sdk/lib-dynamodb";
+import {
+  DynamoDBClient,
+  ConditionalCheckFailedException,
+} from "@aws-sdk/client-dynamodb";
+import { logger } from "./common.js";
+
+let config = {
+  /**
+   * The DynamoDB table in which Define Auth Challenge records the signInMethods the user completed, for the PreToken-generation trigger
+   * (that doesn't get to see the session). If undefined, nothing is recorded
+   */
+  dynamoDbAuthenticationMethodsTable:
+    process.env.DYNAMODB_AUTHENTICATION_METHODS_TABLE || undefined,
+  /** How long a record is valid. The PreToken-generation trigger runs right after Define Auth Challenge decided to issue tokens */
+  recordValiditySeconds: 60,
+};
+
+export function configure(update?: Partial<typeof config>) {
+  config = { ...config, ...update };
+  return config;
+}
+
+const ddbDocClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+  marshallOptions: {
+    removeUndefinedValues: true,
+  },
+});
+
+interface SignIn {
+  /** The Cognito username of the user that signs in */
+  userName: string;
+  /** The app client the user signs in to */
+  clientId: string;
+}
+
+/**
+ * Record the signInMethods the user completed in this sign-in (see `determineFactorsCompleted` in multi-factor.ts),
+ * upon issuing tokens, so the PreToken-generation trigger can add the matching authentication method claims.
+ *
+ * Returns false if another sign-in of the user to the app client is being completed at the same time, i.e. its record wasn't taken yet:
+ * the record can't tell the sign-ins apart, so the caller must not issue tokens then
+ */
+export async function recordCompletedSignInMethods({
+  userName,
+  clientId,
+  signInMethods,
+}: SignIn & { signInMethods: string[] }) {
+  if (!config.dynamoDbAuthenticationMethodsTable) return true;
+  logger.info(
+    "Recording completed signInMethods:",
+    signInMethods.join(", ") || "(none)"
+  );
+  const now = Math.floor(Date.now() / 1000);
+  try {
+    await ddbDocClient.send(
+      new PutCommand({
+        TableName: config.dynamoDbAuthenticationMethodsTable,
+        Item: {
+          pk: recordKey({ userName, clientId }),
+          signInMethods,
+          signInMethod: signInMethods.at(-1),
+          exp: now + config.recordValiditySeconds,
+        },
+        // Records of sign-ins whose PreToken-generation trigger never ran, expire
+        ConditionExpression: "attribute_not_exists(#pk) OR #exp < :now",
+        ExpressionAttributeNames: { "#pk": "pk", "#exp": "exp" },
+        ExpressionAttributeValues: { ":now": now },
+      })
+    );
+  } catch (err) {
+    if (err instanceof ConditionalCheckFailedException) {
+      logger.info("Another sign-in of the user is being completed");
+      return false;
+    }
+    throw err;
+  }
+  return true;
+}
+
+/**
+ * Retrieve, and remove, the signInMethods that Define Auth Challenge recorded for this sign-in, i.e. ending with the signInMethod
+ * that the PreToken-generation trigger is invoked for. Returns undefined if there's no such (valid) record
+ */
+export async function takeCompletedSignInMethods({
+  userName,
+  clientId,
+  signInMethod,
+}: SignIn & { signInMethod?: string }) {
+  if (!config.dynamoDbAuthenticationMethodsTable || !signInMethod) return;
+  const Attributes = await ddbDocClient
+    .send(
+      new DeleteCommand({
+        TableName: config.dynamoDbAuthenticationMethodsTable,
+        Key: { pk: recordKey({ userName, clientId }) },
+        // Leave the records of other sign-ins alone
+        ConditionExpression: "#signInMethod = :signInMethod",
+        ExpressionAttributeNames: { "#signInMethod": "signInMethod" },
+        ExpressionAttributeValues: { ":signInMethod": signInMethod },
+        ReturnValues: "ALL_OLD",
+      })
+    )
+    .then(({ Attributes }) => Attributes)
+    .catch((err) => {
+      if (!(err instanceof ConditionalCheckFailedException)) throw err;
+    });
+  if (!Attributes || (Attributes.exp as number) < Date.now() / 1000) {
+    logger.info(
+      `No completed signInMethods recorded for this sign-in (with ${signInMethod})`
+    );
+    return;
+  }
+  return Attributes.signInMethods as string[];
+}
+
+function recordKey({ userName, clientId }: SignIn) {
+  return `${clientId}#${userName}`;
+}
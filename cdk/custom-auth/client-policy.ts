@@ -0,0 +1,76 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { logger } from "./common.js";
+
+/**
+ * Authentication policy for an app client, e.g. to apply stricter settings for an internal admin app
+ * than for a consumer web app on the same user pool. Settings that are omitted fall back to the global configuration.
+ */
+export interface ClientPolicy {
+  /** The signInMethods that users of the app client may use, e.g. `["FIDO2", "FIDO2_STEPUP"]` */
+  allowedSignInMethods?: string[];
+  /** The origins (e.g. "https://admin.example.com") that magic links may redirect to, and that FIDO2 assertions may come from */
+  allowedOrigins?: string[];
+  /** The WebAuthn user verification requirement for sign-in with FIDO2 */
+  userVerification?: UserVerificationRequirement;
+  /** Deny sign-in with other methods than FIDO2, if the user has a FIDO2 credential? */
+  enforceFido2IfAvailable?: boolean;
+  /** The number of seconds that magic links are valid */
+  magicLinkSecondsUntilExpiry?: number;
+}
+
+let config = {
+  /** The policies per app client ID. App clients without a policy use the global configuration */
+  policies: parsePolicies(process.env.CLIENT_POLICIES),
+};
+
+export function configure(update?: Partial<typeof config>) {
+  config = { ...config, ...update };
+  return config;
+}
+
+/**
+ * Determine the policy for the app client. Returns an empty policy (i.e. use the global configuration for all settings)
+ * if the app client has no policy
+ */
+export function determineClientPolicy(clientId: string): ClientPolicy {
+  // eslint-disable-next-line security/detect-object-injection
+  return config.policies?.[clientId] ?? {};
+}
+
+/**
+ * Is the signInMethod allowed for the app client? All signInMethods are, unless the app client's policy lists the allowed ones
+ */
+export function isSignInMethodAllowed(clientId: string, signInMethod: string) {
+  const { allowedSignInMethods } = determineClientPolicy(clientId);
+  if (!allowedSignInMethods || allowedSignInMethods.includes(signInMethod)) {
+    return true;
+  }
+  logger.info(
+    `signInMethod ${signInMethod} not allowed for app client ${clientId}, allowed: ${allowedSignInMethods.join(", ")}`
+  );
+  return false;
+}
+
+function parsePolicies(policies?: string) {
+  if (!policies) return;
+  const parsed = JSON.parse(policies) as Record<string, ClientPolicy>;
+  Object.values(parsed).forEach((policy) => {
+    policy.allowedOrigins = policy.allowedOrigins
+      ?.map((href) => new URL(href))
+      .map((url) => url.origin);
+  });
+  return parsed;
+}
@@ -14,7 +14,19 @@
  */
 
 import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import {
+  SESv2Client,
+  SendEmailCommand,
+  MessageRejected,
+} from "@aws-sdk/client-sesv2";
+import {
+  SecretsManagerClient,
+  GetSecretValueCommand,
+} from "@aws-sdk/client-secrets-manager";
 import { APIGatewayProxyHandler } from "aws-lambda";
+import { CognitoJwtVerifier } from "aws-jwt-verify";
+import { SimpleJwksCache } from "aws-jwt-verify/jwk";
+import { createHash, timingSafeEqual } from "crypto";
 
 export class UserFacingError extends Error {
   constructor(msg: string) {
@@ -91,6 +103,17 @@ export function determineUserHandle({
   return `s|${sub}`; // usernameless sign-in NOT supported, we prefix with "s|" so the UI can detect this
 }
 
+/**
+ * Returns the source IP of the user, from a Cognito trigger event.
+ * This is only available if you've enabled "additional user context data" for the app client
+ */
+export function determineSourceIp(event: { request: object }) {
+  const { userContextData } = event.request as {
+    userContextData?: { ipAddress?: string };
+  };
+  return userContextData?.ipAddress || undefined;
+}
+
 function isOpaqueIdentifier(cognitoUsername: string) {
   return isUuid(cognitoUsername);
 }
@@ -161,3 +184,245 @@ export function isValidOrigin(
       allowedWebOrigins.includes(origin))
   );
 }
+
+const jwksCache = new SimpleJwksCache();
+/** Verify the access token of the user (for step-up authentication): it must be valid, for this app client and for this user (sub) */
+export async function verifyJwt({
+  userPoolId,
+  clientId,
+  jwt,
+  sub,
+}: {
+  userPoolId: string;
+  clientId: string;
+  jwt: string;
+  sub: string;
+}) {
+  return CognitoJwtVerifier.create(
+    {
+      userPoolId,
+      tokenUse: "access",
+      clientId,
+      customJwtCheck: ({ payload }) => {
+        if (payload.sub !== sub) {
+          throw new Error("Wrong sub");
+        }
+      },
+    },
+    { jwksCache }
+  )
+    .verify(jwt)
+    .then(() => true)
+    .catch((err) => {
+      logger.error(err);
+      return false;
+    });
+}
+
+/**
+ * Serialize a transaction (e.g. `{ amount: "100.00", payee: "ACME" }`) to canonical JSON: object keys sorted, no whitespace.
+ * The client does the same, so that both sides hash the very same bytes
+ */
+export function canonicalizeTransaction(transaction: unknown): string {
+  if (Array.isArray(transaction)) {
+    return `[${transaction.map(canonicalizeTransaction).join(",")}]`;
+  }
+  if (transaction && typeof transaction === "object") {
+    return `{${Object.entries(transaction)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(
+        ([key, value]) =>
+          `${JSON.stringify(key)}:${canonicalizeTransaction(value)}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(transaction) ?? "null";
+}
+
+/**
+ * The hash (base64url encoded SHA-256) of a transaction, as it is included in the `transaction_hash` claim of the ID token,
+ * after the user signed the transaction with FIDO2. Use this in your back-end to verify that the user approved a specific transaction
+ */
+export function transactionHash(transaction: unknown) {
+  return createHash("sha256")
+    .update(
+      typeof transaction === "string"
+        ? transaction
+        : canonicalizeTransaction(transaction)
+    )
+    .digest("base64url");
+}
+
+/**
+ * Compare a secret code (e.g. an OTP) with the answer the user gave, in constant time.
+ * The SHA-256 hashes are compared, so the time taken doesn't reveal the length of the secret code either
+ */
+export function secretCodeMatches(secretCode?: string, answer?: string) {
+  if (!secretCode || answer === undefined) return false;
+  return timingSafeEqual(
+    createHash("sha256").update(secretCode).digest(),
+    createHash("sha256").update(answer).digest()
+  );
+}
+
+/** The content of an e-mail, as created by the content creators of e.g. the Magic Link and E-mail OTP modules */
+export interface EmailContent {
+  html: { charSet: string; data: string };
+  text: { charSet: string; data: string };
+  subject: { charSet: string; data: string };
+}
+
+/** Sends e-mails. Implement this interface to use another e-mail provider than the built-in ones */
+export interface EmailSender {
+  sendEmail(props: {
+    fromAddress: string;
+    toAddress: string;
+    content: EmailContent;
+  }): Promise<void>;
+}
+
+/** Sends e-mails with Amazon SES (v2 API) */
+export class SesV2EmailSender implements EmailSender {
+  private ses: SESv2Client;
+  constructor(props?: { region?: string }) {
+    this.ses = new SESv2Client({ region: props?.region });
+  }
+  async sendEmail({
+    fromAddress,
+    toAddress,
+    content,
+  }: Parameters<EmailSender["sendEmail"]>[0]) {
+    await this.ses
+      .send(
+        new SendEmailCommand({
+          FromEmailAddress: fromAddress,
+          Destination: { ToAddresses: [toAddress] },
+          Content: {
+            Simple: {
+              Subject: {
+                Charset: content.subject.charSet,
+                Data: content.subject.data,
+              },
+              Body: {
+                Html: {
+                  Charset: content.html.charSet,
+                  Data: content.html.data,
+                },
+                Text: {
+                  Charset: content.text.charSet,
+                  Data: content.text.data,
+                },
+              },
+            },
+          },
+        })
+      )
+      .catch((err) => {
+        if (
+          err instanceof MessageRejected &&
+          err.message.includes("Email address is not verified")
+        ) {
+          logger.error(err);
+          throw new UserFacingError(
+            "E-mail address must still be verified in the e-mail service"
+          );
+        }
+        throw err;
+      });
+  }
+}
+
+/** Sends e-mails to an SMTP server */
+export class SmtpEmailSender implements EmailSender {
+  private credentials?: Promise<{ username: string; password: string }>;
+  constructor(
+    private props: {
+      host: string;
+      /** Default: 587 (or 465 if secure is true) */
+      port?: number;
+      /** Use TLS from the start of the connection? If false, STARTTLS is used if the server supports it */
+      secure?: boolean;
+      /** The credentials, or the ARN of an AWS Secrets Manager secret with JSON value: `{ "username": "...", "password": "..." }` */
+      credentials?: { username: string; password: string } | string;
+    }
+  ) {}
+  private getCredentials() {
+    const { credentials } = this.props;
+    if (typeof credentials !== "string") return credentials;
+    this.credentials ??= new SecretsManagerClient({})
+      .send(new GetSecretValueCommand({ SecretId: credentials }))
+      .then(({ SecretString }) => {
+        const parsed = JSON.parse(SecretString ?? "{}") as {
+          username?: string;
+          password?: string;
+        };
+        if (!parsed.username || !parsed.password) {
+          throw new Error(
+            "SMTP credentials secret must have username and password"
+          );
+        }
+        return { username: parsed.username, password: parsed.password };
+      });
+    this.credentials.catch(() => (this.credentials = undefined));
+    return this.credentials;
+  }
+  async sendEmail({
+    fromAddress,
+    toAddress,
+    content,
+  }: Parameters<EmailSender["sendEmail"]>[0]) {
+    const { createTransport } = await import("nodemailer");
+    const credentials = await this.getCredentials();
+    const transport = createTransport({
+      host: this.props.host,
+      port: this.props.port ?? (this.props.secure ? 465 : 587),
+      secure: !!this.props.secure,
+      auth: credentials && {
+        user: credentials.username,
+        pass: credentials.password,
+      },
+    });
+    try {
+      await transport.sendMail({
+        from: fromAddress,
+        to: toAddress,
+        subject: content.subject.data,
+        html: content.html.data, // nodemailer always encodes as UTF-8
+        text: content.text.data,
+      });
+    } finally {
+      transport.close();
+    }
+  }
+}
+
+/** Doesn't send e-mails, but captures them in memory, e.g. for use in tests */
+export class InMemoryEmailSender implements EmailSender {
+  public sentEmails: Parameters<EmailSender["sendEmail"]>[0][] = [];
+  async sendEmail(email: Parameters<EmailSender["sendEmail"]>[0]) {
+    this.sentEmails.push(email);
+  }
+}
+
+/**
+ * Create the e-mail sender as configured in the environment variables, i.e. by the Passwordless CDK construct:
+ * EMAIL_SENDER ("SES" or "SMTP"), and for SMTP: SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_CREDENTIALS_SECRET_ARN
+ */
+export function emailSenderFromEnvironment(props?: {
+  sesRegion?: string;
+}): EmailSender {
+  if (process.env.EMAIL_SENDER === "SMTP") {
+    if (!process.env.SMTP_HOST)
+      throw new Error("Environment variable SMTP_HOST is not set");
+    return new SmtpEmailSender({
+      host: process.env.SMTP_HOST,
+      port: process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : undefined,
+      secure: !!process.env.SMTP_SECURE,
+      credentials: process.env.SMTP_CREDENTIALS_SECRET_ARN || undefined,
+    });
+  }
+  return new SesV2EmailSender({
+    region: props?.sesRegion || process.env.AWS_REGION,
+  });
+}
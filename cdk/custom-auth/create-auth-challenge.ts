@@ -19,7 +19,10 @@ import {
 import * as fido2 from "./fido2.js";
 import * as smsOtpStepUp from "./sms-otp-stepup.js";
 import * as magicLink from "./magic-link.js";
+import * as emailOtp from "./email-otp.js";
+import * as multiFactor from "./multi-factor.js";
 import { logger, UserFacingError } from "./common.js";
+import { emitAuditEvent, auditContextFromTriggerEvent } from "./audit.js";
 
 export const handler: CreateAuthChallengeTriggerHandler = async (event) => {
   logger.debug(JSON.stringify(event, null, 2));
@@ -36,16 +39,56 @@ export const handler: CreateAuthChallengeTriggerHandler = async (event) => {
       // If enabled, fido2 challenge is attached to the event always, even if the client might want to use another signInMethod.
       // This is so that client can immediately respond with a FIDO2 signature
       await fido2.addChallengeToEvent(event);
+    } else if (event.request.session.slice(-1)[0].challengeResult === true) {
+      // The user completed a factor, but the multi-factor policy requires another one (see Define Auth Challenge)
+      const factorsCompleted = multiFactor.determineFactorsCompleted(event);
+      logger.info(
+        `Factors completed: ${factorsCompleted.join(", ")}, starting the next one ...`
+      );
+      const chains = await multiFactor.determineChains(event);
+      const nextSignInMethods =
+        (chains &&
+          multiFactor.determineNextSignInMethods(chains, factorsCompleted)) ??
+        [];
+      await provideAuthParameters(event, {
+        factorsCompleted,
+        nextSignInMethods,
+      });
+      // Like upon the first factor, allow the client to immediately respond with a FIDO2 signature
+      if (nextSignInMethods.includes("FIDO2")) {
+        await fido2.addChallengeToEvent(event);
+      }
+      await emitAuditEvent({
+        eventType: "CHALLENGE_ISSUED",
+        ...auditContextFromTriggerEvent(event),
+      });
     } else {
       const { signInMethod } = event.request.clientMetadata ?? {};
       logger.info(`Client has requested signInMethod: ${signInMethod}`);
       if (signInMethod === "MAGIC_LINK") {
         await magicLink.addChallengeToEvent(event);
-      } else if (signInMethod === "SMS_OTP_STEPUP") {
+      } else if (
+        signInMethod === "SMS_OTP_STEPUP" ||
+        signInMethod === "SMS_OTP"
+      ) {
         await smsOtpStepUp.addChallengeToEvent(event);
+      } else if (signInMethod === "EMAIL_OTP") {
+        await emailOtp.addChallengeToEvent(event);
+      } else if (signInMethod === "FIDO2_TRANSACTION") {
+        await fido2.addTransactionChallengeToEvent(event);
       } else {
         throw new Error(`Unrecognized signInMethod: ${signInMethod}`);
       }
+      // Record earlier factors of a multi-factor sign-in, so Verify Auth Challenge Response can take them into account
+      const factorsCompleted = multiFactor.determineFactorsCompleted(event);
+      if (factorsCompleted.length) {
+        event.response.privateChallengeParameters.factorsCompleted =
+          factorsCompleted.join(",");
+      }
+      await emitAuditEvent({
+        eventType: "CHALLENGE_ISSUED",
+        ...auditContextFromTriggerEvent(event),
+      });
     }
     logger.debug(JSON.stringify(event, null, 2));
     return event;
@@ -57,13 +100,25 @@ export const handler: CreateAuthChallengeTriggerHandler = async (event) => {
 };
 
 async function provideAuthParameters(
-  event: CreateAuthChallengeTriggerEvent
+  event: CreateAuthChallengeTriggerEvent,
+  {
+    factorsCompleted = [],
+    nextSignInMethods = [],
+  }: { factorsCompleted?: string[]; nextSignInMethods?: string[] } = {}
 ): Promise<void> {
   logger.info("Creating challenge: PROVIDE_AUTH_PARAMETERS");
-  event.response.challengeMetadata = "PROVIDE_AUTH_PARAMETERS";
+  event.response.challengeMetadata =
+    multiFactor.provideAuthParametersChallengeMetadata(factorsCompleted);
   const parameters: Record<string, string> = {
     challenge: "PROVIDE_AUTH_PARAMETERS",
   };
-  event.response.privateChallengeParameters = parameters;
-  event.response.publicChallengeParameters = parameters;
+  event.response.privateChallengeParameters = { ...parameters };
+  event.response.publicChallengeParameters = { ...parameters };
+  if (factorsCompleted.length) {
+    // Tell the client which signInMethod(s) it may use for the next factor of a multi-factor sign-in
+    event.response.privateChallengeParameters.factorsCompleted =
+      factorsCompleted.join(",");
+    event.response.publicChallengeParameters.nextSignInMethods =
+      nextSignInMethods.join(",");
+  }
 }
@@ -17,11 +17,55 @@ import {
   DefineAuthChallengeTriggerHandler,
   DefineAuthChallengeTriggerEvent,
 } from "aws-lambda";
-import { logger } from "./common.js";
+import { logger, determineSourceIp } from "./common.js";
+import * as rateLimit from "./rate-limit.js";
+import * as multiFactor from "./multi-factor.js";
+import * as authenticationMethods from "./authentication-methods.js";
+import { isSignInMethodAllowed } from "./client-policy.js";
+import { emitAuditEvent, auditContextFromTriggerEvent } from "./audit.js";
 
 export const handler: DefineAuthChallengeTriggerHandler = async (event) => {
   logger.debug(JSON.stringify(event, null, 2));
 
+  const rateLimitSubject = {
+    username: event.userName,
+    sourceIp: determineSourceIp(event),
+  };
+  if (await rateLimit.isLockedOut(rateLimitSubject)) {
+    return deny(event, "Locked out because of too many failed attempts");
+  }
+
+  await determineNextStep(event);
+
+  if (event.response.issueTokens) {
+    // The PreToken-generation trigger doesn't get to see the session, so hand over the signInMethods the user completed,
+    // as recorded in the challengeMetadata (see multi-factor.ts)
+    const recorded = await authenticationMethods.recordCompletedSignInMethods({
+      userName: event.userName,
+      clientId: event.callerContext.clientId,
+      signInMethods: multiFactor.determineFactorsCompleted(event),
+    });
+    if (!recorded) {
+      return deny(
+        event,
+        "Another sign-in of the user to the app client is being completed at the same time"
+      );
+    }
+    await rateLimit.recordSuccessfulAuthentication(rateLimitSubject);
+  } else if (
+    event.response.failAuthentication ||
+    (event.response.challengeName === "CUSTOM_CHALLENGE" &&
+      countAttempts(event) > 0 &&
+      event.request.session.slice(-1)[0].challengeResult !== true)
+  ) {
+    // Either authentication failed, or the user gets another try after providing a wrong answer
+    // (if the answer was correct, the user moves on to the next factor of a multi-factor sign-in)
+    await rateLimit.recordFailedAttempt(rateLimitSubject);
+  }
+  return event;
+};
+
+async function determineNextStep(event: DefineAuthChallengeTriggerEvent) {
   if (!event.request.session.length) {
     // The auth flow just started, send a custom challenge
     logger.info("No session yet, starting one ...");
@@ -42,23 +86,67 @@ export const handler: DefineAuthChallengeTriggerHandler = async (event) => {
     `Requested signInMethod: ${signInMethod} (attempt: ${countAttempts(event)})`
   );
 
+  // Is the requested signInMethod allowed for the app client?
+  if (
+    signInMethod &&
+    !isSignInMethodAllowed(event.callerContext.clientId, signInMethod)
+  ) {
+    return deny(
+      event,
+      `signInMethod ${signInMethod} not allowed for app client ${event.callerContext.clientId}`
+    );
+  }
+
+  // Is the requested signInMethod allowed (next) by the multi-factor policy, if any?
+  const chains = await multiFactor.determineChains(event);
+  if (chains && signInMethod) {
+    const factorsCompleted = multiFactor
+      .determineFactorsCompleted(event)
+      .slice(
+        0,
+        event.request.session.slice(-1)[0].challengeResult ? -1 : undefined
+      );
+    const nextSignInMethods = multiFactor.determineNextSignInMethods(
+      chains,
+      factorsCompleted
+    );
+    if (!nextSignInMethods?.includes(signInMethod)) {
+      return deny(
+        event,
+        `signInMethod ${signInMethod} not allowed by multi-factor policy after: ${
+          factorsCompleted.join(", ") || "(none)"
+        }`
+      );
+    }
+  }
+
   if (signInMethod === "MAGIC_LINK") {
     return handleMagicLinkResponse(event);
   } else if (signInMethod === "SMS_OTP_STEPUP") {
     return handleSmsOtpStepUpResponse(event);
+  } else if (signInMethod === "SMS_OTP") {
+    return handleSmsOtpResponse(event);
+  } else if (signInMethod === "EMAIL_OTP") {
+    return handleEmailOtpResponse(event);
   } else if (signInMethod === "FIDO2") {
     return handleFido2Response(event);
+  } else if (signInMethod === "FIDO2_STEPUP") {
+    return handleFido2StepUpResponse(event);
+  } else if (signInMethod === "FIDO2_TRANSACTION") {
+    return handleFido2TransactionResponse(event);
+  } else if (signInMethod === "RECOVERY_CODE") {
+    return handleRecoveryCodeResponse(event);
   }
 
   return deny(event, `Unrecognized signInMethod: ${signInMethod}`);
-};
+}
 
 function handleMagicLinkResponse(event: DefineAuthChallengeTriggerEvent) {
   logger.info("Checking Magic Link Auth ...");
   const { alreadyHaveMagicLink } = event.request.clientMetadata ?? {};
   const lastResponse = event.request.session.slice(-1)[0];
   if (lastResponse.challengeResult === true) {
-    return allow(event);
+    return completeFactor(event);
   } else if (alreadyHaveMagicLink !== "yes" && countAttempts(event) === 0) {
     logger.info("No magic link yet, creating one");
     return customChallenge(event);
@@ -79,27 +167,135 @@ function handleSmsOtpStepUpResponse(event: DefineAuthChallengeTriggerEvent) {
   return deny(event, "Failed to authenticate with SMS OTP Step-Up");
 }
 
+function handleSmsOtpResponse(event: DefineAuthChallengeTriggerEvent) {
+  logger.info("Checking SMS OTP Auth ...");
+  const lastResponse = event.request.session.slice(-1)[0];
+  const attemps = countAttempts(event);
+  if (lastResponse.challengeResult === true) {
+    return completeFactor(event);
+  } else if (attemps < 3) {
+    logger.info(`Not successfull yet. Attempt number ${attemps + 1} of max 3`);
+    return customChallenge(event);
+  }
+  return deny(event, "Failed to authenticate with SMS OTP");
+}
+
+function handleEmailOtpResponse(event: DefineAuthChallengeTriggerEvent) {
+  logger.info("Checking E-mail OTP Auth ...");
+  const lastResponse = event.request.session.slice(-1)[0];
+  const attemps = countAttempts(event);
+  if (lastResponse.challengeResult === true) {
+    return completeFactor(event);
+  } else if (attemps < 3) {
+    logger.info(`Not successfull yet. Attempt number ${attemps + 1} of max 3`);
+    return customChallenge(event);
+  }
+  return deny(event, "Failed to authenticate with E-mail OTP");
+}
+
 function handleFido2Response(event: DefineAuthChallengeTriggerEvent) {
   logger.info("Checking Fido2 Auth ...");
   const lastResponse = event.request.session.slice(-1)[0];
   if (lastResponse.challengeResult === true) {
-    return allow(event);
+    return completeFactor(event);
   }
   return deny(event, "Failed to authenticate with FIDO2");
 }
 
-function deny(event: DefineAuthChallengeTriggerEvent, reason: string) {
+function handleFido2StepUpResponse(event: DefineAuthChallengeTriggerEvent) {
+  logger.info("Checking Fido2 Step-Up Auth ...");
+  const lastResponse = event.request.session.slice(-1)[0];
+  if (lastResponse.challengeResult === true) {
+    return allow(event);
+  }
+  return deny(event, "Failed to authenticate with FIDO2 Step-Up");
+}
+
+function handleFido2TransactionResponse(
+  event: DefineAuthChallengeTriggerEvent
+) {
+  logger.info("Checking Fido2 transaction signing ...");
+  const lastResponse = event.request.session.slice(-1)[0];
+  if (
+    lastResponse.challengeResult === true &&
+    lastResponse.challengeMetadata === "FIDO2_TRANSACTION"
+  ) {
+    return completeFactor(event);
+  } else if (countAttempts(event) === 0) {
+    logger.info("No transaction challenge yet, creating one");
+    return customChallenge(event);
+  }
+  return deny(event, "Failed to sign transaction with FIDO2");
+}
+
+async function handleRecoveryCodeResponse(
+  event: DefineAuthChallengeTriggerEvent
+) {
+  logger.info("Checking Recovery Code Auth ...");
+  const lastResponse = event.request.session.slice(-1)[0];
+  if (lastResponse.challengeResult === true) {
+    await completeFactor(event);
+    // The recovery code is consumed when tokens are issued (see Pre Token Generation), which only sees the last factor
+    if (!event.response.issueTokens && !event.response.failAuthentication) {
+      return deny(
+        event,
+        "A recovery code must be the last factor of a multi-factor sign-in"
+      );
+    }
+    return;
+  }
+  return deny(event, "Failed to authenticate with recovery code");
+}
+
+/**
+ * The user completed the current factor: issue tokens, unless the multi-factor policy requires more factors,
+ * in which case the next factor starts with a new PROVIDE_AUTH_PARAMETERS challenge (see Create Auth Challenge)
+ */
+async function completeFactor(event: DefineAuthChallengeTriggerEvent) {
+  const chains = await multiFactor.determineChains(event);
+  if (!chains) {
+    return allow(event);
+  }
+  const factorsCompleted = multiFactor.determineFactorsCompleted(event);
+  const nextSignInMethods = multiFactor.determineNextSignInMethods(
+    chains,
+    factorsCompleted
+  );
+  if (!nextSignInMethods) {
+    return deny(
+      event,
+      `Factors completed not allowed by multi-factor policy: ${factorsCompleted.join(", ")}`
+    );
+  } else if (!nextSignInMethods.length) {
+    return allow(event);
+  }
+  logger.info(
+    `Factors completed: ${factorsCompleted.join(", ")}, next factor: ${nextSignInMethods.join(" or ")}`
+  );
+  return customChallenge(event);
+}
+
+async function deny(event: DefineAuthChallengeTriggerEvent, reason: string) {
   logger.info("Failing authentication because:", reason);
   event.response.issueTokens = false;
   event.response.failAuthentication = true;
+  await emitAuditEvent({
+    eventType: "AUTHENTICATION_DENIED",
+    ...auditContextFromTriggerEvent(event),
+    reason,
+  });
   logger.debug(JSON.stringify(event, null, 2));
   return event;
 }
 
-function allow(event: DefineAuthChallengeTriggerEvent) {
+async function allow(event: DefineAuthChallengeTriggerEvent) {
   logger.info("Authentication successfull");
   event.response.issueTokens = true;
   event.response.failAuthentication = false;
+  await emitAuditEvent({
+    eventType: "AUTHENTICATION_ALLOWED",
+    ...auditContextFromTriggerEvent(event),
+  });
   logger.debug(JSON.stringify(event, null, 2));
   return event;
 }
@@ -118,7 +314,13 @@ function countAttempts(
   excludeProvideAuthParameters = true
 ) {
   if (!excludeProvideAuthParameters) return event.request.session.length;
-  return event.request.session.filter(
-    (entry) => entry.challengeMetadata !== "PROVIDE_AUTH_PARAMETERS"
-  ).length;
+  // Only count the attempts for the current factor, i.e. since the last PROVIDE_AUTH_PARAMETERS challenge,
+  // as each factor of a multi-factor sign-in starts with one
+  const { session } = event.request;
+  const lastFactorStart = session
+    .map((entry) =>
+      multiFactor.isProvideAuthParametersChallenge(entry.challengeMetadata)
+    )
+    .lastIndexOf(true);
+  return session.length - 1 - lastFactorStart;
 }
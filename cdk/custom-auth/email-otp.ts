@@ -0,0 +1,205 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { randomInt } from "crypto";
+import {
+  CreateAuthChallengeTriggerEvent,
+  VerifyAuthChallengeResponseTriggerEvent,
+} from "aws-lambda";
+import {
+  logger,
+  UserFacingError,
+  emailSenderFromEnvironment,
+  secretCodeMatches,
+} from "./common.js";
+import { determineLocale, renderEmailContent } from "./templates.js";
+
+let config = {
+  /** Should E-mail OTP sign-in be enabled? If set to false, clients cannot sign-in with E-mail OTP (an error is shown instead when they request an OTP e-mail) */
+  emailOtpEnabled: !!process.env.EMAIL_OTP_ENABLED,
+  /** The length of the OTP */
+  secretCodeLength: process.env.EMAIL_OTP_LENGTH
+    ? Number(process.env.EMAIL_OTP_LENGTH)
+    : 6,
+  /** Number of seconds an OTP should be valid */
+  secondsUntilExpiry: Number(
+    process.env.EMAIL_OTP_SECONDS_UNTIL_EXPIRY || 60 * 5
+  ),
+  /** The e-mail address that OTP e-mails will be sent from */
+  sesFromAddress: process.env.EMAIL_OTP_SES_FROM_ADDRESS,
+  /** The sender of the OTP e-mails, e.g. via Amazon SES (default) or SMTP. Override this to e.g. use another e-mail provider */
+  emailSender: emailSenderFromEnvironment({
+    sesRegion: process.env.EMAIL_OTP_SES_REGION,
+  }),
+  /** Function to mask the e-mail address that will be visible in the public challenge parameters */
+  emailMasker: maskEmailAddress,
+  /** Function to create the content of the OTP e-mails, override to e.g. use a custom e-mail template */
+  contentCreator: createEmailContent,
+};
+
+function requireConfig<K extends keyof typeof config>(
+  k: K
+): NonNullable<(typeof config)[K]> {
+  // eslint-disable-next-line security/detect-object-injection
+  const value = config[k];
+  if (value === undefined) throw new Error(`Missing configuration for: ${k}`);
+  return value;
+}
+
+export function configure(update?: Partial<typeof config>) {
+  config = { ...config, ...update };
+  return config;
+}
+
+export async function addChallengeToEvent(
+  event: CreateAuthChallengeTriggerEvent
+) {
+  if (!config.emailOtpEnabled)
+    throw new UserFacingError("Sign-in with E-mail OTP not supported");
+
+  logger.info("Adding E-mail OTP challenge to event ...");
+  const { emailAddress, secretCode, exp } = await createChallenge(event);
+
+  // This is sent back to the client app
+  event.response.publicChallengeParameters = {
+    email: config.emailMasker(emailAddress),
+  };
+
+  // Add the secret login code to the private challenge parameters
+  // so it can be verified by the "Verify Auth Challenge Response" trigger
+  event.response.privateChallengeParameters = {
+    secretCode,
+    exp: exp.toString(),
+  };
+
+  // Add the secret login code to the session so it is available
+  // in a next invocation of the "Create Auth Challenge" trigger
+  event.response.challengeMetadata = `EMAIL-OTP-CODE-${secretCode}-EXP-${exp}`;
+}
+
+async function createChallenge(event: CreateAuthChallengeTriggerEvent) {
+  logger.info("Creating E-mail OTP challenge ...");
+  let emailAddress =
+    event.request.userAttributes.email_verified === "true"
+      ? event.request.userAttributes.email
+      : undefined;
+  // The event.request.userNotFound is only present in the Lambda trigger if "Prevent user existence errors" is checked
+  // in the Cognito app client. If it is *not* checked, the client receives the error, which potentially allows for
+  // user enumeration. Additional guardrails are advisable.
+  if (event.request.userNotFound) {
+    logger.info("User not found");
+    emailAddress = event.userName.includes("@")
+      ? event.userName
+      : `${Buffer.from(event.userName).toString("hex").slice(0, 10)}@example.com`;
+  }
+  if (!emailAddress) {
+    throw new UserFacingError("User has no (verified) e-mail address");
+  }
+
+  // If we already sent a secret code in this auth flow instance, re-use it.
+  // This allows the user to make a mistake when keying in the code and to then retry,
+  // rather then needing to send the user an all new code again.
+  const previousChallenge = event.request.session.slice(-1)[0];
+  const previousCode = previousChallenge.challengeMetadata?.match(
+    /EMAIL-OTP-CODE-(\d+)-EXP-(\d+)/
+  );
+
+  let secretCode: string;
+  let exp: number;
+  if (!previousCode) {
+    logger.info(
+      "E-mail OTP has not been sent yet, generating and sending one ..."
+    );
+    secretCode = [...new Array<unknown>(requireConfig("secretCodeLength"))]
+      .map(() => randomInt(0, 10))
+      .join("");
+    exp = Math.floor(Date.now() / 1000 + config.secondsUntilExpiry);
+    if (event.request.userNotFound) {
+      logger.debug("Pretending to send E-mail OTP ...");
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * 200));
+    } else {
+      await config.emailSender.sendEmail({
+        fromAddress: requireConfig("sesFromAddress"),
+        toAddress: emailAddress,
+        content: await config.contentCreator.call(undefined, {
+          secretCode,
+          userAttributes: event.request.userAttributes,
+          clientMetadata: event.request.clientMetadata,
+        }),
+      });
+    }
+  } else {
+    logger.info("Will re-use prior OTP code (user made a typo?)");
+    secretCode = previousCode[1];
+    exp = Number(previousCode[2]);
+  }
+  return {
+    emailAddress,
+    secretCode,
+    exp,
+  };
+}
+
+async function createEmailContent({
+  secretCode,
+  userAttributes,
+  clientMetadata,
+}: {
+  secretCode: string;
+  userAttributes: { [name: string]: string };
+  clientMetadata?: { [key: string]: string };
+}) {
+  return renderEmailContent("email-otp", {
+    locale: determineLocale({ clientMetadata, userAttributes }),
+    variables: {
+      secretCode,
+      minutesValid: Math.floor(config.secondsUntilExpiry / 60),
+      userAttributes,
+    },
+  });
+}
+
+export async function addChallengeVerificationResultToEvent(
+  event: VerifyAuthChallengeResponseTriggerEvent
+) {
+  logger.info("Verifying E-mail OTP Challenge Response ...");
+  if (event.request.userNotFound) {
+    logger.info("User not found");
+  }
+  if (!config.emailOtpEnabled)
+    throw new UserFacingError("Sign-in with E-mail OTP not supported");
+  if (
+    event.request.privateChallengeParameters.challenge ===
+    "PROVIDE_AUTH_PARAMETERS"
+  )
+    return;
+  const { secretCode, exp } = event.request.privateChallengeParameters;
+  if (!exp || Number(exp) < Date.now() / 1000) {
+    logger.error("E-mail OTP expired");
+    event.response.answerCorrect = false;
+    return;
+  }
+  event.response.answerCorrect = secretCodeMatches(
+    secretCode,
+    event.request.challengeAnswer
+  );
+}
+
+function maskEmailAddress(emailAddress: string) {
+  const [local, domain] = emailAddress.split("@");
+  const show = local.length < 4 ? 1 : 2;
+  return `${local.slice(0, show)}${new Array(local.length - show)
+    .fill("*")
+    .join("")}@${domain}`;
+}
@@ -0,0 +1,335 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { APIGatewayProxyEvent, APIGatewayProxyHandler } from "aws-lambda";
+import { LambdaClient, InvokeCommand } from "@aws-sdk/client-lambda";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  QueryCommand,
+  DeleteCommand,
+} from "@aws-sdk/lib-dynamodb";
+import {
+  CognitoIdentityProviderClient,
+  AdminGetUserCommand,
+  UserNotFoundException,
+} from "@aws-sdk/client-cognito-identity-provider";
+import {
+  determineUserHandle,
+  logger,
+  UserFacingError,
+  withCommonHeaders,
+} from "./common.js";
+import { NotificationPayload } from "./fido2-notification.js";
+import { emitAuditEvent } from "./audit.js";
+
+const ddbDocClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const lambdaClient = new LambdaClient({});
+const cognito = new CognitoIdentityProviderClient({});
+
+let config = {
+  /** The DynamoDB table with FIDO2 credentials */
+  dynamoDbAuthenticatorsTableName: process.env.DYNAMODB_AUTHENTICATORS_TABLE,
+  /** The User Pool ID */
+  userPoolId: process.env.USER_POOL_ID,
+  /**
+   * How callers are authorized:
+   * - "COGNITO_GROUP" (default): the caller must be a member of `adminGroupName` (per the claims of the JWT that was verified by the Cognito authorizer)
+   * - "IAM": API Gateway authorized the caller already (with IAM)
+   */
+  authorizationType: (process.env.ADMIN_AUTHORIZATION_TYPE ||
+    "COGNITO_GROUP") as "COGNITO_GROUP" | "IAM",
+  /** The Cognito group that admins must be a member of, if `authorizationType` is "COGNITO_GROUP" */
+  adminGroupName: process.env.ADMIN_GROUP_NAME || undefined,
+  /** The ARN of the Lambda function that sends notifications to users. If not set, no notification is sent upon deletion of credentials */
+  notificationLambdaArn: process.env.FIDO2_NOTIFICATION_LAMBDA_ARN || undefined,
+};
+
+function requireConfig<K extends keyof typeof config>(
+  k: K
+): NonNullable<(typeof config)[K]> {
+  // eslint-disable-next-line security/detect-object-injection
+  const value = config[k];
+  if (value === undefined) throw new Error(`Missing configuration for: ${k}`);
+  return value;
+}
+
+export function configure(update?: Partial<typeof config>) {
+  config = { ...config, ...update };
+  return config;
+}
+
+interface StoredCredential {
+  credentialId: number[];
+  friendlyName: string;
+  createdAt: string;
+  lastSignIn?: string;
+  signCount: number;
+  rpId: string;
+  aaguid: number[];
+  transports?: string[];
+}
+
+const _handler: APIGatewayProxyHandler = async (event) => {
+  logger.debug(JSON.stringify(event, null, 2));
+  logger.info("FIDO2 admin API invocation:", event.path);
+  try {
+    if (!isAdmin(event)) {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({ message: "Forbidden" }),
+      };
+    }
+    if (event.path === "/admin/authenticators/list") {
+      const { username } = parseBody(event.body, ["username"]);
+      const user = await getUser(username);
+      logger.info("Listing authenticators of user:", user.cognitoUsername);
+      const authenticators = await getCredentialsForUser(user);
+      return {
+        statusCode: 200,
+        body: JSON.stringify({
+          authenticators: authenticators.map((credential) => ({
+            credentialId: Buffer.from(credential.credentialId).toString(
+              "base64url"
+            ),
+            friendlyName: credential.friendlyName,
+            createdAt: credential.createdAt,
+            lastSignIn: credential.lastSignIn,
+            signCount: credential.signCount,
+            rpId: credential.rpId,
+            aaguid: Buffer.from(credential.aaguid).toString("base64url"),
+            transports: credential.transports,
+          })),
+        }),
+      };
+    } else if (event.path === "/admin/authenticators/delete") {
+      const { username, credentialId } = parseBody(event.body, [
+        "username",
+        "credentialId",
+      ]);
+      const user = await getUser(username);
+      logger.info("Deleting authenticator of user:", user.cognitoUsername);
+      const deleted = await deleteCredential({ ...user, credentialId });
+      if (!deleted) {
+        throw new UserFacingError("Credential not found");
+      }
+      await afterCredentialsDeleted(event, user, [deleted]);
+      return { statusCode: 204, body: "" };
+    } else if (event.path === "/admin/authenticators/delete-all") {
+      const { username } = parseBody(event.body, ["username"]);
+      const user = await getUser(username);
+      logger.info("Deleting all authenticators of user:", user.cognitoUsername);
+      const credentials = await getCredentialsForUser(user);
+      const deleted = await Promise.all(
+        credentials.map((credential) =>
+          deleteCredential({
+            ...user,
+            credentialId: Buffer.from(credential.credentialId).toString(
+              "base64url"
+            ),
+          })
+        )
+      );
+      await afterCredentialsDeleted(
+        event,
+        user,
+        deleted.filter((c): c is StoredCredential => !!c)
+      );
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ deleted: deleted.filter(Boolean).length }),
+      };
+    }
+    return {
+      statusCode: 404,
+      body: JSON.stringify({ message: "Not found" }),
+    };
+  } catch (err) {
+    logger.error(err);
+    if (err instanceof UserFacingError)
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ message: err.message }),
+      };
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: "Internal Server Error" }),
+    };
+  }
+};
+export const handler = withCommonHeaders(_handler);
+
+/**
+ * With authorization type "IAM", API Gateway is trusted to have authorized the caller already.
+ * With "COGNITO_GROUP", the caller must be a member of the admin group (per the claims of the JWT that was verified by the Cognito authorizer).
+ * Anything else, e.g. a missing admin group, is denied
+ */
+function isAdmin(event: APIGatewayProxyEvent) {
+  if (config.authorizationType === "IAM") return true;
+  if (config.authorizationType !== "COGNITO_GROUP") {
+    logger.error("Unsupported authorization type:", config.authorizationType);
+    return false;
+  }
+  if (!config.adminGroupName) {
+    logger.error("No admin group configured, denying access");
+    return false;
+  }
+  const claims = event.requestContext.authorizer?.claims as
+    | Record<string, string>
+    | undefined;
+  // API Gateway passes the groups as a string, e.g. "admins,helpdesk" or "[admins helpdesk]"
+  const groups = (claims?.["cognito:groups"] ?? "")
+    .replace(/[[\]]/g, "")
+    .split(/[\s,]+/);
+  if (!groups.includes(config.adminGroupName)) {
+    logger.info(
+      "Caller is not a member of admin group:",
+      config.adminGroupName
+    );
+    return false;
+  }
+  return true;
+}
+
+async function getUser(username: string) {
+  const user = await cognito
+    .send(
+      new AdminGetUserCommand({
+        UserPoolId: requireConfig("userPoolId"),
+        Username: username,
+      })
+    )
+    .catch((err) => {
+      if (err instanceof UserNotFoundException) {
+        throw new UserFacingError("User not found");
+      }
+      throw err;
+    });
+  const sub = user.UserAttributes?.find((a) => a.Name === "sub")?.Value;
+  if (!sub || !user.Username) {
+    throw new Error("Unable to determine sub and username of user");
+  }
+  return {
+    cognitoUsername: user.Username,
+    userId: determineUserHandle({ sub, cognitoUsername: user.Username }),
+  };
+}
+
+async function getCredentialsForUser({ userId }: { userId: string }) {
+  const credentials: StoredCredential[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined = undefined;
+  do {
+    const { Items, LastEvaluatedKey } = await ddbDocClient.send(
+      new QueryCommand({
+        TableName: requireConfig("dynamoDbAuthenticatorsTableName"),
+        KeyConditionExpression: "#pk = :pk AND begins_with(#sk, :sk)",
+        ProjectionExpression:
+          "createdAt,credentialId,friendlyName,lastSignIn,signCount,transports,aaguid,rpId",
+        ExpressionAttributeNames: { "#pk": "pk", "#sk": "sk" },
+        ExpressionAttributeValues: {
+          ":pk": `USER#${userId}`,
+          ":sk": "CREDENTIAL#",
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+    credentials.push(...((Items ?? []) as StoredCredential[]));
+    exclusiveStartKey = LastEvaluatedKey as Record<string, unknown>;
+  } while (exclusiveStartKey);
+  return credentials;
+}
+
+async function deleteCredential({
+  userId,
+  credentialId,
+}: {
+  userId: string;
+  credentialId: string;
+}) {
+  const { Attributes: credential } = await ddbDocClient.send(
+    new DeleteCommand({
+      TableName: requireConfig("dynamoDbAuthenticatorsTableName"),
+      Key: {
+        pk: `USER#${userId}`,
+        sk: `CREDENTIAL#${credentialId}`,
+      },
+      ReturnValues: "ALL_OLD",
+    })
+  );
+  return credential as StoredCredential | undefined;
+}
+
+async function afterCredentialsDeleted(
+  event: APIGatewayProxyEvent,
+  { cognitoUsername }: { cognitoUsername: string },
+  credentials: StoredCredential[]
+) {
+  for (const credential of credentials) {
+    await emitAuditEvent({
+      eventType: "CREDENTIAL_DELETED",
+      username: cognitoUsername,
+      signInMethod: "FIDO2",
+      reason: "Deleted by admin",
+      sourceIp: event.requestContext.identity.sourceIp,
+      userAgent: event.requestContext.identity.userAgent ?? undefined,
+    });
+    if (config.notificationLambdaArn) {
+      await enqueueNotification({
+        userPoolId: requireConfig("userPoolId"),
+        cognitoUsername,
+        eventType: "FIDO2_CREDENTIAL_DELETED",
+        friendlyName: credential.friendlyName,
+      });
+    }
+  }
+}
+
+async function enqueueNotification(payload: NotificationPayload) {
+  try {
+    await lambdaClient.send(
+      new InvokeCommand({
+        FunctionName: requireConfig("notificationLambdaArn"),
+        InvocationType: "Event",
+        Payload: JSON.stringify(payload),
+      })
+    );
+    logger.info("Successfully enqueued notification to user");
+  } catch (error) {
+    // Since the notification is best effort, we'll log but otherwise swallow the error
+    logger.error("Failed to enqueue notification to user:", error);
+  }
+}
+
+function parseBody<K extends string>(body: string | null, keys: K[]) {
+  try {
+    const parsed: unknown = JSON.parse(body ?? "{}");
+    if (!parsed || typeof parsed !== "object") {
+      throw new Error("Expected object");
+    }
+    const res = {} as Record<K, string>;
+    for (const k of keys) {
+      // eslint-disable-next-line security/detect-object-injection
+      const v: unknown = (parsed as Record<string, unknown>)[k];
+      if (typeof v !== "string" || !v) {
+        throw new Error(`Expected non-empty string for: ${k}`);
+      }
+      // eslint-disable-next-line security/detect-object-injection
+      res[k] = v;
+    }
+    return res;
+  } catch (err) {
+    logger.error(err);
+    throw new UserFacingError("Invalid request");
+  }
+}
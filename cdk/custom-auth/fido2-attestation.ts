@@ -0,0 +1,902 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import {
+  X509Certificate,
+  KeyObject,
+  constants,
+  createHash,
+  createPublicKey,
+  verify,
+} from "crypto";
+import { logger, UserFacingError } from "./common.js";
+
+let config = {
+  /** The root certificates that attestation certificate chains are validated against */
+  trustAnchors: parsePemCertificates(process.env.ATTESTATION_TRUST_ANCHORS),
+  /** Should registration of authenticators fail, if their attestation does not chain up to one of the trust anchors? */
+  requireTrustedAttestation: !!process.env.ATTESTATION_REQUIRE_TRUSTED,
+};
+
+export function configure(update?: Partial<typeof config>) {
+  config = { ...config, ...update };
+  return config;
+}
+
+/** See https://www.w3.org/TR/webauthn-2/#sctn-attestation-types */
+export type AttestationType = "None" | "Self" | "Basic" | "AttCA" | "AnonCA";
+
+export interface AttestationVerificationResult {
+  /** The attestation statement format, e.g. "packed" */
+  fmt: string;
+  attestationType: AttestationType;
+  /** The attestation certificate chain (DER encoded), leaf certificate first */
+  trustPath: Buffer[];
+  /** Does the trust path chain up to one of the configured trust anchors? */
+  trusted: boolean;
+}
+
+interface CredentialPublicKeyJwk {
+  alg?: string;
+  kty?: string;
+  crv?: string;
+  x?: string;
+  y?: string;
+  n?: string;
+  e?: string;
+}
+
+/**
+ * Verify the attestation statement of a newly created credential,
+ * per https://www.w3.org/TR/webauthn-2/#sctn-registering-a-new-credential (steps 19-21)
+ */
+export function verifyAttestation({
+  fmt,
+  attStmt,
+  authData,
+  clientDataHash,
+  rpIdHash,
+  aaguid,
+  credentialId,
+  credentialPublicKey,
+}: {
+  fmt: string;
+  attStmt: Record<string, unknown>;
+  /** The raw authenticator data */
+  authData: Buffer;
+  clientDataHash: Buffer;
+  rpIdHash: Buffer;
+  aaguid: Buffer;
+  credentialId: Buffer;
+  credentialPublicKey: CredentialPublicKeyJwk;
+}): AttestationVerificationResult {
+  logger.info(`Verifying attestation statement of format: ${fmt}`);
+  const attToBeSigned = Buffer.concat([authData, clientDataHash]);
+  let result: { attestationType: AttestationType; trustPath: Buffer[] };
+  try {
+    if (fmt === "none") {
+      result = verifyNoneAttestation(attStmt);
+    } else if (fmt === "packed") {
+      result = verifyPackedAttestation({
+        attStmt,
+        attToBeSigned,
+        aaguid,
+        credentialPublicKey,
+      });
+    } else if (fmt === "fido-u2f") {
+      result = verifyFidoU2fAttestation({
+        attStmt,
+        clientDataHash,
+        rpIdHash,
+        credentialId,
+        credentialPublicKey,
+      });
+    } else if (fmt === "android-key") {
+      result = verifyAndroidKeyAttestation({
+        attStmt,
+        attToBeSigned,
+        clientDataHash,
+        credentialPublicKey,
+      });
+    } else if (fmt === "apple") {
+      result = verifyAppleAttestation({
+        attStmt,
+        attToBeSigned,
+        credentialPublicKey,
+      });
+    } else if (fmt === "tpm") {
+      result = verifyTpmAttestation({
+        attStmt,
+        attToBeSigned,
+        aaguid,
+        credentialPublicKey,
+      });
+    } else {
+      throw new Error(`Unsupported attestation format: ${fmt}`);
+    }
+  } catch (err) {
+    logger.error(err);
+    throw new UserFacingError("Invalid attestation");
+  }
+  const trusted = isTrustedPath(result.trustPath);
+  logger.info(
+    `Attestation verified: type ${result.attestationType}, trusted: ${trusted}`
+  );
+  if (config.requireTrustedAttestation && !trusted) {
+    throw new UserFacingError("Untrusted attestation");
+  }
+  return { fmt, ...result, trusted };
+}
+
+function verifyNoneAttestation(attStmt: Record<string, unknown>) {
+  if (Object.keys(attStmt).length) {
+    throw new Error("Attestation statement of format none must be empty");
+  }
+  return { attestationType: "None" as const, trustPath: [] };
+}
+
+/**
+ * See https://www.w3.org/TR/webauthn-2/#sctn-packed-attestation
+ *
+ * Packed attestation with an attestation certificate may be of type Basic or AttCA: the attestation statement is the same for both.
+ * Only the authenticator's metadata statement tells them apart, so we report Basic (the trust path is verified the same way)
+ */
+function verifyPackedAttestation({
+  attStmt,
+  attToBeSigned,
+  aaguid,
+  credentialPublicKey,
+}: {
+  attStmt: Record<string, unknown>;
+  attToBeSigned: Buffer;
+  aaguid: Buffer;
+  credentialPublicKey: CredentialPublicKeyJwk;
+}) {
+  const alg = getNumber(attStmt, "alg");
+  const sig = getBuffer(attStmt, "sig");
+  if (!("x5c" in attStmt)) {
+    // Self attestation: signed with the credential private key itself
+    if (COSE_ALGORITHM_NAMES.get(alg) !== credentialPublicKey.alg) {
+      throw new Error("Self attestation alg does not match credential alg");
+    }
+    if (
+      !verifySignature({
+        alg,
+        data: attToBeSigned,
+        signature: sig,
+        publicKey: credentialPublicKeyToKeyObject(credentialPublicKey),
+      })
+    ) {
+      throw new Error("Invalid self attestation signature");
+    }
+    return { attestationType: "Self" as const, trustPath: [] };
+  }
+  const x5c = getCertificates(attStmt);
+  const [attestnCert] = x5c;
+  if (
+    !verifySignature({
+      alg,
+      data: attToBeSigned,
+      signature: sig,
+      publicKey: attestnCert.publicKey,
+    })
+  ) {
+    throw new Error("Invalid packed attestation signature");
+  }
+  // See https://www.w3.org/TR/webauthn-2/#sctn-packed-attestation-cert-requirements
+  const { version, extensions } = parseCertificate(attestnCert);
+  if (version !== 3) {
+    throw new Error("Attestation certificate must be version 3");
+  }
+  const subject = parseDistinguishedName(attestnCert.subject);
+  if (
+    !subject.get("C") ||
+    !subject.get("O") ||
+    !subject.get("CN") ||
+    subject.get("OU") !== "Authenticator Attestation"
+  ) {
+    throw new Error(
+      `Invalid attestation certificate subject: ${attestnCert.subject}`
+    );
+  }
+  if (attestnCert.ca) {
+    throw new Error("Attestation certificate must not be a CA certificate");
+  }
+  assertAaguidExtensionMatches(extensions, aaguid);
+  return {
+    attestationType: "Basic" as const,
+    trustPath: x5c.map((cert) => cert.raw),
+  };
+}
+
+/** See https://www.w3.org/TR/webauthn-2/#sctn-fido-u2f-attestation */
+function verifyFidoU2fAttestation({
+  attStmt,
+  clientDataHash,
+  rpIdHash,
+  credentialId,
+  credentialPublicKey,
+}: {
+  attStmt: Record<string, unknown>;
+  clientDataHash: Buffer;
+  rpIdHash: Buffer;
+  credentialId: Buffer;
+  credentialPublicKey: CredentialPublicKeyJwk;
+}) {
+  const sig = getBuffer(attStmt, "sig");
+  const x5c = getCertificates(attStmt);
+  if (x5c.length !== 1) {
+    throw new Error("FIDO U2F attestation must have exactly 1 certificate");
+  }
+  const [attCert] = x5c;
+  if (
+    attCert.publicKey.asymmetricKeyType !== "ec" ||
+    attCert.publicKey.asymmetricKeyDetails?.namedCurve !== "prime256v1"
+  ) {
+    throw new Error("FIDO U2F attestation certificate must use EC P-256");
+  }
+  if (
+    credentialPublicKey.crv !== "P-256" ||
+    !credentialPublicKey.x ||
+    !credentialPublicKey.y
+  ) {
+    throw new Error("FIDO U2F credential public key must be EC P-256");
+  }
+  const publicKeyU2F = Buffer.concat([
+    Buffer.from([0x04]),
+    Buffer.from(credentialPublicKey.x, "base64url"),
+    Buffer.from(credentialPublicKey.y, "base64url"),
+  ]);
+  const verificationData = Buffer.concat([
+    Buffer.from([0x00]),
+    rpIdHash,
+    clientDataHash,
+    credentialId,
+    publicKeyU2F,
+  ]);
+  if (
+    !verifySignature({
+      alg: -7,
+      data: verificationData,
+      signature: sig,
+      publicKey: attCert.publicKey,
+    })
+  ) {
+    throw new Error("Invalid FIDO U2F attestation signature");
+  }
+  return {
+    attestationType: "Basic" as const,
+    trustPath: x5c.map((cert) => cert.raw),
+  };
+}
+
+/** See https://www.w3.org/TR/webauthn-2/#sctn-android-key-attestation */
+function verifyAndroidKeyAttestation({
+  attStmt,
+  attToBeSigned,
+  clientDataHash,
+  credentialPublicKey,
+}: {
+  attStmt: Record<string, unknown>;
+  attToBeSigned: Buffer;
+  clientDataHash: Buffer;
+  credentialPublicKey: CredentialPublicKeyJwk;
+}) {
+  const alg = getNumber(attStmt, "alg");
+  const sig = getBuffer(attStmt, "sig");
+  const x5c = getCertificates(attStmt);
+  const [credCert] = x5c;
+  if (
+    !verifySignature({
+      alg,
+      data: attToBeSigned,
+      signature: sig,
+      publicKey: credCert.publicKey,
+    })
+  ) {
+    throw new Error("Invalid Android Key attestation signature");
+  }
+  assertPublicKeysMatch(credCert.publicKey, credentialPublicKey);
+  const { extensions } = parseCertificate(credCert);
+  const keyDescriptionExtension = extensions.get(OID_ANDROID_KEY_DESCRIPTION);
+  if (!keyDescriptionExtension) {
+    throw new Error("Missing Android Key attestation extension");
+  }
+  // KeyDescription ::= SEQUENCE { attestationVersion, attestationSecurityLevel, keymasterVersion,
+  //   keymasterSecurityLevel, attestationChallenge, uniqueId, softwareEnforced, teeEnforced }
+  const keyDescription = readDerChildren(
+    readDerElement(keyDescriptionExtension.value).element.value
+  );
+  if (keyDescription.length < 8) {
+    throw new Error("Invalid Android Key attestation extension");
+  }
+  const attestationChallenge = keyDescription[4].value;
+  if (!attestationChallenge.equals(clientDataHash)) {
+    throw new Error("Android Key attestation challenge mismatch");
+  }
+  const softwareEnforced = parseAuthorizationList(keyDescription[6]);
+  const teeEnforced = parseAuthorizationList(keyDescription[7]);
+  if (
+    softwareEnforced.has(KM_TAG_ALL_APPLICATIONS) ||
+    teeEnforced.has(KM_TAG_ALL_APPLICATIONS)
+  ) {
+    throw new Error("Android Key must not be scoped to all applications");
+  }
+  const origin =
+    teeEnforced.get(KM_TAG_ORIGIN) ?? softwareEnforced.get(KM_TAG_ORIGIN);
+  if (!origin || readDerInteger(origin) !== KM_ORIGIN_GENERATED) {
+    throw new Error("Android Key must have been generated on the device");
+  }
+  const purpose =
+    teeEnforced.get(KM_TAG_PURPOSE) ?? softwareEnforced.get(KM_TAG_PURPOSE);
+  if (
+    !purpose ||
+    !readDerChildren(purpose.value)
+      .map(readDerInteger)
+      .includes(KM_PURPOSE_SIGN)
+  ) {
+    throw new Error("Android Key must have purpose sign");
+  }
+  return {
+    attestationType: "Basic" as const,
+    trustPath: x5c.map((cert) => cert.raw),
+  };
+}
+
+/** See https://www.w3.org/TR/webauthn-2/#sctn-apple-anonymous-attestation */
+function verifyAppleAttestation({
+  attStmt,
+  attToBeSigned,
+  credentialPublicKey,
+}: {
+  attStmt: Record<string, unknown>;
+  attToBeSigned: Buffer;
+  credentialPublicKey: CredentialPublicKeyJwk;
+}) {
+  const x5c = getCertificates(attStmt);
+  const [credCert] = x5c;
+  const nonce = createHash("sha256").update(attToBeSigned).digest();
+  const { extensions } = parseCertificate(credCert);
+  const nonceExtension = extensions.get(OID_APPLE_NONCE);
+  if (!nonceExtension) {
+    throw new Error("Missing Apple attestation nonce extension");
+  }
+  // SEQUENCE { [1] EXPLICIT OCTET STRING }
+  const taggedNonce = readDerChildren(
+    readDerElement(nonceExtension.value).element.value
+  ).find((el) => el.tagClass === DER_CLASS_CONTEXT && el.tagNumber === 1);
+  if (
+    !taggedNonce ||
+    !readDerElement(taggedNonce.value).element.value.equals(nonce)
+  ) {
+    throw new Error("Apple attestation nonce mismatch");
+  }
+  assertPublicKeysMatch(credCert.publicKey, credentialPublicKey);
+  return {
+    attestationType: "AnonCA" as const,
+    trustPath: x5c.map((cert) => cert.raw),
+  };
+}
+
+/** See https://www.w3.org/TR/webauthn-2/#sctn-tpm-attestation */
+function verifyTpmAttestation({
+  attStmt,
+  attToBeSigned,
+  aaguid,
+  credentialPublicKey,
+}: {
+  attStmt: Record<string, unknown>;
+  attToBeSigned: Buffer;
+  aaguid: Buffer;
+  credentialPublicKey: CredentialPublicKeyJwk;
+}) {
+  if (attStmt.ver !== "2.0") {
+    throw new Error("Unsupported TPM version");
+  }
+  const alg = getNumber(attStmt, "alg");
+  const sig = getBuffer(attStmt, "sig");
+  const certInfo = getBuffer(attStmt, "certInfo");
+  const pubArea = getBuffer(attStmt, "pubArea");
+  const x5c = getCertificates(attStmt);
+  const [aikCert] = x5c;
+
+  // The key in pubArea must be the credential public key
+  const publicArea = parseTpmPublicArea(pubArea);
+  if (publicArea.type === TPM_ALG_RSA) {
+    const exponent = Buffer.alloc(4);
+    exponent.writeUInt32BE(publicArea.exponent || 65537);
+    if (
+      credentialPublicKey.kty !== "RSA" ||
+      !Buffer.from(credentialPublicKey.n ?? "", "base64url").equals(
+        publicArea.unique
+      ) ||
+      !Buffer.from(credentialPublicKey.e ?? "", "base64url").equals(
+        exponent.subarray(exponent.findIndex((b) => b !== 0))
+      )
+    ) {
+      throw new Error("TPM pubArea does not match credential public key");
+    }
+  } else {
+    if (
+      credentialPublicKey.kty !== "EC" ||
+      TPM_ECC_CURVES.get(publicArea.curveId) !== credentialPublicKey.crv ||
+      !Buffer.from(credentialPublicKey.x ?? "", "base64url").equals(
+        publicArea.x
+      ) ||
+      !Buffer.from(credentialPublicKey.y ?? "", "base64url").equals(
+        publicArea.y
+      )
+    ) {
+      throw new Error("TPM pubArea does not match credential public key");
+    }
+  }
+
+  // certInfo must attest to pubArea, and to the data to be signed
+  const attest = parseTpmCertInfo(certInfo);
+  if (attest.magic !== TPM_GENERATED_VALUE) {
+    throw new Error("Invalid TPM certInfo magic");
+  }
+  if (attest.type !== TPM_ST_ATTEST_CERTIFY) {
+    throw new Error("Invalid TPM certInfo type");
+  }
+  const algHash = COSE_ALGORITHMS.get(alg)?.hash;
+  if (!algHash) {
+    throw new Error(`Unsupported TPM attestation alg: ${alg}`);
+  }
+  if (
+    !attest.extraData.equals(createHash(algHash).update(attToBeSigned).digest())
+  ) {
+    throw new Error("TPM certInfo extraData mismatch");
+  }
+  const nameAlgHash = TPM_HASH_ALGORITHMS.get(
+    attest.attestedName.readUInt16BE(0)
+  );
+  if (
+    !nameAlgHash ||
+    !attest.attestedName
+      .subarray(2)
+      .equals(createHash(nameAlgHash).update(pubArea).digest())
+  ) {
+    throw new Error("TPM certInfo attested name mismatch");
+  }
+  if (
+    !verifySignature({
+      alg,
+      data: certInfo,
+      signature: sig,
+      publicKey: aikCert.publicKey,
+    })
+  ) {
+    throw new Error("Invalid TPM attestation signature");
+  }
+
+  // See https://www.w3.org/TR/webauthn-2/#sctn-tpm-cert-requirements
+  const { version, extensions } = parseCertificate(aikCert);
+  if (version !== 3) {
+    throw new Error("AIK certificate must be version 3");
+  }
+  if (aikCert.subject) {
+    throw new Error("AIK certificate subject must be empty");
+  }
+  if (!extensions.has(OID_SUBJECT_ALT_NAME)) {
+    throw new Error("AIK certificate must have a subject alternative name");
+  }
+  const extendedKeyUsage = extensions.get(OID_EXTENDED_KEY_USAGE);
+  if (
+    !extendedKeyUsage ||
+    !readDerChildren(readDerElement(extendedKeyUsage.value).element.value)
+      .map((el) => decodeOid(el.value))
+      .includes(OID_TCG_KP_AIK_CERTIFICATE)
+  ) {
+    throw new Error("AIK certificate must have the AIK extended key usage");
+  }
+  if (aikCert.ca) {
+    throw new Error("AIK certificate must not be a CA certificate");
+  }
+  assertAaguidExtensionMatches(extensions, aaguid);
+  return {
+    attestationType: "AttCA" as const,
+    trustPath: x5c.map((cert) => cert.raw),
+  };
+}
+
+/**
+ * Validate a certificate chain (leaf certificate first): each certificate must be issued by the next one,
+ * and the last one must be (issued by) one of the trust anchors
+ */
+export function isTrustedCertificateChain(
+  chain: X509Certificate[],
+  trustAnchors: X509Certificate[]
+) {
+  if (!chain.length || !trustAnchors.length) return false;
+  const now = new Date();
+  const isValidNow = (cert: X509Certificate) =>
+    new Date(cert.validFrom) <= now && now <= new Date(cert.validTo);
+  const isIssuedBy = (cert: X509Certificate, issuer: X509Certificate) =>
+    issuer.ca && cert.checkIssued(issuer) && cert.verify(issuer.publicKey);
+  for (const [index, cert] of chain.entries()) {
+    if (!isValidNow(cert)) {
+      logger.info(`Certificate not valid at this time: ${cert.subject}`);
+      return false;
+    }
+    const issuer = chain.at(index + 1);
+    if (issuer && !isIssuedBy(cert, issuer)) {
+      logger.info(`Certificate not issued by next one: ${cert.subject}`);
+      return false;
+    }
+  }
+  const last = chain.at(-1)!;
+  return trustAnchors.some(
+    (anchor) =>
+      isValidNow(anchor) &&
+      (anchor.raw.equals(last.raw) || isIssuedBy(last, anchor))
+  );
+}
+
+function isTrustedPath(trustPath: Buffer[]) {
+  try {
+    return isTrustedCertificateChain(
+      trustPath.map((der) => new X509Certificate(der)),
+      config.trustAnchors
+    );
+  } catch (err) {
+    logger.error(err);
+    return false;
+  }
+}
+
+export function parsePemCertificates(pem?: string) {
+  return (
+    pem?.match(/-----BEGIN CERTIFICATE-----[^-]+-----END CERTIFICATE-----/g) ??
+    []
+  ).map((cert) => new X509Certificate(cert));
+}
+
+const COSE_ALGORITHMS = new Map<number, { hash: string | null; pss?: true }>([
+  [-7, { hash: "sha256" }], // ES256
+  [-35, { hash: "sha384" }], // ES384
+  [-36, { hash: "sha512" }], // ES512
+  [-8, { hash: null }], // EdDSA
+  [-257, { hash: "sha256" }], // RS256
+  [-258, { hash: "sha384" }], // RS384
+  [-259, { hash: "sha512" }], // RS512
+  [-65535, { hash: "sha1" }], // RS1
+  [-37, { hash: "sha256", pss: true }], // PS256
+  [-38, { hash: "sha384", pss: true }], // PS384
+  [-39, { hash: "sha512", pss: true }], // PS512
+]);
+const COSE_ALGORITHM_NAMES = new Map([
+  [-7, "ES256"],
+  [-257, "RS256"],
+]);
+
+function verifySignature({
+  alg,
+  data,
+  signature,
+  publicKey,
+}: {
+  alg: number;
+  data: Buffer;
+  signature: Buffer;
+  publicKey: KeyObject;
+}) {
+  const algorithm = COSE_ALGORITHMS.get(alg);
+  if (!algorithm) {
+    throw new Error(`Unsupported attestation alg: ${alg}`);
+  }
+  return verify(
+    algorithm.hash,
+    data,
+    algorithm.pss
+      ? { key: publicKey, padding: constants.RSA_PKCS1_PSS_PADDING }
+      : publicKey,
+    signature
+  );
+}
+
+function credentialPublicKeyToKeyObject(jwk: CredentialPublicKeyJwk) {
+  const { kty, crv, x, y, n, e } = jwk;
+  return createPublicKey({
+    key: { kty, crv, x, y, n, e },
+    format: "jwk",
+  });
+}
+
+function assertPublicKeysMatch(
+  certPublicKey: KeyObject,
+  credentialPublicKey: CredentialPublicKeyJwk
+) {
+  const jwk = certPublicKey.export({ format: "jwk" });
+  if (
+    jwk.kty !== credentialPublicKey.kty ||
+    jwk.crv !== credentialPublicKey.crv ||
+    jwk.x !== credentialPublicKey.x ||
+    jwk.y !== credentialPublicKey.y ||
+    jwk.n !== credentialPublicKey.n ||
+    jwk.e !== credentialPublicKey.e
+  ) {
+    throw new Error(
+      "Attestation certificate public key does not match credential public key"
+    );
+  }
+}
+
+function assertAaguidExtensionMatches(
+  extensions: Map<string, { critical: boolean; value: Buffer }>,
+  aaguid: Buffer
+) {
+  const aaguidExtension = extensions.get(OID_FIDO_GEN_CE_AAGUID);
+  if (!aaguidExtension) return;
+  if (aaguidExtension.critical) {
+    throw new Error("AAGUID extension must not be critical");
+  }
+  if (!readDerElement(aaguidExtension.value).element.value.equals(aaguid)) {
+    throw new Error("AAGUID extension does not match authenticator AAGUID");
+  }
+}
+
+function getNumber(attStmt: Record<string, unknown>, key: string) {
+  // eslint-disable-next-line security/detect-object-injection
+  const value = attStmt[key];
+  if (typeof value !== "number") {
+    throw new Error(`Invalid attestation statement ${key}`);
+  }
+  return value;
+}
+
+function getBuffer(attStmt: Record<string, unknown>, key: string) {
+  // eslint-disable-next-line security/detect-object-injection
+  const value = attStmt[key];
+  if (!Buffer.isBuffer(value)) {
+    throw new Error(`Invalid attestation statement ${key}`);
+  }
+  return value;
+}
+
+function getCertificates(attStmt: Record<string, unknown>) {
+  const x5c = attStmt.x5c;
+  if (
+    !Array.isArray(x5c) ||
+    !x5c.length ||
+    !x5c.every((cert) => Buffer.isBuffer(cert))
+  ) {
+    throw new Error("Invalid attestation statement x5c");
+  }
+  return (x5c as Buffer[]).map((cert) => new X509Certificate(cert));
+}
+
+function parseDistinguishedName(dn: string) {
+  return new Map(
+    dn.split("\n").map((rdn) => {
+      const separator = rdn.indexOf("=");
+      return [rdn.slice(0, separator), rdn.slice(separator + 1)] as const;
+    })
+  );
+}
+
+// Minimal DER decoding, just enough to read the certificate extensions needed for attestation verification
+
+const DER_CLASS_CONTEXT = 2;
+
+interface DerElement {
+  tagClass: number;
+  tagNumber: number;
+  value: Buffer;
+}
+
+function readDerElement(
+  der: Buffer,
+  offset = 0
+): { element: DerElement; end: number } {
+  let pos = offset;
+  const identifier = der.readUInt8(pos++);
+  const tagClass = identifier >>> 6;
+  let tagNumber = identifier & 0x1f;
+  if (tagNumber === 0x1f) {
+    // High tag number form
+    tagNumber = 0;
+    let b: number;
+    do {
+      b = der.readUInt8(pos++);
+      tagNumber = tagNumber * 128 + (b & 0x7f);
+    } while (b & 0x80);
+  }
+  let length = der.readUInt8(pos++);
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (!lengthBytes || lengthBytes > 4) {
+      throw new Error("Unsupported DER length");
+    }
+    length = der.readUIntBE(pos, lengthBytes);
+    pos += lengthBytes;
+  }
+  const end = pos + length;
+  if (end > der.length) {
+    throw new Error("DER element exceeds data");
+  }
+  return {
+    element: { tagClass, tagNumber, value: der.subarray(pos, end) },
+    end,
+  };
+}
+
+function readDerChildren(der: Buffer) {
+  const children: DerElement[] = [];
+  let pos = 0;
+  while (pos < der.length) {
+    const { element, end } = readDerElement(der, pos);
+    children.push(element);
+    pos = end;
+  }
+  return children;
+}
+
+function readDerInteger(element: DerElement) {
+  if (!element.value.length || element.value.length > 6) {
+    throw new Error("Unsupported DER integer");
+  }
+  return element.value.readUIntBE(0, element.value.length);
+}
+
+function decodeOid(value: Buffer) {
+  const first = value.readUInt8(0);
+  const arcs = [Math.floor(first / 40), first % 40];
+  let arc = 0;
+  for (const b of value.subarray(1)) {
+    arc = arc * 128 + (b & 0x7f);
+    if (!(b & 0x80)) {
+      arcs.push(arc);
+      arc = 0;
+    }
+  }
+  return arcs.join(".");
+}
+
+function parseCertificate(cert: X509Certificate) {
+  const [tbsCertificate] = readDerChildren(
+    readDerElement(cert.raw).element.value
+  );
+  const tbsFields = readDerChildren(tbsCertificate.value);
+  // version is [0] EXPLICIT INTEGER, absent for version 1
+  const [versionField] = tbsFields;
+  const version =
+    versionField.tagClass === DER_CLASS_CONTEXT && versionField.tagNumber === 0
+      ? readDerInteger(readDerElement(versionField.value).element) + 1
+      : 1;
+  const extensions = new Map<string, { critical: boolean; value: Buffer }>();
+  // extensions is [3] EXPLICIT SEQUENCE OF Extension
+  const extensionsField = tbsFields.find(
+    (field) => field.tagClass === DER_CLASS_CONTEXT && field.tagNumber === 3
+  );
+  if (extensionsField) {
+    for (const extension of readDerChildren(
+      readDerElement(extensionsField.value).element.value
+    )) {
+      const parts = readDerChildren(extension.value);
+      extensions.set(decodeOid(parts[0].value), {
+        critical: parts.length === 3 && parts[1].value.readUInt8(0) !== 0,
+        value: parts[parts.length - 1].value,
+      });
+    }
+  }
+  return { version, extensions };
+}
+
+/** Android KeyMaster AuthorizationList: tagged fields, EXPLICIT */
+function parseAuthorizationList(authorizationList: DerElement) {
+  return new Map(
+    readDerChildren(authorizationList.value).map((field) => [
+      field.tagNumber,
+      readDerElement(field.value).element,
+    ])
+  );
+}
+
+// TPM structures, see https://trustedcomputinggroup.org/resource/tpm-library-specification/ (part 2)
+
+function parseTpmPublicArea(pubArea: Buffer) {
+  const reader = new TpmReader(pubArea);
+  const type = reader.readUInt16();
+  reader.readUInt16(); // nameAlg
+  reader.readUInt32(); // objectAttributes
+  reader.readSized(); // authPolicy
+  if (type === TPM_ALG_RSA) {
+    reader.readUInt16(); // symmetric
+    reader.readUInt16(); // scheme
+    reader.readUInt16(); // keyBits
+    const exponent = reader.readUInt32();
+    const unique = reader.readSized();
+    return { type, exponent, unique } as const;
+  } else if (type === TPM_ALG_ECC) {
+    reader.readUInt16(); // symmetric
+    reader.readUInt16(); // scheme
+    const curveId = reader.readUInt16();
+    reader.readUInt16(); // kdf
+    const x = reader.readSized();
+    const y = reader.readSized();
+    return { type, curveId, x, y } as const;
+  }
+  throw new Error(`Unsupported TPM pubArea type: ${type}`);
+}
+
+function parseTpmCertInfo(certInfo: Buffer) {
+  const reader = new TpmReader(certInfo);
+  const magic = reader.readUInt32();
+  const type = reader.readUInt16();
+  reader.readSized(); // qualifiedSigner
+  const extraData = reader.readSized();
+  reader.skip(17); // clockInfo
+  reader.skip(8); // firmwareVersion
+  const attestedName = reader.readSized();
+  reader.readSized(); // attested qualifiedName
+  return { magic, type, extraData, attestedName };
+}
+
+class TpmReader {
+  private offset = 0;
+  constructor(private buffer: Buffer) {}
+  readUInt16() {
+    const value = this.buffer.readUInt16BE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+  readUInt32() {
+    const value = this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+  readSized() {
+    const size = this.readUInt16();
+    if (this.offset + size > this.buffer.length) {
+      throw new Error("TPM structure exceeds data");
+    }
+    const value = this.buffer.subarray(this.offset, this.offset + size);
+    this.offset += size;
+    return value;
+  }
+  skip(bytes: number) {
+    if (this.offset + bytes > this.buffer.length) {
+      throw new Error("TPM structure exceeds data");
+    }
+    this.offset += bytes;
+  }
+}
+
+const OID_FIDO_GEN_CE_AAGUID = "1.3.6.1.4.1.45724.1.1.4";
+const OID_ANDROID_KEY_DESCRIPTION = "1.3.6.1.4.1.11129.2.1.17";
+const OID_APPLE_NONCE = "1.2.840.113635.100.8.2";
+const OID_SUBJECT_ALT_NAME = "2.5.29.17";
+const OID_EXTENDED_KEY_USAGE = "2.5.29.37";
+const OID_TCG_KP_AIK_CERTIFICATE = "2.23.133.8.3";
+const KM_TAG_PURPOSE = 1;
+const KM_TAG_ALL_APPLICATIONS = 600;
+const KM_TAG_ORIGIN = 702;
+const KM_ORIGIN_GENERATED = 0;
+const KM_PURPOSE_SIGN = 2;
+const TPM_GENERATED_VALUE = 0xff544347;
+const TPM_ST_ATTEST_CERTIFY = 0x8017;
+const TPM_ALG_RSA = 0x0001;
+const TPM_ALG_ECC = 0x0023;
+const TPM_ECC_CURVES = new Map([
+  [0x0003, "P-256"],
+  [0x0004, "P-384"],
+  [0x0005, "P-521"],
+]);
+const TPM_HASH_ALGORITHMS = new Map([
+  [0x0004, "sha1"],
+  [0x000b, "sha256"],
+  [0x000c, "sha384"],
+  [0x000d, "sha512"],
+]);
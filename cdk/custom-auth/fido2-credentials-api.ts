@@ -36,6 +36,19 @@ import {
   isValidOrigin,
 } from "./common.js";
 import { NotificationPayload } from "./fido2-notification.js";
+import { emitAuditEvent } from "./audit.js";
+import {
+  generateRecoveryCodes,
+  haveRecoveryCodesBeenIssued,
+} from "./recovery-code.js";
+import {
+  verifyAttestation,
+  AttestationVerificationResult,
+} from "./fido2-attestation.js";
+import {
+  assertAuthenticatorIsAllowed,
+  getAuthenticatorMetadata,
+} from "./fido2-metadata.js";
 
 const ddbDocClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
   marshallOptions: {
@@ -63,6 +76,11 @@ const authenticatorRegistrationTimeout = Number(
   process.env.AUTHENTICATOR_REGISTRATION_TIMEOUT ?? "300000"
 );
 const notificationsEnabled = !!process.env.FIDO2_NOTIFICATION_LAMBDA_ARN;
+const recoveryCodesEnabled = !!process.env.RECOVERY_CODES_ENABLED;
+/** How recent (in seconds) the user's FIDO2 step-up must be, to generate new recovery codes */
+const recoveryCodesStepUpMaxAge = Number(
+  process.env.RECOVERY_CODES_STEP_UP_MAX_AGE ?? "300"
+);
 const allowedKty: Record<number, string> = { 2: "EC", 3: "RSA" };
 const allowedAlg: Record<number, string> = { "-7": "ES256", "-257": "RS256" };
 const headers = {
@@ -89,6 +107,7 @@ const _handler: APIGatewayProxyWithCognitoAuthorizerHandler = async (event) => {
       phone_number: phoneNumber,
       name,
       "cognito:username": cognitoUsername,
+      aud: clientId,
     } = event.requestContext.authorizer.claims;
     const userHandle = determineUserHandle({ sub, cognitoUsername });
     const userName = email ?? phoneNumber ?? name ?? cognitoUsername;
@@ -126,16 +145,34 @@ const _handler: APIGatewayProxyWithCognitoAuthorizerHandler = async (event) => {
         userHandle,
         parseBody(event)
       );
+      await emitAuditEvent({
+        eventType: "CREDENTIAL_REGISTERED",
+        username: cognitoUsername,
+        clientId,
+        signInMethod: "FIDO2",
+        sourceIp: event.requestContext.identity.sourceIp,
+        userAgent: event.requestContext.identity.userAgent ?? undefined,
+      });
       if (notificationsEnabled) {
         await enqueueFido2Notification({
+          userPoolId: process.env.COGNITO_USER_POOL_ID,
           cognitoUsername,
           eventType: "FIDO2_CREDENTIAL_CREATED",
           friendlyName: storedCredential.friendlyName,
         });
       }
+      // Upon registration of the user's first credential, generate recovery codes,
+      // so the user can still sign in if they lose their credentials.
+      // Only if the user never had codes: new codes otherwise require step-up (see /recovery-codes/generate)
+      const recoveryCodes =
+        recoveryCodesEnabled &&
+        (await isOnlyCredentialOfUser({ userId: userHandle })) &&
+        !(await haveRecoveryCodesBeenIssued({ userId: userHandle }))
+          ? await generateRecoveryCodes({ userId: userHandle })
+          : undefined;
       return {
         statusCode: 200,
-        body: JSON.stringify(storedCredential),
+        body: JSON.stringify({ ...storedCredential, recoveryCodes }),
         headers,
       };
     } else if (event.path === "/authenticators/list") {
@@ -147,10 +184,12 @@ const _handler: APIGatewayProxyWithCognitoAuthorizerHandler = async (event) => {
       if (!allowedRelyingPartyIds.includes(rpId)) {
         throw new UserFacingError("Unrecognized RP ID");
       }
-      const authenticators = await getExistingCredentialsForUser({
-        userId: userHandle,
-        rpId,
-      });
+      const authenticators = await addAuthenticatorMetadata(
+        await getExistingCredentialsForUser({
+          userId: userHandle,
+          rpId,
+        })
+      );
       return {
         statusCode: 200,
         body: JSON.stringify({
@@ -167,8 +206,19 @@ const _handler: APIGatewayProxyWithCognitoAuthorizerHandler = async (event) => {
         userId: userHandle,
         credentialId: parsed.credentialId,
       });
+      if (deletedCredential) {
+        await emitAuditEvent({
+          eventType: "CREDENTIAL_DELETED",
+          username: cognitoUsername,
+          clientId,
+          signInMethod: "FIDO2",
+          sourceIp: event.requestContext.identity.sourceIp,
+          userAgent: event.requestContext.identity.userAgent ?? undefined,
+        });
+      }
       if (deletedCredential && notificationsEnabled) {
         await enqueueFido2Notification({
+          userPoolId: process.env.COGNITO_USER_POOL_ID,
           cognitoUsername,
           eventType: "FIDO2_CREDENTIAL_DELETED",
           friendlyName: deletedCredential.friendlyName,
@@ -184,6 +234,32 @@ const _handler: APIGatewayProxyWithCognitoAuthorizerHandler = async (event) => {
         friendlyName: parsed.friendlyName,
       });
       return { statusCode: 200, body: "", headers };
+    } else if (event.path === "/recovery-codes/generate") {
+      // Whoever gets new recovery codes can sign in as the user, so demand that the user just verified themselves with FIDO2
+      const { step_up_auth_time: stepUpAuthTime } =
+        event.requestContext.authorizer.claims;
+      if (
+        !stepUpAuthTime ||
+        Date.now() / 1000 - Number(stepUpAuthTime) > recoveryCodesStepUpMaxAge
+      ) {
+        logger.info("ERROR: No recent step-up authentication");
+        return {
+          statusCode: 403,
+          body: JSON.stringify({
+            message: "Step-up authentication with FIDO2 required",
+          }),
+          headers,
+        };
+      }
+      logger.info("Generating new recovery codes ...");
+      const recoveryCodes = await generateRecoveryCodes({
+        userId: userHandle,
+      });
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ recoveryCodes }),
+        headers,
+      };
     }
     return {
       statusCode: 404,
@@ -252,6 +328,28 @@ interface Credential {
   lastSignIn?: Date;
   signCount: number;
   rpId: string;
+  /** The name of the authenticator, from the FIDO metadata service */
+  authenticatorName?: string;
+  /** The icon of the authenticator (data URL), from the FIDO metadata service */
+  authenticatorIcon?: string;
+}
+
+/** Is the user's only credential the one that they just registered? */
+async function isOnlyCredentialOfUser({ userId }: { userId: string }) {
+  const { Items } = await ddbDocClient.send(
+    new QueryCommand({
+      TableName: process.env.DYNAMODB_AUTHENTICATORS_TABLE!,
+      KeyConditionExpression: "#pk = :pk AND begins_with(#sk, :sk)",
+      ExpressionAttributeNames: { "#pk": "pk", "#sk": "sk" },
+      ExpressionAttributeValues: {
+        ":pk": `USER#${userId}`,
+        ":sk": "CREDENTIAL#",
+      },
+      ProjectionExpression: "sk",
+      Limit: 2,
+    })
+  );
+  return Items?.length === 1;
 }
 
 async function getExistingCredentialsForUser({
@@ -308,6 +406,25 @@ async function getExistingCredentialsForUser({
   );
 }
 
+async function addAuthenticatorMetadata(credentials: Credential[]) {
+  return Promise.all(
+    credentials.map(async (credential) => {
+      const metadata = await getAuthenticatorMetadata(
+        Buffer.from(credential.aaguid, "base64url")
+      ).catch((err) => {
+        // Listing authenticators should still work, if the metadata can't be loaded
+        logger.error(err);
+        return undefined;
+      });
+      return {
+        ...credential,
+        authenticatorName: metadata?.description,
+        authenticatorIcon: metadata?.icon,
+      };
+    })
+  );
+}
+
 async function deleteCredential({
   userId,
   credentialId,
@@ -610,6 +727,22 @@ async function handleCredentialsResponse(
       `Credential ID longer than 1023 bytes: ${authData.credentialId.length} bytes`
     );
   }
+  const attestationResult = verifyAttestation({
+    fmt: attestation.fmt,
+    attStmt: attestation.attStmt,
+    authData: attestation.authData,
+    clientDataHash: createHash("sha256")
+      .update(Buffer.from(body.clientDataJSON_B64, "base64url"))
+      .digest(),
+    rpIdHash: authData.rpIdHash,
+    aaguid: authData.aaguid,
+    credentialId: authData.credentialId,
+    credentialPublicKey: authData.credentialPublicKey,
+  });
+  const metadata = await assertAuthenticatorIsAllowed(
+    authData.aaguid,
+    attestationResult
+  );
   await assertCredentialIsNew(authData.credentialId);
   const createdAt = new Date();
   await storeUserCredential({
@@ -625,6 +758,7 @@ async function handleCredentialsResponse(
     aaguid: authData.aaguid,
     rpId,
     createdAt,
+    attestation: attestationResult,
   });
   return {
     credentialId: authData.credentialId.toString("base64url"),
@@ -637,15 +771,26 @@ async function handleCredentialsResponse(
     aaguid: authData.aaguid.toString("base64url"),
     rpId,
     createdAt,
+    authenticatorName: metadata?.description,
+    authenticatorIcon: metadata?.icon,
   };
 }
 
-function assertIsAttestation(a: unknown): asserts a is { authData: Buffer } {
+function assertIsAttestation(a: unknown): asserts a is {
+  fmt: string;
+  attStmt: Record<string, unknown>;
+  authData: Buffer;
+} {
   if (
     !a ||
     typeof a !== "object" ||
     !("authData" in a) ||
-    !Buffer.isBuffer(a.authData)
+    !Buffer.isBuffer(a.authData) ||
+    !("fmt" in a) ||
+    typeof a.fmt !== "string" ||
+    !("attStmt" in a) ||
+    !a.attStmt ||
+    typeof a.attStmt !== "object"
   ) {
     throw new UserFacingError("Invalid attestation");
   }
@@ -689,6 +834,7 @@ async function storeUserCredential({
   transports,
   rpId,
   createdAt,
+  attestation,
 }: {
   userId: string;
   credentialId: Buffer;
@@ -702,6 +848,7 @@ async function storeUserCredential({
   transports?: Transport[];
   rpId: string;
   createdAt: Date;
+  attestation: AttestationVerificationResult;
 }) {
   await ddbDocClient
     .send(
@@ -722,6 +869,10 @@ async function storeUserCredential({
           transports,
           rpId,
           createdAt: createdAt.toISOString(),
+          attestationFmt: attestation.fmt,
+          attestationType: attestation.attestationType,
+          attestationTrustPath: attestation.trustPath,
+          attestationTrusted: attestation.trusted,
         },
         ConditionExpression:
           "attribute_not_exists(pk) AND attribute_not_exists(sk)",
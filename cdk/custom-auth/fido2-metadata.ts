@@ -0,0 +1,356 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { readFile } from "fs/promises";
+import { X509Certificate, verify } from "crypto";
+import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
+import { logger, UserFacingError } from "./common.js";
+import {
+  AttestationVerificationResult,
+  isTrustedCertificateChain,
+  parsePemCertificates,
+} from "./fido2-attestation.js";
+
+let config = {
+  /** Where to load the FIDO MDS3 BLOB from: an S3 URL (s3://bucket/key) or a local file path */
+  blobLocation: process.env.FIDO2_METADATA_BLOB,
+  /** The root certificate(s) the signing certificate of the BLOB must chain up to. If none are provided, loading the BLOB fails (unless skipBlobSignatureVerification is set) */
+  blobRootCertificates: parsePemCertificates(
+    process.env.FIDO2_METADATA_BLOB_ROOT_CERTIFICATE
+  ),
+  /** Use the BLOB without verifying its signature, if no root certificate is provided? Only for testing, e.g. with a self-made BLOB */
+  skipBlobSignatureVerification:
+    !!process.env.FIDO2_METADATA_SKIP_BLOB_SIGNATURE_VERIFICATION,
+  /** How long (in seconds) to cache the BLOB in memory, before loading it again */
+  cacheSeconds: Number(process.env.FIDO2_METADATA_CACHE_SECONDS || 60 * 60),
+  /**
+   * The certification levels (e.g. "FIDO_CERTIFIED_L1") that authenticators must have to be allowed to register. If empty, any authenticator is allowed.
+   * If set, authenticators must also provide a Basic or AttCA attestation, that chains up to the attestation root certificates in their metadata statement
+   */
+  allowedCertificationLevels: splitList(
+    process.env.FIDO2_METADATA_ALLOWED_CERTIFICATION_LEVELS
+  ),
+  /** The AAGUIDs of authenticators that are not allowed to register */
+  blockedAaguids: splitList(process.env.FIDO2_METADATA_BLOCKED_AAGUIDS).map(
+    (aaguid) => aaguid.toLowerCase()
+  ),
+  /** Authenticators whose latest status report has one of these statuses are not allowed to register */
+  revokedStatuses: process.env.FIDO2_METADATA_REVOKED_STATUSES
+    ? splitList(process.env.FIDO2_METADATA_REVOKED_STATUSES)
+    : [
+        "REVOKED",
+        "USER_VERIFICATION_BYPASS",
+        "ATTESTATION_KEY_COMPROMISE",
+        "USER_KEY_REMOTE_COMPROMISE",
+        "USER_KEY_PHYSICAL_COMPROMISE",
+      ],
+  /** Function that loads the (raw) BLOB. Override this to e.g. load it from another location */
+  blobLoader: loadBlob,
+};
+
+let cache:
+  | { loadedAt: number; metadata: Promise<Map<string, AuthenticatorMetadata>> }
+  | undefined;
+
+function requireConfig<K extends keyof typeof config>(
+  k: K
+): NonNullable<(typeof config)[K]> {
+  // eslint-disable-next-line security/detect-object-injection
+  const value = config[k];
+  if (value === undefined) throw new Error(`Missing configuration for: ${k}`);
+  return value;
+}
+
+export function configure(update?: Partial<typeof config>) {
+  config = { ...config, ...update };
+  cache = undefined;
+  return config;
+}
+
+const s3 = new S3Client({});
+
+export interface AuthenticatorMetadata {
+  aaguid: string;
+  /** Human readable name of the authenticator */
+  description?: string;
+  /** Icon of the authenticator, as data URL */
+  icon?: string;
+  /** Latest certification status, e.g. "FIDO_CERTIFIED_L1" */
+  certificationLevel?: string;
+  /** Status of the latest status report, e.g. "FIDO_CERTIFIED_L1" or "REVOKED" */
+  status?: string;
+  /** The root certificates that attestations of the authenticator chain up to, from its metadata statement */
+  attestationRootCertificates: X509Certificate[];
+}
+
+function getMetadata() {
+  if (!cache || cache.loadedAt + config.cacheSeconds * 1000 < Date.now()) {
+    const loading = {
+      loadedAt: Date.now(),
+      metadata: loadMetadata(requireConfig("blobLocation")),
+    };
+    loading.metadata.catch(() => {
+      // Don't cache failures
+      if (cache === loading) cache = undefined;
+    });
+    cache = loading;
+  }
+  return cache.metadata;
+}
+
+/**
+ * Get the metadata of the authenticator with this AAGUID from the FIDO MDS3 BLOB.
+ * Returns undefined if no BLOB is configured, or if the AAGUID is not in it
+ */
+export async function getAuthenticatorMetadata(aaguid: Buffer) {
+  if (!config.blobLocation) return;
+  return (await getMetadata()).get(formatAaguid(aaguid));
+}
+
+/**
+ * Check that the authenticator with this AAGUID is allowed to register, per the configured policies.
+ *
+ * Without a trusted attestation the AAGUID is just a claim of the authenticator, which is good enough to block AAGUIDs and revoked statuses
+ * (an authenticator gains nothing by claiming a blocked AAGUID). The certification level however is only taken from the metadata,
+ * if the attestation proves the authenticator is of the make and model of that AAGUID
+ */
+export async function assertAuthenticatorIsAllowed(
+  aaguid: Buffer,
+  attestation: Pick<
+    AttestationVerificationResult,
+    "attestationType" | "trustPath"
+  >
+) {
+  const aaguidString = formatAaguid(aaguid);
+  if (config.blockedAaguids.includes(aaguidString)) {
+    logger.info(`Authenticator is blocked: ${aaguidString}`);
+    throw new UserFacingError("Authenticator not allowed");
+  }
+  if (!config.blobLocation && config.allowedCertificationLevels.length) {
+    throw new Error(
+      "Allowed certification levels are configured, but no FIDO MDS3 BLOB"
+    );
+  }
+  const metadata = await getAuthenticatorMetadata(aaguid);
+  if (metadata?.status && config.revokedStatuses.includes(metadata.status)) {
+    logger.info(
+      `Authenticator ${aaguidString} has revoked status: ${metadata.status}`
+    );
+    throw new UserFacingError("Authenticator not allowed");
+  }
+  if (
+    config.allowedCertificationLevels.length &&
+    !config.allowedCertificationLevels.includes(
+      metadata?.certificationLevel ?? ""
+    )
+  ) {
+    logger.info(
+      `Authenticator ${aaguidString} has certification level: ${metadata?.certificationLevel}`
+    );
+    throw new UserFacingError("Authenticator not allowed");
+  }
+  if (
+    metadata &&
+    config.allowedCertificationLevels.length &&
+    !isAttestedByMetadataRoot(attestation, metadata)
+  ) {
+    logger.info(
+      `Authenticator ${aaguidString} has no trusted attestation (type ${attestation.attestationType}), can't rely on its certification level`
+    );
+    throw new UserFacingError("Authenticator not allowed");
+  }
+  return metadata;
+}
+
+/**
+ * Does the attestation chain up to one of the attestation root certificates in the authenticator's metadata statement?
+ * Only Basic and AttCA attestations prove the make and model of the authenticator (None, Self and AnonCA don't)
+ */
+function isAttestedByMetadataRoot(
+  {
+    attestationType,
+    trustPath,
+  }: Pick<AttestationVerificationResult, "attestationType" | "trustPath">,
+  { attestationRootCertificates }: AuthenticatorMetadata
+) {
+  if (attestationType !== "Basic" && attestationType !== "AttCA") {
+    return false;
+  }
+  return isTrustedCertificateChain(
+    trustPath.map((der) => new X509Certificate(der)),
+    attestationRootCertificates
+  );
+}
+
+async function loadMetadata(blobLocation: string) {
+  logger.info(`Loading FIDO MDS3 BLOB from: ${blobLocation}`);
+  const blob = await config.blobLoader(blobLocation);
+  const [headerB64, payloadB64, signatureB64] = blob.trim().split(".");
+  if (!headerB64 || !payloadB64 || !signatureB64) {
+    throw new Error("Invalid FIDO MDS3 BLOB: not a JWT");
+  }
+  if (config.blobRootCertificates.length) {
+    verifyBlobSignature(headerB64, payloadB64, signatureB64);
+  } else if (config.skipBlobSignatureVerification) {
+    logger.info(
+      "Skipping verification of the FIDO MDS3 BLOB signature, as configured"
+    );
+  } else {
+    throw new Error(
+      "No root certificate configured to verify the FIDO MDS3 BLOB signature with"
+    );
+  }
+  const payload: unknown = JSON.parse(
+    Buffer.from(payloadB64, "base64url").toString()
+  );
+  assertIsBlobPayload(payload);
+  if (payload.nextUpdate && new Date(payload.nextUpdate) < new Date()) {
+    logger.info(
+      `FIDO MDS3 BLOB is outdated (nextUpdate ${payload.nextUpdate}), please download a new one`
+    );
+  }
+  const metadata = new Map<string, AuthenticatorMetadata>();
+  for (const entry of payload.entries) {
+    if (!entry.aaguid) continue; // Only FIDO2 authenticators have an AAGUID
+    const statusReports = [...(entry.statusReports ?? [])].sort((a, b) =>
+      (a.effectiveDate ?? "").localeCompare(b.effectiveDate ?? "")
+    );
+    const certificationLevel = statusReports
+      .filter(
+        (report) =>
+          report.status.startsWith("FIDO_CERTIFIED") ||
+          report.status === "NOT_FIDO_CERTIFIED"
+      )
+      .at(-1)?.status;
+    metadata.set(entry.aaguid.toLowerCase(), {
+      aaguid: entry.aaguid.toLowerCase(),
+      description: entry.metadataStatement?.description,
+      icon: entry.metadataStatement?.icon,
+      certificationLevel,
+      status: statusReports.at(-1)?.status,
+      attestationRootCertificates: (
+        entry.metadataStatement?.attestationRootCertificates ?? []
+      ).flatMap((cert) => {
+        try {
+          return [new X509Certificate(Buffer.from(cert, "base64"))];
+        } catch (err) {
+          logger.info(
+            `Ignoring invalid attestation root certificate of ${entry.aaguid}:`,
+            err
+          );
+          return [];
+        }
+      }),
+    });
+  }
+  logger.info(`Loaded metadata of ${metadata.size} FIDO2 authenticators`);
+  return metadata;
+}
+
+function verifyBlobSignature(
+  headerB64: string,
+  payloadB64: string,
+  signatureB64: string
+) {
+  const header: unknown = JSON.parse(
+    Buffer.from(headerB64, "base64url").toString()
+  );
+  if (
+    !header ||
+    typeof header !== "object" ||
+    !("alg" in header) ||
+    !("x5c" in header) ||
+    !Array.isArray(header.x5c) ||
+    !header.x5c.every((cert) => typeof cert === "string")
+  ) {
+    throw new Error("Invalid FIDO MDS3 BLOB header");
+  }
+  const chain = (header.x5c as string[]).map(
+    (cert) => new X509Certificate(Buffer.from(cert, "base64"))
+  );
+  if (!isTrustedCertificateChain(chain, config.blobRootCertificates)) {
+    throw new Error("Untrusted FIDO MDS3 BLOB signing certificate");
+  }
+  const [signingCert] = chain;
+  const data = Buffer.from(`${headerB64}.${payloadB64}`);
+  const signature = Buffer.from(signatureB64, "base64url");
+  let valid: boolean;
+  if (header.alg === "RS256") {
+    valid = verify("sha256", data, signingCert.publicKey, signature);
+  } else if (header.alg === "ES256") {
+    valid = verify(
+      "sha256",
+      data,
+      { key: signingCert.publicKey, dsaEncoding: "ieee-p1363" },
+      signature
+    );
+  } else {
+    throw new Error(`Unsupported FIDO MDS3 BLOB alg: ${String(header.alg)}`);
+  }
+  if (!valid) {
+    throw new Error("Invalid FIDO MDS3 BLOB signature");
+  }
+}
+
+async function loadBlob(blobLocation: string) {
+  const s3Url = blobLocation.match(/^s3:\/\/([^/]+)\/(.+)$/);
+  if (s3Url) {
+    const { Body } = await s3.send(
+      new GetObjectCommand({ Bucket: s3Url[1], Key: s3Url[2] })
+    );
+    if (!Body) throw new Error(`Empty S3 object: ${blobLocation}`);
+    return Body.transformToString();
+  }
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  return readFile(blobLocation, "utf-8");
+}
+
+function assertIsBlobPayload(payload: unknown): asserts payload is {
+  nextUpdate?: string;
+  entries: {
+    aaguid?: string;
+    metadataStatement?: {
+      description?: string;
+      icon?: string;
+      /** Base64 encoded (DER) certificates */
+      attestationRootCertificates?: string[];
+    };
+    statusReports?: { status: string; effectiveDate?: string }[];
+  }[];
+} {
+  if (
+    !payload ||
+    typeof payload !== "object" ||
+    !("entries" in payload) ||
+    !Array.isArray(payload.entries)
+  ) {
+    throw new Error("Invalid FIDO MDS3 BLOB payload");
+  }
+}
+
+/** Format the AAGUID as UUID, like the FIDO MDS3 BLOB does, e.g. "ee882879-721c-4913-9775-3dfcce97072a" */
+function formatAaguid(aaguid: Buffer) {
+  const hex = aaguid.toString("hex");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+}
+
+function splitList(list?: string) {
+  return list?.split(",").filter(Boolean) ?? [];
+}
@@ -13,29 +13,24 @@
  * language governing permissions and limitations under the License.
  */
 import { Handler } from "aws-lambda";
-import {
-  SESClient,
-  SendEmailCommand,
-  MessageRejected,
-} from "@aws-sdk/client-ses";
 import {
   CognitoIdentityProviderClient,
   AdminGetUserCommand,
 } from "@aws-sdk/client-cognito-identity-provider";
-import { logger, UserFacingError } from "./common.js";
+import { logger, emailSenderFromEnvironment } from "./common.js";
+import { determineLocale, renderEmailContent } from "./templates.js";
 
-let ses = new SESClient({});
 const cognito = new CognitoIdentityProviderClient({});
 
 let config = {
-  /** The User Pool ID */
+  /** The User Pool ID, used if the notification payload doesn't include it */
   userPoolId: process.env.USER_POOL_ID,
   /** The e-mail address that notifications will be sent from */
   sesFromAddress: process.env.SES_FROM_ADDRESS,
-  /** The Amazon SES region, override e.g. to set a region where you are out of the SES sandbox */
-  sesRegion: process.env.SES_REGION || process.env.AWS_REGION,
-  /** Function that will send the actual notification e-mails. Override this to e.g. use another e-mail provider instead of Amazon SES */
-  emailSender: sendEmail,
+  /** The sender of the notification e-mails, e.g. via Amazon SES (default) or SMTP. Override this to e.g. use another e-mail provider */
+  emailSender: emailSenderFromEnvironment({
+    sesRegion: process.env.SES_REGION,
+  }),
   /** Function to create the content of the notification e-mails, override to e.g. use a custom e-mail template */
   contentCreator: createEmailContent,
 };
@@ -50,122 +45,80 @@ function requireConfig<K extends keyof typeof config>(
 }
 
 export function configure(update?: Partial<typeof config>) {
-  const oldSesRegion = config.sesRegion;
   config = { ...config, ...update };
-  if (update && update.sesRegion !== oldSesRegion) {
-    ses = new SESClient({ region: config.sesRegion });
-  }
   return config;
 }
 
-export interface NotificationPayload {
-  cognitoUsername: string;
-  friendlyName: string;
-  eventType: "FIDO2_CREDENTIAL_CREATED" | "FIDO2_CREDENTIAL_DELETED";
-}
+export type NotificationPayload = {
+  /** The User Pool of the user (this function can't be configured with it, as the PreToken-generation trigger of that User Pool invokes it) */
+  userPoolId?: string;
+} & (
+  | {
+      cognitoUsername: string;
+      friendlyName: string;
+      eventType: "FIDO2_CREDENTIAL_CREATED" | "FIDO2_CREDENTIAL_DELETED";
+    }
+  | {
+      cognitoUsername: string;
+      eventType: "RECOVERY_CODE_USED";
+    }
+);
 
 export const handler: Handler<NotificationPayload> = async (event) => {
   logger.debug(JSON.stringify(event, null, 2));
-  const emailAddress = await getUserEmail(event.cognitoUsername);
-  if (!emailAddress) {
+  const user = await getUserWithVerifiedEmail(
+    event.userPoolId ?? requireConfig("userPoolId"),
+    event.cognitoUsername
+  );
+  if (!user) {
     logger.info(
       "Failed to determine e-mail address, therefore skipping sending of notification for event:",
       event.eventType
     );
     return;
   }
-  const content = await config.contentCreator(event);
-  await config.emailSender({
+  const content = await config.contentCreator({
+    ...event,
+    userAttributes: user.userAttributes,
+  });
+  await config.emailSender.sendEmail({
+    fromAddress: requireConfig("sesFromAddress"),
+    toAddress: user.emailAddress,
     content,
-    emailAddress,
   });
   logger.info("Sent notification for event:", event.eventType);
 };
 
-async function createEmailContent({
-  friendlyName,
-  eventType,
-}: {
-  friendlyName: string;
-  eventType: "FIDO2_CREDENTIAL_CREATED" | "FIDO2_CREDENTIAL_DELETED";
-}) {
-  return {
-    html: {
-      data:
-        eventType === "FIDO2_CREDENTIAL_CREATED"
-          ? `<html><body><p>This passkey has been added to your account: ${friendlyName}</p></body></html>`
-          : `<html><body><p>This passkey has been removed from your account: ${friendlyName}</p></body></html>`,
-      charSet: "UTF-8",
-    },
-    text: {
-      data:
-        eventType === "FIDO2_CREDENTIAL_CREATED"
-          ? `This passkey has been added to your account: ${friendlyName}`
-          : `This passkey has been removed from your account: ${friendlyName}`,
-      charSet: "UTF-8",
-    },
-    subject: {
-      data:
-        eventType === "FIDO2_CREDENTIAL_CREATED"
-          ? "A passkey has been added to your account"
-          : "A passkey has been removed from your account",
-      charSet: "UTF-8",
-    },
-  };
-}
-
-async function sendEmail({
-  emailAddress,
-  content,
-}: {
-  emailAddress: string;
-  content: {
-    html: { charSet: string; data: string };
-    text: { charSet: string; data: string };
-    subject: { charSet: string; data: string };
-  };
-}) {
-  await ses
-    .send(
-      new SendEmailCommand({
-        Destination: { ToAddresses: [emailAddress] },
-        Message: {
-          Body: {
-            Html: {
-              Charset: content.html.charSet,
-              Data: content.html.data,
-            },
-            Text: {
-              Charset: content.text.charSet,
-              Data: content.text.data,
-            },
-          },
-          Subject: {
-            Charset: content.subject.charSet,
-            Data: content.subject.data,
-          },
-        },
-        Source: requireConfig("sesFromAddress"),
-      })
-    )
-    .catch((err) => {
-      if (
-        err instanceof MessageRejected &&
-        err.message.includes("Email address is not verified")
-      ) {
-        logger.error(err);
-        throw new UserFacingError(
-          "E-mail address must still be verified in the e-mail service"
-        );
-      }
-      throw err;
+async function createEmailContent(
+  event: NotificationPayload & {
+    userAttributes: { [name: string]: string };
+  }
+) {
+  const locale = determineLocale({ userAttributes: event.userAttributes });
+  if (event.eventType === "RECOVERY_CODE_USED") {
+    return renderEmailContent("recovery-code-used", {
+      locale,
+      variables: { userAttributes: event.userAttributes },
     });
+  }
+  return renderEmailContent(
+    event.eventType === "FIDO2_CREDENTIAL_CREATED"
+      ? "fido2-credential-created"
+      : "fido2-credential-deleted",
+    {
+      locale,
+      variables: {
+        friendlyName: event.friendlyName,
+        userAttributes: event.userAttributes,
+      },
+    }
+  );
 }
 
-async function getUserEmail(username: string) {
+async function getUserWithVerifiedEmail(userPoolId: string, username: string) {
   const { UserAttributes } = await cognito.send(
     new AdminGetUserCommand({
-      UserPoolId: requireConfig("userPoolId"),
+      UserPoolId: userPoolId,
       Username: username,
     })
   );
@@ -187,5 +140,10 @@ async function getUserEmail(username: string) {
     );
     return;
   }
-  return email;
+  return {
+    emailAddress: email,
+    userAttributes: Object.fromEntries(
+      UserAttributes.map(({ Name, Value }) => [Name, Value ?? ""])
+    ) as { [name: string]: string },
+  };
 }
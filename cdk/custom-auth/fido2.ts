@@ -31,7 +31,11 @@ import {
   UserFacingError,
   determineUserHandle,
   isValidOrigin,
+  canonicalizeTransaction,
+  transactionHash,
+  verifyJwt,
 } from "./common.js";
+import { determineClientPolicy } from "./client-policy.js";
 
 const ddbDocClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
 interface StoredCredential {
@@ -62,13 +66,19 @@ let config = {
     .USER_VERIFICATION as UserVerificationRequirement,
   /** Expose credential IDs to users signing in? If you want users to use non-discoverable credentials you should set this to true */
   exposeUserCredentialIds: !!process.env.EXPOSE_USER_CREDENTIAL_IDS,
-  /** Function to generate FIDO2 challenges that user's authenticators must sign. Override to e.g. implement transaction signing */
+  /** Function to generate FIDO2 challenges that user's authenticators must sign (for transaction signing, see `transactionSigningEnabled`) */
   challengeGenerator: (): Promise<string> | string =>
     randomBytes(64).toString("base64url"),
   /** Timeout for the sign-in attempt (per WebAuthn standard) */
   timeout: Number(process.env.SIGN_IN_TIMEOUT ?? "120000"), // 2 minutes,
   /** Should users having a registered FIDO2 credential be forced to use that for signing in? If true, other custom auth flows, such as Magic Link sign-in, will be denied for users having FIDO2 credentials––to protect them from phishing */
   enforceFido2IfAvailable: !!process.env.ENFORCE_FIDO2_IF_AVAILABLE,
+  /** Should transaction signing be enabled? If so, clients can request a FIDO2 challenge that is bound to a transaction (signInMethod "FIDO2_TRANSACTION") */
+  transactionSigningEnabled: !!process.env.FIDO2_TRANSACTION_SIGNING_ENABLED,
+  /** Should step-up authentication be enabled? If so, signed-in users can verify themselves again with FIDO2 (signInMethod "FIDO2_STEPUP") */
+  stepUpEnabled: !!process.env.FIDO2_STEP_UP_ENABLED,
+  /** The function to verify JWTs with (for step-up authentication), override to e.g. verify custom claims */
+  jwtVerifier: verifyJwt,
   /** Salt to use for storing hashed FIDO2 credential data */
   salt: process.env.STACK_ID,
 };
@@ -99,7 +109,9 @@ export async function addChallengeToEvent(
           cognitoUsername: event.userName,
         }),
         relyingPartyId: config.relyingPartyId,
-        userVerification: config.userVerification,
+        userVerification:
+          determineClientPolicy(event.callerContext.clientId)
+            .userVerification ?? config.userVerification,
         exposeUserCredentialIds: config.exposeUserCredentialIds,
         userNotFound: event.request.userNotFound,
       })
@@ -173,10 +185,90 @@ export async function addChallengeVerificationResultToEvent(
   if (!config.fido2enabled)
     throw new UserFacingError("Sign-in with FIDO2 (Face/Touch) not supported");
   try {
-    const authenticatorAssertion: unknown = JSON.parse(
-      event.request.challengeAnswer
+    await verifyChallengeAnswer(event);
+    event.response.answerCorrect = true;
+  } catch (err) {
+    logger.error(err);
+    event.response.answerCorrect = false;
+  }
+}
+
+/**
+ * Add a FIDO2 challenge that is bound to the transaction in the client metadata (e.g. a payment the user must approve).
+ * The challenge is the SHA-256 hash of the (canonical) transaction, followed by random bytes so it can't be replayed
+ */
+export async function addTransactionChallengeToEvent(
+  event: CreateAuthChallengeTriggerEvent
+) {
+  logger.info("Adding FIDO2 transaction challenge to event ...");
+  assertTransactionSigningEnabled();
+  const hash = transactionHash(
+    parseTransaction(event.request.clientMetadata?.transaction)
+  );
+  const fido2options = JSON.stringify(
+    await createChallenge({
+      userId: determineUserHandle({
+        sub: event.request.userAttributes.sub,
+        cognitoUsername: event.userName,
+      }),
+      relyingPartyId: config.relyingPartyId,
+      // Approving a transaction requires user verification, regardless of what is required for sign-in
+      userVerification: "required",
+      exposeUserCredentialIds: config.exposeUserCredentialIds,
+      userNotFound: event.request.userNotFound,
+      challengeGenerator: () =>
+        Buffer.concat([
+          Buffer.from(hash, "base64url"),
+          randomBytes(32),
+        ]).toString("base64url"),
+    })
+  );
+  event.response.challengeMetadata = "FIDO2_TRANSACTION";
+  event.response.privateChallengeParameters = {
+    fido2options,
+    transactionHash: hash,
+  };
+  event.response.publicChallengeParameters = { fido2options };
+}
+
+/**
+ * Verify the FIDO2 signature of the transaction challenge. Like step-up authentication, this requires that the user is signed-in already:
+ * the answer holds the user's access token too, so signing a transaction can't be used as a sign-in by itself
+ */
+export async function addTransactionVerificationResultToEvent(
+  event: VerifyAuthChallengeResponseTriggerEvent
+) {
+  logger.info("Verifying FIDO2 transaction signature ...");
+  if (event.request.userNotFound) {
+    logger.info("User not found");
+  }
+  assertTransactionSigningEnabled();
+  if (
+    event.request.privateChallengeParameters.challenge ===
+    "PROVIDE_AUTH_PARAMETERS"
+  )
+    return;
+  try {
+    const expectedHash =
+      event.request.privateChallengeParameters.transactionHash;
+    if (!expectedHash) {
+      throw new Error("No transaction challenge was issued");
+    }
+    const hash = transactionHash(
+      parseTransaction(event.request.clientMetadata?.transaction)
     );
-    assertIsAuthenticatorAssertion(authenticatorAssertion);
+    if (
+      !Buffer.from(hash, "base64url").equals(
+        Buffer.from(expectedHash, "base64url")
+      )
+    ) {
+      throw new Error(
+        `Transaction mismatch, got ${hash} but expected ${expectedHash}`
+      );
+    }
+    const answer: unknown = JSON.parse(event.request.challengeAnswer);
+    assertIsAnswerWithAccessToken(answer);
+    await assertAccessTokenIsValid(event, answer.jwt);
     await verifyChallenge({
       userId: determineUserHandle({
         sub: event.request.userAttributes.sub,
@@ -185,7 +277,50 @@ export async function addChallengeVerificationResultToEvent(
       fido2options: JSON.parse(
         event.request.privateChallengeParameters.fido2options
       ) as Parameters<typeof verifyChallenge>[0]["fido2options"],
-      authenticatorAssertion,
+      authenticatorAssertion: answer.authenticatorAssertion,
+      allowUsernamelessChallenge: false,
+      allowedOrigins: determineClientPolicy(event.callerContext.clientId)
+        .allowedOrigins,
+    });
+    event.response.answerCorrect = true;
+  } catch (err) {
+    logger.error(err);
+    event.response.answerCorrect = false;
+  }
+}
+
+/**
+ * Verify FIDO2 step-up authentication: the answer holds the user's access token (so the user must be signed-in already)
+ * and a FIDO2 signature of the challenge that was sent upon initiating auth. User verification is required
+ */
+export async function addStepUpVerificationResultToEvent(
+  event: VerifyAuthChallengeResponseTriggerEvent
+) {
+  logger.info("Verifying FIDO2 step-up authentication ...");
+  if (event.request.userNotFound) {
+    logger.info("User not found");
+  }
+  if (!config.fido2enabled || !config.stepUpEnabled)
+    throw new UserFacingError(
+      "Step-up authentication with FIDO2 (Face/Touch) not supported"
+    );
+  try {
+    const answer: unknown = JSON.parse(event.request.challengeAnswer);
+    assertIsAnswerWithAccessToken(answer);
+    await assertAccessTokenIsValid(event, answer.jwt);
+    const fido2options = JSON.parse(
+      event.request.privateChallengeParameters.fido2options
+    ) as Parameters<typeof verifyChallenge>[0]["fido2options"];
+    await verifyChallenge({
+      userId: determineUserHandle({
+        sub: event.request.userAttributes.sub,
+        cognitoUsername: event.userName,
+      }),
+      fido2options: { ...fido2options, userVerification: "required" },
+      authenticatorAssertion: answer.authenticatorAssertion,
+      allowUsernamelessChallenge: false,
+      allowedOrigins: determineClientPolicy(event.callerContext.clientId)
+        .allowedOrigins,
     });
     event.response.answerCorrect = true;
   } catch (err) {
@@ -194,6 +329,88 @@ export async function addChallengeVerificationResultToEvent(
   }
 }
 
+/** The access token must be valid, and be of the same user and app client */
+async function assertAccessTokenIsValid(
+  event: VerifyAuthChallengeResponseTriggerEvent,
+  jwt: string
+) {
+  const jwtValid = await config.jwtVerifier.call(undefined, {
+    userPoolId: event.userPoolId,
+    clientId: event.callerContext.clientId,
+    sub: event.request.userAttributes.sub,
+    jwt,
+  });
+  if (!jwtValid) {
+    throw new Error("Invalid access token");
+  }
+}
+
+function assertIsAnswerWithAccessToken(answer: unknown): asserts answer is {
+  jwt: string;
+  authenticatorAssertion: SerializedAuthenticatorAssertion;
+} {
+  if (
+    !answer ||
+    typeof answer !== "object" ||
+    !("jwt" in answer) ||
+    typeof answer.jwt !== "string" ||
+    !("authenticatorAssertion" in answer)
+  ) {
+    throw new Error("Invalid answer");
+  }
+  assertIsAuthenticatorAssertion(answer.authenticatorAssertion);
+}
+
+function assertTransactionSigningEnabled() {
+  if (!config.fido2enabled || !config.transactionSigningEnabled) {
+    throw new UserFacingError("Transaction signing with FIDO2 not supported");
+  }
+}
+
+/** Parse the transaction from the client metadata, it must be a JSON object in canonical form (so its hash is unambiguous) */
+function parseTransaction(transaction?: string) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(transaction ?? "");
+  } catch {
+    throw new UserFacingError("Invalid transaction: must be JSON");
+  }
+  if (
+    !parsed ||
+    typeof parsed !== "object" ||
+    Array.isArray(parsed) ||
+    canonicalizeTransaction(parsed) !== transaction
+  ) {
+    throw new UserFacingError(
+      "Invalid transaction: must be a JSON object in canonical form"
+    );
+  }
+  return transaction;
+}
+
+async function verifyChallengeAnswer(
+  event: VerifyAuthChallengeResponseTriggerEvent,
+  { allowUsernamelessChallenge }: { allowUsernamelessChallenge?: boolean } = {}
+) {
+  const authenticatorAssertion: unknown = JSON.parse(
+    event.request.challengeAnswer
+  );
+  assertIsAuthenticatorAssertion(authenticatorAssertion);
+  await verifyChallenge({
+    userId: determineUserHandle({
+      sub: event.request.userAttributes.sub,
+      cognitoUsername: event.userName,
+    }),
+    fido2options: JSON.parse(
+      event.request.privateChallengeParameters.fido2options
+    ) as Parameters<typeof verifyChallenge>[0]["fido2options"],
+    authenticatorAssertion,
+    allowUsernamelessChallenge,
+    allowedOrigins: determineClientPolicy(event.callerContext.clientId)
+      .allowedOrigins,
+  });
+}
+
 interface SerializedAuthenticatorAssertion {
   credentialIdB64: string;
   authenticatorDataB64: string;
@@ -236,6 +453,8 @@ export async function verifyChallenge({
   },
   credentialGetter = getCredentialForUser,
   credentialUpdater = updateCredential,
+  allowUsernamelessChallenge = true,
+  allowedOrigins = requireConfig("allowedOrigins"),
 }: {
   userId: string;
   fido2options: {
@@ -246,6 +465,10 @@ export async function verifyChallenge({
   authenticatorAssertion: SerializedAuthenticatorAssertion;
   credentialGetter?: typeof getCredentialForUser;
   credentialUpdater?: typeof updateCredential;
+  /** Accept challenges from the usernameless sign-in API too? Set to false if the challenge must be the one in `fido2options`, e.g. for transaction signing */
+  allowUsernamelessChallenge?: boolean;
+  /** The origins the assertion may come from (e.g. those of the app client the user signs in with) */
+  allowedOrigins?: string[];
 }) {
   // Verify user ID
   const userHandle =
@@ -280,7 +503,7 @@ export async function verifyChallenge({
   if (
     !isValidOrigin(
       clientData.origin,
-      requireConfig("allowedOrigins"),
+      allowedOrigins,
       config.allowedApplicationOrigins ?? []
     )
   ) {
@@ -330,7 +553,9 @@ export async function verifyChallenge({
     !(
       Buffer.from(clientData.challenge, "base64url").equals(
         Buffer.from(fido2options.challenge, "base64url")
-      ) || (await ensureUsernamelessChallengeExists(clientData.challenge))
+      ) ||
+      (allowUsernamelessChallenge &&
+        (await ensureUsernamelessChallengeExists(clientData.challenge)))
     )
   ) {
     throw new Error(
@@ -566,7 +791,13 @@ export async function assertFido2SignInOptional(
   event: VerifyAuthChallengeResponseTriggerEvent
 ) {
   if (!config.fido2enabled) return;
-  if (!config.enforceFido2IfAvailable) return;
+  if (
+    !(
+      determineClientPolicy(event.callerContext.clientId)
+        .enforceFido2IfAvailable ?? config.enforceFido2IfAvailable
+    )
+  )
+    return;
   const userId = determineUserHandle({
     sub: event.request.userAttributes.sub,
     cognitoUsername: event.userName,
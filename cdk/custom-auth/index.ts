@@ -15,16 +15,36 @@
 export * as fido2 from "./fido2.js";
 export * as magicLink from "./magic-link.js";
 export * as smsOtpStepUp from "./sms-otp-stepup.js";
+export * as emailOtp from "./email-otp.js";
+export * as recoveryCode from "./recovery-code.js";
 export { handler as createAuthChallengeHandler } from "./create-auth-challenge.js";
 export { handler as defineAuthChallengeHandler } from "./define-auth-challenge.js";
 export { handler as verifyAuthChallengeResponseHandler } from "./verify-auth-challenge-response.js";
 export { handler as preTokenHandler } from "./pre-token.js";
 export { handler as preSignUpHandler } from "./pre-signup.js";
 export * as fido2credentialsApi from "./fido2-credentials-api.js";
+export * as fido2AdminApi from "./fido2-admin-api.js";
+export * as fido2Attestation from "./fido2-attestation.js";
+export * as fido2Metadata from "./fido2-metadata.js";
+export * as magicLinkApi from "./magic-link-api.js";
+export * as templates from "./templates.js";
+export * as audit from "./audit.js";
+export * as rateLimit from "./rate-limit.js";
+export * as multiFactor from "./multi-factor.js";
+export * as clientPolicy from "./client-policy.js";
 export {
   logger,
   Logger,
   LogLevel,
   UserFacingError,
   determineUserHandle,
+  determineSourceIp,
+  canonicalizeTransaction,
+  transactionHash,
+  EmailContent,
+  EmailSender,
+  SesV2EmailSender,
+  SmtpEmailSender,
+  InMemoryEmailSender,
+  emailSenderFromEnvironment,
 } from "./common.js";
@@ -0,0 +1,707 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { isDeepStrictEqual } from "util";
+import {
+  ConditionalCheckFailedException,
+  TransactionCanceledException,
+} from "@aws-sdk/client-dynamodb";
+import {
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+  DeleteCommand,
+  QueryCommand,
+  TransactWriteCommand,
+} from "@aws-sdk/lib-dynamodb";
+
+/** The key schema of a table (or of a global secondary index) */
+export interface KeySchema {
+  partitionKey: string;
+  sortKey?: string;
+}
+
+export interface TableSchema extends KeySchema {
+  /** Global secondary indexes, by index name (all attributes are projected) */
+  indexes?: Record<string, KeySchema>;
+}
+
+type Item = Record<string, unknown>;
+type Condition = (item: Item) => boolean;
+type Operand = (item: Item) => unknown;
+
+/**
+ * An in-memory stand-in for DynamoDB, that processes the commands of the DynamoDB Document Client
+ * (Get, Put, Update, Delete, Query, and TransactWrite of Put, Update and Delete), for local development.
+ *
+ * Supports the subset of expressions that this solution uses: top-level attributes only (no nested paths),
+ * the functions attribute_exists, attribute_not_exists, begins_with, contains, size, if_not_exists and list_append,
+ * and the SET, ADD, REMOVE and DELETE update actions. Items with an expired TTL attribute ("exp") are not returned
+ */
+export class InMemoryDynamoDb {
+  private tables = new Map<string, Map<string, Item>>();
+  private schemas: Map<string, TableSchema>;
+  constructor(props: {
+    /** The key schema of each table, by table name */
+    tables: Record<string, TableSchema>;
+  }) {
+    this.schemas = new Map(Object.entries(props.tables));
+  }
+
+  async send(command: unknown): Promise<Record<string, unknown>> {
+    if (command instanceof GetCommand) {
+      const { TableName, Key, ProjectionExpression, ExpressionAttributeNames } =
+        command.input;
+      const item = this.getItem(TableName!, Key!);
+      return {
+        Item:
+          item && project(item, ProjectionExpression, ExpressionAttributeNames),
+      };
+    } else if (command instanceof PutCommand) {
+      const { TableName, Item, ReturnValues } = command.input;
+      const key = this.keyOf(TableName!, Item!);
+      const existing = this.getItem(TableName!, key);
+      this.assertCondition(command.input, existing);
+      this.table(TableName!).set(
+        this.serializeKey(TableName!, key),
+        clone(Item) as Item
+      );
+      return { Attributes: ReturnValues === "ALL_OLD" ? existing : undefined };
+    } else if (command instanceof DeleteCommand) {
+      const { TableName, Key, ReturnValues } = command.input;
+      const existing = this.getItem(TableName!, Key!);
+      this.assertCondition(command.input, existing);
+      this.table(TableName!).delete(this.serializeKey(TableName!, Key!));
+      return { Attributes: ReturnValues === "ALL_OLD" ? existing : undefined };
+    } else if (command instanceof UpdateCommand) {
+      const { TableName, Key, ReturnValues } = command.input;
+      const existing = this.getItem(TableName!, Key!);
+      this.assertCondition(command.input, existing);
+      const updated = clone(existing ?? Key) as Item;
+      const updatedNames = parseUpdateExpression(
+        command.input.UpdateExpression ?? "",
+        command.input
+      )(updated);
+      this.table(TableName!).set(this.serializeKey(TableName!, Key!), updated);
+      const pick = (item?: Item) =>
+        item &&
+        Object.fromEntries(
+          Object.entries(item).filter(([k]) => updatedNames.includes(k))
+        );
+      return {
+        Attributes:
+          ReturnValues === "ALL_OLD"
+            ? existing
+            : ReturnValues === "ALL_NEW"
+              ? clone(updated)
+              : ReturnValues === "UPDATED_OLD"
+                ? pick(existing)
+                : ReturnValues === "UPDATED_NEW"
+                  ? pick(clone(updated) as Item)
+                  : undefined,
+      };
+    } else if (command instanceof QueryCommand) {
+      return this.query(command.input);
+    } else if (command instanceof TransactWriteCommand) {
+      return this.transactWrite(command.input);
+    }
+    throw new Error(
+      `Command not supported by the in-memory DynamoDB: ${
+        (command as object).constructor.name
+      }`
+    );
+  }
+
+  /** All conditions are checked first, so either all writes are done, or none */
+  private async transactWrite(input: TransactWriteCommand["input"]) {
+    const commands = (input.TransactItems ?? []).map((item) => {
+      if (item.Put) return new PutCommand(item.Put);
+      if (item.Delete) return new DeleteCommand(item.Delete);
+      if (item.Update) return new UpdateCommand(item.Update);
+      throw new Error(
+        "Only Put, Update and Delete are supported in transactions by the in-memory DynamoDB"
+      );
+    });
+    const failed = commands.some(({ input }) => {
+      const key =
+        "Item" in input
+          ? this.keyOf(input.TableName!, input.Item!)
+          : input.Key!;
+      try {
+        this.assertCondition(input, this.getItem(input.TableName!, key));
+        return false;
+      } catch {
+        return true;
+      }
+    });
+    if (failed) {
+      throw new TransactionCanceledException({
+        message: "Transaction cancelled, a condition check failed",
+        $metadata: {},
+      });
+    }
+    for (const command of commands) {
+      await this.send(command);
+    }
+    return {};
+  }
+
+  private query(input: QueryCommand["input"]) {
+    const tableSchema = this.schema(input.TableName!);
+    const schema = input.IndexName
+      ? new Map(Object.entries(tableSchema.indexes ?? {})).get(input.IndexName)
+      : tableSchema;
+    if (!schema) {
+      throw new Error(`Unknown index: ${input.IndexName}`);
+    }
+    const keyCondition = parseCondition(
+      input.KeyConditionExpression ?? "",
+      input
+    );
+    let items = [...this.table(input.TableName!).values()]
+      .filter((item) => !isExpired(item))
+      .filter(
+        (item) =>
+          getAttribute(item, schema.partitionKey) !== undefined &&
+          (!schema.sortKey || getAttribute(item, schema.sortKey) !== undefined)
+      )
+      .filter(keyCondition);
+    if (schema.sortKey) {
+      const sortKey = schema.sortKey;
+      items.sort(
+        (a, b) =>
+          compare(getAttribute(a, sortKey), getAttribute(b, sortKey)) ?? 0
+      );
+    }
+    if (input.ScanIndexForward === false) items.reverse();
+    if (input.ExclusiveStartKey) {
+      const startKey = this.serializeKey(
+        input.TableName!,
+        input.ExclusiveStartKey
+      );
+      const index = items.findIndex(
+        (item) => this.serializeKey(input.TableName!, item) === startKey
+      );
+      items = items.slice(index + 1);
+    }
+    let lastEvaluatedKey: Item | undefined = undefined;
+    if (input.Limit !== undefined && items.length > input.Limit) {
+      items = items.slice(0, input.Limit);
+      const last = items[items.length - 1];
+      lastEvaluatedKey = Object.fromEntries(
+        [
+          tableSchema.partitionKey,
+          tableSchema.sortKey,
+          schema.partitionKey,
+          schema.sortKey,
+        ]
+          .filter((k): k is string => !!k)
+          .map((k) => [k, clone(getAttribute(last, k))])
+      );
+    }
+    const scannedCount = items.length;
+    if (input.FilterExpression) {
+      items = items.filter(parseCondition(input.FilterExpression, input));
+    }
+    return {
+      Items: items.map((item) =>
+        project(
+          item,
+          input.ProjectionExpression,
+          input.ExpressionAttributeNames
+        )
+      ),
+      Count: items.length,
+      ScannedCount: scannedCount,
+      LastEvaluatedKey: lastEvaluatedKey,
+    };
+  }
+
+  private assertCondition(
+    input: {
+      ConditionExpression?: string;
+      ExpressionAttributeNames?: Record<string, string>;
+      ExpressionAttributeValues?: Record<string, unknown>;
+    },
+    existing?: Item
+  ) {
+    if (!input.ConditionExpression) return;
+    if (!parseCondition(input.ConditionExpression, input)(existing ?? {})) {
+      throw new ConditionalCheckFailedException({
+        message: "The conditional request failed",
+        $metadata: {},
+      });
+    }
+  }
+
+  private getItem(tableName: string, key: Item) {
+    const item = this.table(tableName).get(this.serializeKey(tableName, key));
+    if (!item || isExpired(item)) return undefined;
+    return clone(item) as Item;
+  }
+
+  private schema(tableName: string) {
+    const schema = this.schemas.get(tableName);
+    if (!schema) {
+      throw new Error(
+        `Table not found in the in-memory DynamoDB: ${tableName}`
+      );
+    }
+    return schema;
+  }
+
+  private table(tableName: string) {
+    this.schema(tableName);
+    let table = this.tables.get(tableName);
+    if (!table) {
+      table = new Map();
+      this.tables.set(tableName, table);
+    }
+    return table;
+  }
+
+  private keyOf(tableName: string, item: Item) {
+    const { partitionKey, sortKey } = this.schema(tableName);
+    return Object.fromEntries(
+      [partitionKey, sortKey]
+        .filter((k): k is string => !!k)
+        .map((k) => [k, getAttribute(item, k)])
+    );
+  }
+
+  private serializeKey(tableName: string, key: Item) {
+    const { partitionKey, sortKey } = this.schema(tableName);
+    return [partitionKey, sortKey]
+      .filter((k): k is string => !!k)
+      .map((k) => {
+        const value = getAttribute(key, k);
+        if (typeof value === "string") return `S${value}`;
+        if (typeof value === "number") return `N${value}`;
+        if (value instanceof Uint8Array)
+          return `B${Buffer.from(value).toString("base64")}`;
+        throw new Error(`Invalid value for key attribute: ${k}`);
+      })
+      .join("\u0000");
+  }
+}
+
+function getAttribute(item: Item, name: string) {
+  return Object.prototype.hasOwnProperty.call(item, name)
+    ? // eslint-disable-next-line security/detect-object-injection
+      item[name]
+    : undefined;
+}
+
+function setAttribute(item: Item, name: string, value: unknown) {
+  // eslint-disable-next-line security/detect-object-injection
+  if (value === undefined) delete item[name];
+  // eslint-disable-next-line security/detect-object-injection
+  else item[name] = value;
+}
+
+function isExpired(item: Item) {
+  const exp = getAttribute(item, "exp");
+  return typeof exp === "number" && exp < Date.now() / 1000;
+}
+
+/** Deep copy, with binary values as plain Uint8Arrays (like the Document Client returns them) and without undefined values */
+function clone(value: unknown): unknown {
+  if (value instanceof Uint8Array) return new Uint8Array(value);
+  if (Array.isArray(value)) return value.map(clone);
+  if (value instanceof Set) return new Set([...value].map(clone));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => [k, clone(v)])
+    );
+  }
+  return value;
+}
+
+function project(
+  item: Item,
+  projectionExpression?: string,
+  names?: Record<string, string>
+) {
+  if (!projectionExpression) return clone(item) as Item;
+  const namesMap = new Map(Object.entries(names ?? {}));
+  const attributes = projectionExpression
+    .split(",")
+    .map((name) => name.trim())
+    .map((name) => namesMap.get(name) ?? name);
+  return clone(
+    Object.fromEntries(
+      Object.entries(item).filter(([k]) => attributes.includes(k))
+    )
+  ) as Item;
+}
+
+/** Compare two values of the same type, returns undefined if they can't be compared */
+function compare(a: unknown, b: unknown) {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "string" && typeof b === "string")
+    return a < b ? -1 : a > b ? 1 : 0;
+  if (a instanceof Uint8Array && b instanceof Uint8Array)
+    return Buffer.compare(a, b);
+  return undefined;
+}
+
+function equals(a: unknown, b: unknown) {
+  const compared = compare(a, b);
+  if (compared !== undefined) return compared === 0;
+  return a !== undefined && isDeepStrictEqual(a, b);
+}
+
+interface Token {
+  type: "name" | "value" | "word" | "symbol";
+  text: string;
+}
+
+function tokenize(expression: string) {
+  const tokens: Token[] = [];
+  const isWordChar = (c: string) => /[A-Za-z0-9_]/.test(c);
+  let i = 0;
+  while (i < expression.length) {
+    const c = expression.charAt(i);
+    if (/\s/.test(c)) {
+      i++;
+    } else if (["<>", "<=", ">="].includes(expression.slice(i, i + 2))) {
+      tokens.push({ type: "symbol", text: expression.slice(i, i + 2) });
+      i += 2;
+    } else if ("(),=<>+-".includes(c)) {
+      tokens.push({ type: "symbol", text: c });
+      i++;
+    } else if (c === "#" || c === ":" || isWordChar(c)) {
+      let j = i + 1;
+      while (j < expression.length && isWordChar(expression.charAt(j))) j++;
+      tokens.push({
+        type: c === "#" ? "name" : c === ":" ? "value" : "word",
+        text: expression.slice(i, j),
+      });
+      i = j;
+    } else {
+      throw new Error(`Unsupported character in expression: ${c}`);
+    }
+  }
+  return tokens;
+}
+
+/** Recursive descent parser for condition and update expressions */
+class ExpressionParser {
+  private tokens: Token[];
+  private pos = 0;
+  private names: Map<string, string>;
+  private values: Map<string, unknown>;
+  constructor(
+    private expression: string,
+    {
+      ExpressionAttributeNames,
+      ExpressionAttributeValues,
+    }: {
+      ExpressionAttributeNames?: Record<string, string>;
+      ExpressionAttributeValues?: Record<string, unknown>;
+    }
+  ) {
+    this.tokens = tokenize(expression);
+    this.names = new Map(Object.entries(ExpressionAttributeNames ?? {}));
+    this.values = new Map(
+      Object.entries(ExpressionAttributeValues ?? {}).map(([k, v]) => [
+        k,
+        clone(v),
+      ])
+    );
+  }
+
+  done() {
+    return this.pos >= this.tokens.length;
+  }
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens.at(this.pos + offset);
+  }
+
+  peekKeyword(...keywords: string[]) {
+    const token = this.peek();
+    return (
+      token?.type === "word" && keywords.includes(token.text.toUpperCase())
+    );
+  }
+
+  next() {
+    const token = this.peek();
+    if (!token) throw this.error("Unexpected end of expression");
+    this.pos++;
+    return token;
+  }
+
+  expect(text: string) {
+    const token = this.next();
+    if (token.text.toUpperCase() !== text) {
+      throw this.error(`Expected "${text}" but found "${token.text}"`);
+    }
+  }
+
+  error(msg: string) {
+    return new Error(`${msg} in expression: ${this.expression}`);
+  }
+
+  parseCondition(): Condition {
+    let left = this.parseAnd();
+    while (this.peekKeyword("OR")) {
+      this.next();
+      const l = left;
+      const r = this.parseAnd();
+      left = (item) => l(item) || r(item);
+    }
+    return left;
+  }
+
+  private parseAnd(): Condition {
+    let left = this.parseNot();
+    while (this.peekKeyword("AND")) {
+      this.next();
+      const l = left;
+      const r = this.parseNot();
+      left = (item) => l(item) && r(item);
+    }
+    return left;
+  }
+
+  private parseNot(): Condition {
+    if (this.peekKeyword("NOT")) {
+      this.next();
+      const c = this.parseNot();
+      return (item) => !c(item);
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Condition {
+    if (this.peek()?.text === "(") {
+      this.next();
+      const c = this.parseCondition();
+      this.expect(")");
+      return c;
+    }
+    const fn = this.peek()?.text.toLowerCase();
+    if (this.peek()?.type === "word" && this.peek(1)?.text === "(") {
+      if (fn === "attribute_exists" || fn === "attribute_not_exists") {
+        this.next();
+        this.expect("(");
+        const name = this.parsePath();
+        this.expect(")");
+        return fn === "attribute_exists"
+          ? (item) => getAttribute(item, name) !== undefined
+          : (item) => getAttribute(item, name) === undefined;
+      } else if (fn === "begins_with" || fn === "contains") {
+        this.next();
+        this.expect("(");
+        const a = this.parseOperand();
+        this.expect(",");
+        const b = this.parseOperand();
+        this.expect(")");
+        return fn === "begins_with"
+          ? (item) => {
+              const [va, vb] = [a(item), b(item)];
+              return (
+                typeof va === "string" &&
+                typeof vb === "string" &&
+                va.startsWith(vb)
+              );
+            }
+          : (item) => {
+              const [va, vb] = [a(item), b(item)];
+              if (typeof va === "string" && typeof vb === "string")
+                return va.includes(vb);
+              if (Array.isArray(va)) return va.some((v) => equals(v, vb));
+              if (va instanceof Set) return [...va].some((v) => equals(v, vb));
+              return false;
+            };
+      }
+    }
+    const left = this.parseOperand();
+    if (this.peekKeyword("BETWEEN")) {
+      this.next();
+      const low = this.parseOperand();
+      this.expect("AND");
+      const high = this.parseOperand();
+      return (item) => {
+        const v = left(item);
+        return (
+          (compare(v, low(item)) ?? -1) >= 0 &&
+          (compare(v, high(item)) ?? 1) <= 0
+        );
+      };
+    }
+    if (this.peekKeyword("IN")) {
+      this.next();
+      this.expect("(");
+      const candidates = [this.parseOperand()];
+      while (this.peek()?.text === ",") {
+        this.next();
+        candidates.push(this.parseOperand());
+      }
+      this.expect(")");
+      return (item) => candidates.some((c) => equals(left(item), c(item)));
+    }
+    const operator = this.next().text;
+    const right = this.parseOperand();
+    switch (operator) {
+      case "=":
+        return (item) => equals(left(item), right(item));
+      case "<>":
+        return (item) => !equals(left(item), right(item));
+      case "<":
+        return (item) => (compare(left(item), right(item)) ?? 0) < 0;
+      case "<=":
+        return (item) => (compare(left(item), right(item)) ?? 1) <= 0;
+      case ">":
+        return (item) => (compare(left(item), right(item)) ?? 0) > 0;
+      case ">=":
+        return (item) => (compare(left(item), right(item)) ?? -1) >= 0;
+    }
+    throw this.error(`Unsupported operator "${operator}"`);
+  }
+
+  parseOperand(): Operand {
+    const token = this.next();
+    if (token.type === "value") {
+      if (!this.values.has(token.text)) {
+        throw this.error(`Missing value for ${token.text}`);
+      }
+      const value = this.values.get(token.text);
+      return () => value;
+    }
+    const fn = token.text.toLowerCase();
+    if (token.type === "word" && this.peek()?.text === "(") {
+      this.expect("(");
+      if (fn === "size") {
+        const name = this.parsePath();
+        this.expect(")");
+        return (item) => {
+          const v = getAttribute(item, name);
+          if (typeof v === "string" || Array.isArray(v)) return v.length;
+          if (v instanceof Uint8Array) return v.byteLength;
+          if (v instanceof Set) return v.size;
+          if (v && typeof v === "object") return Object.keys(v).length;
+          return undefined;
+        };
+      } else if (fn === "if_not_exists") {
+        const name = this.parsePath();
+        this.expect(",");
+        const fallback = this.parseOperand();
+        this.expect(")");
+        return (item) => getAttribute(item, name) ?? fallback(item);
+      } else if (fn === "list_append") {
+        const a = this.parseOperand();
+        this.expect(",");
+        const b = this.parseOperand();
+        this.expect(")");
+        return (item) => [
+          ...((a(item) as unknown[]) ?? []),
+          ...((b(item) as unknown[]) ?? []),
+        ];
+      }
+      throw this.error(`Unsupported function "${token.text}"`);
+    }
+    this.pos--;
+    const name = this.parsePath();
+    return (item) => getAttribute(item, name);
+  }
+
+  parsePath() {
+    const token = this.next();
+    let name: string | undefined;
+    if (token.type === "name") {
+      name = this.names.get(token.text);
+      if (!name) throw this.error(`Missing name for ${token.text}`);
+    } else if (token.type === "word") {
+      name = token.text;
+    } else {
+      throw this.error(`Expected attribute name but found "${token.text}"`);
+    }
+    if (this.peek()?.text === "." || this.peek()?.text === "[") {
+      throw this.error("Nested attributes are not supported");
+    }
+    return name;
+  }
+}
+
+function parseCondition(
+  expression: string,
+  input: ConstructorParameters<typeof ExpressionParser>[1]
+): Condition {
+  const parser = new ExpressionParser(expression, input);
+  const condition = parser.parseCondition();
+  if (!parser.done()) throw parser.error("Unexpected trailing tokens");
+  return condition;
+}
+
+/** Parses an update expression, returns a function that applies the update to an item and returns the updated attribute names */
+function parseUpdateExpression(
+  expression: string,
+  input: ConstructorParameters<typeof ExpressionParser>[1]
+) {
+  const parser = new ExpressionParser(expression, input);
+  const actions: ((item: Item, original: Item) => string)[] = [];
+  while (!parser.done()) {
+    const clause = parser.next().text.toUpperCase();
+    do {
+      if (parser.peek()?.text === ",") parser.next();
+      const name = parser.parsePath();
+      if (clause === "SET") {
+        parser.expect("=");
+        const a = parser.parseOperand();
+        let value: Operand = a;
+        if (parser.peek()?.text === "+" || parser.peek()?.text === "-") {
+          const sign = parser.next().text === "+" ? 1 : -1;
+          const b = parser.parseOperand();
+          value = (item) => (a(item) as number) + sign * (b(item) as number);
+        }
+        actions.push((item, original) => {
+          setAttribute(item, name, value(original));
+          return name;
+        });
+      } else if (clause === "ADD" || clause === "DELETE") {
+        const operand = parser.parseOperand();
+        actions.push((item, original) => {
+          const current = getAttribute(item, name);
+          const v = operand(original);
+          if (clause === "ADD" && typeof v === "number") {
+            setAttribute(item, name, ((current as number) ?? 0) + v);
+          } else if (v instanceof Set) {
+            const set = new Set(current as Set<unknown> | undefined);
+            v.forEach((e) => (clause === "ADD" ? set.add(e) : set.delete(e)));
+            setAttribute(item, name, set.size ? set : undefined);
+          } else {
+            throw parser.error(`Unsupported value for ${clause}`);
+          }
+          return name;
+        });
+      } else if (clause === "REMOVE") {
+        actions.push((item) => {
+          setAttribute(item, name, undefined);
+          return name;
+        });
+      } else {
+        throw parser.error(`Unsupported update clause "${clause}"`);
+      }
+    } while (parser.peek()?.text === ",");
+  }
+  return (item: Item) => {
+    const original = clone(item) as Item;
+    return actions.map((action) => action(item, original));
+  };
+}
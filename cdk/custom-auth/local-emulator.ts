@@ -0,0 +1,1035 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import {
+  constants,
+  createHash,
+  generateKeyPairSync,
+  KeyObject,
+  privateEncrypt,
+  randomBytes,
+  randomUUID,
+  sign,
+  verify,
+} from "crypto";
+import {
+  APIGatewayProxyEvent,
+  APIGatewayProxyResult,
+  Context,
+  CreateAuthChallengeTriggerEvent,
+  DefineAuthChallengeTriggerEvent,
+  Handler,
+  PreTokenGenerationTriggerEvent,
+  VerifyAuthChallengeResponseTriggerEvent,
+} from "aws-lambda";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import {
+  KMSClient,
+  SignCommand,
+  GetPublicKeyCommand,
+} from "@aws-sdk/client-kms";
+import { SNSClient, PublishCommand } from "@aws-sdk/client-sns";
+import { LambdaClient, InvokeCommand } from "@aws-sdk/client-lambda";
+import {
+  CognitoIdentityProviderClient,
+  AdminGetUserCommand,
+  AdminListGroupsForUserCommand,
+  UserNotFoundException,
+} from "@aws-sdk/client-cognito-identity-provider";
+import type { EmailSender } from "./common.js";
+import { InMemoryDynamoDb } from "./local-dynamodb.js";
+
+/** A user of the emulated User Pool */
+export interface LocalUser {
+  /** The Cognito username. Defaults to the sub (as when the User Pool uses e-mail and/or phone number as username) */
+  username?: string;
+  /** The user's attributes, e.g. email and phone_number. A sub is generated if not provided */
+  attributes: Record<string, string>;
+  /** The Cognito groups the user is a member of (e.g. for the FIDO2 admin API) */
+  groups?: string[];
+}
+
+export interface LocalEmulatorProps {
+  /** The port to listen on (default: 8787) */
+  port?: number;
+  /** The host to listen on (default: localhost) */
+  host?: string;
+  /** The ID of the emulated User Pool (default: local_passwordless) */
+  userPoolId?: string;
+  /** The ID of the emulated User Pool client (default: local-client) */
+  clientId?: string;
+  /** The users in the emulated User Pool */
+  users?: LocalUser[];
+  /** The origins of the web app(s), that magic links point to and that FIDO2 credentials are created for (default: http://localhost:5173) */
+  allowedOrigins?: string[];
+  /** The FIDO2 relying party IDs (default: localhost) */
+  allowedRelyingPartyIds?: string[];
+  /** Environment variables for the trigger handlers, to override the defaults that the emulator sets, e.g. { USER_VERIFICATION: "preferred" } */
+  environment?: Record<string, string>;
+  /** Where the emulator prints e-mails, text messages and other output to (default: console.log) */
+  print?: (...msg: unknown[]) => void;
+}
+
+interface StoredUser {
+  username: string;
+  attributes: Record<string, string>;
+  groups: string[];
+}
+
+interface AuthSession {
+  userName: string;
+  user?: StoredUser;
+  sourceIp?: string;
+  challenges: DefineAuthChallengeTriggerEvent["request"]["session"];
+  currentChallenge?: {
+    challengeName: string;
+    privateChallengeParameters: Record<string, string>;
+    challengeMetadata?: string;
+  };
+  expiresAt: number;
+}
+
+interface CognitoRequest {
+  ClientId?: string;
+  AuthFlow?: string;
+  AuthParameters?: Record<string, string>;
+  ChallengeName?: string;
+  ChallengeResponses?: Record<string, string>;
+  ClientMetadata?: Record<string, string>;
+  Session?: string;
+  Token?: string;
+  AccessToken?: string;
+}
+
+/** An error in the format of the Cognito API, which the client parses */
+class CognitoError extends Error {
+  constructor(
+    public type: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const sessionValiditySeconds = 3 * 60;
+const tokenValiditySeconds = 60 * 60;
+const notificationFunctionArn =
+  "arn:aws:lambda:local:000000000000:function:fido2-notification";
+
+/**
+ * Start a local emulator of the passwordless backend, for development without an AWS account.
+ *
+ * The emulator implements the Cognito API calls that the client library uses for sign-in (InitiateAuth, RespondToAuthChallenge, GetUser, RevokeToken),
+ * and runs the real custom auth trigger handlers of this solution in-process.
+ * DynamoDB, KMS, SES, SNS and Lambda are emulated in-memory: e-mails and text messages (e.g. magic links and OTPs) are printed to the console.
+ * The FIDO2 API is served at /fido2 and the Magic Link API at /magic-link.
+ *
+ * Configure the client library to use the emulator, e.g.:
+ * configure({ clientId: "local-client", cognitoIdpEndpoint: "http://localhost:8787", fido2: { baseUrl: "http://localhost:8787/fido2" } })
+ *
+ * Note: the trigger handlers read their configuration from environment variables when they are first imported,
+ * so only one emulator can be started per process.
+ */
+export async function startLocalEmulator(props: LocalEmulatorProps = {}) {
+  const print = props.print ?? console.log;
+  const userPoolId = props.userPoolId ?? "local_passwordless";
+  const clientId = props.clientId ?? "local-client";
+  const allowedOrigins = props.allowedOrigins ?? ["http://localhost:5173"];
+  const region = "local";
+
+  const server = createServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(props.port ?? 8787, props.host ?? "localhost", resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+  const url = `http://${props.host ?? "localhost"}:${port}`;
+  const issuer = `${url}/${userPoolId}`;
+
+  // The handlers read these when they are imported, mirroring the environment that the CDK construct sets
+  const environment: Record<string, string> = {
+    USER_POOL_ID: userPoolId,
+    COGNITO_USER_POOL_ID: userPoolId,
+    STACK_ID: "local-emulator",
+    ALLOWED_ORIGINS: allowedOrigins.join(","),
+    MAGIC_LINK_ENABLED: "TRUE",
+    SES_FROM_ADDRESS: "no-reply@localhost",
+    KMS_KEY_ID: "local-kms-key",
+    DYNAMODB_SECRETS_TABLE: "local-secrets",
+    FIDO2_ENABLED: "TRUE",
+    DYNAMODB_AUTHENTICATORS_TABLE: "local-authenticators",
+    ALLOWED_RELYING_PARTY_IDS: (
+      props.allowedRelyingPartyIds ?? ["localhost"]
+    ).join(","),
+    RELYING_PARTY_NAME: "Passwordless (local)",
+    USER_VERIFICATION: "required",
+    FIDO2_TRANSACTION_SIGNING_ENABLED: "TRUE",
+    FIDO2_STEP_UP_ENABLED: "TRUE",
+    AUTHENTICATION_METHOD_CLAIMS_ENABLED: "TRUE",
+    DYNAMODB_AUTHENTICATION_METHODS_TABLE: "local-authentication-methods",
+    FIDO2_NOTIFICATION_LAMBDA_ARN: notificationFunctionArn,
+    RECOVERY_CODES_ENABLED: "TRUE",
+    EMAIL_OTP_ENABLED: "TRUE",
+    EMAIL_OTP_SES_FROM_ADDRESS: "no-reply@localhost",
+    SMS_OTP_STEP_UP_ENABLED: "TRUE",
+    SMS_OTP_SIGN_IN_ENABLED: "TRUE",
+    ADMIN_AUTHORIZATION_TYPE: "COGNITO_GROUP",
+    ADMIN_GROUP_NAME: "passwordless-admins",
+    ...props.environment,
+  };
+  for (const [name, value] of Object.entries(environment)) {
+    // eslint-disable-next-line security/detect-object-injection
+    process.env[name] = value;
+  }
+
+  const [
+    defineAuthChallenge,
+    createAuthChallenge,
+    verifyAuthChallengeResponse,
+    preToken,
+    magicLink,
+    emailOtp,
+    smsOtpStepUp,
+    fido2,
+    fido2Notification,
+    fido2CredentialsApi,
+    fido2ChallengeApi,
+    fido2AdminApi,
+    magicLinkApi,
+  ] = await Promise.all([
+    import("./define-auth-challenge.js"),
+    import("./create-auth-challenge.js"),
+    import("./verify-auth-challenge-response.js"),
+    import("./pre-token.js"),
+    import("./magic-link.js"),
+    import("./email-otp.js"),
+    import("./sms-otp-stepup.js"),
+    import("./fido2.js"),
+    import("./fido2-notification.js"),
+    import("./fido2-credentials-api.js"),
+    import("./fido2-challenge-api.js"),
+    import("./fido2-admin-api.js"),
+    import("./magic-link-api.js"),
+  ]);
+
+  // Users
+  const users = new Map<string, StoredUser>();
+  function addUser(user: LocalUser) {
+    const attributes: Record<string, string> = {
+      sub: randomUUID(),
+      ...user.attributes,
+    };
+    if (attributes.email && !attributes.email_verified)
+      attributes.email_verified = "true";
+    if (attributes.phone_number && !attributes.phone_number_verified)
+      attributes.phone_number_verified = "true";
+    const stored = {
+      username: user.username ?? attributes.sub,
+      attributes,
+      groups: user.groups ?? [],
+    };
+    users.set(stored.username, stored);
+    return stored;
+  }
+  function findUser(usernameOrAlias: string) {
+    const lower = usernameOrAlias.toLowerCase();
+    return [...users.values()].find(
+      (user) =>
+        user.username.toLowerCase() === lower ||
+        user.attributes.email?.toLowerCase() === lower ||
+        user.attributes.phone_number === usernameOrAlias
+    );
+  }
+  props.users?.forEach(addUser);
+
+  // Stand-ins for AWS services
+  const db = new InMemoryDynamoDb({
+    tables: {
+      [environment.DYNAMODB_SECRETS_TABLE]: { partitionKey: "userNameHash" },
+      [environment.DYNAMODB_AUTHENTICATORS_TABLE]: {
+        partitionKey: "pk",
+        sortKey: "sk",
+        indexes: { credentialId: { partitionKey: "credentialId" } },
+      },
+      ...(environment.DYNAMODB_RATE_LIMIT_TABLE && {
+        [environment.DYNAMODB_RATE_LIMIT_TABLE]: { partitionKey: "pk" },
+      }),
+      ...(environment.DYNAMODB_AUTHENTICATION_METHODS_TABLE && {
+        [environment.DYNAMODB_AUTHENTICATION_METHODS_TABLE]: {
+          partitionKey: "pk",
+        },
+      }),
+    },
+  });
+  replaceSend(DynamoDBDocumentClient, (command) => db.send(command));
+
+  const kmsKey = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  replaceSend(KMSClient, async (command) => {
+    if (command instanceof SignCommand) {
+      return {
+        Signature: signPssSha512Digest(
+          kmsKey.privateKey,
+          command.input.Message!
+        ),
+      };
+    } else if (command instanceof GetPublicKeyCommand) {
+      return {
+        PublicKey: kmsKey.publicKey.export({ format: "der", type: "spki" }),
+      };
+    }
+    throw new Error("KMS command not supported by the local emulator");
+  });
+
+  replaceSend(SNSClient, async (command) => {
+    if (command instanceof PublishCommand) {
+      print(
+        `\n[local-emulator] Text message to ${command.input.PhoneNumber}:\n${command.input.Message}\n`
+      );
+      return { MessageId: randomUUID() };
+    }
+    throw new Error("SNS command not supported by the local emulator");
+  });
+
+  replaceSend(LambdaClient, async (command) => {
+    if (
+      command instanceof InvokeCommand &&
+      command.input.FunctionName === notificationFunctionArn
+    ) {
+      const payload = command.input.Payload!;
+      const event = JSON.parse(
+        typeof payload === "string"
+          ? payload
+          : Buffer.from(payload as Uint8Array).toString()
+      ) as Parameters<typeof fido2Notification.handler>[0];
+      // Async invocation: don't wait for the notification to be sent
+      invoke(fido2Notification.handler, event).catch((err) =>
+        print("[local-emulator] Failed to send notification:", err)
+      );
+      return { StatusCode: 202 };
+    }
+    throw new Error("Lambda command not supported by the local emulator");
+  });
+
+  replaceSend(CognitoIdentityProviderClient, async (command) => {
+    if (command instanceof AdminGetUserCommand) {
+      const user = users.get(command.input.Username!);
+      if (!user) {
+        throw new UserNotFoundException({
+          message: "User does not exist.",
+          $metadata: {},
+        });
+      }
+      return {
+        Username: user.username,
+        UserAttributes: toAttributeList(user.attributes),
+        Enabled: true,
+        UserStatus: "CONFIRMED",
+      };
+    }
+    if (command instanceof AdminListGroupsForUserCommand) {
+      const user = users.get(command.input.Username!);
+      if (!user) {
+        throw new UserNotFoundException({
+          message: "User does not exist.",
+          $metadata: {},
+        });
+      }
+      return { Groups: user.groups.map((GroupName) => ({ GroupName })) };
+    }
+    throw new Error("Cognito command not supported by the local emulator");
+  });
+
+  const emailSender: EmailSender = {
+    sendEmail: async ({ toAddress, content }) =>
+      print(
+        `\n[local-emulator] E-mail to ${toAddress}: ${content.subject.data}\n${content.text.data}\n`
+      ),
+  };
+  magicLink.configure({ emailSender });
+  emailOtp.configure({ emailSender });
+  fido2Notification.configure({ emailSender });
+
+  // JWTs
+  const jwtKey = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const kid = createHash("sha256")
+    .update(jwtKey.publicKey.export({ format: "der", type: "spki" }))
+    .digest("base64url");
+  function signJwt(payload: Record<string, unknown>) {
+    const header = Buffer.from(JSON.stringify({ kid, alg: "RS256" })).toString(
+      "base64url"
+    );
+    const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+    const signature = sign(
+      "sha256",
+      Buffer.from(`${header}.${body}`),
+      jwtKey.privateKey
+    );
+    return `${header}.${body}.${signature.toString("base64url")}`;
+  }
+  function verifyJwt(jwt: string, tokenUse: "id" | "access") {
+    const [header, body, signature] = jwt.split(".");
+    if (
+      !signature ||
+      !verify(
+        "sha256",
+        Buffer.from(`${header}.${body}`),
+        jwtKey.publicKey,
+        Buffer.from(signature, "base64url")
+      )
+    ) {
+      return undefined;
+    }
+    const payload = JSON.parse(
+      Buffer.from(body, "base64url").toString()
+    ) as Record<string, unknown>;
+    if (
+      payload.iss !== issuer ||
+      payload.token_use !== tokenUse ||
+      typeof payload.exp !== "number" ||
+      payload.exp < Date.now() / 1000
+    ) {
+      return undefined;
+    }
+    return payload;
+  }
+  // Step-up authentication requires the user's access token
+  const stepUpJwtVerifier = async ({
+    clientId,
+    jwt,
+    sub,
+  }: {
+    clientId: string;
+    jwt: string;
+    sub: string;
+  }) => {
+    const payload = verifyJwt(jwt, "access");
+    return payload?.sub === sub && payload.client_id === clientId;
+  };
+  smsOtpStepUp.configure({ jwtVerifier: stepUpJwtVerifier });
+  fido2.configure({ jwtVerifier: stepUpJwtVerifier });
+
+  // Cognito custom authentication flow
+  const sessions = new Map<string, AuthSession>();
+  const refreshTokens = new Map<
+    string,
+    { username: string; authTime: number }
+  >();
+  const callerContext = { awsSdkVersion: "local-emulator", clientId };
+
+  function triggerEventBase(session: {
+    userName: string;
+    user?: StoredUser;
+    sourceIp?: string;
+  }) {
+    return {
+      version: "1",
+      region,
+      userPoolId,
+      userName: session.userName,
+      callerContext,
+    };
+  }
+
+  function triggerRequestBase(session: {
+    user?: StoredUser;
+    sourceIp?: string;
+  }) {
+    return {
+      userAttributes: { ...session.user?.attributes },
+      userNotFound: !session.user,
+      userContextData: { ipAddress: session.sourceIp },
+    };
+  }
+
+  async function runTrigger<E extends { response: unknown }>(
+    name: string,
+    handler: Handler<E>,
+    event: E
+  ) {
+    try {
+      return ((await invoke(handler, event)) as E | undefined) ?? event;
+    } catch (err) {
+      print(`[local-emulator] ${name} failed:`, err);
+      throw new CognitoError(
+        "UserLambdaValidationException",
+        `${name} failed with error ${
+          err instanceof Error ? err.message : String(err)
+        }.`
+      );
+    }
+  }
+
+  async function continueAuth(
+    session: AuthSession,
+    clientMetadata?: Record<string, string>
+  ) {
+    const {
+      response: { challengeName, issueTokens, failAuthentication },
+    } = await runTrigger("DefineAuthChallenge", defineAuthChallenge.handler, {
+      ...triggerEventBase(session),
+      triggerSource: "DefineAuthChallenge_Authentication",
+      request: {
+        ...triggerRequestBase(session),
+        session: session.challenges,
+        clientMetadata,
+      },
+      response: {
+        challengeName: "",
+        issueTokens: false,
+        failAuthentication: false,
+      },
+    } as DefineAuthChallengeTriggerEvent);
+    if (failAuthentication || (issueTokens && !session.user)) {
+      throw new CognitoError(
+        "NotAuthorizedException",
+        "Incorrect username or password."
+      );
+    }
+    if (issueTokens && session.user) {
+      return {
+        AuthenticationResult: await createTokens({
+          user: session.user,
+          triggerSource: "TokenGeneration_Authentication",
+          clientMetadata,
+          authTime: Math.floor(Date.now() / 1000),
+          withRefreshToken: true,
+        }),
+        ChallengeParameters: {},
+      };
+    }
+    if (challengeName !== "CUSTOM_CHALLENGE") {
+      throw new CognitoError(
+        "InvalidParameterException",
+        `Challenge not supported by the local emulator: ${challengeName}`
+      );
+    }
+    const {
+      response: {
+        publicChallengeParameters,
+        privateChallengeParameters,
+        challengeMetadata,
+      },
+    } = await runTrigger("CreateAuthChallenge", createAuthChallenge.handler, {
+      ...triggerEventBase(session),
+      triggerSource: "CreateAuthChallenge_Authentication",
+      request: {
+        ...triggerRequestBase(session),
+        challengeName,
+        session: session.challenges,
+        clientMetadata,
+      },
+      response: {
+        publicChallengeParameters: {},
+        privateChallengeParameters: {},
+        challengeMetadata: "",
+      },
+    } as CreateAuthChallengeTriggerEvent);
+    session.currentChallenge = {
+      challengeName,
+      privateChallengeParameters,
+      challengeMetadata,
+    };
+    session.expiresAt = Date.now() + sessionValiditySeconds * 1000;
+    const sessionId = randomBytes(64).toString("base64url");
+    sessions.set(sessionId, session);
+    return {
+      ChallengeName: challengeName,
+      Session: sessionId,
+      ChallengeParameters: {
+        ...publicChallengeParameters,
+        USERNAME: session.userName,
+      },
+    };
+  }
+
+  async function createTokens({
+    user,
+    triggerSource,
+    clientMetadata,
+    authTime,
+    withRefreshToken,
+  }: {
+    user: StoredUser;
+    triggerSource: PreTokenGenerationTriggerEvent["triggerSource"];
+    clientMetadata?: Record<string, string>;
+    authTime: number;
+    withRefreshToken: boolean;
+  }) {
+    const {
+      response: { claimsOverrideDetails },
+    } = await runTrigger("PreTokenGeneration", preToken.handler, {
+      ...triggerEventBase({ userName: user.username, user }),
+      triggerSource,
+      request: {
+        userAttributes: { ...user.attributes },
+        groupConfiguration: { groupsToOverride: user.groups },
+        clientMetadata,
+      },
+      response: { claimsOverrideDetails: {} },
+    } as PreTokenGenerationTriggerEvent);
+    const groups =
+      claimsOverrideDetails?.groupOverrideDetails?.groupsToOverride ??
+      user.groups;
+    const iat = Math.floor(Date.now() / 1000);
+    const common = {
+      sub: user.attributes.sub,
+      ...(groups.length && { "cognito:groups": groups }),
+      iss: issuer,
+      origin_jti: randomUUID(),
+      event_id: randomUUID(),
+      auth_time: authTime,
+      iat,
+      exp: iat + tokenValiditySeconds,
+    };
+    const idTokenClaims = Object.fromEntries(
+      Object.entries({
+        ...Object.fromEntries(
+          Object.entries(user.attributes).map(([name, value]) => [
+            name,
+            name.endsWith("_verified") ? value === "true" : value,
+          ])
+        ),
+        ...common,
+        "cognito:username": user.username,
+        aud: clientId,
+        token_use: "id",
+        jti: randomUUID(),
+        ...claimsOverrideDetails?.claimsToAddOrOverride,
+      }).filter(
+        ([name]) => !claimsOverrideDetails?.claimsToSuppress?.includes(name)
+      )
+    );
+    let refreshToken: string | undefined = undefined;
+    if (withRefreshToken) {
+      refreshToken = randomBytes(64).toString("base64url");
+      refreshTokens.set(refreshToken, { username: user.username, authTime });
+    }
+    return {
+      IdToken: signJwt(idTokenClaims),
+      AccessToken: signJwt({
+        ...common,
+        client_id: clientId,
+        token_use: "access",
+        scope: "aws.cognito.signin.user.admin",
+        jti: randomUUID(),
+        username: user.username,
+      }),
+      RefreshToken: refreshToken,
+      ExpiresIn: tokenValiditySeconds,
+      TokenType: "Bearer",
+    };
+  }
+
+  const cognitoOperations: Record<
+    string,
+    (request: CognitoRequest, sourceIp?: string) => Promise<unknown>
+  > = {
+    InitiateAuth: async (request, sourceIp) => {
+      assertClientId(request.ClientId);
+      if (request.AuthFlow === "CUSTOM_AUTH") {
+        const username = request.AuthParameters?.USERNAME;
+        if (!username) {
+          throw new CognitoError(
+            "InvalidParameterException",
+            "Missing required parameter USERNAME"
+          );
+        }
+        const user = findUser(username);
+        // Like a User Pool with "Prevent user existence errors", the custom auth triggers are invoked for unknown users too
+        return continueAuth({
+          userName: user?.username ?? username,
+          user,
+          sourceIp,
+          challenges: [],
+          expiresAt: 0,
+        });
+      } else if (
+        request.AuthFlow === "REFRESH_TOKEN_AUTH" ||
+        request.AuthFlow === "REFRESH_TOKEN"
+      ) {
+        const stored = refreshTokens.get(
+          request.AuthParameters?.REFRESH_TOKEN ?? ""
+        );
+        const user = stored && users.get(stored.username);
+        if (!stored || !user) {
+          throw new CognitoError(
+            "NotAuthorizedException",
+            "Invalid Refresh Token"
+          );
+        }
+        return {
+          AuthenticationResult: await createTokens({
+            user,
+            triggerSource: "TokenGeneration_RefreshTokens",
+            clientMetadata: request.ClientMetadata,
+            authTime: stored.authTime,
+            withRefreshToken: false,
+          }),
+          ChallengeParameters: {},
+        };
+      }
+      throw new CognitoError(
+        "InvalidParameterException",
+        `AuthFlow not supported by the local emulator: ${request.AuthFlow}`
+      );
+    },
+    RespondToAuthChallenge: async (request) => {
+      assertClientId(request.ClientId);
+      const session = sessions.get(request.Session ?? "");
+      sessions.delete(request.Session ?? "");
+      if (
+        !session?.currentChallenge ||
+        session.expiresAt < Date.now() ||
+        request.ChallengeName !== session.currentChallenge.challengeName
+      ) {
+        throw new CognitoError(
+          "NotAuthorizedException",
+          "Invalid session for the user, session is expired."
+        );
+      }
+      const answer = request.ChallengeResponses?.ANSWER;
+      if (answer === undefined) {
+        throw new CognitoError(
+          "InvalidParameterException",
+          "Missing required parameter ANSWER"
+        );
+      }
+      const { challengeName, privateChallengeParameters, challengeMetadata } =
+        session.currentChallenge;
+      const {
+        response: { answerCorrect },
+      } = await runTrigger(
+        "VerifyAuthChallengeResponse",
+        verifyAuthChallengeResponse.handler,
+        {
+          ...triggerEventBase(session),
+          triggerSource: "VerifyAuthChallengeResponse_Authentication",
+          request: {
+            ...triggerRequestBase(session),
+            privateChallengeParameters,
+            challengeAnswer: answer,
+            clientMetadata: request.ClientMetadata,
+          },
+          response: { answerCorrect: false },
+        } as VerifyAuthChallengeResponseTriggerEvent
+      );
+      session.challenges.push({
+        challengeName: challengeName as "CUSTOM_CHALLENGE",
+        challengeResult: answerCorrect,
+        challengeMetadata,
+      });
+      session.currentChallenge = undefined;
+      return continueAuth(session, request.ClientMetadata);
+    },
+    GetUser: async (request) => {
+      const claims = verifyJwt(request.AccessToken ?? "", "access");
+      const user = claims && users.get(claims.username as string);
+      if (!user) {
+        throw new CognitoError(
+          "NotAuthorizedException",
+          "Invalid Access Token"
+        );
+      }
+      return {
+        Username: user.username,
+        UserAttributes: toAttributeList(user.attributes),
+      };
+    },
+    RevokeToken: async (request) => {
+      assertClientId(request.ClientId);
+      refreshTokens.delete(request.Token ?? "");
+      return {};
+    },
+  };
+
+  function assertClientId(requestClientId?: string) {
+    if (requestClientId !== clientId) {
+      throw new CognitoError(
+        "ResourceNotFoundException",
+        `User pool client ${requestClientId} does not exist.`
+      );
+    }
+  }
+
+  // REST APIs (API Gateway)
+  async function handleApiRequest(
+    req: IncomingMessage,
+    { pathname: path, searchParams }: URL,
+    body: string
+  ): Promise<APIGatewayProxyResult> {
+    const event = {
+      resource: path,
+      path,
+      httpMethod: req.method!,
+      headers: Object.fromEntries(
+        Object.entries(req.headers).map(([k, v]) => [k, String(v)])
+      ),
+      multiValueHeaders: {},
+      queryStringParameters: searchParams.size
+        ? Object.fromEntries(searchParams)
+        : null,
+      multiValueQueryStringParameters: null,
+      pathParameters: null,
+      stageVariables: null,
+      body,
+      isBase64Encoded: false,
+      requestContext: {
+        path,
+        httpMethod: req.method!,
+        stage: "local",
+        requestId: randomUUID(),
+        requestTimeEpoch: Date.now(),
+        identity: {
+          sourceIp: req.socket.remoteAddress ?? "127.0.0.1",
+          userAgent: req.headers["user-agent"] ?? null,
+        },
+        authorizer: undefined as { claims: Record<string, string> } | undefined,
+      },
+    };
+    if (path.startsWith("/fido2/") && path !== "/fido2/sign-in-challenge") {
+      // Like the Cognito authorizer of API Gateway
+      const claims = verifyJwt(
+        req.headers.authorization?.replace(/^Bearer /, "") ?? "",
+        "id"
+      );
+      if (!claims) {
+        return {
+          statusCode: 401,
+          body: JSON.stringify({ message: "Unauthorized" }),
+        };
+      }
+      event.requestContext.authorizer = {
+        claims: Object.fromEntries(
+          Object.entries(claims).map(([k, v]) => [
+            k,
+            Array.isArray(v) ? v.join(",") : String(v),
+          ])
+        ),
+      };
+    }
+    const apiEvent = event as unknown as APIGatewayProxyEvent;
+    if (path.startsWith("/fido2/admin/")) {
+      apiEvent.path = path.slice("/fido2".length);
+      return invoke(fido2AdminApi.handler, apiEvent);
+    } else if (path === "/fido2/sign-in-challenge") {
+      apiEvent.path = path.slice("/fido2".length);
+      return invoke(fido2ChallengeApi.handler, apiEvent);
+    } else if (path.startsWith("/fido2/")) {
+      apiEvent.path = path.slice("/fido2".length);
+      return invoke(fido2CredentialsApi.handler, apiEvent);
+    } else if (path.startsWith("/magic-link/")) {
+      apiEvent.path = path.slice("/magic-link".length);
+      return invoke(magicLinkApi.handler, apiEvent);
+    }
+    return { statusCode: 404, body: JSON.stringify({ message: "Not found" }) };
+  }
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse) {
+    if (req.headers.origin) {
+      res.setHeader("Access-Control-Allow-Origin", req.headers.origin);
+      res.setHeader("Access-Control-Allow-Credentials", "true");
+      res.setHeader("Vary", "Origin");
+    }
+    if (req.method === "OPTIONS") {
+      res.setHeader(
+        "Access-Control-Allow-Headers",
+        req.headers["access-control-request-headers"] ?? "*"
+      );
+      res.setHeader("Access-Control-Allow-Methods", "GET,POST,OPTIONS");
+      res.setHeader("Access-Control-Max-Age", "86400");
+      res.writeHead(204).end();
+      return;
+    }
+    const requestUrl = new URL(req.url ?? "/", url);
+    const path = requestUrl.pathname;
+    if (
+      req.method === "GET" &&
+      path === `/${userPoolId}/.well-known/jwks.json`
+    ) {
+      sendJson(res, 200, {
+        keys: [
+          {
+            ...jwtKey.publicKey.export({ format: "jwk" }),
+            kid,
+            alg: "RS256",
+            use: "sig",
+          },
+        ],
+      });
+      return;
+    }
+    const body = await readBody(req);
+    if (path.startsWith("/fido2/") || path.startsWith("/magic-link/")) {
+      const { statusCode, body: responseBody } = await handleApiRequest(
+        req,
+        requestUrl,
+        body
+      );
+      res.writeHead(statusCode, {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      });
+      res.end(responseBody);
+      return;
+    }
+    const target = req.headers["x-amz-target"];
+    const operation =
+      req.method === "POST" &&
+      typeof target === "string" &&
+      target.startsWith("AWSCognitoIdentityProviderService.")
+        ? new Map(Object.entries(cognitoOperations)).get(
+            target.slice("AWSCognitoIdentityProviderService.".length)
+          )
+        : undefined;
+    if (!operation) {
+      sendJson(res, 400, {
+        __type: "UnknownOperationException",
+        message: "Operation not supported by the local emulator",
+      });
+      return;
+    }
+    try {
+      sendJson(
+        res,
+        200,
+        await operation(
+          JSON.parse(body || "{}") as CognitoRequest,
+          req.socket.remoteAddress
+        )
+      );
+    } catch (err) {
+      if (err instanceof CognitoError) {
+        sendJson(res, 400, { __type: err.type, message: err.message });
+        return;
+      }
+      throw err;
+    }
+  }
+
+  server.on("request", (req: IncomingMessage, res: ServerResponse) => {
+    handleRequest(req, res).catch((err) => {
+      print("[local-emulator] Internal error:", err);
+      sendJson(res, 500, {
+        __type: "InternalErrorException",
+        message: "Internal error in the local emulator",
+      });
+    });
+  });
+
+  print(
+    `[local-emulator] Passwordless backend emulator listening on ${url} (User Pool ID: ${userPoolId}, Client ID: ${clientId})`
+  );
+
+  return {
+    /** The URL of the emulator, use as cognitoIdpEndpoint in the client configuration */
+    url,
+    userPoolId,
+    clientId,
+    /** Add a user to the emulated User Pool */
+    addUser,
+    /** Stop the emulator */
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve()))
+      ),
+  };
+}
+
+/** Route all commands of the given AWS SDK client class to the local stand-in */
+function replaceSend(
+  client: { prototype: object },
+  send: (command: unknown) => Promise<unknown>
+) {
+  Object.defineProperty(client.prototype, "send", {
+    value: send,
+    writable: true,
+    configurable: true,
+  });
+}
+
+async function invoke<E, R>(handler: Handler<E, R>, event: E) {
+  const context = {
+    functionName: "local-emulator",
+    awsRequestId: randomUUID(),
+  } as Context;
+  return (await handler(event, context, () => undefined)) as R;
+}
+
+function toAttributeList(attributes: Record<string, string>) {
+  return Object.entries(attributes).map(([Name, Value]) => ({ Name, Value }));
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown) {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(statusCode, {
+    "Content-Type": "application/x-amz-json-1.1",
+  });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > 1024 * 1024) throw new Error("Request body too large");
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+/**
+ * Sign a SHA-512 digest with RSASSA-PSS, like KMS does for SigningAlgorithm RSASSA_PSS_SHA_512 and MessageType DIGEST.
+ * Node.js can't sign a pre-computed digest with PSS padding, so the EMSA-PSS encoding (RFC 8017, 9.1.1) is done here
+ */
+function signPssSha512Digest(privateKey: KeyObject, digest: Uint8Array) {
+  const hashLength = 64;
+  const saltLength = 64;
+  const emBits = privateKey.asymmetricKeyDetails!.modulusLength! - 1;
+  const emLength = Math.ceil(emBits / 8);
+  const salt = randomBytes(saltLength);
+  const h = createHash("sha512")
+    .update(Buffer.alloc(8))
+    .update(digest)
+    .update(salt)
+    .digest();
+  const db = Buffer.concat([
+    Buffer.alloc(emLength - saltLength - hashLength - 2),
+    Buffer.from([0x01]),
+    salt,
+  ]);
+  const mask = mgf1Sha512(h, db.length);
+  const maskedDb = Buffer.from(db.map((b, i) => b ^ mask.readUInt8(i)));
+  maskedDb[0] &= 0xff >>> (8 * emLength - emBits);
+  const em = Buffer.concat([maskedDb, h, Buffer.from([0xbc])]);
+  return privateEncrypt(
+    { key: privateKey, padding: constants.RSA_NO_PADDING },
+    em
+  );
+}
+
+function mgf1Sha512(seed: Buffer, length: number) {
+  const blocks: Buffer[] = [];
+  for (let counter = 0; blocks.length * 64 < length; counter++) {
+    const c = Buffer.alloc(4);
+    c.writeUInt32BE(counter);
+    blocks.push(createHash("sha512").update(seed).update(c).digest());
+  }
+  return Buffer.concat(blocks).subarray(0, length);
+}
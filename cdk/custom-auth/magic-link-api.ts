@@ -0,0 +1,107 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { APIGatewayProxyHandler } from "aws-lambda";
+import { logger, UserFacingError, withCommonHeaders } from "./common.js";
+import * as magicLink from "./magic-link.js";
+
+/** How long a status request may wait for the Magic Link to be approved (API Gateway times out after 29 seconds) */
+const longPollTimeout = Number(process.env.LONG_POLL_TIMEOUT ?? "20000");
+const pollInterval = 1000;
+
+const _handler: APIGatewayProxyHandler = async (event) => {
+  logger.debug(JSON.stringify(event, null, 2));
+  logger.info("Magic Link API invocation:", event.path);
+  try {
+    if (event.path === "/sign-in-link/approve") {
+      const { fragmentIdentifier, clientId } = parseBody(event.body, [
+        "fragmentIdentifier",
+        "clientId",
+      ]);
+      const approved = await magicLink.approveMagicLink(
+        fragmentIdentifier,
+        clientId
+      );
+      if (!approved) {
+        throw new UserFacingError("Invalid sign-in link");
+      }
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ approved }),
+      };
+    } else if (event.path === "/sign-in-link/status") {
+      const { username, remoteApprovalSecret } = parseBody(event.body, [
+        "username",
+        "remoteApprovalSecret",
+      ]);
+      const deadline = Date.now() + longPollTimeout;
+      let status = await magicLink.getRemoteApprovalStatus(
+        username,
+        remoteApprovalSecret
+      );
+      while (status === "PENDING" && Date.now() + pollInterval < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, pollInterval));
+        status = await magicLink.getRemoteApprovalStatus(
+          username,
+          remoteApprovalSecret
+        );
+      }
+      return {
+        statusCode: 200,
+        /** Remember, only return things we want unauthenticated users to see */
+        body: JSON.stringify({ status }),
+      };
+    }
+    return {
+      statusCode: 404,
+      body: JSON.stringify({ message: "Not found" }),
+    };
+  } catch (err) {
+    logger.error(err);
+    if (err instanceof UserFacingError)
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ message: err.message }),
+      };
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: "Internal Server Error" }),
+    };
+  }
+};
+
+function parseBody<K extends string>(body: string | null, keys: K[]) {
+  try {
+    const parsed: unknown = JSON.parse(body ?? "{}");
+    if (!parsed || typeof parsed !== "object") {
+      throw new Error("Expected object");
+    }
+    const res = {} as Record<K, string>;
+    for (const k of keys) {
+      // eslint-disable-next-line security/detect-object-injection
+      const v: unknown = (parsed as Record<string, unknown>)[k];
+      if (typeof v !== "string" || !v) {
+        throw new Error(`Expected non-empty string for: ${k}`);
+      }
+      // eslint-disable-next-line security/detect-object-injection
+      res[k] = v;
+    }
+    return res;
+  } catch (err) {
+    logger.error(err);
+    throw new UserFacingError("Invalid request");
+  }
+}
+
+export const handler = withCommonHeaders(_handler);
@@ -12,7 +12,13 @@
  * ANY KIND, either express or implied. See the License for the specific
  * language governing permissions and limitations under the License.
  */
-import { createHash, createPublicKey, constants, createVerify } from "crypto";
+import {
+  createHash,
+  createPublicKey,
+  constants,
+  createVerify,
+  timingSafeEqual,
+} from "crypto";
 import {
   CreateAuthChallengeTriggerEvent,
   VerifyAuthChallengeResponseTriggerEvent,
@@ -23,14 +29,10 @@ import {
 } from "@aws-sdk/client-dynamodb";
 import {
   DynamoDBDocumentClient,
+  GetCommand,
   PutCommand,
   UpdateCommand,
 } from "@aws-sdk/lib-dynamodb";
-import {
-  SESClient,
-  SendEmailCommand,
-  MessageRejected,
-} from "@aws-sdk/client-ses";
 import {
   KMSClient,
   SignCommand,
@@ -40,11 +42,17 @@ import {
   logger,
   UserFacingError,
   handleConditionalCheckFailedException,
+  emailSenderFromEnvironment,
 } from "./common.js";
+import { determineLocale, renderEmailContent } from "./templates.js";
+import { emitAuditEvent, auditContextFromTriggerEvent } from "./audit.js";
+import { determineClientPolicy } from "./client-policy.js";
 
 let config = {
   /** Should Magic Link sign-in be enabled? If set to false, clients cannot sign-in with magic links (an error is shown instead when they request a magic link) */
   magicLinkEnabled: !!process.env.MAGIC_LINK_ENABLED,
+  /** Should remote approval be enabled? I.e. clicking the Magic Link on one device signs the user in on the device that requested it */
+  remoteApprovalEnabled: !!process.env.MAGIC_LINK_REMOTE_APPROVAL_ENABLED,
   /** Number of seconds a Magic Link should be valid */
   secondsUntilExpiry: Number(process.env.SECONDS_UNTIL_EXPIRY || 60 * 15),
   /** Number of seconds that must lapse between unused Magic Links (to prevent misuse) */
@@ -55,14 +63,16 @@ let config = {
     .map((url) => url.origin),
   /** The e-mail address that Magic Links will be sent from */
   sesFromAddress: process.env.SES_FROM_ADDRESS,
-  /** The Amazon SES region, override e.g. to set a region where you are out of the SES sandbox */
-  sesRegion: process.env.SES_REGION || process.env.AWS_REGION,
   /** KMS Key ID to use for generating Magic Links (signatures) */
   kmsKeyId: process.env.KMS_KEY_ID,
   /** The name of the DynamoDB table where (hashes of) Magic Links will be stored */
   dynamodbSecretsTableName: process.env.DYNAMODB_SECRETS_TABLE,
-  /** Function that will send the actual Magic Link e-mails. Override this to e.g. use another e-mail provider instead of Amazon SES */
-  emailSender: sendEmailWithLink,
+  /** The sender of the Magic Link e-mails, e.g. via Amazon SES (default) or SMTP. Override this to e.g. use another e-mail provider */
+  emailSender: emailSenderFromEnvironment({
+    sesRegion: process.env.SES_REGION,
+  }),
+  /** The Amazon Cognito User Pool ID, needed to verify Magic Links outside of the Cognito triggers (i.e. for remote approval) */
+  userPoolId: process.env.USER_POOL_ID,
   /** A salt to use for storing hashes of magic links in the DynamoDB table */
   salt: process.env.STACK_ID,
   /** Function to create the content of the Magic Link e-mails, override to e.g. use a custom e-mail template */
@@ -82,11 +92,7 @@ function requireConfig<K extends keyof typeof config>(
 }
 
 export function configure(update?: Partial<typeof config>) {
-  const oldSesRegion = config.sesRegion;
   config = { ...config, ...update };
-  if (update && update.sesRegion !== oldSesRegion) {
-    ses = new SESClient({ region: config.sesRegion });
-  }
   return config;
 }
 
@@ -97,7 +103,6 @@ const ddbDocClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
     removeUndefinedValues: true,
   },
 });
-let ses = new SESClient({ region: config.sesRegion });
 
 export async function addChallengeToEvent(
   event: CreateAuthChallengeTriggerEvent
@@ -115,15 +120,24 @@ export async function addChallengeToEvent(
   logger.info("Client needs sign-in link");
   // Determine the redirect URI for the magic link
   const redirectUri = event.request.clientMetadata?.redirectUri;
-  if (
-    !redirectUri ||
-    !requireConfig("allowedOrigins").includes(new URL(redirectUri).origin)
-  ) {
+  const allowedOrigins =
+    determineClientPolicy(event.callerContext.clientId).allowedOrigins ??
+    requireConfig("allowedOrigins");
+  if (!redirectUri || !allowedOrigins.includes(new URL(redirectUri).origin)) {
     throw new UserFacingError(`Invalid redirectUri: ${redirectUri}`);
   }
+  // If the client wants to sign in via remote approval, it sends the hash of a secret it generated
+  const remoteApprovalHash = event.request.clientMetadata?.remoteApprovalHash;
+  if (remoteApprovalHash) {
+    if (!config.remoteApprovalEnabled)
+      throw new UserFacingError("Remote approval of Magic Links not supported");
+    if (!remoteApprovalHash.match(/^[A-Za-z0-9_-]{43}$/))
+      throw new UserFacingError("Invalid remoteApprovalHash");
+  }
   // Send challenge with new secret login code
   await createAndSendMagicLink(event, {
     redirectUri,
+    remoteApprovalHash,
   });
   // The event.request.userNotFound is only present in the Lambda trigger if "Prevent user existence errors" is checked
   // in the Cognito app client. If it is *not* checked, the client receives the error, which potentially allows for
@@ -141,93 +155,54 @@ export async function addChallengeToEvent(
 
 async function createEmailContent({
   secretLoginLink,
+  userAttributes,
+  clientMetadata,
+  secondsUntilExpiry = config.secondsUntilExpiry,
+  remoteApproval,
 }: {
   secretLoginLink: string;
   userAttributes: { [name: string]: string };
+  clientMetadata?: { [key: string]: string };
+  /** The number of seconds the Magic Link is valid (may differ per app client) */
+  secondsUntilExpiry?: number;
+  /** Does opening the Magic Link approve the sign-in of another device (rather than sign in the device that opens it)? */
+  remoteApproval?: boolean;
 }) {
-  return {
-    html: {
-      data: `<html><body><p>Your secret sign-in link: <a href="${secretLoginLink}">sign in</a></p>This link is valid for ${Math.floor(
-        config.secondsUntilExpiry / 60
-      )} minutes<p></p></body></html>`,
-      charSet: "UTF-8",
-    },
-    text: {
-      data: `Your secret sign-in link: ${secretLoginLink}`,
-      charSet: "UTF-8",
-    },
-    subject: {
-      data: "Your secret sign-in link",
-      charSet: "UTF-8",
+  const templateName = remoteApproval
+    ? "magic-link-remote-approval"
+    : "magic-link";
+  return renderEmailContent(templateName, {
+    locale: determineLocale({ clientMetadata, userAttributes }),
+    variables: {
+      secretLoginLink,
+      minutesValid: Math.floor(secondsUntilExpiry / 60),
+      userAttributes,
     },
-  };
-}
-
-async function sendEmailWithLink({
-  emailAddress,
-  content,
-}: {
-  emailAddress: string;
-  content: {
-    html: { charSet: string; data: string };
-    text: { charSet: string; data: string };
-    subject: { charSet: string; data: string };
-  };
-  userAttributes: { [name: string]: string };
-}) {
-  await ses
-    .send(
-      new SendEmailCommand({
-        Destination: { ToAddresses: [emailAddress] },
-        Message: {
-          Body: {
-            Html: {
-              Charset: content.html.charSet,
-              Data: content.html.data,
-            },
-            Text: {
-              Charset: content.text.charSet,
-              Data: content.text.data,
-            },
-          },
-          Subject: {
-            Charset: content.subject.charSet,
-            Data: content.subject.data,
-          },
-        },
-        Source: requireConfig("sesFromAddress"),
-      })
-    )
-    .catch((err) => {
-      if (
-        err instanceof MessageRejected &&
-        err.message.includes("Email address is not verified")
-      ) {
-        logger.error(err);
-        throw new UserFacingError(
-          "E-mail address must still be verified in the e-mail service"
-        );
-      }
-      throw err;
-    });
+  });
 }
 
 async function createAndSendMagicLink(
   event: CreateAuthChallengeTriggerEvent,
   {
     redirectUri,
+    remoteApprovalHash,
   }: {
     redirectUri: string;
+    remoteApprovalHash?: string;
   }
 ): Promise<void> {
   logger.debug("Creating new magic link ...");
-  const exp = Math.floor(Date.now() / 1000 + config.secondsUntilExpiry);
+  const secondsUntilExpiry =
+    determineClientPolicy(event.callerContext.clientId)
+      .magicLinkSecondsUntilExpiry ?? config.secondsUntilExpiry;
+  const exp = Math.floor(Date.now() / 1000 + secondsUntilExpiry);
   const iat = Math.floor(Date.now() / 1000);
   const message = Buffer.from(
     JSON.stringify({
       userName: event.userName,
       iat,
       exp,
+      remoteApproval: remoteApprovalHash ? true : undefined,
     })
   );
   const messageContext = Buffer.from(
@@ -268,6 +243,9 @@ async function createAndSendMagicLink(
           iat,
           exp,
           kmsKeyId: kmsKeyId,
+          remoteApprovalHash: remoteApprovalHash
+            ? Buffer.from(remoteApprovalHash, "base64url")
+            : undefined,
         },
         // Throttle: fail if we've alreay sent a magic link less than SECONDS_BETWEEN seconds ago:
         ConditionExpression: "attribute_not_exists(#iat) or #iat < :iat",
@@ -279,7 +257,16 @@ async function createAndSendMagicLink(
         },
       })
     )
-    .catch(handleConditionalCheckFailedException(config.notNowMsg));
+    .catch(async (err) => {
+      if (err instanceof ConditionalCheckFailedException) {
+        await emitAuditEvent({
+          eventType: "CHALLENGE_THROTTLED",
+          ...auditContextFromTriggerEvent(event),
+          reason: "Magic Link requested too soon after previous one",
+        });
+      }
+      return handleConditionalCheckFailedException(config.notNowMsg)(err);
+    });
   const secretLoginLink = `${redirectUri}#${message.toString(
     "base64url"
   )}.${Buffer.from(signature).toString("base64url")}`;
@@ -290,13 +277,20 @@ async function createAndSendMagicLink(
     await new Promise((resolve) => setTimeout(resolve, Math.random() * 200));
     return;
   }
-  await config.emailSender({
-    emailAddress: event.request.userAttributes.email,
+  await config.emailSender.sendEmail({
+    fromAddress: requireConfig("sesFromAddress"),
+    toAddress: event.request.userAttributes.email,
     content: await config.contentCreator.call(undefined, {
       secretLoginLink,
       userAttributes: event.request.userAttributes,
+      clientMetadata: event.request.clientMetadata,
+      secondsUntilExpiry,
+      remoteApproval: !!remoteApprovalHash,
     }),
-    userAttributes: event.request.userAttributes,
+  });
+  await emitAuditEvent({
+    eventType: "MAGIC_LINK_SENT",
+    ...auditContextFromTriggerEvent(event),
   });
   logger.debug("Magic link sent!");
 }
@@ -317,6 +311,15 @@ export async function addChallengeVerificationResultToEvent(
     event.request.clientMetadata?.alreadyHaveMagicLink !== "yes"
   )
     return;
+  if (event.request.clientMetadata?.remoteApproval === "yes") {
+    if (!config.remoteApprovalEnabled)
+      throw new UserFacingError("Remote approval of Magic Links not supported");
+    event.response.answerCorrect = await verifyRemoteApproval(
+      event.request.challengeAnswer,
+      event.userName
+    );
+    return;
+  }
   event.response.answerCorrect = await verifyMagicLink(
     event.request.challengeAnswer,
     event.userName,
@@ -347,7 +350,8 @@ async function downloadPublicKey(kmsKeyId: string) {
 async function verifyMagicLink(
   magicLinkFragmentIdentifier: string,
   userName: string,
-  context: { userPoolId: string; clientId: string }
+  context: { userPoolId: string; clientId: string },
+  { approve = false }: { approve?: boolean } = {}
 ) {
   logger.debug(
     "Verifying magic link fragment identifier:",
@@ -370,7 +374,7 @@ async function verifyMagicLink(
       .update(salt)
       .end(signature)
       .digest();
-    const uat = Math.floor(Date.now() / 1000);
+    const now = Math.floor(Date.now() / 1000);
 
     ({ Attributes: dbItem } = await ddbDocClient.send(
       new UpdateCommand({
@@ -379,17 +383,34 @@ async function verifyMagicLink(
           userNameHash,
         },
         ReturnValues: "ALL_OLD",
-        UpdateExpression: "SET #uat = :uat",
-        ConditionExpression:
-          "attribute_exists(#userNameHash) AND attribute_exists(#signatureHash) AND #signatureHash = :signatureHash AND attribute_not_exists(#uat)",
-        ExpressionAttributeNames: {
-          "#userNameHash": "userNameHash",
-          "#signatureHash": "signatureHash",
-          "#uat": "uat",
-        },
+        // Links that were requested for remote approval can only be approved, not used to sign in directly (and vice versa)
+        ...(approve
+          ? {
+              UpdateExpression: "SET #approvedAt = :now",
+              ConditionExpression:
+                "attribute_exists(#userNameHash) AND attribute_exists(#signatureHash) AND #signatureHash = :signatureHash AND attribute_exists(#remoteApprovalHash) AND attribute_not_exists(#approvedAt) AND attribute_not_exists(#uat)",
+              ExpressionAttributeNames: {
+                "#userNameHash": "userNameHash",
+                "#signatureHash": "signatureHash",
+                "#remoteApprovalHash": "remoteApprovalHash",
+                "#approvedAt": "approvedAt",
+                "#uat": "uat",
+              },
+            }
+          : {
+              UpdateExpression: "SET #uat = :now",
+              ConditionExpression:
+                "attribute_exists(#userNameHash) AND attribute_exists(#signatureHash) AND #signatureHash = :signatureHash AND attribute_not_exists(#remoteApprovalHash) AND attribute_not_exists(#uat)",
+              ExpressionAttributeNames: {
+                "#userNameHash": "userNameHash",
+                "#signatureHash": "signatureHash",
+                "#remoteApprovalHash": "remoteApprovalHash",
+                "#uat": "uat",
+              },
+            }),
         ExpressionAttributeValues: {
           ":signatureHash": signatureHash,
-          ":uat": uat,
+          ":now": now,
         },
       })
     ));
@@ -448,6 +469,8 @@ function assertIsMagicLinkRecord(msg: unknown): asserts msg is {
   iat: number;
   kmsKeyId: string;
   uat?: number;
+  remoteApprovalHash?: Uint8Array;
+  approvedAt?: number;
 } {
   if (
     !msg ||
@@ -462,7 +485,10 @@ function assertIsMagicLinkRecord(msg: unknown): asserts msg is {
     typeof msg.iat !== "number" ||
     !("kmsKeyId" in msg) ||
     typeof msg.kmsKeyId !== "string" ||
-    ("uat" in msg && typeof msg.uat !== "number")
+    ("uat" in msg && typeof msg.uat !== "number") ||
+    ("remoteApprovalHash" in msg &&
+      !(msg.remoteApprovalHash instanceof Uint8Array)) ||
+    ("approvedAt" in msg && typeof msg.approvedAt !== "number")
   ) {
     throw new Error("Invalid magic link record");
   }
@@ -484,3 +510,128 @@ function assertIsMessage(
     throw new Error("Invalid magic link");
   }
 }
+
+/**
+ * Approve a Magic Link that was requested for remote approval,
+ * so that the device that requested it can complete the sign-in.
+ * Returns true if the Magic Link was valid and is now approved
+ */
+export async function approveMagicLink(
+  magicLinkFragmentIdentifier: string,
+  clientId: string
+) {
+  if (!config.magicLinkEnabled || !config.remoteApprovalEnabled)
+    throw new UserFacingError("Remote approval of Magic Links not supported");
+  let message: unknown;
+  try {
+    message = JSON.parse(
+      Buffer.from(
+        magicLinkFragmentIdentifier.split(".")[0],
+        "base64url"
+      ).toString()
+    );
+    assertIsMessage(message);
+  } catch (err) {
+    logger.error("Invalid magic link:", err);
+    return false;
+  }
+  return verifyMagicLink(
+    magicLinkFragmentIdentifier,
+    message.userName,
+    {
+      userPoolId: requireConfig("userPoolId"),
+      clientId,
+    },
+    { approve: true }
+  );
+}
+
+/**
+ * Get the status of a Magic Link that was requested for remote approval.
+ * Only the client that knows the secret, of which it sent the hash while requesting the Magic Link, can do this
+ */
+export async function getRemoteApprovalStatus(
+  userName: string,
+  remoteApprovalSecret: string
+): Promise<"PENDING" | "APPROVED" | "INVALID"> {
+  if (!config.magicLinkEnabled || !config.remoteApprovalEnabled)
+    throw new UserFacingError("Remote approval of Magic Links not supported");
+  const salt = requireConfig("salt");
+  const { Item: dbItem } = await ddbDocClient.send(
+    new GetCommand({
+      TableName: requireConfig("dynamodbSecretsTableName"),
+      Key: {
+        userNameHash: createHash("sha256").update(salt).end(userName).digest(),
+      },
+      ConsistentRead: true,
+    })
+  );
+  if (!dbItem) return "INVALID";
+  assertIsMagicLinkRecord(dbItem);
+  const remoteApprovalHash = createHash("sha256")
+    .end(remoteApprovalSecret)
+    .digest();
+  if (
+    !dbItem.remoteApprovalHash ||
+    dbItem.remoteApprovalHash.length !== remoteApprovalHash.length ||
+    !timingSafeEqual(dbItem.remoteApprovalHash, remoteApprovalHash) ||
+    dbItem.uat ||
+    dbItem.exp < Date.now() / 1000
+  ) {
+    return "INVALID";
+  }
+  return dbItem.approvedAt ? "APPROVED" : "PENDING";
+}
+
+async function verifyRemoteApproval(
+  remoteApprovalSecret: string,
+  userName: string
+) {
+  logger.debug("Verifying remote approval ...");
+  const salt = requireConfig("salt");
+  let dbItem: Record<string, unknown> | undefined = undefined;
+  try {
+    ({ Attributes: dbItem } = await ddbDocClient.send(
+      new UpdateCommand({
+        TableName: requireConfig("dynamodbSecretsTableName"),
+        Key: {
+          userNameHash: createHash("sha256")
+            .update(salt)
+            .end(userName)
+            .digest(),
+        },
+        ReturnValues: "ALL_OLD",
+        UpdateExpression: "SET #uat = :uat",
+        ConditionExpression:
+          "attribute_exists(#approvedAt) AND #remoteApprovalHash = :remoteApprovalHash AND attribute_not_exists(#uat)",
+        ExpressionAttributeNames: {
+          "#approvedAt": "approvedAt",
+          "#remoteApprovalHash": "remoteApprovalHash",
+          "#uat": "uat",
+        },
+        ExpressionAttributeValues: {
+          ":remoteApprovalHash": createHash("sha256")
+            .end(remoteApprovalSecret)
+            .digest(),
+          ":uat": Math.floor(Date.now() / 1000),
+        },
+      })
+    ));
+  } catch (err) {
+    if (err instanceof ConditionalCheckFailedException) {
+      logger.error("Attempt to use unapproved (or already used) magic link");
+      return false;
+    }
+    throw err;
+  }
+  if (!dbItem) {
+    logger.error("Attempt to use unapproved (or already used) magic link");
+    return false;
+  }
+  assertIsMagicLinkRecord(dbItem);
+  if (dbItem.exp < Date.now() / 1000) {
+    logger.error("Magic link expired");
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,226 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import {
+  CreateAuthChallengeTriggerEvent,
+  DefineAuthChallengeTriggerEvent,
+} from "aws-lambda";
+import {
+  CognitoIdentityProviderClient,
+  AdminListGroupsForUserCommand,
+} from "@aws-sdk/client-cognito-identity-provider";
+import { logger } from "./common.js";
+
+const cognito = new CognitoIdentityProviderClient({});
+
+/**
+ * Multi-factor policies: alternative chains of signInMethods, one of which the user must complete
+ * (in order, within one sign-in) before tokens are issued. E.g. `[["FIDO2"], ["MAGIC_LINK", "SMS_OTP"]]`
+ * means: either sign in with FIDO2, or with a magic link followed by an SMS OTP.
+ */
+export interface MultiFactorPolicies {
+  /** Policies per app client ID */
+  clients?: Record<string, string[][]>;
+  /** Policies per user group. These take precedence over the app client's policy, for users in the group */
+  groups?: Record<string, string[][]>;
+}
+
+let config = {
+  /** The multi-factor policies to enforce. If undefined, a single sign-in method suffices */
+  policies: parsePolicies(process.env.MULTI_FACTOR_POLICIES),
+  /** Function to determine the groups the user is a member of (only invoked if there are policies per group) */
+  groupsResolver: listGroupsForUser,
+};
+
+export function configure(update?: Partial<typeof config>) {
+  config = { ...config, ...update };
+  return config;
+}
+
+/**
+ * Step-up authentication requires valid tokens from an earlier sign-in (that had to comply with the policy already),
+ * so these signInMethods are not subject to multi-factor policies
+ */
+const EXEMPT_SIGN_IN_METHODS = ["SMS_OTP_STEPUP", "FIDO2_STEPUP"];
+
+/**
+ * The challenge that starts each factor: PROVIDE_AUTH_PARAMETERS. For factors after the first one,
+ * its challengeMetadata also records the factors that were completed already, e.g.
+ * "PROVIDE_AUTH_PARAMETERS;FACTORS_COMPLETED=MAGIC_LINK"
+ */
+const PROVIDE_AUTH_PARAMETERS = "PROVIDE_AUTH_PARAMETERS";
+const FACTORS_COMPLETED_SEPARATOR = ";FACTORS_COMPLETED=";
+
+export function isProvideAuthParametersChallenge(challengeMetadata?: string) {
+  return (
+    challengeMetadata === PROVIDE_AUTH_PARAMETERS ||
+    !!challengeMetadata?.startsWith(
+      `${PROVIDE_AUTH_PARAMETERS}${FACTORS_COMPLETED_SEPARATOR}`
+    )
+  );
+}
+
+export function provideAuthParametersChallengeMetadata(
+  factorsCompleted: string[]
+) {
+  return factorsCompleted.length
+    ? `${PROVIDE_AUTH_PARAMETERS}${FACTORS_COMPLETED_SEPARATOR}${factorsCompleted.join(",")}`
+    : PROVIDE_AUTH_PARAMETERS;
+}
+
+/**
+ * Walk the session history to determine the signInMethods the user completed so far in this sign-in, in order.
+ * The factors completed before the current one are recorded (server side) in the challengeMetadata of the
+ * PROVIDE_AUTH_PARAMETERS challenge that started the current factor. If the last answer was correct,
+ * the current signInMethod was completed too.
+ */
+export function determineFactorsCompleted(
+  event: DefineAuthChallengeTriggerEvent | CreateAuthChallengeTriggerEvent
+) {
+  const { session } = event.request;
+  const factorStart = [...session]
+    .reverse()
+    .find((entry) => isProvideAuthParametersChallenge(entry.challengeMetadata));
+  const factorsCompleted =
+    factorStart?.challengeMetadata
+      ?.split(FACTORS_COMPLETED_SEPARATOR)[1]
+      ?.split(",") ?? [];
+  const { signInMethod } = event.request.clientMetadata ?? {};
+  if (session.slice(-1)[0]?.challengeResult === true && signInMethod) {
+    factorsCompleted.push(signInMethod);
+  }
+  return factorsCompleted;
+}
+
+/**
+ * Determine the chains of signInMethods that apply to the user that is signing in (per the user's groups, or the app client).
+ * Returns undefined if no policy applies, i.e. if a single sign-in method suffices
+ */
+export function determineChains(
+  event: DefineAuthChallengeTriggerEvent | CreateAuthChallengeTriggerEvent
+) {
+  // Memoize per event, so the user's groups are looked up only once per invocation
+  let chains = chainsPerEvent.get(event);
+  if (!chains) {
+    chains = resolveChains(event);
+    chainsPerEvent.set(event, chains);
+  }
+  return chains;
+}
+
+const chainsPerEvent = new WeakMap<object, Promise<string[][] | undefined>>();
+
+async function resolveChains(
+  event: DefineAuthChallengeTriggerEvent | CreateAuthChallengeTriggerEvent
+) {
+  if (!config.policies) return;
+  if (
+    EXEMPT_SIGN_IN_METHODS.includes(
+      event.request.clientMetadata?.signInMethod ?? ""
+    )
+  ) {
+    return;
+  }
+  const groups =
+    config.policies.groups && !event.request.userNotFound
+      ? await config.groupsResolver({
+          userPoolId: event.userPoolId,
+          username: event.userName,
+        })
+      : [];
+  return selectChains({ clientId: event.callerContext.clientId, groups });
+}
+
+/**
+ * Select the chains of signInMethods that apply: those of the first group (in the order of the policies) that the user is a member of,
+ * or else those of the app client. Returns undefined if no policy applies
+ */
+export function selectChains({
+  clientId,
+  groups,
+}: {
+  clientId: string;
+  groups: string[];
+}) {
+  const { policies } = config;
+  if (!policies) return;
+  const group = Object.keys(policies.groups ?? {}).find((group) =>
+    groups.includes(group)
+  );
+  if (group) {
+    logger.info(`Applying multi-factor policy of group: ${group}`);
+    // eslint-disable-next-line security/detect-object-injection
+    return policies.groups![group];
+  }
+  // eslint-disable-next-line security/detect-object-injection
+  const chains = policies.clients?.[clientId];
+  if (chains) {
+    logger.info(`Applying multi-factor policy of app client: ${clientId}`);
+  }
+  return chains;
+}
+
+/**
+ * Determine the signInMethods that the user may use next, given the factors completed so far.
+ * Returns undefined if the factors completed so far don't match any chain, and an empty array
+ * if the user completed a chain (and thus is done)
+ */
+export function determineNextSignInMethods(
+  chains: string[][],
+  factorsCompleted: string[]
+) {
+  const matchingChains = chains.filter(
+    (chain) =>
+      chain.length >= factorsCompleted.length &&
+      // eslint-disable-next-line security/detect-object-injection
+      factorsCompleted.every((factor, index) => chain[index] === factor)
+  );
+  if (!matchingChains.length) return;
+  if (
+    matchingChains.some((chain) => chain.length === factorsCompleted.length)
+  ) {
+    return [];
+  }
+  return [
+    ...new Set(matchingChains.map((chain) => chain[factorsCompleted.length])),
+  ];
+}
+
+async function listGroupsForUser({
+  userPoolId,
+  username,
+}: {
+  userPoolId: string;
+  username: string;
+}) {
+  const groups: string[] = [];
+  let nextToken: string | undefined;
+  do {
+    const { Groups, NextToken } = await cognito.send(
+      new AdminListGroupsForUserCommand({
+        UserPoolId: userPoolId,
+        Username: username,
+        NextToken: nextToken,
+      })
+    );
+    groups.push(...(Groups ?? []).map((group) => group.GroupName!));
+    nextToken = NextToken;
+  } while (nextToken);
+  return groups;
+}
+
+function parsePolicies(policies?: string) {
+  if (!policies) return;
+  return JSON.parse(policies) as MultiFactorPolicies;
+}
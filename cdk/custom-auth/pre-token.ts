@@ -13,22 +13,62 @@
  * language governing permissions and limitations under the License.
  */
 
-import { PreTokenGenerationTriggerHandler } from "aws-lambda";
-import { logger, UserFacingError } from "./common.js";
+import {
+  PreTokenGenerationTriggerHandler,
+  PreTokenGenerationTriggerEvent,
+} from "aws-lambda";
+import { logger, UserFacingError, transactionHash } from "./common.js";
+import * as authenticationMethods from "./authentication-methods.js";
+import * as recoveryCode from "./recovery-code.js";
+import { determineClientPolicy } from "./client-policy.js";
 
 const CLIENT_METADATA_PERSISTED_KEYS =
   process.env.CLIENT_METADATA_PERSISTED_KEYS?.split(",").map((key) =>
     key.trim()
   ) ?? [];
 
+/** Add claims that tell how (`passwordless_amr`) and when (`passwordless_auth_time`) the user authenticated? */
+const AUTHENTICATION_METHOD_CLAIMS_ENABLED =
+  !!process.env.AUTHENTICATION_METHOD_CLAIMS_ENABLED;
+/** The WebAuthn user verification requirement that Verify Auth Challenge Response enforces for FIDO2 sign-in (unless the app client's policy overrides it) */
+const FIDO2_USER_VERIFICATION = process.env.USER_VERIFICATION;
+
+/** The claim that binds the ID token to the transaction that the user signed with FIDO2 */
+const TRANSACTION_HASH_CLAIM = "transaction_hash";
+/** The claims that tell how and when the user last stepped up their authentication (e.g. with FIDO2) */
+const STEP_UP_METHOD_CLAIM = "step_up_method";
+const STEP_UP_AUTH_TIME_CLAIM = "step_up_auth_time";
+/**
+ * The claims with the authentication method references (RFC 8176, space separated) and the time of authentication (seconds since epoch).
+ * Cognito doesn't allow to override the standard `amr` and `auth_time` claims, hence these names
+ */
+const AMR_CLAIM = "passwordless_amr";
+const AUTH_TIME_CLAIM = "passwordless_auth_time";
+/** Claims that only a verified sign-in may set, not the client (through clientMetadata) */
+const PROTECTED_CLAIMS = [
+  TRANSACTION_HASH_CLAIM,
+  STEP_UP_METHOD_CLAIM,
+  STEP_UP_AUTH_TIME_CLAIM,
+  AMR_CLAIM,
+  AUTH_TIME_CLAIM,
+];
+/** Client metadata that is secret, and must never end up in a token, even if configured to be persisted */
+const SECRET_CLIENT_METADATA_KEYS = ["recoveryCode"];
+
 export const handler: PreTokenGenerationTriggerHandler = async (event) => {
   logger.debug(JSON.stringify(event, null, 2));
   logger.info("PreToken Generation for trigger:", event.triggerSource);
   if (event.triggerSource === "TokenGeneration_Authentication") {
+    // The recovery code was only verified (see Verify Auth Challenge Response), now that tokens are issued it's used up
+    if (event.request.clientMetadata?.signInMethod === "RECOVERY_CODE") {
+      await recoveryCode.consumeRecoveryCode(event);
+    }
     const clientMetadataToPersist =
       event.request.clientMetadata &&
-      Object.entries(event.request.clientMetadata).filter(([key]) =>
-        CLIENT_METADATA_PERSISTED_KEYS.includes(key)
+      Object.entries(event.request.clientMetadata).filter(
+        ([key]) =>
+          CLIENT_METADATA_PERSISTED_KEYS.includes(key) &&
+          !SECRET_CLIENT_METADATA_KEYS.includes(key)
       );
     if (clientMetadataToPersist) {
       logger.info(
@@ -39,6 +79,9 @@ export const handler: PreTokenGenerationTriggerHandler = async (event) => {
         claimsToAddOrOverride: {},
       };
       clientMetadataToPersist.forEach(([key, value]) => {
+        if (PROTECTED_CLAIMS.includes(snakeCase(key))) {
+          return;
+        }
         const stringValue = value.toString();
         if (stringValue.length > 256) {
           throw new UserFacingError(`Value for "${key}" too long`);
@@ -48,11 +91,117 @@ export const handler: PreTokenGenerationTriggerHandler = async (event) => {
         ] = stringValue;
       });
     }
+    // Tokens are only issued for these signInMethods, if the user verified themselves with FIDO2 (see Verify Auth Challenge Response)
+    if (event.request.clientMetadata?.signInMethod === "FIDO2_TRANSACTION") {
+      logger.info("Binding ID token to signed transaction");
+      addClaims(event, {
+        [TRANSACTION_HASH_CLAIM]: transactionHash(
+          event.request.clientMetadata.transaction
+        ),
+      });
+    } else if (event.request.clientMetadata?.signInMethod === "FIDO2_STEPUP") {
+      logger.info("Adding step-up claims to ID token");
+      addClaims(event, {
+        [STEP_UP_METHOD_CLAIM]: "FIDO2",
+        [STEP_UP_AUTH_TIME_CLAIM]: Math.floor(Date.now() / 1000).toString(),
+      });
+    }
+    if (AUTHENTICATION_METHOD_CLAIMS_ENABLED) {
+      // Define Auth Challenge recorded the signInMethods the user completed, upon issuing tokens
+      const signInMethods =
+        await authenticationMethods.takeCompletedSignInMethods({
+          userName: event.userName,
+          clientId: event.callerContext.clientId,
+          signInMethod: event.request.clientMetadata?.signInMethod,
+        });
+      const amr =
+        signInMethods &&
+        determineAuthenticationMethodReferences(
+          signInMethods,
+          determineClientPolicy(event.callerContext.clientId)
+            .userVerification ?? FIDO2_USER_VERIFICATION
+        );
+      if (amr) {
+        logger.info("Adding authentication method claims:", amr.join(" "));
+        addClaims(event, {
+          [AMR_CLAIM]: amr.join(" "),
+          [AUTH_TIME_CLAIM]: Math.floor(Date.now() / 1000).toString(),
+        });
+      }
+    }
   }
   logger.debug(JSON.stringify(event, null, 2));
   return event;
 };
 
+/**
+ * The authentication method references (see RFC 8176) for the signInMethods the user completed, in this sign-in.
+ * Completing multiple signInMethods (a multi-factor sign-in) adds `mfa`
+ */
+function determineAuthenticationMethodReferences(
+  signInMethods: string[],
+  userVerification: string | undefined
+) {
+  const amr = signInMethods.map((signInMethod) =>
+    determineAuthenticationMethodReferencesOfFactor(
+      signInMethod,
+      userVerification
+    )
+  );
+  if (!amr.length || amr.some((references) => !references)) return;
+  if (signInMethods.length > 1) {
+    amr.push(["mfa"]);
+  }
+  return [...new Set(amr.flat() as string[])];
+}
+
+function determineAuthenticationMethodReferencesOfFactor(
+  signInMethod: string | undefined,
+  /** The WebAuthn user verification requirement that was enforced for FIDO2 sign-in */
+  userVerification: string | undefined
+) {
+  const fido2 = ["hwk", "user"];
+  // Verifying the user (e.g. by biometrics or PIN) on top of possession of the authenticator, counts as multiple factors
+  const fido2WithUserVerification = [...fido2, "mfa"];
+  if (signInMethod === "FIDO2") {
+    return !userVerification || userVerification === "required"
+      ? fido2WithUserVerification
+      : fido2;
+  } else if (
+    signInMethod === "FIDO2_TRANSACTION" ||
+    signInMethod === "FIDO2_STEPUP"
+  ) {
+    // User verification is always required for these
+    return fido2WithUserVerification;
+  } else if (signInMethod === "SMS_OTP") {
+    return ["sms", "otp"];
+  } else if (signInMethod === "SMS_OTP_STEPUP") {
+    // The user presented valid tokens from an earlier sign-in, and the OTP
+    return ["sms", "otp", "mfa"];
+  } else if (
+    signInMethod === "MAGIC_LINK" ||
+    signInMethod === "EMAIL_OTP" ||
+    signInMethod === "RECOVERY_CODE"
+  ) {
+    return ["otp"];
+  }
+  // Unknown signInMethod, e.g. when using custom sign-in methods: no claims
+  return undefined;
+}
+
+function addClaims(
+  event: PreTokenGenerationTriggerEvent,
+  claims: Record<string, string>
+) {
+  event.response.claimsOverrideDetails = {
+    ...event.response.claimsOverrideDetails,
+    claimsToAddOrOverride: {
+      ...event.response.claimsOverrideDetails?.claimsToAddOrOverride,
+      ...claims,
+    },
+  };
+}
+
 function snakeCase(s: string) {
   return s.replace(/[A-Z]{1}/g, (matched) => `_${matched.toLowerCase()}`);
 }
@@ -0,0 +1,248 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { createHash } from "crypto";
+import {
+  DynamoDBClient,
+  ConditionalCheckFailedException,
+} from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { logger } from "./common.js";
+
+let config = {
+  /** The DynamoDB table to track failed attempts in. If undefined, rate limiting is disabled */
+  dynamoDbRateLimitTable: process.env.DYNAMODB_RATE_LIMIT_TABLE || undefined,
+  /** After this many failed attempts for a username, that username is locked out */
+  maxFailedAttemptsPerUser: Number(
+    process.env.RATE_LIMIT_MAX_FAILED_ATTEMPTS_PER_USER || 5
+  ),
+  /** After this many failed attempts from a source IP, that source IP is locked out */
+  maxFailedAttemptsPerIp: Number(
+    process.env.RATE_LIMIT_MAX_FAILED_ATTEMPTS_PER_IP || 20
+  ),
+  /** Failed attempts are counted within this window: if there is no failed attempt for this long, counting starts over */
+  failedAttemptsWindowSeconds: Number(
+    process.env.RATE_LIMIT_FAILED_ATTEMPTS_WINDOW_SECONDS || 60 * 60
+  ),
+  /** The duration of the first lockout. Each subsequent lockout lasts twice as long as the previous one */
+  lockoutSeconds: Number(process.env.RATE_LIMIT_LOCKOUT_SECONDS || 60),
+  /** The maximum duration of a lockout. After this long without failed attempts, the lockout history is forgotten */
+  maxLockoutSeconds: Number(
+    process.env.RATE_LIMIT_MAX_LOCKOUT_SECONDS || 24 * 60 * 60
+  ),
+};
+
+export function configure(update?: Partial<typeof config>) {
+  config = { ...config, ...update };
+  return config;
+}
+
+const ddbDocClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+  marshallOptions: {
+    removeUndefinedValues: true,
+  },
+});
+
+/** Has the warning about the missing source IP been logged yet? It is logged once per cold start, instead of upon each sign-in */
+let missingSourceIpWarningLogged = false;
+
+interface RateLimitSubject {
+  /** The username as provided by the user (this may be a non-existing user) */
+  username: string;
+  sourceIp?: string;
+}
+
+/**
+ * Is the username, or the source IP, currently locked out because of too many failed attempts?
+ * Amazon Cognito only provides the source IP if the app client sends additional user context data,
+ * without it only the username is rate limited
+ */
+export async function isLockedOut({ username, sourceIp }: RateLimitSubject) {
+  if (!config.dynamoDbRateLimitTable) return false;
+  if (!sourceIp && !missingSourceIpWarningLogged) {
+    missingSourceIpWarningLogged = true;
+    logger.info(
+      "WARNING: no source IP available, rate limiting by username only. Enable additional user context data for the app client, to also rate limit by source IP"
+    );
+  }
+  const now = Math.floor(Date.now() / 1000);
+  const lockouts = await Promise.all(
+    counters({ username, sourceIp }).map(async ({ pk }) => {
+      const { Item } = await ddbDocClient.send(
+        new GetCommand({
+          TableName: config.dynamoDbRateLimitTable,
+          Key: { pk },
+          ProjectionExpression: "lockedUntil",
+        })
+      );
+      return !!Item?.lockedUntil && (Item.lockedUntil as number) > now;
+    })
+  );
+  return lockouts.some(Boolean);
+}
+
+/**
+ * Count a failed attempt for the username and source IP, and lock them out if they've reached the maximum
+ */
+export async function recordFailedAttempt({
+  username,
+  sourceIp,
+}: RateLimitSubject) {
+  if (!config.dynamoDbRateLimitTable) return;
+  await Promise.all(
+    counters({ username, sourceIp }).map(({ pk, maxFailedAttempts }) =>
+      countFailedAttempt(pk, maxFailedAttempts)
+    )
+  );
+}
+
+/**
+ * Reset the failed attempts for the username, after it has authenticated successfully.
+ * The lockout history is kept (it expires by TTL), so a successful sign-in in between doesn't reset the lockout backoff
+ */
+export async function recordSuccessfulAuthentication({
+  username,
+}: RateLimitSubject) {
+  if (!config.dynamoDbRateLimitTable) return;
+  await ddbDocClient
+    .send(
+      new UpdateCommand({
+        TableName: config.dynamoDbRateLimitTable,
+        Key: { pk: userKey(username) },
+        UpdateExpression: "REMOVE #failedAttempts",
+        // Don't create an item (without TTL) if there were no failed attempts
+        ConditionExpression: "attribute_exists(#failedAttempts)",
+        ExpressionAttributeNames: {
+          "#failedAttempts": "failedAttempts",
+        },
+      })
+    )
+    .catch((err) => {
+      if (!(err instanceof ConditionalCheckFailedException)) throw err;
+    });
+}
+
+async function countFailedAttempt(pk: string, maxFailedAttempts: number) {
+  const now = Math.floor(Date.now() / 1000);
+  const exp =
+    now +
+    Math.max(config.failedAttemptsWindowSeconds, config.maxLockoutSeconds);
+  const item = await ddbDocClient
+    .send(
+      new UpdateCommand({
+        TableName: config.dynamoDbRateLimitTable,
+        Key: { pk },
+        UpdateExpression:
+          "ADD #failedAttempts :one SET #lastFailedAttempt = :now, #exp = :exp",
+        ConditionExpression:
+          "attribute_not_exists(#lastFailedAttempt) OR #lastFailedAttempt >= :windowStart",
+        ExpressionAttributeNames: {
+          "#failedAttempts": "failedAttempts",
+          "#lastFailedAttempt": "lastFailedAttempt",
+          "#exp": "exp",
+        },
+        ExpressionAttributeValues: {
+          ":one": 1,
+          ":now": now,
+          ":exp": exp,
+          ":windowStart": now - config.failedAttemptsWindowSeconds,
+        },
+        ReturnValues: "ALL_NEW",
+      })
+    )
+    .catch((err) => {
+      if (!(err instanceof ConditionalCheckFailedException)) throw err;
+      // The previous failed attempt was outside the window: start counting again
+      return ddbDocClient.send(
+        new UpdateCommand({
+          TableName: config.dynamoDbRateLimitTable,
+          Key: { pk },
+          UpdateExpression:
+            "SET #failedAttempts = :one, #lastFailedAttempt = :now, #exp = :exp",
+          ExpressionAttributeNames: {
+            "#failedAttempts": "failedAttempts",
+            "#lastFailedAttempt": "lastFailedAttempt",
+            "#exp": "exp",
+          },
+          ExpressionAttributeValues: {
+            ":one": 1,
+            ":now": now,
+            ":exp": exp,
+          },
+          ReturnValues: "ALL_NEW",
+        })
+      );
+    })
+    .then(({ Attributes }) => Attributes);
+  if (!item || (item.failedAttempts as number) < maxFailedAttempts) return;
+  const previousLockouts = (item.lockouts as number | undefined) ?? 0;
+  const lockoutSeconds = Math.min(
+    config.lockoutSeconds * 2 ** previousLockouts,
+    config.maxLockoutSeconds
+  );
+  logger.info(
+    `Locking out ${pk.split("#")[0]} for ${lockoutSeconds} seconds (lockout number ${previousLockouts + 1})`
+  );
+  await ddbDocClient
+    .send(
+      new UpdateCommand({
+        TableName: config.dynamoDbRateLimitTable,
+        Key: { pk },
+        UpdateExpression:
+          "SET #failedAttempts = :zero, #lockedUntil = :lockedUntil, #exp = :exp ADD #lockouts :one",
+        // Guard against concurrent failed attempts, locking out more than once
+        ConditionExpression: "#failedAttempts >= :maxFailedAttempts",
+        ExpressionAttributeNames: {
+          "#failedAttempts": "failedAttempts",
+          "#lockedUntil": "lockedUntil",
+          "#lockouts": "lockouts",
+          "#exp": "exp",
+        },
+        ExpressionAttributeValues: {
+          ":zero": 0,
+          ":one": 1,
+          ":lockedUntil": now + lockoutSeconds,
+          ":exp": now + lockoutSeconds + config.maxLockoutSeconds,
+          ":maxFailedAttempts": maxFailedAttempts,
+        },
+      })
+    )
+    .catch((err) => {
+      if (!(err instanceof ConditionalCheckFailedException)) throw err;
+    });
+}
+
+function counters({ username, sourceIp }: RateLimitSubject) {
+  const result = [
+    {
+      pk: userKey(username),
+      maxFailedAttempts: config.maxFailedAttemptsPerUser,
+    },
+  ];
+  if (sourceIp) {
+    result.push({
+      pk: `IP#${sourceIp}`,
+      maxFailedAttempts: config.maxFailedAttemptsPerIp,
+    });
+  }
+  return result;
+}
+
+function userKey(username: string) {
+  return `USER#${createHash("sha256").update(username).digest("base64url")}`;
+}
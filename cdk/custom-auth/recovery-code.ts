@@ -0,0 +1,337 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { createHash, randomInt } from "crypto";
+import {
+  PreTokenGenerationTriggerEvent,
+  VerifyAuthChallengeResponseTriggerEvent,
+} from "aws-lambda";
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+} from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  QueryCommand,
+  GetCommand,
+  PutCommand,
+  DeleteCommand,
+  TransactWriteCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { LambdaClient, InvokeCommand } from "@aws-sdk/client-lambda";
+import { logger, UserFacingError, determineUserHandle } from "./common.js";
+import { NotificationPayload } from "./fido2-notification.js";
+import { emitAuditEvent, auditContextFromTriggerEvent } from "./audit.js";
+
+const ddbDocClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const lambdaClient = new LambdaClient({});
+
+/** Characters used in recovery codes: Crockford's base32 (no I, L, O, U so codes are easy to key in) */
+const alphabet = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+let config = {
+  /** Should sign-in with recovery codes be enabled? If set to false, recovery codes are not generated and clients cannot sign-in with them */
+  recoveryCodesEnabled: !!process.env.RECOVERY_CODES_ENABLED,
+  /** The DynamoDB table to store the (hashed) recovery codes in: the FIDO2 authenticators table */
+  dynamoDbAuthenticatorsTableName: process.env.DYNAMODB_AUTHENTICATORS_TABLE,
+  /** The number of recovery codes to generate for a user (1 to 50, as the old and new codes are replaced in one transaction) */
+  numberOfCodes: Number(process.env.RECOVERY_CODES_NUMBER_OF_CODES || 10),
+  /** Should all FIDO2 credentials of the user be deleted, when they sign in with a recovery code? */
+  revokeCredentialsOnRecovery: !!process.env.RECOVERY_CODES_REVOKE_CREDENTIALS,
+  /** The ARN of the Lambda function that sends notifications to users. If not set, no notification is sent upon recovery */
+  notificationLambdaArn: process.env.FIDO2_NOTIFICATION_LAMBDA_ARN,
+  /** Salt to use for storing hashed recovery codes */
+  salt: process.env.STACK_ID,
+};
+
+function requireConfig<K extends keyof typeof config>(
+  k: K
+): NonNullable<(typeof config)[K]> {
+  // eslint-disable-next-line security/detect-object-injection
+  const value = config[k];
+  if (value === undefined) throw new Error(`Missing configuration for: ${k}`);
+  return value;
+}
+
+export function configure(update?: Partial<typeof config>) {
+  config = { ...config, ...update };
+  return config;
+}
+
+/**
+ * Generate a new set of recovery codes for the user, replacing any existing ones.
+ * Only hashes of the codes are stored, so the returned (plaintext) codes must be shown to the user now
+ */
+export async function generateRecoveryCodes({ userId }: { userId: string }) {
+  if (!config.recoveryCodesEnabled)
+    throw new UserFacingError("Recovery codes not supported");
+  const { numberOfCodes } = config;
+  if (
+    !Number.isInteger(numberOfCodes) ||
+    numberOfCodes < 1 ||
+    numberOfCodes > 50
+  )
+    throw new Error(
+      `Invalid configuration for numberOfCodes (must be 1 to 50): ${numberOfCodes}`
+    );
+  logger.info("Generating recovery codes ...");
+  const existingKeys = await queryItemKeys({
+    userId,
+    skPrefix: "RECOVERY_CODE#",
+  });
+  const codes = [...new Array<unknown>(numberOfCodes)].map(() =>
+    createRecoveryCode()
+  );
+  const createdAt = new Date().toISOString();
+  // Record that the user got recovery codes, so they aren't handed out again upon registration of a credential (see `haveRecoveryCodesBeenIssued()`).
+  // This is recorded first, so if generation fails below, the user must explicitly generate codes (which requires step-up)
+  await ddbDocClient.send(
+    new PutCommand({
+      TableName: requireConfig("dynamoDbAuthenticatorsTableName"),
+      Item: {
+        pk: `USER#${userId}`,
+        sk: "RECOVERY_CODES_ISSUED",
+        createdAt,
+      },
+    })
+  );
+  // Replace the existing codes in one transaction, so that if this fails, the user still has their existing codes
+  await ddbDocClient.send(
+    new TransactWriteCommand({
+      TransactItems: [
+        ...existingKeys.map((key) => ({
+          Delete: {
+            TableName: requireConfig("dynamoDbAuthenticatorsTableName"),
+            Key: key,
+          },
+        })),
+        ...codes.map((code) => ({
+          Put: {
+            TableName: requireConfig("dynamoDbAuthenticatorsTableName"),
+            Item: {
+              pk: `USER#${userId}`,
+              sk: `RECOVERY_CODE#${hashRecoveryCode({ userId, code })}`,
+              createdAt,
+            },
+          },
+        })),
+      ],
+    })
+  );
+  return codes;
+}
+
+/**
+ * Did the user ever get recovery codes? (Even if they have used them all up since)
+ */
+export async function haveRecoveryCodesBeenIssued({
+  userId,
+}: {
+  userId: string;
+}) {
+  const { Item } = await ddbDocClient.send(
+    new GetCommand({
+      TableName: requireConfig("dynamoDbAuthenticatorsTableName"),
+      Key: { pk: `USER#${userId}`, sk: "RECOVERY_CODES_ISSUED" },
+      ProjectionExpression: "pk",
+    })
+  );
+  return !!Item;
+}
+
+/**
+ * Verify the recovery code. This has no side effects: Define Auth Challenge may still deny the sign-in after this,
+ * so the code is only consumed once tokens are issued (see `consumeRecoveryCode()`).
+ * The client must pass the code in the clientMetadata too (as `recoveryCode`), because Pre Token Generation doesn't get the answer
+ */
+export async function addChallengeVerificationResultToEvent(
+  event: VerifyAuthChallengeResponseTriggerEvent
+) {
+  logger.info("Verifying recovery code ...");
+  if (!config.recoveryCodesEnabled)
+    throw new UserFacingError("Sign-in with recovery code not supported");
+  if (event.request.userNotFound) {
+    logger.info("User not found");
+    return;
+  }
+  const userId = determineUserHandle({
+    sub: event.request.userAttributes.sub,
+    cognitoUsername: event.userName,
+  });
+  const code = event.request.challengeAnswer;
+  if (!code) {
+    logger.info("No recovery code provided");
+    return;
+  }
+  if (event.request.clientMetadata?.recoveryCode !== code) {
+    logger.info("Recovery code in clientMetadata doesn't match the answer");
+    return;
+  }
+  const { Item } = await ddbDocClient.send(
+    new GetCommand({
+      TableName: requireConfig("dynamoDbAuthenticatorsTableName"),
+      Key: {
+        pk: `USER#${userId}`,
+        sk: `RECOVERY_CODE#${hashRecoveryCode({ userId, code })}`,
+      },
+      ProjectionExpression: "pk",
+    })
+  );
+  if (!Item) {
+    logger.info("Recovery code is invalid, or has already been used");
+    return;
+  }
+  logger.info("Recovery code is valid");
+  event.response.answerCorrect = true;
+}
+
+/**
+ * Consume the recovery code that the user signed in with: delete it, so it can only be used once.
+ * Invoked by Pre Token Generation, i.e. only after Define Auth Challenge decided to issue tokens.
+ * If the code was used already (e.g. by a concurrent sign-in) this throws, so no tokens are issued.
+ * Also revokes the user's FIDO2 credentials (if configured) and notifies the user
+ */
+export async function consumeRecoveryCode(
+  event: PreTokenGenerationTriggerEvent
+) {
+  logger.info("Consuming recovery code ...");
+  if (!config.recoveryCodesEnabled)
+    throw new UserFacingError("Sign-in with recovery code not supported");
+  const userId = determineUserHandle({
+    sub: event.request.userAttributes.sub,
+    cognitoUsername: event.userName,
+  });
+  const code = event.request.clientMetadata?.recoveryCode;
+  if (!code) {
+    throw new UserFacingError("Missing recovery code");
+  }
+  const consumed = await ddbDocClient
+    .send(
+      new DeleteCommand({
+        TableName: requireConfig("dynamoDbAuthenticatorsTableName"),
+        Key: {
+          pk: `USER#${userId}`,
+          sk: `RECOVERY_CODE#${hashRecoveryCode({ userId, code })}`,
+        },
+        ConditionExpression: "attribute_exists(#pk)",
+        ExpressionAttributeNames: { "#pk": "pk" },
+      })
+    )
+    .then(() => true)
+    .catch((err) => {
+      if (err instanceof ConditionalCheckFailedException) return false;
+      throw err;
+    });
+  if (!consumed) {
+    throw new UserFacingError(
+      "Recovery code is invalid, or has already been used"
+    );
+  }
+  if (config.revokeCredentialsOnRecovery) {
+    await deleteFido2Credentials({ userId });
+  }
+  await emitAuditEvent({
+    eventType: "RECOVERY_CODE_USED",
+    ...auditContextFromTriggerEvent(event),
+  });
+  if (config.notificationLambdaArn) {
+    await enqueueNotification({
+      userPoolId: event.userPoolId,
+      cognitoUsername: event.userName,
+      eventType: "RECOVERY_CODE_USED",
+    });
+  }
+}
+
+function createRecoveryCode() {
+  const chars = [...new Array<unknown>(10)].map(() =>
+    alphabet.charAt(randomInt(alphabet.length))
+  );
+  return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+}
+
+function hashRecoveryCode({ userId, code }: { userId: string; code: string }) {
+  // Normalize, so users may key in the code e.g. in lower case or without the dash
+  const normalized = code.toUpperCase().replace(/[^0-9A-Z]/g, "");
+  return createHash("sha256")
+    .update(requireConfig("salt"))
+    .update(userId)
+    .update(normalized)
+    .digest("base64url");
+}
+
+async function deleteFido2Credentials({ userId }: { userId: string }) {
+  logger.info("Revoking all FIDO2 credentials of user:", userId);
+  const keys = await queryItemKeys({ userId, skPrefix: "CREDENTIAL#" });
+  await Promise.all(
+    keys.map((key) =>
+      ddbDocClient.send(
+        new DeleteCommand({
+          TableName: requireConfig("dynamoDbAuthenticatorsTableName"),
+          Key: key,
+        })
+      )
+    )
+  );
+}
+
+async function queryItemKeys({
+  userId,
+  skPrefix,
+}: {
+  userId: string;
+  skPrefix: string;
+}) {
+  const keys: { pk: string; sk: string }[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined = undefined;
+  do {
+    const { Items, LastEvaluatedKey } = await ddbDocClient.send(
+      new QueryCommand({
+        TableName: requireConfig("dynamoDbAuthenticatorsTableName"),
+        KeyConditionExpression: "#pk = :pk AND begins_with(#sk, :sk)",
+        ExpressionAttributeNames: { "#pk": "pk", "#sk": "sk" },
+        ExpressionAttributeValues: {
+          ":pk": `USER#${userId}`,
+          ":sk": skPrefix,
+        },
+        ProjectionExpression: "pk, sk",
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+    keys.push(
+      ...(Items ?? []).map((item) => ({
+        pk: item.pk as string,
+        sk: item.sk as string,
+      }))
+    );
+    exclusiveStartKey = LastEvaluatedKey as Record<string, unknown>;
+  } while (exclusiveStartKey);
+  return keys;
+}
+
+async function enqueueNotification(payload: NotificationPayload) {
+  try {
+    await lambdaClient.send(
+      new InvokeCommand({
+        FunctionName: requireConfig("notificationLambdaArn"),
+        InvocationType: "Event",
+        Payload: JSON.stringify(payload),
+      })
+    );
+    logger.info("Successfully enqueued notification to user");
+  } catch (error) {
+    // Since the notification is best effort, we'll log but otherwise swallow the error
+    logger.error("Failed to enqueue notification to user:", error);
+  }
+}
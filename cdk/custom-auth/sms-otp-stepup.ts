@@ -18,13 +18,19 @@ import {
 } from "aws-lambda";
 import { SNSClient, PublishCommand } from "@aws-sdk/client-sns";
 import { randomInt } from "crypto";
-import { CognitoJwtVerifier } from "aws-jwt-verify";
-import { SimpleJwksCache } from "aws-jwt-verify/jwk";
-import { logger, UserFacingError } from "./common.js";
+import {
+  logger,
+  UserFacingError,
+  verifyJwt,
+  secretCodeMatches,
+} from "./common.js";
+import { determineLocale, renderSmsContent } from "./templates.js";
 
 let config = {
   /** Should SMS OTP step-up sign-in be enabled? If set to false, clients cannot sign-in with SMS OTP step-up (an error is shown instead when they request a OTP sms) */
   smsOtpStepUpEnabled: !!process.env.SMS_OTP_STEP_UP_ENABLED,
+  /** Should SMS OTP sign-in (as first factor, i.e. without existing JWTs) be enabled? If set to false, clients cannot sign-in with SMS OTP (an error is shown instead when they request a OTP sms) */
+  smsOtpSignInEnabled: !!process.env.SMS_OTP_SIGN_IN_ENABLED,
   /** The length of the OTP */
   secretCodeLength: process.env.OTP_LENGTH ? Number(process.env.OTP_LENGTH) : 6,
   /** Amazon SNS origination number to use for sending SMS messages */
@@ -55,15 +61,27 @@ export function configure(update?: Partial<typeof config>) {
   return config;
 }
 
-export async function addChallengeToEvent(
-  event: CreateAuthChallengeTriggerEvent
+function assertSignInMethodEnabled(
+  event:
+    | CreateAuthChallengeTriggerEvent
+    | VerifyAuthChallengeResponseTriggerEvent
 ) {
-  if (!config.smsOtpStepUpEnabled)
+  if (event.request.clientMetadata?.signInMethod === "SMS_OTP") {
+    if (!config.smsOtpSignInEnabled)
+      throw new UserFacingError("Sign-in with SMS OTP not supported");
+  } else if (!config.smsOtpStepUpEnabled) {
     throw new UserFacingError(
       "Step-up authentication with SMS OTP not supported"
     );
+  }
+}
+
+export async function addChallengeToEvent(
+  event: CreateAuthChallengeTriggerEvent
+) {
+  assertSignInMethodEnabled(event);
 
-  logger.info("Adding SMS OTP Step up challenge to event ...");
+  logger.info("Adding SMS OTP challenge to event ...");
   const { phoneNumber, secretCode } = await createChallenge(event);
 
   // This is sent back to the client app
@@ -81,7 +99,7 @@ export async function addChallengeToEvent(
 }
 
 async function createChallenge(event: CreateAuthChallengeTriggerEvent) {
-  logger.info("Creating SMS OTP step-up challenge ...");
+  logger.info("Creating SMS OTP challenge ...");
   let phoneNumber =
     event.request.userAttributes.phone_number_verified === "true"
       ? event.request.userAttributes.phone_number
@@ -108,7 +126,7 @@ async function createChallenge(event: CreateAuthChallengeTriggerEvent) {
       "SMS Code has not been sent yet, generating and sending one ..."
     );
     secretCode = [...new Array<unknown>(requireConfig("secretCodeLength"))]
-      .map(() => randomInt(0, 9))
+      .map(() => randomInt(0, 10))
       .join("");
     const attributes: PublishCommand["input"]["MessageAttributes"] = {};
     if (config.senderId) {
@@ -153,29 +171,44 @@ async function createChallenge(event: CreateAuthChallengeTriggerEvent) {
 
 async function createSmsContent({
   secretCode,
+  event,
 }: {
   secretCode: string;
   event: CreateAuthChallengeTriggerEvent;
 }) {
-  return `Your verification code is: ${secretCode}`;
+  return renderSmsContent("sms-otp", {
+    locale: determineLocale({
+      clientMetadata: event.request.clientMetadata,
+      userAttributes: event.request.userAttributes,
+    }),
+    variables: {
+      secretCode,
+      userAttributes: event.request.userAttributes,
+    },
+  });
 }
 
 export async function addChallengeVerificationResultToEvent(
   event: VerifyAuthChallengeResponseTriggerEvent
 ) {
-  logger.info("Verifying SMS OTP StepUp Challenge Response ...");
+  logger.info("Verifying SMS OTP Challenge Response ...");
   if (event.request.userNotFound) {
     logger.info("User not found");
   }
-  if (!config.smsOtpStepUpEnabled)
-    throw new UserFacingError(
-      "Step-up authentication with SMS OTP not supported"
-    );
+  assertSignInMethodEnabled(event);
   if (
     event.request.privateChallengeParameters.challenge ===
     "PROVIDE_AUTH_PARAMETERS"
   )
     return;
+  if (event.request.clientMetadata?.signInMethod === "SMS_OTP") {
+    // First factor sign-in: the answer is the secret code itself, there's no JWT to verify
+    event.response.answerCorrect = secretCodeMatches(
+      event.request.privateChallengeParameters.secretCode,
+      event.request.challengeAnswer
+    );
+    return;
+  }
   let parsedAnswer: unknown;
   try {
     parsedAnswer = JSON.parse(event.request.challengeAnswer);
@@ -185,10 +218,10 @@ export async function addChallengeVerificationResultToEvent(
     event.response.answerCorrect = false;
     return;
   }
-  const secretCodeValid =
-    !!event.request.privateChallengeParameters.secretCode &&
-    event.request.privateChallengeParameters.secretCode ===
-      parsedAnswer.secretCode;
+  const secretCodeValid = secretCodeMatches(
+    event.request.privateChallengeParameters.secretCode,
+    parsedAnswer.secretCode
+  );
   const jwtValid = await config.jwtVerifier.call(undefined, {
     userPoolId: event.userPoolId,
     clientId: event.callerContext.clientId,
@@ -213,39 +246,6 @@ function assertIsAnswer(
   }
 }
 
-const jwksCache = new SimpleJwksCache();
-async function verifyJwt({
-  userPoolId,
-  clientId,
-  jwt,
-  sub,
-}: {
-  userPoolId: string;
-  clientId: string;
-  jwt: string;
-  sub: string;
-}) {
-  return CognitoJwtVerifier.create(
-    {
-      userPoolId,
-      tokenUse: "access",
-      clientId,
-      customJwtCheck: ({ payload }) => {
-        if (payload.sub !== sub) {
-          throw new Error("Wrong sub");
-        }
-      },
-    },
-    { jwksCache }
-  )
-    .verify(jwt)
-    .then(() => true)
-    .catch((err) => {
-      logger.error(err);
-      return false;
-    });
-}
-
 function maskPhoneNumber(phoneNumber: string) {
   const show = phoneNumber.length < 8 ? 2 : 4;
   return `+${new Array(11 - show).fill("*").join("")}${phoneNumber.slice(
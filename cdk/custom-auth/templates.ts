@@ -0,0 +1,257 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { readFile } from "fs/promises";
+import { join, resolve } from "path";
+import { logger, EmailContent } from "./common.js";
+
+let config = {
+  /** Directory with per-locale templates, e.g. "templates" containing "nl/magic-link.html". Relative paths are resolved against the Lambda task root */
+  templatesDir: process.env.TEMPLATES_DIR || undefined,
+  /** The locale to use when there are no templates for the user's locale. The built-in templates are in English */
+  defaultLocale: process.env.DEFAULT_LOCALE || "en",
+  /** Function to load a template (returns undefined if it doesn't exist). Override to e.g. load templates from another location */
+  templateLoader: loadTemplateFromDir,
+};
+
+export function configure(update?: Partial<typeof config>) {
+  config = { ...config, ...update };
+  templateCache.clear();
+  return config;
+}
+
+/**
+ * The names of the templates that are used.
+ * E-mail templates consist of 3 files: "<name>.subject.txt", "<name>.html" and "<name>.txt",
+ * SMS templates consist of 1 file: "<name>.txt"
+ */
+export type TemplateName =
+  | "magic-link"
+  | "magic-link-remote-approval"
+  | "email-otp"
+  | "fido2-credential-created"
+  | "fido2-credential-deleted"
+  | "recovery-code-used"
+  | "sms-otp";
+
+/** The built-in (English) templates, used if no template file is available for the requested locale */
+const builtInTemplates: Record<string, string> = {
+  "magic-link.subject.txt": "Your secret sign-in link",
+  "magic-link.html":
+    '<html><body><p>Your secret sign-in link: <a href="{{secretLoginLink}}">sign in</a></p>This link is valid for {{minutesValid}} minutes<p></p></body></html>',
+  "magic-link.txt": "Your secret sign-in link: {{secretLoginLink}}",
+  "magic-link-remote-approval.subject.txt":
+    "Approve the sign-in on your other device",
+  "magic-link-remote-approval.html":
+    '<html><body><p>Someone requested to sign in to your account on another device. If this was you, approve that sign-in with this link: <a href="{{secretLoginLink}}">approve sign-in</a></p><p>Opening this link signs in the device that requested it, not the device you open it on. If you did not request to sign in, do not open this link.</p>This link is valid for {{minutesValid}} minutes<p></p></body></html>',
+  "magic-link-remote-approval.txt":
+    "Someone requested to sign in to your account on another device. If this was you, approve that sign-in with this link: {{secretLoginLink}}\nOpening this link signs in the device that requested it, not the device you open it on. If you did not request to sign in, do not open this link.",
+  "email-otp.subject.txt": "Your verification code",
+  "email-otp.html":
+    "<html><body><p>Your verification code is: <strong>{{secretCode}}</strong></p>This code is valid for {{minutesValid}} minutes<p></p></body></html>",
+  "email-otp.txt": "Your verification code is: {{secretCode}}",
+  "fido2-credential-created.subject.txt":
+    "A passkey has been added to your account",
+  "fido2-credential-created.html":
+    "<html><body><p>This passkey has been added to your account: {{friendlyName}}</p></body></html>",
+  "fido2-credential-created.txt":
+    "This passkey has been added to your account: {{friendlyName}}",
+  "fido2-credential-deleted.subject.txt":
+    "A passkey has been removed from your account",
+  "fido2-credential-deleted.html":
+    "<html><body><p>This passkey has been removed from your account: {{friendlyName}}</p></body></html>",
+  "fido2-credential-deleted.txt":
+    "This passkey has been removed from your account: {{friendlyName}}",
+  "recovery-code-used.subject.txt":
+    "A recovery code was used to sign in to your account",
+  "recovery-code-used.html":
+    "<html><body><p>A recovery code was just used to sign in to your account. If this wasn't you, please contact support immediately.</p></body></html>",
+  "recovery-code-used.txt":
+    "A recovery code was just used to sign in to your account. If this wasn't you, please contact support immediately.",
+  "sms-otp.txt": "Your verification code is: {{secretCode}}",
+};
+
+const templateCache = new Map<string, Promise<string | undefined>>();
+
+/**
+ * Determine the locale to use for a user's messages:
+ * the locale from the client metadata (i.e. the language the user is using the front-end in),
+ * or else the user's "locale" attribute, or else the default locale
+ */
+export function determineLocale({
+  clientMetadata,
+  userAttributes,
+}: {
+  clientMetadata?: Record<string, string>;
+  userAttributes?: Record<string, string>;
+}) {
+  for (const locale of [clientMetadata?.locale, userAttributes?.locale]) {
+    const normalized = normalizeLocale(locale);
+    if (normalized) return normalized;
+    if (locale) logger.info(`Ignoring invalid locale: ${locale}`);
+  }
+  return config.defaultLocale;
+}
+
+/**
+ * Render the subject, HTML and text templates of an e-mail.
+ * Variables are HTML escaped in the HTML template
+ */
+export async function renderEmailContent(
+  templateName: TemplateName,
+  { locale, variables }: { locale: string; variables: TemplateVariables }
+): Promise<EmailContent> {
+  const [subject, html, text] = await Promise.all(
+    [".subject.txt", ".html", ".txt"].map((extension) =>
+      renderTemplate(`${templateName}${extension}`, { locale, variables })
+    )
+  );
+  return {
+    html: { data: html, charSet: "UTF-8" },
+    text: { data: text, charSet: "UTF-8" },
+    subject: { data: subject.trim(), charSet: "UTF-8" },
+  };
+}
+
+/**
+ * Render the template of an SMS
+ */
+export async function renderSmsContent(
+  templateName: TemplateName,
+  { locale, variables }: { locale: string; variables: TemplateVariables }
+) {
+  return (
+    await renderTemplate(`${templateName}.txt`, { locale, variables })
+  ).trim();
+}
+
+export interface TemplateVariables {
+  [name: string]: string | number | undefined | TemplateVariables;
+}
+
+/**
+ * Render a template, Mustache-style:
+ * - `{{name}}` is replaced by the value of variable "name", which is HTML escaped if the template is a ".html" file
+ * - `{{{name}}}` is replaced by the value of variable "name", without escaping
+ * - Nested variables can be accessed with dots, e.g. `{{userAttributes.given_name}}`
+ * - Unknown variables are replaced by an empty string
+ */
+export async function renderTemplate(
+  fileName: string,
+  { locale, variables }: { locale: string; variables: TemplateVariables }
+) {
+  const template = await loadTemplate(fileName, locale);
+  const escape = fileName.endsWith(".html") ? escapeHtml : (s: string) => s;
+  return template.replace(
+    /\{\{\{\s*([\w.-]+)\s*\}\}\}|\{\{\s*([\w.-]+)\s*\}\}/g,
+    (_, raw?: string, escaped?: string) => {
+      const value = lookup(variables, (raw ?? escaped)!);
+      return raw ? value : escape(value);
+    }
+  );
+}
+
+async function loadTemplate(fileName: string, locale: string) {
+  for (const candidate of localeFallbacks(locale)) {
+    const cacheKey = `${candidate}/${fileName}`;
+    let template = templateCache.get(cacheKey);
+    if (!template) {
+      const loading = config.templateLoader(fileName, candidate);
+      loading.catch(() => {
+        // Don't cache failures
+        if (templateCache.get(cacheKey) === loading)
+          templateCache.delete(cacheKey);
+      });
+      templateCache.set(cacheKey, loading);
+      template = loading;
+    }
+    const loaded = await template;
+    if (loaded !== undefined) {
+      logger.debug(`Using template ${fileName} for locale ${candidate}`);
+      return loaded;
+    }
+  }
+  // eslint-disable-next-line security/detect-object-injection
+  const builtIn = builtInTemplates[fileName];
+  if (builtIn === undefined) {
+    throw new Error(`Template not found: ${fileName}`);
+  }
+  return builtIn;
+}
+
+/**
+ * The locales to try, in order, e.g. for "nl-BE": "nl-BE", "nl", "en"
+ */
+function localeFallbacks(locale: string) {
+  const candidates = [locale];
+  const language = locale.split("-")[0];
+  if (language !== locale) candidates.push(language);
+  candidates.push(config.defaultLocale);
+  return [...new Set(candidates)];
+}
+
+async function loadTemplateFromDir(fileName: string, locale: string) {
+  if (!config.templatesDir) return;
+  const path = join(
+    resolve(process.env.LAMBDA_TASK_ROOT ?? "", config.templatesDir),
+    locale,
+    fileName
+  );
+  try {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    return await readFile(path, "utf-8");
+  } catch (err) {
+    if ((err as { code?: string }).code === "ENOENT") return;
+    throw err;
+  }
+}
+
+/**
+ * Normalize the locale, e.g. "nl_be" becomes "nl-BE".
+ * Returns undefined for values that aren't shaped like a locale (which also prevents path traversal)
+ */
+function normalizeLocale(locale?: string) {
+  if (!locale) return;
+  const [language, ...rest] = locale.split(/[-_]/);
+  if (
+    !/^[a-z]{2,3}$/i.test(language) ||
+    !rest.every((part) => /^[a-z0-9]{2,8}$/i.test(part))
+  )
+    return;
+  return [
+    language.toLowerCase(),
+    ...rest.map((part) => (part.length === 2 ? part.toUpperCase() : part)),
+  ].join("-");
+}
+
+function lookup(variables: TemplateVariables, path: string) {
+  let value: TemplateVariables[string] = variables;
+  for (const key of path.split(".")) {
+    if (!value || typeof value !== "object" || !Object.hasOwn(value, key)) {
+      return "";
+    }
+    // eslint-disable-next-line security/detect-object-injection
+    value = value[key];
+  }
+  return typeof value === "string" || typeof value === "number"
+    ? value.toString()
+    : "";
+}
+
+function escapeHtml(value: string) {
+  return value.replace(
+    /[&<>"'`=]/g,
+    (char) => `&#${char.charCodeAt(0).toString()};`
+  );
+}
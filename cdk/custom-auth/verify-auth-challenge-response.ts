@@ -17,7 +17,11 @@ import { VerifyAuthChallengeResponseTriggerHandler } from "aws-lambda";
 import * as fido2 from "./fido2.js";
 import * as smsOtpStepUp from "./sms-otp-stepup.js";
 import * as magicLink from "./magic-link.js";
-import { logger, UserFacingError } from "./common.js";
+import * as emailOtp from "./email-otp.js";
+import * as recoveryCode from "./recovery-code.js";
+import * as rateLimit from "./rate-limit.js";
+import { logger, UserFacingError, determineSourceIp } from "./common.js";
+import { emitAuditEvent, auditContextFromTriggerEvent } from "./audit.js";
 
 export const handler: VerifyAuthChallengeResponseTriggerHandler = async (
   event
@@ -26,8 +30,30 @@ export const handler: VerifyAuthChallengeResponseTriggerHandler = async (
   try {
     event.response.answerCorrect = false;
 
-    // Enforce FIDO2?
-    if (event.request.clientMetadata?.signInMethod !== "FIDO2") {
+    // Don't verify answers during a lockout (the Define Auth Challenge trigger then fails the authentication),
+    // so that answers can't be tried, nor secrets consumed, while locked out
+    if (
+      await rateLimit.isLockedOut({
+        username: event.userName,
+        sourceIp: determineSourceIp(event),
+      })
+    ) {
+      logger.info("Locked out because of too many failed attempts");
+      return event;
+    }
+
+    // Enforce FIDO2? (Recovery codes are exempt: they're meant for users who lost their FIDO2 credentials,
+    // and so are later factors of a multi-factor sign-in, if the user completed a FIDO2 factor already)
+    const factorsCompleted =
+      event.request.privateChallengeParameters.factorsCompleted?.split(",") ??
+      [];
+    if (
+      !factorsCompleted.some((factor) => factor.startsWith("FIDO2")) &&
+      event.request.clientMetadata?.signInMethod !== "FIDO2" &&
+      event.request.clientMetadata?.signInMethod !== "FIDO2_TRANSACTION" &&
+      event.request.clientMetadata?.signInMethod !== "FIDO2_STEPUP" &&
+      event.request.clientMetadata?.signInMethod !== "RECOVERY_CODE"
+    ) {
       await fido2.assertFido2SignInOptional(event);
     }
 
@@ -37,9 +63,27 @@ export const handler: VerifyAuthChallengeResponseTriggerHandler = async (
     } else if (event.request.clientMetadata?.signInMethod === "FIDO2") {
       await fido2.addChallengeVerificationResultToEvent(event);
     } else if (
-      event.request.clientMetadata?.signInMethod === "SMS_OTP_STEPUP"
+      event.request.clientMetadata?.signInMethod === "FIDO2_TRANSACTION"
+    ) {
+      await fido2.addTransactionVerificationResultToEvent(event);
+    } else if (event.request.clientMetadata?.signInMethod === "FIDO2_STEPUP") {
+      await fido2.addStepUpVerificationResultToEvent(event);
+    } else if (
+      event.request.clientMetadata?.signInMethod === "SMS_OTP_STEPUP" ||
+      event.request.clientMetadata?.signInMethod === "SMS_OTP"
     ) {
       await smsOtpStepUp.addChallengeVerificationResultToEvent(event);
+    } else if (event.request.clientMetadata?.signInMethod === "EMAIL_OTP") {
+      await emailOtp.addChallengeVerificationResultToEvent(event);
+    } else if (event.request.clientMetadata?.signInMethod === "RECOVERY_CODE") {
+      await recoveryCode.addChallengeVerificationResultToEvent(event);
+    }
+
+    if (!event.response.answerCorrect) {
+      await emitAuditEvent({
+        eventType: "CHALLENGE_FAILED",
+        ...auditContextFromTriggerEvent(event),
+      });
     }
 
     // Return event
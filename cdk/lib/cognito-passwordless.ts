@@ -17,12 +17,22 @@ import { Construct } from "constructs";
 import { join } from "path";
 
 type TableProps = Omit<cdk.aws_dynamodb.TableProps, "partitionKey" | "sortKey">;
+type MultiFactorSignInMethod =
+  | "MAGIC_LINK"
+  | "EMAIL_OTP"
+  | "SMS_OTP"
+  | "FIDO2"
+  | "FIDO2_TRANSACTION"
+  | "RECOVERY_CODE";
+type SignInMethod = MultiFactorSignInMethod | "SMS_OTP_STEPUP" | "FIDO2_STEPUP";
 
 export class Passwordless extends Construct {
   userPool: cdk.aws_cognito.UserPool;
   userPoolClients?: cdk.aws_cognito.UserPoolClient[];
   secretsTable?: cdk.aws_dynamodb.Table;
   authenticatorsTable?: cdk.aws_dynamodb.Table;
+  rateLimitTable?: cdk.aws_dynamodb.Table;
+  authenticationMethodsTable?: cdk.aws_dynamodb.Table;
   kmsKey?: cdk.aws_kms.IKey;
   createAuthChallengeFn: cdk.aws_lambda.IFunction;
   verifyAuthChallengeResponseFn: cdk.aws_lambda.IFunction;
@@ -34,6 +44,10 @@ export class Passwordless extends Construct {
   fido2Api?: cdk.aws_apigateway.RestApi;
   fido2ApiWebACL?: cdk.aws_wafv2.CfnWebACL;
   fido2NotificationFn?: cdk.aws_lambda.IFunction;
+  fido2AdminApiFn?: cdk.aws_lambda.IFunction;
+  magicLinkApiFn?: cdk.aws_lambda.IFunction;
+  magicLinkApi?: cdk.aws_apigateway.RestApi;
+  auditEventBus?: cdk.aws_events.IEventBus;
   constructor(
     scope: Construct,
     id: string,
@@ -68,6 +82,56 @@ export class Passwordless extends Construct {
         relyingPartyName?: string;
         allowedRelyingPartyIds: string[];
         attestation?: "direct" | "enterprise" | "indirect" | "none";
+        /**
+         * Root certificates (PEM encoded) that attestation certificate chains will be validated against,
+         * e.g. the root certificates of the authenticator vendors you want to allow.
+         * Note that these are passed to the FIDO2 Lambda function as environment variable, which is limited in size (4 KB in total).
+         */
+        attestationTrustAnchors?: string[];
+        /**
+         * Should registration of authenticators fail, if their attestation does not chain up to one of the `attestationTrustAnchors`?
+         * If `false`, the attestation statement is still verified, and the result stored with the authenticator.
+         * Only makes sense if you also set `attestation` to "direct" or "enterprise".
+         * @default false
+         */
+        requireTrustedAttestation?: boolean;
+        /**
+         * Use a FIDO Metadata Service (MDS3) BLOB to look up authenticator metadata (name, icon),
+         * and to enforce policies when users register authenticators.
+         */
+        metadataService?: {
+          /** The S3 object with the FIDO MDS3 BLOB, e.g. as (periodically) downloaded from https://mds3.fidoalliance.org/ */
+          blob: { bucket: cdk.aws_s3.IBucket; key: string };
+          /**
+           * The root certificate (PEM encoded) that the signing certificate of the BLOB must chain up to.
+           * Required, unless you set `skipBlobSignatureVerification`
+           */
+          blobRootCertificate?: string;
+          /**
+           * Use the BLOB without verifying its signature. Only for testing, e.g. with a self-made BLOB
+           * @default false
+           */
+          skipBlobSignatureVerification?: boolean;
+          /**
+           * Only allow registration of authenticators with one of these certification levels, e.g. "FIDO_CERTIFIED_L1".
+           * Authenticators must then also provide a Basic or AttCA attestation, that chains up to the attestation root certificates
+           * in their metadata statement, so set `attestation` to "direct" or "enterprise".
+           * If not provided, authenticators with any (or no) certification level are allowed
+           */
+          allowedCertificationLevels?: string[];
+          /** Block registration of authenticators with these AAGUIDs */
+          blockedAaguids?: string[];
+          /**
+           * Block registration of authenticators, if their latest status report has one of these statuses
+           * @default ["REVOKED","USER_VERIFICATION_BYPASS","ATTESTATION_KEY_COMPROMISE","USER_KEY_REMOTE_COMPROMISE","USER_KEY_PHYSICAL_COMPROMISE"]
+           */
+          revokedStatuses?: string[];
+          /**
+           * How long to cache the BLOB in memory of the FIDO2 Lambda function
+           * @default Duration.hours(1)
+           */
+          cacheDuration?: cdk.Duration;
+        };
         userVerification?: "discouraged" | "preferred" | "required";
         authenticatorAttachment?: "cross-platform" | "platform";
         residentKey?: "discouraged" | "preferred" | "required";
@@ -86,6 +150,63 @@ export class Passwordless extends Construct {
          * @default false
          */
         enforceFido2IfAvailable?: boolean;
+        /**
+         * Enable transaction signing: let users approve a specific operation (e.g. a payment) with FIDO2, using signInMethod "FIDO2_TRANSACTION".
+         * The FIDO2 challenge is then derived from the hash of the transaction (that the client passes in the clientMetadata),
+         * and the ID token that is issued carries that hash in the `transaction_hash` claim. Your back-end can thus verify
+         * that the user approved that very transaction.
+         * @default false
+         */
+        transactionSigning?: boolean;
+        /**
+         * Enable step-up authentication: let signed-in users verify themselves again with FIDO2 (with user verification), using signInMethod "FIDO2_STEPUP".
+         * The ID token that is issued then carries the claims `step_up_method` ("FIDO2") and `step_up_auth_time` (seconds since epoch),
+         * so your APIs can demand a recent FIDO2 verification for sensitive operations.
+         * @default false
+         */
+        stepUp?: boolean;
+        /**
+         * Enable one-time recovery codes, that users can sign in with if they lose all their FIDO2 credentials.
+         * Recovery codes are generated when the user registers their first FIDO2 credential (and can be regenerated later),
+         * and sign-in with a recovery code is allowed even if `enforceFido2IfAvailable` is set.
+         * If `updatedCredentialsNotification` is set, users are notified when a recovery code was used to sign in.
+         * Regenerating recovery codes requires a recent FIDO2 step-up, so enable `stepUp` too.
+         */
+        recoveryCodes?: {
+          /**
+           * The number of recovery codes to generate for a user (1 to 50, as the old and new codes are replaced in one transaction)
+           * @default 10
+           */
+          numberOfCodes?: number;
+          /**
+           * How recent the user's FIDO2 step-up must be, to regenerate their recovery codes
+           * @default Duration.minutes(5)
+           */
+          stepUpMaxAge?: cdk.Duration;
+          /**
+           * Delete all FIDO2 credentials of the user, when they sign in with a recovery code?
+           * @default false
+           */
+          revokeCredentialsOnRecovery?: boolean;
+        };
+        /**
+         * Add admin endpoints to the FIDO2 API (under /admin), to list and delete the FIDO2 credentials of any user, e.g. for your helpdesk.
+         *
+         * Callers are authorized either:
+         * - with `authorizationType: "COGNITO_GROUP"`: by their ID token (Cognito authorizer), and they must be member of the admin group
+         * - with `authorizationType: "IAM"`: by IAM (SigV4), grant access to `fido2Api.arnForExecuteApi("POST", "/admin/*")`
+         */
+        adminApi?: {
+          /**
+           * @default "COGNITO_GROUP"
+           */
+          authorizationType?: "COGNITO_GROUP" | "IAM";
+          /**
+           * The Cognito group that admins must be a member of (if `authorizationType` is "COGNITO_GROUP")
+           * @default "passwordless-admins"
+           */
+          adminGroupName?: string;
+        };
         api?: {
           /**
            * The throttling burst limit for the deployment stage: https://docs.aws.amazon.com/apigateway/latest/developerguide/api-gateway-request-throttling.html
@@ -136,6 +257,132 @@ export class Passwordless extends Construct {
           sesRegion?: string;
         };
       };
+      /**
+       * The e-mail provider used to send e-mails (Magic Links, E-mail OTPs, FIDO2 notifications).
+       * For SMTP, store the credentials in an AWS Secrets Manager secret, with JSON value `{ "username": "...", "password": "..." }`
+       *
+       * @default { type: "SES" }
+       */
+      emailSender?:
+        | { type: "SES" }
+        | {
+            type: "SMTP";
+            host: string;
+            /** Default: 587 (or 465 if secure is true) */
+            port?: number;
+            /** Use TLS from the start of the connection? If false, STARTTLS is used if the server supports it */
+            secure?: boolean;
+            credentials?: cdk.aws_secretsmanager.ISecret;
+          };
+      /**
+       * Protect against brute-force and enumeration attacks, by locking out usernames and source IPs after too many failed sign-in attempts (across sessions).
+       * Lockouts apply to all sign-in methods, and each subsequent lockout lasts twice as long as the previous one.
+       * Source IPs are only tracked if you've enabled "additional user context data" for your app client.
+       */
+      rateLimiting?: {
+        /**
+         * After this many failed attempts for a username, that username is locked out
+         * @default 5
+         */
+        maxFailedAttemptsPerUser?: number;
+        /**
+         * After this many failed attempts from a source IP, that source IP is locked out
+         * @default 20
+         */
+        maxFailedAttemptsPerIp?: number;
+        /**
+         * Failed attempts are counted within this window: if there is no failed attempt for this long, counting starts over
+         * @default Duration.hours(1)
+         */
+        failedAttemptsWindow?: cdk.Duration;
+        /**
+         * The duration of the first lockout
+         * @default Duration.minutes(1)
+         */
+        lockoutDuration?: cdk.Duration;
+        /**
+         * The maximum duration of a lockout
+         * @default Duration.days(1)
+         */
+        maxLockoutDuration?: cdk.Duration;
+        rateLimitTableProps?: TableProps;
+      };
+      /**
+       * Require users to complete multiple sign-in methods (factors), in order, within one sign-in, before tokens are issued.
+       * Specify per app client ID and/or per user group (the group's policy takes precedence), the alternative chains of signInMethods
+       * that are allowed, e.g. `[["FIDO2"], ["MAGIC_LINK", "SMS_OTP"]]` means: either sign in with FIDO2, or with a magic link followed by an SMS OTP.
+       * App clients and users without a policy can sign in with any single sign-in method, as usual.
+       * Step-up authentication ("SMS_OTP_STEPUP", "FIDO2_STEPUP") is not subject to these policies, as it requires tokens from an earlier sign-in.
+       */
+      multiFactorPolicies?: {
+        clients?: Record<string, MultiFactorSignInMethod[][]>;
+        groups?: Record<string, MultiFactorSignInMethod[][]>;
+      };
+      /**
+       * Authentication policies per app client ID, e.g. to apply stricter settings for an internal admin app than for a consumer web app on the same user pool.
+       * The custom auth functions determine the policy from the app client that the user signs in with.
+       * Settings that are omitted fall back to the global settings (`allowedOrigins`, `fido2.userVerification`, etc.).
+       */
+      clientPolicies?: Record<
+        string,
+        {
+          /**
+           * The signInMethods that users of the app client may use. By default, all enabled signInMethods may be used
+           */
+          allowedSignInMethods?: SignInMethod[];
+          /**
+           * The origins (e.g. "https://admin.example.com") that magic links of the app client may redirect to, and that FIDO2 assertions may come from, upon sign-in.
+           * These origins are also allowed for the FIDO2 credentials API (CORS, and registration of credentials)
+           */
+          allowedOrigins?: string[];
+          /**
+           * The WebAuthn user verification requirement for sign-in with FIDO2
+           */
+          userVerification?: "discouraged" | "preferred" | "required";
+          /**
+           * Deny sign-in with other methods than FIDO2, if the user has a FIDO2 credential
+           */
+          enforceFido2IfAvailable?: boolean;
+          /**
+           * How long magic links are valid
+           */
+          magicLinkExpiry?: cdk.Duration;
+        }
+      >;
+      /**
+       * Emit a structured audit event for each authentication decision (e.g. challenge issued or failed, authentication allowed or denied, credential registered or deleted).
+       * Events are sent to an Amazon EventBridge event bus (a new one is created, unless you provide one), or to an Amazon Kinesis data stream.
+       */
+      auditEvents?:
+        | {
+            type: "EventBridge";
+            eventBus?: cdk.aws_events.IEventBus;
+            /** @default "cognito-passwordless" */
+            source?: string;
+            /** Secret salt to hash usernames with, so that the usernames can't be derived from the audit events by brute force */
+            usernameHashSalt?: string;
+          }
+        | {
+            type: "Kinesis";
+            stream: cdk.aws_kinesis.IStream;
+            /** Secret salt to hash usernames with, so that the usernames can't be derived from the audit events by brute force */
+            usernameHashSalt?: string;
+          };
+      /**
+       * Localized templates for the e-mails and SMS-es that are sent (Magic Links, E-mail OTPs, SMS OTPs, FIDO2 notifications).
+       * The directory is bundled into the Lambda functions, and should contain a subdirectory per locale, e.g. "nl/magic-link.html".
+       * The locale is taken from the client metadata ("locale") or from the user's "locale" attribute.
+       * For templates that are not provided, the built-in English templates are used.
+       */
+      messageTemplates?: {
+        /** Absolute path to the directory with the templates */
+        directory: string;
+        /**
+         * The locale to use if there are no templates for the user's locale
+         * @default "en"
+         */
+        defaultLocale?: string;
+      };
       /**
        * Enable sign-in with Magic Links by providing this config object
        * Make sure you've moved out of the SES sandbox, otherwise you can only send few e-mails,
@@ -153,6 +400,24 @@ export class Passwordless extends Construct {
         secondsUntilExpiry?: cdk.Duration;
         minimumSecondsBetween?: cdk.Duration;
         autoConfirmUsers?: boolean;
+        /**
+         * Enable remote approval of Magic Links by providing this config object:
+         * the user may then click the Magic Link on another device (e.g. their phone),
+         * which signs the user in on the device that requested the Magic Link (e.g. their desktop).
+         * This deploys a small public API, that the client uses to approve Magic Links and to poll for approval.
+         */
+        remoteApproval?: {
+          /**
+           * How long a poll request waits for approval before returning. Must stay below the API Gateway integration timeout (29 seconds)
+           *
+           * @default Duration.seconds(20)
+           */
+          longPollTimeout?: cdk.Duration;
+          /**
+           * Pass any properties you want for the AWS Lambda Rest Api created, these will be merged with properties from this solution
+           */
+          restApiProps?: Partial<cdk.aws_apigateway.RestApiProps>;
+        };
       };
       /**
        * Enable SMS OTP Step Up authentication by providing this config object.
@@ -166,6 +431,35 @@ export class Passwordless extends Construct {
         senderId?: string;
         snsRegion?: string;
       };
+      /**
+       * Enable sign-in with SMS OTP as first factor (i.e. without the user needing to be signed-in already) by providing this config object.
+       * If `smsOtpStepUp` is provided as well, the settings here take precedence for both.
+       * Make sure you've moved out of the SNS sandbox, otherwise you can only send few SMS messages,
+       * and only to verified phone numbers: https://docs.aws.amazon.com/sns/latest/dg/sns-sms-sandbox.html
+       */
+      smsOtpSignIn?: {
+        /** The nr of digits in the OTP. Default: 6 */
+        otpLength?: number;
+        originationNumber?: string;
+        senderId?: string;
+        snsRegion?: string;
+      };
+      /**
+       * Enable sign-in with E-mail OTP (One-Time-Password) by providing this config object.
+       * Unlike Magic Links, the OTP can be keyed in on another device than the one the e-mail was opened on.
+       * Make sure you've moved out of the SES sandbox, otherwise you can only send few e-mails,
+       * and only from and to verified e-mail addresses: https://docs.aws.amazon.com/ses/latest/dg/request-production-access.html
+       */
+      emailOtp?: {
+        /** The e-mail address you want to use as the FROM address of the OTP e-mails */
+        sesFromAddress: string;
+        /** The AWS region you want to use Amazon SES from. Use this to specify a different region where you're no longer in the SES sandbox */
+        sesRegion?: string;
+        /** The nr of digits in the OTP. Default: 6 */
+        otpLength?: number;
+        /** How long the OTP stays valid. Default: 5 minutes */
+        secondsUntilExpiry?: cdk.Duration;
+      };
       /** Pass any properties you want for the AWS Lambda functions created, these will be merged with properties from this solution */
       functionProps?: {
         createAuthChallenge?: Partial<cdk.aws_lambda_nodejs.NodejsFunctionProps>;
@@ -176,9 +470,18 @@ export class Passwordless extends Construct {
         fido2?: Partial<cdk.aws_lambda_nodejs.NodejsFunctionProps>;
         fido2challenge?: Partial<cdk.aws_lambda_nodejs.NodejsFunctionProps>;
         fido2notification?: Partial<cdk.aws_lambda_nodejs.NodejsFunctionProps>;
+        fido2AdminApi?: Partial<cdk.aws_lambda_nodejs.NodejsFunctionProps>;
+        magicLinkApi?: Partial<cdk.aws_lambda_nodejs.NodejsFunctionProps>;
       };
       /** Any keys in the clientMetadata that you specify here, will be persisted as claims in the ID-token, via the Amazon Cognito PreToken-generation trigger */
       clientMetadataTokenKeys?: string[];
+      /**
+       * Add claims to the ID token that tell how and when the user authenticated, via the Amazon Cognito PreToken-generation trigger:
+       * `passwordless_amr` (authentication method references as in RFC 8176, space separated, e.g. "hwk user mfa" for FIDO2 with user verification)
+       * and `passwordless_auth_time` (seconds since epoch). Cognito doesn't allow to override the standard `amr` and `auth_time` claims, hence these names.
+       * @default false
+       */
+      authenticationMethodClaims?: boolean;
       /**
        * Specify to enable logging in all lambda functions.
        * Note that log level DEBUG will log sensitive data, only use while developing!
@@ -190,6 +493,20 @@ export class Passwordless extends Construct {
   ) {
     super(scope, id);
 
+    const numberOfRecoveryCodes = props.fido2?.recoveryCodes?.numberOfCodes;
+    if (
+      numberOfRecoveryCodes !== undefined &&
+      !(
+        Number.isInteger(numberOfRecoveryCodes) &&
+        numberOfRecoveryCodes >= 1 &&
+        numberOfRecoveryCodes <= 50
+      )
+    ) {
+      throw new Error(
+        `fido2.recoveryCodes.numberOfCodes must be an integer from 1 to 50, got: ${numberOfRecoveryCodes}`
+      );
+    }
+
     if (props.magicLink) {
       if (props.magicLink.kmsKey) {
         this.kmsKey = props.magicLink.kmsKey;
@@ -276,11 +593,155 @@ export class Passwordless extends Construct {
       });
     }
 
+    if (props.rateLimiting) {
+      this.rateLimitTable = new cdk.aws_dynamodb.Table(
+        scope,
+        `RateLimitTable${id}`,
+        {
+          billingMode: cdk.aws_dynamodb.BillingMode.PAY_PER_REQUEST,
+          ...props.rateLimiting.rateLimitTableProps,
+          partitionKey: {
+            name: "pk",
+            type: cdk.aws_dynamodb.AttributeType.STRING,
+          },
+          timeToLiveAttribute: "exp",
+        }
+      );
+    }
+
+    if (props.authenticationMethodClaims) {
+      this.authenticationMethodsTable = new cdk.aws_dynamodb.Table(
+        scope,
+        `AuthenticationMethodsTable${id}`,
+        {
+          billingMode: cdk.aws_dynamodb.BillingMode.PAY_PER_REQUEST,
+          partitionKey: {
+            name: "pk",
+            type: cdk.aws_dynamodb.AttributeType.STRING,
+          },
+          timeToLiveAttribute: "exp",
+        }
+      );
+    }
+
+    const emailSenderEnvironment: Record<string, string> =
+      props.emailSender?.type === "SMTP"
+        ? {
+            EMAIL_SENDER: "SMTP",
+            SMTP_HOST: props.emailSender.host,
+            SMTP_PORT: props.emailSender.port?.toString() ?? "",
+            SMTP_SECURE: props.emailSender.secure ? "TRUE" : "",
+            SMTP_CREDENTIALS_SECRET_ARN:
+              props.emailSender.credentials?.secretArn ?? "",
+          }
+        : { EMAIL_SENDER: "SES" };
+    const emailSenderBundling: Partial<cdk.aws_lambda_nodejs.BundlingOptions> =
+      props.emailSender?.type === "SMTP"
+        ? {
+            banner:
+              "import{createRequire}from 'module';const require=createRequire(import.meta.url);", // needed for nodemailer dependency, https://github.com/evanw/esbuild/issues/1921
+          }
+        : {};
+    const messageTemplatesEnvironment: Record<string, string> =
+      props.messageTemplates
+        ? {
+            TEMPLATES_DIR: "templates",
+            DEFAULT_LOCALE: props.messageTemplates.defaultLocale ?? "",
+          }
+        : {};
+    let auditEnvironment: Record<string, string> = {};
+    if (props.auditEvents?.type === "EventBridge") {
+      this.auditEventBus =
+        props.auditEvents.eventBus ??
+        new cdk.aws_events.EventBus(this, `AuditEventBus${id}`);
+      auditEnvironment = {
+        AUDIT_SINK: "EVENTBRIDGE",
+        AUDIT_EVENT_BUS_NAME: this.auditEventBus.eventBusName,
+        AUDIT_EVENT_SOURCE: props.auditEvents.source ?? "",
+        AUDIT_USERNAME_HASH_SALT: props.auditEvents.usernameHashSalt ?? "",
+      };
+    } else if (props.auditEvents?.type === "Kinesis") {
+      auditEnvironment = {
+        AUDIT_SINK: "KINESIS",
+        AUDIT_KINESIS_STREAM_NAME: props.auditEvents.stream.streamName,
+        AUDIT_USERNAME_HASH_SALT: props.auditEvents.usernameHashSalt ?? "",
+      };
+    }
+    const grantEmitAuditEvents = (fn: cdk.aws_lambda.IFunction) => {
+      if (props.auditEvents?.type === "Kinesis") {
+        props.auditEvents.stream.grantWrite(fn);
+      } else {
+        this.auditEventBus?.grantPutEventsTo(fn);
+      }
+    };
+    const templatesDirectory = props.messageTemplates?.directory;
+    const messageTemplatesBundling: Partial<cdk.aws_lambda_nodejs.BundlingOptions> =
+      templatesDirectory
+        ? {
+            commandHooks: {
+              beforeBundling: () => [],
+              beforeInstall: () => [],
+              afterBundling: (_inputDir: string, outputDir: string) => [
+                `cp -R "${templatesDirectory}" "${outputDir}/templates"`,
+              ],
+            },
+          }
+        : {};
+    const multiFactorEnvironment: Record<string, string> =
+      props.multiFactorPolicies
+        ? { MULTI_FACTOR_POLICIES: JSON.stringify(props.multiFactorPolicies) }
+        : {};
+    const clientPoliciesEnvironment: Record<string, string> =
+      props.clientPolicies
+        ? {
+            CLIENT_POLICIES: JSON.stringify(
+              Object.fromEntries(
+                Object.entries(props.clientPolicies).map(
+                  ([clientId, { magicLinkExpiry, ...policy }]) => [
+                    clientId,
+                    {
+                      ...policy,
+                      magicLinkSecondsUntilExpiry: magicLinkExpiry?.toSeconds(),
+                    },
+                  ]
+                )
+              )
+            ),
+          }
+        : {};
+    // Origins that are allowed for any app client, e.g. for CORS on the APIs
+    const allAllowedOrigins = [
+      ...new Set([
+        ...(props.allowedOrigins ?? []),
+        ...Object.values(props.clientPolicies ?? {}).flatMap(
+          (policy) => policy.allowedOrigins ?? []
+        ),
+      ]),
+    ];
+    const grantListGroupsForUser = (fn: cdk.aws_lambda.IFunction) => {
+      if (!props.multiFactorPolicies?.groups) return;
+      // Not granting on the user pool itself, as that would make a circular dependency (these functions are its triggers)
+      fn.addToRolePolicy(
+        new cdk.aws_iam.PolicyStatement({
+          effect: cdk.aws_iam.Effect.ALLOW,
+          resources: [
+            cdk.Stack.of(this).formatArn({
+              service: "cognito-idp",
+              resource: "userpool",
+              resourceName: "*",
+            }),
+          ],
+          actions: ["cognito-idp:AdminListGroupsForUser"],
+        })
+      );
+    };
     const createAuthChallengeEnvironment: Record<string, string> = {
       ALLOWED_ORIGINS: props.allowedOrigins?.join(",") ?? "",
       ALLOWED_APPLICATION_ORIGINS:
         props.allowedApplicationOrigins?.join(",") ?? "",
       LOG_LEVEL: props.logLevel ?? "INFO",
+      ...multiFactorEnvironment,
+      ...clientPoliciesEnvironment,
     };
     if (props.magicLink) {
       Object.assign(createAuthChallengeEnvironment, {
@@ -296,6 +757,9 @@ export class Passwordless extends Construct {
           props.magicLink.secondsUntilExpiry?.toSeconds().toString() ?? "900",
         MIN_SECONDS_BETWEEN:
           props.magicLink.minimumSecondsBetween?.toSeconds().toString() ?? "60",
+        MAGIC_LINK_REMOTE_APPROVAL_ENABLED: props.magicLink.remoteApproval
+          ? "TRUE"
+          : "",
         STACK_ID: cdk.Stack.of(scope).stackId,
       });
     }
@@ -309,17 +773,32 @@ export class Passwordless extends Construct {
           props.fido2.exposeUserCredentialIDs === false ? "" : "TRUE",
         STACK_ID: cdk.Stack.of(scope).stackId,
         SIGN_IN_TIMEOUT: props.fido2.timeouts?.signIn?.toString() ?? "120000",
+        FIDO2_TRANSACTION_SIGNING_ENABLED: props.fido2.transactionSigning
+          ? "TRUE"
+          : "",
       });
     }
-    if (props.smsOtpStepUp) {
+    if (props.smsOtpStepUp || props.smsOtpSignIn) {
+      const smsOtp = { ...props.smsOtpStepUp, ...props.smsOtpSignIn };
       Object.assign(createAuthChallengeEnvironment, {
-        SMS_OTP_STEP_UP_ENABLED: "TRUE",
-        OTP_LENGTH: props.smsOtpStepUp.otpLength
-          ? props.smsOtpStepUp.otpLength.toString()
+        SMS_OTP_STEP_UP_ENABLED: props.smsOtpStepUp ? "TRUE" : "",
+        SMS_OTP_SIGN_IN_ENABLED: props.smsOtpSignIn ? "TRUE" : "",
+        OTP_LENGTH: smsOtp.otpLength ? smsOtp.otpLength.toString() : "",
+        ORIGINATION_NUMBER: smsOtp.originationNumber ?? "",
+        SENDER_ID: smsOtp.senderId ?? "",
+        SNS_REGION: smsOtp.snsRegion ?? "",
+      });
+    }
+    if (props.emailOtp) {
+      Object.assign(createAuthChallengeEnvironment, {
+        EMAIL_OTP_ENABLED: "TRUE",
+        EMAIL_OTP_SES_FROM_ADDRESS: props.emailOtp.sesFromAddress,
+        EMAIL_OTP_SES_REGION: props.emailOtp.sesRegion ?? "",
+        EMAIL_OTP_LENGTH: props.emailOtp.otpLength
+          ? props.emailOtp.otpLength.toString()
           : "",
-        ORIGINATION_NUMBER: props.smsOtpStepUp.originationNumber ?? "",
-        SENDER_ID: props.smsOtpStepUp.senderId ?? "",
-        SNS_REGION: props.smsOtpStepUp.snsRegion ?? "",
+        EMAIL_OTP_SECONDS_UNTIL_EXPIRY:
+          props.emailOtp.secondsUntilExpiry?.toSeconds().toString() ?? "300",
       });
     }
     this.createAuthChallengeFn = new cdk.aws_lambda_nodejs.NodejsFunction(
@@ -331,18 +810,25 @@ export class Passwordless extends Construct {
         architecture: cdk.aws_lambda.Architecture.ARM_64,
         bundling: {
           format: cdk.aws_lambda_nodejs.OutputFormat.ESM,
+          ...emailSenderBundling,
+          ...messageTemplatesBundling,
         },
         timeout: cdk.Duration.seconds(5),
         ...props.functionProps?.createAuthChallenge,
         environment: {
           ...createAuthChallengeEnvironment,
+          ...(props.magicLink || props.emailOtp ? emailSenderEnvironment : {}),
+          ...messageTemplatesEnvironment,
+          ...auditEnvironment,
           ...props.functionProps?.createAuthChallenge?.environment,
         },
       }
     );
+    grantEmitAuditEvents(this.createAuthChallengeFn);
+    grantListGroupsForUser(this.createAuthChallengeFn);
     this.secretsTable?.grantReadWriteData(this.createAuthChallengeFn);
     this.authenticatorsTable?.grantReadData(this.createAuthChallengeFn);
-    if (props.magicLink) {
+    if (props.magicLink && props.emailSender?.type !== "SMTP") {
       this.createAuthChallengeFn.addToRolePolicy(
         new cdk.aws_iam.PolicyStatement({
           effect: cdk.aws_iam.Effect.ALLOW,
@@ -355,6 +841,25 @@ export class Passwordless extends Construct {
         })
       );
     }
+    if (props.emailOtp && props.emailSender?.type !== "SMTP") {
+      this.createAuthChallengeFn.addToRolePolicy(
+        new cdk.aws_iam.PolicyStatement({
+          effect: cdk.aws_iam.Effect.ALLOW,
+          resources: [
+            `arn:${cdk.Aws.PARTITION}:ses:${
+              props.emailOtp.sesRegion ?? cdk.Aws.REGION
+            }:${cdk.Aws.ACCOUNT_ID}:identity/*`,
+          ],
+          actions: ["ses:SendEmail"],
+        })
+      );
+    }
+    if (
+      (props.magicLink || props.emailOtp) &&
+      props.emailSender?.type === "SMTP"
+    ) {
+      props.emailSender.credentials?.grantRead(this.createAuthChallengeFn);
+    }
     this.createAuthChallengeFn.addToRolePolicy(
       new cdk.aws_iam.PolicyStatement({
         effect: cdk.aws_iam.Effect.ALLOW,
@@ -410,10 +915,14 @@ export class Passwordless extends Construct {
       ALLOWED_APPLICATION_ORIGINS:
         props.allowedApplicationOrigins?.join(",") ?? "",
       LOG_LEVEL: props.logLevel ?? "INFO",
+      ...clientPoliciesEnvironment,
     };
     if (props.magicLink) {
       Object.assign(verifyAuthChallengeResponseEnvironment, {
         MAGIC_LINK_ENABLED: "TRUE",
+        MAGIC_LINK_REMOTE_APPROVAL_ENABLED: props.magicLink.remoteApproval
+          ? "TRUE"
+          : "",
         DYNAMODB_SECRETS_TABLE: this.secretsTable!.tableName,
         STACK_ID: cdk.Stack.of(scope).stackId,
       });
@@ -429,13 +938,38 @@ export class Passwordless extends Construct {
           : "",
         USER_VERIFICATION: props.fido2.userVerification ?? "required",
         STACK_ID: cdk.Stack.of(scope).stackId,
+        FIDO2_TRANSACTION_SIGNING_ENABLED: props.fido2.transactionSigning
+          ? "TRUE"
+          : "",
+        FIDO2_STEP_UP_ENABLED: props.fido2.stepUp ? "TRUE" : "",
       });
+      if (props.fido2.recoveryCodes) {
+        Object.assign(verifyAuthChallengeResponseEnvironment, {
+          RECOVERY_CODES_ENABLED: "TRUE",
+        });
+      }
     }
     if (props.smsOtpStepUp) {
       Object.assign(verifyAuthChallengeResponseEnvironment, {
         SMS_OTP_STEP_UP_ENABLED: "TRUE",
       });
     }
+    if (props.smsOtpSignIn) {
+      Object.assign(verifyAuthChallengeResponseEnvironment, {
+        SMS_OTP_SIGN_IN_ENABLED: "TRUE",
+      });
+    }
+    if (props.emailOtp) {
+      Object.assign(verifyAuthChallengeResponseEnvironment, {
+        EMAIL_OTP_ENABLED: "TRUE",
+      });
+    }
+    if (props.rateLimiting) {
+      // Answers aren't verified during a lockout
+      Object.assign(verifyAuthChallengeResponseEnvironment, {
+        DYNAMODB_RATE_LIMIT_TABLE: this.rateLimitTable!.tableName,
+      });
+    }
     this.verifyAuthChallengeResponseFn =
       new cdk.aws_lambda_nodejs.NodejsFunction(
         this,
@@ -456,14 +990,17 @@ export class Passwordless extends Construct {
           ...props.functionProps?.verifyAuthChallengeResponse,
           environment: {
             ...verifyAuthChallengeResponseEnvironment,
+            ...auditEnvironment,
             ...props.functionProps?.verifyAuthChallengeResponse?.environment,
           },
         }
       );
+    grantEmitAuditEvents(this.verifyAuthChallengeResponseFn);
     this.secretsTable?.grantReadWriteData(this.verifyAuthChallengeResponseFn);
     this.authenticatorsTable?.grantReadWriteData(
       this.verifyAuthChallengeResponseFn
     );
+    this.rateLimitTable?.grantReadData(this.verifyAuthChallengeResponseFn);
     [this.kmsKey, props.magicLink?.rotatedKmsKey]
       .filter(Boolean)
       .forEach((key) => {
@@ -514,12 +1051,94 @@ export class Passwordless extends Construct {
           ...props.functionProps?.defineAuthChallenge,
           environment: {
             LOG_LEVEL: props.logLevel ?? "INFO",
+            ...auditEnvironment,
+            ...multiFactorEnvironment,
+            ...clientPoliciesEnvironment,
+            ...(props.rateLimiting && {
+              DYNAMODB_RATE_LIMIT_TABLE: this.rateLimitTable!.tableName,
+              RATE_LIMIT_MAX_FAILED_ATTEMPTS_PER_USER:
+                props.rateLimiting.maxFailedAttemptsPerUser?.toString() ?? "",
+              RATE_LIMIT_MAX_FAILED_ATTEMPTS_PER_IP:
+                props.rateLimiting.maxFailedAttemptsPerIp?.toString() ?? "",
+              RATE_LIMIT_FAILED_ATTEMPTS_WINDOW_SECONDS:
+                props.rateLimiting.failedAttemptsWindow
+                  ?.toSeconds()
+                  .toString() ?? "",
+              RATE_LIMIT_LOCKOUT_SECONDS:
+                props.rateLimiting.lockoutDuration?.toSeconds().toString() ??
+                "",
+              RATE_LIMIT_MAX_LOCKOUT_SECONDS:
+                props.rateLimiting.maxLockoutDuration?.toSeconds().toString() ??
+                "",
+            }),
+            ...(props.authenticationMethodClaims && {
+              DYNAMODB_AUTHENTICATION_METHODS_TABLE:
+                this.authenticationMethodsTable!.tableName,
+            }),
             ...props.functionProps?.defineAuthChallenge?.environment,
           },
         }
       );
+    grantEmitAuditEvents(this.defineAuthChallengeResponseFn);
+    grantListGroupsForUser(this.defineAuthChallengeResponseFn);
+    this.rateLimitTable?.grantReadWriteData(this.defineAuthChallengeResponseFn);
+    this.authenticationMethodsTable?.grantWriteData(
+      this.defineAuthChallengeResponseFn
+    );
 
-    if (props.clientMetadataTokenKeys) {
+    const updatedCredentialsNotification =
+      props.fido2?.updatedCredentialsNotification;
+    if (updatedCredentialsNotification) {
+      this.fido2NotificationFn = new cdk.aws_lambda_nodejs.NodejsFunction(
+        this,
+        `Fido2Notification${id}`,
+        {
+          entry: join(__dirname, "..", "custom-auth", "fido2-notification.js"),
+          runtime: cdk.aws_lambda.Runtime.NODEJS_22_X,
+          architecture: cdk.aws_lambda.Architecture.ARM_64,
+          bundling: {
+            format: cdk.aws_lambda_nodejs.OutputFormat.ESM,
+            ...emailSenderBundling,
+            ...messageTemplatesBundling,
+          },
+          timeout: cdk.Duration.seconds(30),
+          ...props.functionProps?.fido2notification,
+          environment: {
+            LOG_LEVEL: props.logLevel ?? "INFO",
+            SES_FROM_ADDRESS: updatedCredentialsNotification.sesFromAddress,
+            SES_REGION: updatedCredentialsNotification.sesRegion ?? "",
+            ...emailSenderEnvironment,
+            ...messageTemplatesEnvironment,
+            ...props.functionProps?.fido2notification?.environment,
+          },
+        }
+      );
+      if (props.emailSender?.type === "SMTP") {
+        props.emailSender.credentials?.grantRead(this.fido2NotificationFn);
+      } else {
+        this.fido2NotificationFn.addToRolePolicy(
+          new cdk.aws_iam.PolicyStatement({
+            effect: cdk.aws_iam.Effect.ALLOW,
+            resources: [
+              `arn:${cdk.Aws.PARTITION}:ses:${
+                updatedCredentialsNotification.sesRegion ?? cdk.Aws.REGION
+              }:${cdk.Aws.ACCOUNT_ID}:identity/*`,
+            ],
+            actions: ["ses:SendEmail"],
+          })
+        );
+      }
+    }
+
+    // The PreToken-generation trigger is needed for transaction signing, step-up and authentication method claims too, as it adds their claims,
+    // and for recovery codes, as it consumes the code the user signed in with
+    if (
+      props.clientMetadataTokenKeys ||
+      props.authenticationMethodClaims ||
+      props.fido2?.transactionSigning ||
+      props.fido2?.stepUp ||
+      props.fido2?.recoveryCodes
+    ) {
       this.preTokenGenerationFn = new cdk.aws_lambda_nodejs.NodejsFunction(
         this,
         `PreToken${id}`,
@@ -537,10 +1156,42 @@ export class Passwordless extends Construct {
               "signInMethod",
               ...(props.clientMetadataTokenKeys ?? []),
             ].join(","),
+            AUTHENTICATION_METHOD_CLAIMS_ENABLED:
+              props.authenticationMethodClaims ? "TRUE" : "",
+            ...(props.authenticationMethodClaims && {
+              DYNAMODB_AUTHENTICATION_METHODS_TABLE:
+                this.authenticationMethodsTable!.tableName,
+            }),
+            ...clientPoliciesEnvironment,
+            USER_VERIFICATION: props.fido2?.userVerification ?? "required",
+            ...(props.fido2?.recoveryCodes && {
+              RECOVERY_CODES_ENABLED: "TRUE",
+              RECOVERY_CODES_REVOKE_CREDENTIALS: props.fido2.recoveryCodes
+                .revokeCredentialsOnRecovery
+                ? "TRUE"
+                : "",
+              DYNAMODB_AUTHENTICATORS_TABLE:
+                this.authenticatorsTable!.tableName,
+              STACK_ID: cdk.Stack.of(scope).stackId,
+              ...auditEnvironment,
+              // Notify users when a recovery code was used to sign in
+              FIDO2_NOTIFICATION_LAMBDA_ARN:
+                this.fido2NotificationFn?.latestVersion.functionArn ?? "",
+            }),
             ...props.functionProps?.preTokenGeneration?.environment,
           },
         }
       );
+      this.authenticationMethodsTable?.grantReadWriteData(
+        this.preTokenGenerationFn
+      );
+      if (props.fido2?.recoveryCodes) {
+        grantEmitAuditEvents(this.preTokenGenerationFn);
+        this.authenticatorsTable!.grantReadWriteData(this.preTokenGenerationFn);
+        this.fido2NotificationFn?.latestVersion.grantInvoke(
+          this.preTokenGenerationFn
+        );
+      }
     }
 
     if (!props.userPool) {
@@ -600,11 +1251,25 @@ export class Passwordless extends Construct {
       }
       this.userPool = props.userPool;
     }
+    if (this.fido2NotificationFn) {
+      // Not granted through this.userPool.grant(), as the notification function would then depend on the User Pool,
+      // which depends on the PreToken-generation trigger, which depends on the notification function
+      new cdk.aws_iam.Policy(this, `Fido2NotificationUserPoolAccess${id}`, {
+        roles: [this.fido2NotificationFn.role!],
+        statements: [
+          new cdk.aws_iam.PolicyStatement({
+            effect: cdk.aws_iam.Effect.ALLOW,
+            resources: [this.userPool.userPoolArn],
+            actions: ["cognito-idp:AdminGetUser"],
+          }),
+        ],
+      });
+    }
     if (props.fido2) {
       const defaultCorsOptionsWithoutAuth = {
         allowHeaders: ["Content-Type"],
         allowMethods: ["POST"],
-        allowOrigins: props.allowedOrigins ?? [],
+        allowOrigins: allAllowedOrigins,
         maxAge: cdk.Duration.days(1),
       };
       const defaultCorsOptionsWithAuth = {
@@ -613,53 +1278,6 @@ export class Passwordless extends Construct {
           "Authorization",
         ]),
       };
-      if (props.fido2.updatedCredentialsNotification) {
-        this.fido2NotificationFn = new cdk.aws_lambda_nodejs.NodejsFunction(
-          this,
-          `Fido2Notification${id}`,
-          {
-            entry: join(
-              __dirname,
-              "..",
-              "custom-auth",
-              "fido2-notification.js"
-            ),
-            runtime: cdk.aws_lambda.Runtime.NODEJS_22_X,
-            architecture: cdk.aws_lambda.Architecture.ARM_64,
-            bundling: {
-              format: cdk.aws_lambda_nodejs.OutputFormat.ESM,
-            },
-            timeout: cdk.Duration.seconds(30),
-            ...props.functionProps?.fido2notification,
-            environment: {
-              LOG_LEVEL: props.logLevel ?? "INFO",
-              SES_FROM_ADDRESS:
-                props.fido2.updatedCredentialsNotification.sesFromAddress,
-              SES_REGION:
-                props.fido2.updatedCredentialsNotification.sesRegion ?? "",
-              USER_POOL_ID: this.userPool.userPoolId,
-              ...props.functionProps?.fido2notification?.environment,
-            },
-          }
-        );
-        this.fido2NotificationFn.addToRolePolicy(
-          new cdk.aws_iam.PolicyStatement({
-            effect: cdk.aws_iam.Effect.ALLOW,
-            resources: [
-              `arn:${cdk.Aws.PARTITION}:ses:${
-                props.fido2.updatedCredentialsNotification.sesRegion ??
-                cdk.Aws.REGION
-              }:${cdk.Aws.ACCOUNT_ID}:identity/*`,
-            ],
-            actions: ["ses:SendEmail"],
-          })
-        );
-        this.userPool.grant(
-          this.fido2NotificationFn,
-          "cognito-idp:AdminGetUser"
-        );
-      }
-
       this.fido2Fn = new cdk.aws_lambda_nodejs.NodejsFunction(
         this,
         `Fido2${id}`,
@@ -686,10 +1304,38 @@ export class Passwordless extends Construct {
             RELYING_PARTY_NAME: props.fido2.relyingPartyName ?? "",
             ALLOWED_RELYING_PARTY_IDS:
               props.fido2.allowedRelyingPartyIds.join(",") ?? "",
-            ALLOWED_ORIGINS: props.allowedOrigins?.join(",") ?? "",
+            ALLOWED_ORIGINS: allAllowedOrigins.join(","),
             ALLOWED_APPLICATION_ORIGINS:
               props.allowedApplicationOrigins?.join(",") ?? "",
             ATTESTATION: props.fido2.attestation ?? "none",
+            ATTESTATION_TRUST_ANCHORS:
+              props.fido2.attestationTrustAnchors?.join("\n") ?? "",
+            ATTESTATION_REQUIRE_TRUSTED: props.fido2.requireTrustedAttestation
+              ? "TRUE"
+              : "",
+            ...(props.fido2.metadataService && {
+              FIDO2_METADATA_BLOB:
+                props.fido2.metadataService.blob.bucket.s3UrlForObject(
+                  props.fido2.metadataService.blob.key
+                ),
+              FIDO2_METADATA_BLOB_ROOT_CERTIFICATE:
+                props.fido2.metadataService.blobRootCertificate ?? "",
+              FIDO2_METADATA_SKIP_BLOB_SIGNATURE_VERIFICATION: props.fido2
+                .metadataService.skipBlobSignatureVerification
+                ? "TRUE"
+                : "",
+              FIDO2_METADATA_ALLOWED_CERTIFICATION_LEVELS:
+                props.fido2.metadataService.allowedCertificationLevels?.join(
+                  ","
+                ) ?? "",
+              FIDO2_METADATA_BLOCKED_AAGUIDS:
+                props.fido2.metadataService.blockedAaguids?.join(",") ?? "",
+              FIDO2_METADATA_REVOKED_STATUSES:
+                props.fido2.metadataService.revokedStatuses?.join(",") ?? "",
+              FIDO2_METADATA_CACHE_SECONDS: (
+                props.fido2.metadataService.cacheDuration?.toSeconds() ?? 3600
+              ).toString(),
+            }),
             USER_VERIFICATION: props.fido2.userVerification ?? "required",
             AUTHENTICATOR_ATTACHMENT: props.fido2.authenticatorAttachment ?? "",
             REQUIRE_RESIDENT_KEY: props.fido2.residentKey ?? "",
@@ -707,11 +1353,30 @@ export class Passwordless extends Construct {
               .toString(),
             FIDO2_NOTIFICATION_LAMBDA_ARN:
               this.fido2NotificationFn?.latestVersion.functionArn ?? "",
+            ...(props.fido2.recoveryCodes && {
+              RECOVERY_CODES_ENABLED: "TRUE",
+              RECOVERY_CODES_NUMBER_OF_CODES: (
+                props.fido2.recoveryCodes.numberOfCodes ?? 10
+              ).toString(),
+              RECOVERY_CODES_STEP_UP_MAX_AGE: (
+                props.fido2.recoveryCodes.stepUpMaxAge ??
+                cdk.Duration.minutes(5)
+              )
+                .toSeconds()
+                .toString(),
+              STACK_ID: cdk.Stack.of(scope).stackId,
+            }),
+            ...auditEnvironment,
             ...props.functionProps?.fido2?.environment,
           },
         }
       );
+      grantEmitAuditEvents(this.fido2Fn);
       this.fido2NotificationFn?.latestVersion.grantInvoke(this.fido2Fn);
+      props.fido2.metadataService?.blob.bucket.grantRead(
+        this.fido2Fn,
+        props.fido2.metadataService.blob.key
+      );
       this.authenticatorsTable!.grantReadWriteData(this.fido2Fn);
 
       this.fido2challengeFn = new cdk.aws_lambda_nodejs.NodejsFunction(
@@ -899,6 +1564,11 @@ export class Passwordless extends Construct {
       const listResource = authenticatorsResource.addResource("list");
       const deleteResource = authenticatorsResource.addResource("delete");
       const updateResource = authenticatorsResource.addResource("update");
+      const recoveryCodesResource = props.fido2.recoveryCodes
+        ? this.fido2Api.root
+            .addResource("recovery-codes")
+            .addResource("generate")
+        : undefined;
 
       const requestValidator = new cdk.aws_apigateway.RequestValidator(
         scope,
@@ -1046,6 +1716,83 @@ export class Passwordless extends Construct {
         },
       });
 
+      // recovery-codes/generate
+      if (recoveryCodesResource) {
+        recoveryCodesResource.addCorsPreflight(defaultCorsOptionsWithAuth);
+        recoveryCodesResource.addMethod("POST", undefined, {
+          authorizer: authorizer,
+        });
+      }
+
+      // admin/authenticators/list|delete|delete-all
+      if (props.fido2.adminApi) {
+        const adminAuthorizationType =
+          props.fido2.adminApi.authorizationType ?? "COGNITO_GROUP";
+        this.fido2AdminApiFn = new cdk.aws_lambda_nodejs.NodejsFunction(
+          this,
+          `Fido2AdminApi${id}`,
+          {
+            entry: join(__dirname, "..", "custom-auth", "fido2-admin-api.js"),
+            runtime: cdk.aws_lambda.Runtime.NODEJS_22_X,
+            architecture: cdk.aws_lambda.Architecture.ARM_64,
+            bundling: {
+              format: cdk.aws_lambda_nodejs.OutputFormat.ESM,
+            },
+            timeout: cdk.Duration.seconds(30),
+            ...props.functionProps?.fido2AdminApi,
+            environment: {
+              LOG_LEVEL: props.logLevel ?? "INFO",
+              DYNAMODB_AUTHENTICATORS_TABLE:
+                this.authenticatorsTable!.tableName,
+              USER_POOL_ID: this.userPool.userPoolId,
+              ADMIN_AUTHORIZATION_TYPE: adminAuthorizationType,
+              ADMIN_GROUP_NAME:
+                adminAuthorizationType === "COGNITO_GROUP"
+                  ? props.fido2.adminApi.adminGroupName ?? "passwordless-admins"
+                  : "",
+              FIDO2_NOTIFICATION_LAMBDA_ARN:
+                this.fido2NotificationFn?.latestVersion.functionArn ?? "",
+              CORS_ALLOWED_ORIGINS:
+                defaultCorsOptionsWithAuth.allowOrigins.join(","),
+              CORS_ALLOWED_HEADERS:
+                defaultCorsOptionsWithAuth.allowHeaders.join(","),
+              CORS_ALLOWED_METHODS:
+                defaultCorsOptionsWithAuth.allowMethods.join(","),
+              CORS_MAX_AGE: defaultCorsOptionsWithAuth.maxAge
+                .toSeconds()
+                .toString(),
+              ...auditEnvironment,
+              ...props.functionProps?.fido2AdminApi?.environment,
+            },
+          }
+        );
+        grantEmitAuditEvents(this.fido2AdminApiFn);
+        this.fido2NotificationFn?.latestVersion.grantInvoke(
+          this.fido2AdminApiFn
+        );
+        this.authenticatorsTable!.grantReadWriteData(this.fido2AdminApiFn);
+        this.userPool.grant(this.fido2AdminApiFn, "cognito-idp:AdminGetUser");
+        const adminIntegration = new cdk.aws_apigateway.LambdaIntegration(
+          this.fido2AdminApiFn
+        );
+        const adminMethodOptions: cdk.aws_apigateway.MethodOptions =
+          adminAuthorizationType === "COGNITO_GROUP"
+            ? { authorizer }
+            : {
+                authorizationType: cdk.aws_apigateway.AuthorizationType.IAM,
+              };
+        const adminAuthenticatorsResource = this.fido2Api.root
+          .addResource("admin")
+          .addResource("authenticators");
+        ["list", "delete", "delete-all"].forEach((path) => {
+          const resource = adminAuthenticatorsResource.addResource(path);
+          if (adminAuthorizationType === "COGNITO_GROUP") {
+            resource.addCorsPreflight(defaultCorsOptionsWithAuth);
+          }
+          resource.addMethod("POST", adminIntegration, adminMethodOptions);
+        });
+      }
+
       // sign-in-challenge
       const signInChallenge =
         this.fido2Api.root.addResource("sign-in-challenge");
@@ -1104,5 +1851,169 @@ export class Passwordless extends Construct {
         });
       }
     }
+
+    if (props.magicLink?.remoteApproval) {
+      const corsOptions = {
+        allowHeaders: ["Content-Type"],
+        allowMethods: ["POST"],
+        allowOrigins: allAllowedOrigins,
+        maxAge: cdk.Duration.days(1),
+      };
+      const longPollTimeout =
+        props.magicLink.remoteApproval.longPollTimeout ??
+        cdk.Duration.seconds(20);
+      this.magicLinkApiFn = new cdk.aws_lambda_nodejs.NodejsFunction(
+        this,
+        `MagicLinkApi${id}`,
+        {
+          entry: join(__dirname, "..", "custom-auth", "magic-link-api.js"),
+          runtime: cdk.aws_lambda.Runtime.NODEJS_22_X,
+          architecture: cdk.aws_lambda.Architecture.ARM_64,
+          bundling: {
+            format: cdk.aws_lambda_nodejs.OutputFormat.ESM,
+          },
+          timeout: longPollTimeout.plus(cdk.Duration.seconds(5)),
+          ...props.functionProps?.magicLinkApi,
+          environment: {
+            LOG_LEVEL: props.logLevel ?? "INFO",
+            MAGIC_LINK_ENABLED: "TRUE",
+            MAGIC_LINK_REMOTE_APPROVAL_ENABLED: "TRUE",
+            DYNAMODB_SECRETS_TABLE: this.secretsTable!.tableName,
+            STACK_ID: cdk.Stack.of(scope).stackId,
+            USER_POOL_ID: this.userPool.userPoolId,
+            LONG_POLL_TIMEOUT: longPollTimeout.toMilliseconds().toString(),
+            CORS_ALLOWED_ORIGINS: corsOptions.allowOrigins.join(","),
+            CORS_ALLOWED_HEADERS: corsOptions.allowHeaders.join(","),
+            CORS_ALLOWED_METHODS: corsOptions.allowMethods.join(","),
+            CORS_MAX_AGE: corsOptions.maxAge.toSeconds().toString(),
+            ...props.functionProps?.magicLinkApi?.environment,
+          },
+        }
+      );
+      this.secretsTable!.grantReadWriteData(this.magicLinkApiFn);
+      [this.kmsKey, props.magicLink.rotatedKmsKey].forEach((key) => {
+        if (!key) return;
+        this.magicLinkApiFn!.addToRolePolicy(
+          new cdk.aws_iam.PolicyStatement({
+            effect: cdk.aws_iam.Effect.ALLOW,
+            ...((key as cdk.aws_kms.IAlias).aliasName
+              ? {
+                  resources: [
+                    `arn:${cdk.Aws.PARTITION}:kms:${cdk.Aws.REGION}:${cdk.Aws.ACCOUNT_ID}:key/*`,
+                  ],
+                  conditions: {
+                    StringLike: {
+                      "kms:RequestAlias": (key as cdk.aws_kms.IAlias).aliasName,
+                    },
+                  },
+                }
+              : { resources: [key.keyArn] }),
+            actions: ["kms:GetPublicKey"],
+          })
+        );
+      });
+      this.magicLinkApi = new cdk.aws_apigateway.LambdaRestApi(
+        this,
+        `MagicLinkRestApi${id}`,
+        {
+          proxy: false,
+          handler: this.magicLinkApiFn,
+          ...props.magicLink.remoteApproval.restApiProps,
+          deployOptions: {
+            loggingLevel: cdk.aws_apigateway.MethodLoggingLevel.ERROR,
+            metricsEnabled: true,
+            stageName: "v1",
+            throttlingBurstLimit: 100,
+            throttlingRateLimit: 200,
+            ...props.magicLink.remoteApproval.restApiProps?.deployOptions,
+          },
+        }
+      );
+      const signInLinkResource =
+        this.magicLinkApi.root.addResource("sign-in-link");
+      const approveModel = new cdk.aws_apigateway.Model(
+        scope,
+        `ApproveSignInLinkModel${id}`,
+        {
+          restApi: this.magicLinkApi,
+          contentType: "application/json",
+          description: "Approve sign-in link request body",
+          modelName: "signInLinkApprove",
+          schema: {
+            type: cdk.aws_apigateway.JsonSchemaType.OBJECT,
+            required: ["fragmentIdentifier", "clientId"],
+            properties: {
+              fragmentIdentifier: {
+                type: cdk.aws_apigateway.JsonSchemaType.STRING,
+                minLength: 1,
+                maxLength: 2048,
+              },
+              clientId: {
+                type: cdk.aws_apigateway.JsonSchemaType.STRING,
+                minLength: 1,
+                maxLength: 128,
+              },
+            },
+          },
+        }
+      );
+      const statusModel = new cdk.aws_apigateway.Model(
+        scope,
+        `SignInLinkStatusModel${id}`,
+        {
+          restApi: this.magicLinkApi,
+          contentType: "application/json",
+          description: "Sign-in link status request body",
+          modelName: "signInLinkStatus",
+          schema: {
+            type: cdk.aws_apigateway.JsonSchemaType.OBJECT,
+            required: ["username", "remoteApprovalSecret"],
+            properties: {
+              username: {
+                type: cdk.aws_apigateway.JsonSchemaType.STRING,
+                minLength: 1,
+                maxLength: 128,
+              },
+              remoteApprovalSecret: {
+                type: cdk.aws_apigateway.JsonSchemaType.STRING,
+                minLength: 1,
+                maxLength: 128,
+              },
+            },
+          },
+        }
+      );
+      const requestValidator = new cdk.aws_apigateway.RequestValidator(
+        scope,
+        `MagicLinkReqValidator${id}`,
+        {
+          restApi: this.magicLinkApi,
+          requestValidatorName: "magic-link-req-validator",
+          validateRequestBody: true,
+        }
+      );
+
+      // sign-in-link/approve
+      const approveResource = signInLinkResource.addResource("approve");
+      approveResource.addCorsPreflight(corsOptions);
+      approveResource.addMethod("POST", undefined, {
+        authorizer: undefined, // public API: the Magic Link itself is the proof
+        requestValidator,
+        requestModels: {
+          "application/json": approveModel,
+        },
+      });
+
+      // sign-in-link/status
+      const statusResource = signInLinkResource.addResource("status");
+      statusResource.addCorsPreflight(corsOptions);
+      statusResource.addMethod("POST", undefined, {
+        authorizer: undefined, // public API: the remote approval secret is the proof
+        requestValidator,
+        requestModels: {
+          "application/json": statusModel,
+        },
+      });
+    }
   }
 }
@@ -0,0 +1,465 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+
+/**
+ * Backend-for-frontend (BFF): request handlers to run server side (e.g. in Node.js),
+ * that sign users in with Amazon Cognito on behalf of the browser, and keep the refresh token
+ * in an encrypted HttpOnly cookie (or in a server side session store), so the browser never sees it.
+ *
+ * The handlers use the standard Fetch API `Request` and `Response` classes, so they can be used with
+ * any framework that supports these (or with a small adapter).
+ *
+ * Call `Passwordless.configure()` server side first, e.g. with your `clientSecret`.
+ */
+import { configure } from "./config.js";
+import {
+  initiateAuth,
+  respondToAuthChallenge,
+  revokeToken,
+  isAuthenticatedResponse,
+  AuthenticatedResponse,
+  RefreshResponse,
+} from "./cognito-api.js";
+import { CognitoIdTokenPayload } from "./jwt-model.js";
+import {
+  parseJwtPayload,
+  bufferFromBase64Url,
+  bufferToBase64Url,
+} from "./util.js";
+
+/** What the BFF keeps for a signed-in user */
+export interface BffSession {
+  refreshToken: string;
+  /** Needed to calculate the secret hash, when refreshing */
+  username: string;
+}
+
+/**
+ * Server side store for sessions. If you use one, the cookie only contains a random session ID,
+ * instead of the (encrypted) refresh token
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<BffSession | undefined>;
+  set(sessionId: string, session: BffSession, expireAt: Date): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+}
+
+/**
+ * Session store that keeps sessions in memory. Meant for development:
+ * sessions are lost on restart, and aren't shared between server instances
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, { session: BffSession; expireAt: Date }>();
+  async get(sessionId: string) {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return;
+    if (entry.expireAt.valueOf() < Date.now()) {
+      this.sessions.delete(sessionId);
+      return;
+    }
+    return entry.session;
+  }
+  async set(sessionId: string, session: BffSession, expireAt: Date) {
+    this.sessions.set(sessionId, { session, expireAt });
+  }
+  async delete(sessionId: string) {
+    this.sessions.delete(sessionId);
+  }
+}
+
+export interface BffProps {
+  /**
+   * Secrets to encrypt the session cookie with (AES-GCM), each at least 32 characters long.
+   * The first secret is used for encryption, all secrets are tried for decryption (so you can rotate secrets).
+   * Required, unless you provide a `sessionStore`
+   */
+  cookieSecrets?: string[];
+  /** Keep sessions in this store, instead of in the (encrypted) cookie */
+  sessionStore?: SessionStore;
+  /** Attributes of the session cookie. The cookie is always HttpOnly */
+  cookie?: {
+    /** Default: "passwordless-session" */
+    name?: string;
+    /** Default: "/" */
+    path?: string;
+    domain?: string;
+    /** Default: "Strict" */
+    sameSite?: "Strict" | "Lax";
+    /** Default: true. Set to false only for local development over http */
+    secure?: boolean;
+    /** In seconds. Should match the refresh token validity of your app client. Default: 30 days */
+    maxAge?: number;
+  };
+  /** Overriding crypto implementation. Default: globalThis.crypto */
+  crypto?: Crypto;
+}
+
+/** The auth flows that the browser may initiate through the BFF (refreshing is done by the BFF itself) */
+const allowedAuthFlows = ["CUSTOM_AUTH", "USER_SRP_AUTH", "USER_PASSWORD_AUTH"];
+
+/** The x-amz-target header values that the refresh and sign-out requests must have, see `requireTarget()` */
+const refreshTarget = "AWSCognitoIdentityProviderService.InitiateAuth";
+const signOutTarget = "AWSCognitoIdentityProviderService.RevokeToken";
+
+/**
+ * Create the BFF request handlers:
+ *
+ * - signIn: forwards InitiateAuth and RespondToAuthChallenge requests to Amazon Cognito. Upon successful sign-in,
+ *   the refresh token is stored in the session cookie, and only the ID and access token are returned to the browser
+ * - refresh: refreshes the tokens, using the refresh token from the session cookie. If Amazon Cognito
+ *   rotates the refresh token, the session cookie is re-issued with the new one
+ * - signOut: revokes the refresh token, and clears the session cookie
+ *
+ * All requests must carry the x-amz-target header (as the client sends it), which protects against CSRF.
+ * - handle: routes the request to one of the above, based on the last part of the path ("sign-in", "refresh" or "sign-out")
+ *
+ * Configure the browser to use these with `Passwordless.configure({ bff: { baseUrl } })`
+ */
+export function createBffHandlers(props: BffProps) {
+  const crypto = props.crypto ?? globalThis.crypto;
+  const cookie = {
+    name: "passwordless-session",
+    path: "/",
+    sameSite: "Strict",
+    secure: true,
+    maxAge: 30 * 24 * 60 * 60,
+    ...props.cookie,
+  };
+  const { sessionStore } = props;
+  if (!sessionStore) {
+    if (!props.cookieSecrets?.length) {
+      throw new Error("Provide cookieSecrets, or a sessionStore");
+    }
+    if (props.cookieSecrets.some((secret) => secret.length < 32)) {
+      throw new Error("Cookie secrets must be at least 32 characters long");
+    }
+  }
+  let cookieKeys: Promise<CryptoKey[]> | undefined;
+  const getCookieKeys = () =>
+    (cookieKeys ??= Promise.all(
+      (props.cookieSecrets ?? []).map(async (secret) =>
+        crypto.subtle.importKey(
+          "raw",
+          await crypto.subtle.digest(
+            "SHA-256",
+            new TextEncoder().encode(secret)
+          ),
+          "AES-GCM",
+          false,
+          ["encrypt", "decrypt"]
+        )
+      )
+    ));
+
+  async function encryptSession(session: BffSession) {
+    const [key] = await getCookieKeys();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        additionalData: new TextEncoder().encode(cookie.name),
+      },
+      key,
+      new TextEncoder().encode(JSON.stringify(session))
+    );
+    return `${bufferToBase64Url(iv)}.${bufferToBase64Url(ciphertext)}`;
+  }
+
+  async function decryptSession(value: string) {
+    const [iv, ciphertext] = value.split(".");
+    if (!iv || !ciphertext) return;
+    for (const key of await getCookieKeys()) {
+      try {
+        const plaintext = await crypto.subtle.decrypt(
+          {
+            name: "AES-GCM",
+            iv: bufferFromBase64Url(iv),
+            additionalData: new TextEncoder().encode(cookie.name),
+          },
+          key,
+          bufferFromBase64Url(ciphertext)
+        );
+        return JSON.parse(new TextDecoder().decode(plaintext)) as BffSession;
+      } catch {
+        // Try the next key
+      }
+    }
+  }
+
+  async function getSession(request: Request) {
+    const value = getCookie(request, cookie.name);
+    if (!value) return;
+    return sessionStore ? sessionStore.get(value) : decryptSession(value);
+  }
+
+  async function createSessionCookie(session: BffSession) {
+    if (!sessionStore) {
+      return serializeCookie(await encryptSession(session), cookie.maxAge);
+    }
+    const sessionId = bufferToBase64Url(
+      crypto.getRandomValues(new Uint8Array(32))
+    );
+    await sessionStore.set(
+      sessionId,
+      session,
+      new Date(Date.now() + cookie.maxAge * 1000)
+    );
+    return serializeCookie(sessionId, cookie.maxAge);
+  }
+
+  /** Store the session under a new cookie, e.g. with a rotated refresh token, and drop the old one */
+  async function replaceSessionCookie(request: Request, session: BffSession) {
+    const value = getCookie(request, cookie.name);
+    if (value && sessionStore) {
+      await sessionStore.delete(value);
+    }
+    return createSessionCookie(session);
+  }
+
+  async function clearSessionCookie(request: Request) {
+    const value = getCookie(request, cookie.name);
+    if (value && sessionStore) {
+      await sessionStore.delete(value);
+    }
+    return serializeCookie("", 0);
+  }
+
+  function serializeCookie(value: string, maxAge: number) {
+    return [
+      `${cookie.name}=${value}`,
+      `Path=${cookie.path}`,
+      cookie.domain && `Domain=${cookie.domain}`,
+      `Max-Age=${maxAge}`,
+      `SameSite=${cookie.sameSite}`,
+      "HttpOnly",
+      cookie.secure && "Secure",
+    ]
+      .filter(Boolean)
+      .join("; ");
+  }
+
+  async function signIn(request: Request) {
+    // The custom header (x-amz-target) can't be set cross-origin without CORS, which protects against CSRF
+    if (request.method !== "POST") {
+      return errorResponse(405, "MethodNotAllowed", "Use POST");
+    }
+    const target = request.headers.get("x-amz-target");
+    try {
+      const body = (await request.json()) as Record<string, unknown>;
+      let authResponse: Awaited<ReturnType<typeof respondToAuthChallenge>>;
+      if (target === "AWSCognitoIdentityProviderService.InitiateAuth") {
+        const authflow = body.AuthFlow as (typeof allowedAuthFlows)[number];
+        if (!allowedAuthFlows.includes(authflow)) {
+          return errorResponse(
+            400,
+            "InvalidParameterException",
+            `Unsupported auth flow: ${authflow}`
+          );
+        }
+        authResponse = await initiateAuth({
+          authflow: authflow as "CUSTOM_AUTH",
+          authParameters: body.AuthParameters as Record<string, string>,
+          clientMetadata: body.ClientMetadata as Record<string, string>,
+        });
+      } else if (
+        target === "AWSCognitoIdentityProviderService.RespondToAuthChallenge"
+      ) {
+        authResponse = await respondToAuthChallenge({
+          challengeName: body.ChallengeName as "CUSTOM_CHALLENGE",
+          challengeResponses: body.ChallengeResponses as Record<string, string>,
+          session: body.Session as string | undefined,
+          clientMetadata: body.ClientMetadata as Record<string, string>,
+        });
+      } else {
+        return errorResponse(
+          400,
+          "InvalidParameterException",
+          `Unsupported target: ${target}`
+        );
+      }
+      if (!isAuthenticatedResponse(authResponse)) {
+        return jsonResponse(200, authResponse);
+      }
+      const { RefreshToken: refreshToken, ...authenticationResult } =
+        authResponse.AuthenticationResult;
+      if (!refreshToken) {
+        throw new Error("Missing refresh token");
+      }
+      const { "cognito:username": username } =
+        parseJwtPayload<CognitoIdTokenPayload>(authenticationResult.IdToken);
+      const response: AuthenticatedResponse = {
+        ...authResponse,
+        AuthenticationResult: authenticationResult,
+      };
+      return jsonResponse(200, response, {
+        "set-cookie": await createSessionCookie({ refreshToken, username }),
+      });
+    } catch (err) {
+      return errorResponseFromError(err);
+    }
+  }
+
+  async function refresh(request: Request) {
+    if (request.method !== "POST") {
+      return errorResponse(405, "MethodNotAllowed", "Use POST");
+    }
+    const targetError = requireTarget(request, refreshTarget);
+    if (targetError) return targetError;
+    try {
+      const session = await getSession(request);
+      if (!session) {
+        return errorResponse(401, "NotAuthorizedException", "Not signed in");
+      }
+      const authResult = await initiateAuth({
+        authflow: "REFRESH_TOKEN_AUTH",
+        authParameters: {
+          REFRESH_TOKEN: session.refreshToken,
+        },
+        username: session.username,
+      });
+      // Never hand the refresh token to the browser. If it was rotated, the session needs the new one
+      const { RefreshToken: refreshToken, ...authenticationResult } =
+        authResult.AuthenticationResult;
+      const response: RefreshResponse = {
+        ...authResult,
+        AuthenticationResult: authenticationResult,
+      };
+      if (!refreshToken || refreshToken === session.refreshToken) {
+        return jsonResponse(200, response);
+      }
+      return jsonResponse(200, response, {
+        "set-cookie": await replaceSessionCookie(request, {
+          ...session,
+          refreshToken,
+        }),
+      });
+    } catch (err) {
+      if (err instanceof Error && err.name === "NotAuthorizedException") {
+        // The refresh token expired or was revoked, so the session is useless
+        return errorResponseFromError(err, {
+          "set-cookie": await clearSessionCookie(request),
+        });
+      }
+      return errorResponseFromError(err);
+    }
+  }
+
+  async function signOut(request: Request) {
+    if (request.method !== "POST") {
+      return errorResponse(405, "MethodNotAllowed", "Use POST");
+    }
+    const targetError = requireTarget(request, signOutTarget);
+    if (targetError) return targetError;
+    const { debug } = configure();
+    try {
+      const session = await getSession(request);
+      if (session) {
+        await revokeToken({ refreshToken: session.refreshToken }).catch((err) =>
+          debug?.("Failed to revoke refresh token:", err)
+        );
+      }
+      return jsonResponse(
+        200,
+        {},
+        { "set-cookie": await clearSessionCookie(request) }
+      );
+    } catch (err) {
+      return errorResponseFromError(err);
+    }
+  }
+
+  async function handle(request: Request) {
+    const path = new URL(request.url).pathname.replace(/\/$/, "");
+    if (path.endsWith("/sign-in")) return signIn(request);
+    if (path.endsWith("/refresh")) return refresh(request);
+    if (path.endsWith("/sign-out")) return signOut(request);
+    return errorResponse(404, "NotFound", "Not found");
+  }
+
+  return { signIn, refresh, signOut, handle };
+}
+
+/**
+ * The custom header (x-amz-target) can't be set cross-origin without CORS, which protects against CSRF.
+ * Returns an error response if the request doesn't have the expected target
+ */
+function requireTarget(request: Request, expectedTarget: string) {
+  const target = request.headers.get("x-amz-target");
+  if (target !== expectedTarget) {
+    return errorResponse(
+      400,
+      "InvalidParameterException",
+      `Unsupported target: ${target}`
+    );
+  }
+}
+
+function getCookie(request: Request, name: string) {
+  for (const cookie of request.headers.get("cookie")?.split(";") ?? []) {
+    const [cookieName, ...value] = cookie.split("=");
+    if (cookieName.trim() === name) return value.join("=").trim();
+  }
+}
+
+function jsonResponse(
+  status: number,
+  body: unknown,
+  headers?: Record<string, string>
+) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "content-type": "application/x-amz-json-1.1",
+      "cache-control": "no-store",
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Error responses are shaped like Amazon Cognito's, so the client handles them in the same way
+ */
+function errorResponse(
+  status: number,
+  type: string,
+  message: string,
+  headers?: Record<string, string>
+) {
+  return jsonResponse(status, { __type: type, message }, headers);
+}
+
+function errorResponseFromError(
+  err: unknown,
+  headers?: Record<string, string>
+) {
+  const { debug } = configure();
+  debug?.("BFF request failed:", err);
+  // Errors from Amazon Cognito are passed on, other errors are not (they may contain details you don't want to share)
+  if (err instanceof Error && err.name.endsWith("Exception")) {
+    return errorResponse(
+      err.name === "NotAuthorizedException" ? 401 : 400,
+      err.name,
+      err.message,
+      headers
+    );
+  }
+  return errorResponse(
+    500,
+    "InternalErrorException",
+    "Internal error",
+    headers
+  );
+}
@@ -39,21 +39,24 @@ export interface ChallengeResponse {
   Session: Session;
 }
 
-interface AuthenticatedResponse {
+export interface AuthenticatedResponse {
   AuthenticationResult: {
     AccessToken: string;
     IdToken: string;
-    RefreshToken: string;
+    /** Not returned by the BFF in cookie mode */
+    RefreshToken?: string;
     ExpiresIn: number;
     TokenType: string;
   };
   ChallengeParameters: Record<string, string>;
 }
 
-interface RefreshResponse {
+export interface RefreshResponse {
   AuthenticationResult: {
     AccessToken: string;
     IdToken: string;
+    /** Only returned if refresh token rotation is enabled, and never by the BFF in cookie mode */
+    RefreshToken?: string;
     ExpiresIn: number;
     TokenType: string;
   };
@@ -175,40 +178,39 @@ export async function initiateAuth<
   authflow,
   authParameters,
   clientMetadata,
+  username,
   abort,
 }: {
   authflow: T;
   authParameters: Record<string, string>;
   clientMetadata?: Record<string, string>;
+  /** The username to calculate the secret hash with, if it is not in the auth parameters (e.g. for REFRESH_TOKEN_AUTH) */
+  username?: string;
   abort?: AbortSignal;
 }) {
-  const { fetch, cognitoIdpEndpoint, proxyApiHeaders, clientId, clientSecret } =
-    configure();
-  return fetch(
-    cognitoIdpEndpoint.match(AWS_REGION_REGEXP)
-      ? `https://cognito-idp.${cognitoIdpEndpoint}.amazonaws.com/`
-      : cognitoIdpEndpoint,
-    {
-      signal: abort,
-      headers: {
-        "x-amz-target": "AWSCognitoIdentityProviderService.InitiateAuth",
-        "content-type": "application/x-amz-json-1.1",
-        ...proxyApiHeaders,
+  const { fetch, proxyApiHeaders, clientId, clientSecret } = configure();
+  return fetch(getSignInUrl(), {
+    signal: abort,
+    headers: {
+      "x-amz-target": "AWSCognitoIdentityProviderService.InitiateAuth",
+      "content-type": "application/x-amz-json-1.1",
+      ...proxyApiHeaders,
+    },
+    method: "POST",
+    body: JSON.stringify({
+      AuthFlow: authflow,
+      ClientId: clientId,
+      AuthParameters: {
+        ...authParameters,
+        ...(clientSecret && {
+          SECRET_HASH: await calculateSecretHash(
+            authParameters.USERNAME ?? username
+          ),
+        }),
       },
-      method: "POST",
-      body: JSON.stringify({
-        AuthFlow: authflow,
-        ClientId: clientId,
-        AuthParameters: {
-          ...authParameters,
-          ...(clientSecret && {
-            SECRET_HASH: await calculateSecretHash(authParameters.USERNAME),
-          }),
-        },
-        ClientMetadata: clientMetadata,
-      }),
-    }
-  ).then(extractInitiateAuthResponse(authflow));
+      ClientMetadata: clientMetadata,
+    }),
+  }).then(extractInitiateAuthResponse(authflow));
 }
 
 export async function respondToAuthChallenge({
@@ -224,35 +226,29 @@ export async function respondToAuthChallenge({
   clientMetadata?: Record<string, string>;
   abort?: AbortSignal;
 }) {
-  const { fetch, cognitoIdpEndpoint, proxyApiHeaders, clientId, clientSecret } =
-    configure();
-  return fetch(
-    cognitoIdpEndpoint.match(AWS_REGION_REGEXP)
-      ? `https://cognito-idp.${cognitoIdpEndpoint}.amazonaws.com/`
-      : cognitoIdpEndpoint,
-    {
-      headers: {
-        "x-amz-target":
-          "AWSCognitoIdentityProviderService.RespondToAuthChallenge",
-        "content-type": "application/x-amz-json-1.1",
-        ...proxyApiHeaders,
+  const { fetch, proxyApiHeaders, clientId, clientSecret } = configure();
+  return fetch(getSignInUrl(), {
+    headers: {
+      "x-amz-target":
+        "AWSCognitoIdentityProviderService.RespondToAuthChallenge",
+      "content-type": "application/x-amz-json-1.1",
+      ...proxyApiHeaders,
+    },
+    method: "POST",
+    body: JSON.stringify({
+      ChallengeName: challengeName,
+      ChallengeResponses: {
+        ...challengeResponses,
+        ...(clientSecret && {
+          SECRET_HASH: await calculateSecretHash(challengeResponses.USERNAME),
+        }),
       },
-      method: "POST",
-      body: JSON.stringify({
-        ChallengeName: challengeName,
-        ChallengeResponses: {
-          ...challengeResponses,
-          ...(clientSecret && {
-            SECRET_HASH: await calculateSecretHash(challengeResponses.USERNAME),
-          }),
-        },
-        ClientId: clientId,
-        Session: session,
-        ClientMetadata: clientMetadata,
-      }),
-      signal: abort,
-    }
-  ).then(extractChallengeResponse);
+      ClientId: clientId,
+      Session: session,
+      ClientMetadata: clientMetadata,
+    }),
+    signal: abort,
+  }).then(extractChallengeResponse);
 }
 
 /**
@@ -310,7 +306,8 @@ export async function revokeToken({
   refreshToken: string;
   abort?: AbortSignal;
 }) {
-  const { fetch, cognitoIdpEndpoint, proxyApiHeaders, clientId } = configure();
+  const { fetch, cognitoIdpEndpoint, proxyApiHeaders, clientId, clientSecret } =
+    configure();
   return fetch(
     cognitoIdpEndpoint.match(AWS_REGION_REGEXP)
       ? `https://cognito-idp.${cognitoIdpEndpoint}.amazonaws.com/`
@@ -325,12 +322,51 @@ export async function revokeToken({
       body: JSON.stringify({
         Token: refreshToken,
         ClientId: clientId,
+        ClientSecret: clientSecret,
       }),
       signal: abort,
     }
   ).then(throwIfNot2xx);
 }
 
+/**
+ * Refresh tokens through the BFF (cookie mode), which uses the refresh token from its HttpOnly cookie
+ */
+export async function refreshTokensWithBff({ abort }: { abort?: AbortSignal }) {
+  const { fetch, proxyApiHeaders } = configure();
+  return fetch(getFullBffUrl("refresh"), {
+    signal: abort,
+    headers: {
+      // The BFF requires this header, as protection against CSRF
+      "x-amz-target": "AWSCognitoIdentityProviderService.InitiateAuth",
+      ...proxyApiHeaders,
+    },
+    method: "POST",
+  })
+    .then(throwIfNot2xx)
+    .then((res) => res.json())
+    .then((body) => {
+      assertIsAuthenticatedResponse(body);
+      return body as RefreshResponse;
+    });
+}
+
+/**
+ * Sign out through the BFF (cookie mode), which revokes the refresh token from its HttpOnly cookie, and clears that cookie
+ */
+export async function signOutWithBff({ abort }: { abort?: AbortSignal }) {
+  const { fetch, proxyApiHeaders } = configure();
+  return fetch(getFullBffUrl("sign-out"), {
+    signal: abort,
+    headers: {
+      // The BFF requires this header, as protection against CSRF
+      "x-amz-target": "AWSCognitoIdentityProviderService.RevokeToken",
+      ...proxyApiHeaders,
+    },
+    method: "POST",
+  }).then(throwIfNot2xx);
+}
+
 export async function getId({
   identityPoolId,
   abort,
@@ -741,6 +777,26 @@ async function extractChallengeResponse(res: MinimalResponse) {
   return body;
 }
 
+/**
+ * The URL to send InitiateAuth and RespondToAuthChallenge requests to:
+ * Amazon Cognito (or your proxy), or in cookie mode your BFF (which forwards them to Amazon Cognito)
+ */
+function getSignInUrl() {
+  const { bff, cognitoIdpEndpoint } = configure();
+  if (bff) return getFullBffUrl("sign-in");
+  return cognitoIdpEndpoint.match(AWS_REGION_REGEXP)
+    ? `https://cognito-idp.${cognitoIdpEndpoint}.amazonaws.com/`
+    : cognitoIdpEndpoint;
+}
+
+function getFullBffUrl(path: string) {
+  const { bff } = configure();
+  if (!bff) {
+    throw new Error("Missing BFF config");
+  }
+  return `${bff.baseUrl.replace(/\/$/, "")}/${path}`;
+}
+
 async function calculateSecretHash(username?: string) {
   const { crypto, clientId, clientSecret } = configure();
   username ??= (await retrieveTokens())?.username;
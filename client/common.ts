@@ -12,7 +12,7 @@
  * ANY KIND, either express or implied. See the License for the specific
  * language governing permissions and limitations under the License.
  */
-import { revokeToken } from "./cognito-api.js";
+import { revokeToken, signOutWithBff } from "./cognito-api.js";
 import { configure } from "./config.js";
 import { retrieveTokens, storeTokens } from "./storage.js";
 import {
@@ -23,6 +23,7 @@ import {
   busyState,
 } from "./model.js";
 import { scheduleRefresh } from "./refresh.js";
+import { broadcastTabSyncMessage } from "./tab-sync.js";
 
 /** The default tokens callback stores tokens in storage and reschedules token refresh */
 export const defaultTokensCb = async ({
@@ -33,19 +34,24 @@ export const defaultTokensCb = async ({
   abort?: AbortSignal;
 }) => {
   const storeAndScheduleRefresh = async (
-    tokens: TokensFromSignIn | TokensFromRefresh
+    tokens: TokensFromSignIn | TokensFromRefresh,
+    tabSyncEvent: "SIGNED_IN" | "TOKENS_REFRESHED"
   ) => {
-    await storeTokens(tokens);
+    await storeTokens(tokens, tabSyncEvent);
     scheduleRefresh({
       abort,
       tokensCb: (newTokens) =>
-        newTokens && storeAndScheduleRefresh({ ...tokens, ...newTokens }),
+        newTokens &&
+        storeAndScheduleRefresh(
+          { ...tokens, ...newTokens },
+          "TOKENS_REFRESHED"
+        ),
     }).catch((err) => {
       const { debug } = configure();
       debug?.("Failed to store and refresh tokens:", err);
     });
   };
-  await storeAndScheduleRefresh(tokens);
+  await storeAndScheduleRefresh(tokens, "SIGNED_IN");
 };
 
 /**
@@ -57,7 +63,7 @@ export const signOut = (props?: {
   tokensRemovedLocallyCb?: () => void;
   statusCb?: (status: BusyState | IdleState) => void;
 }) => {
-  const { clientId, debug, storage } = configure();
+  const { clientId, debug, storage, bff } = configure();
   const { currentStatus, statusCb } = props ?? {};
   if (currentStatus && busyState.includes(currentStatus as BusyState)) {
     debug?.(
@@ -77,6 +83,10 @@ export const signOut = (props?: {
       if (!tokens) {
         debug?.("No tokens in storage to delete");
         props?.tokensRemovedLocallyCb?.();
+        if (bff) {
+          // The BFF might still have a session cookie
+          await signOutWithBff({ abort: undefined });
+        }
         statusCb?.("SIGNED_OUT");
         return;
       }
@@ -100,8 +110,13 @@ export const signOut = (props?: {
           `Passwordless.${clientId}.${tokens.username}.refreshingTokens`
         ),
       ]);
+      broadcastTabSyncMessage({ type: "SIGNED_OUT" });
       props?.tokensRemovedLocallyCb?.();
-      if (tokens.refreshToken) {
+      if (bff) {
+        await signOutWithBff({
+          abort: undefined, // if we've come this far, let this proceed
+        });
+      } else if (tokens.refreshToken) {
         await revokeToken({
           abort: undefined, // if we've come this far, let this proceed
           refreshToken: tokens.refreshToken,
@@ -57,6 +57,26 @@ export interface Config {
      */
     timeout?: number;
   };
+  /** Magic Link configuration */
+  magicLink?: {
+    /** The base URL (i.e. the URL with path "/") of your Magic Link API. Needed for remote approval of Magic Links only */
+    baseUrl: string;
+  };
+  /**
+   * Backend-for-frontend (BFF) configuration, a.k.a. "cookie mode":
+   * sign-in, token refresh and sign-out go through your BFF (see `createBffHandlers` in "amazon-cognito-passwordless-auth/bff"),
+   * that keeps the refresh token in an HttpOnly cookie, so it is never exposed to the browser
+   */
+  bff?: {
+    /** The base URL (i.e. the URL with path "/") of your BFF. Must be same-origin, so that the session cookie is sent along */
+    baseUrl: string;
+  };
+  /**
+   * Synchronize sign-in, sign-out and refreshed tokens between browser tabs,
+   * and make sure only one tab at a time refreshes tokens.
+   * Requires storage that is shared between tabs, such as `localStorage` (the default)
+   */
+  tabSync?: boolean;
   /**
    * Function that will be called with debug information,
    * e.g. you can use `console.debug` here.
@@ -0,0 +1,260 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { CustomStorage } from "./config.js";
+import { bufferFromBase64, bufferToBase64 } from "./util.js";
+
+/** An AES-GCM key, with an ID so we know which key a value was encrypted with */
+export interface EncryptionKey {
+  id: string;
+  key: CryptoKey;
+}
+
+/** Prefix of encrypted values. Values without this prefix are plaintext (e.g. stored before encryption was enabled) */
+const ENCRYPTED_VALUE_PREFIX = "enc:v1:";
+
+/**
+ * Storage that encrypts values (AES-GCM) before writing them to the underlying storage (e.g. `localStorage`),
+ * so that e.g. refresh tokens that are exfiltrated from `localStorage` can't be used elsewhere.
+ *
+ * By default, a non-extractable key is generated and kept in IndexedDB. Alternatively, provide your own key(s).
+ *
+ * Plaintext values (e.g. stored before you started using this class), and values that were encrypted with a previous key,
+ * are re-encrypted with the current key when they are read.
+ */
+export class EncryptedStorage implements CustomStorage {
+  private storage: CustomStorage;
+  private keyStore?: IndexedDbKeyStore;
+  private keys?: Promise<EncryptionKey[]>;
+  private shouldEncrypt: (key: string) => boolean;
+  private crypto: Crypto;
+  constructor(
+    props: {
+      /** The storage to store the encrypted values in. Default: localStorage */
+      storage?: CustomStorage;
+      /**
+       * Your own AES-GCM key(s). The first key is used for encryption, all keys are tried for decryption (in case of key rotation).
+       * If you don't provide keys, a non-extractable key is generated and kept in IndexedDB
+       */
+      keys?: EncryptionKey[];
+      /** The name of the IndexedDB database to keep the generated key(s) in. Default: "passwordless-encrypted-storage" */
+      indexedDbName?: string;
+      /** Which values to encrypt, by storage key. Default: all values */
+      shouldEncrypt?: (key: string) => boolean;
+      /** Overriding crypto implementation. Default: globalThis.crypto */
+      crypto?: Crypto;
+    } = {}
+  ) {
+    this.storage = props.storage ?? globalThis.localStorage;
+    if (props.keys) {
+      if (!props.keys.length) {
+        throw new Error("Provide at least one key");
+      }
+      this.keys = Promise.resolve(props.keys);
+    } else {
+      this.keyStore = new IndexedDbKeyStore(
+        props.indexedDbName ?? "passwordless-encrypted-storage"
+      );
+    }
+    this.shouldEncrypt = props.shouldEncrypt ?? (() => true);
+    this.crypto = props.crypto ?? globalThis.crypto;
+  }
+
+  async getItem(key: string) {
+    const value = await this.storage.getItem(key);
+    if (!value || !this.shouldEncrypt(key)) return value;
+    const keys = await this.getKeys();
+    if (!value.startsWith(ENCRYPTED_VALUE_PREFIX)) {
+      // Migrate plaintext value
+      await this.storage.setItem(key, await this.encrypt(key, value, keys[0]));
+      return value;
+    }
+    const [keyId, iv, ciphertext] = value
+      .slice(ENCRYPTED_VALUE_PREFIX.length)
+      .split(":");
+    const encryptionKey = keys.find(({ id }) => id === keyId);
+    if (!encryptionKey) {
+      // Encrypted with a key we no longer have: the value is useless
+      return null;
+    }
+    let plaintext: string;
+    try {
+      plaintext = new TextDecoder().decode(
+        await this.crypto.subtle.decrypt(
+          {
+            name: "AES-GCM",
+            iv: bufferFromBase64(iv),
+            additionalData: new TextEncoder().encode(key),
+          },
+          encryptionKey.key,
+          bufferFromBase64(ciphertext)
+        )
+      );
+    } catch {
+      // Tampered with, or moved from another storage key
+      return null;
+    }
+    if (encryptionKey !== keys[0]) {
+      // Re-encrypt with the current key (key rotation)
+      await this.storage.setItem(
+        key,
+        await this.encrypt(key, plaintext, keys[0])
+      );
+    }
+    return plaintext;
+  }
+
+  async setItem(key: string, value: string) {
+    if (!this.shouldEncrypt(key)) return this.storage.setItem(key, value);
+    const [currentKey] = await this.getKeys();
+    return this.storage.setItem(
+      key,
+      await this.encrypt(key, value, currentKey)
+    );
+  }
+
+  removeItem(key: string) {
+    return this.storage.removeItem(key);
+  }
+
+  /**
+   * Generate a new key in IndexedDB, to encrypt values with from now on.
+   * Previous keys are kept, so existing values can still be decrypted (they're re-encrypted with the new key when read)
+   */
+  async rotateKey() {
+    if (!this.keyStore) {
+      throw new Error(
+        "Can only rotate generated keys. To rotate your own keys, create a new EncryptedStorage with the new key first"
+      );
+    }
+    await this.keyStore.addKey(await this.generateKey());
+    this.keys = undefined;
+  }
+
+  /**
+   * Delete all keys from IndexedDB except the current one.
+   * Values that are still encrypted with the deleted keys can no longer be read
+   */
+  async deletePreviousKeys() {
+    if (!this.keyStore) return;
+    const [currentKey, ...previousKeys] = await this.getKeys();
+    await this.keyStore.deleteKeys(previousKeys.map(({ id }) => id));
+    this.keys = Promise.resolve([currentKey]);
+  }
+
+  private getKeys() {
+    if (!this.keys) {
+      const keyStore = this.keyStore!;
+      this.keys = keyStore
+        .getKeys()
+        .then(async (keys) => {
+          if (keys.length) return keys;
+          await keyStore.addKey(await this.generateKey());
+          return keyStore.getKeys();
+        })
+        .catch((err) => {
+          this.keys = undefined;
+          throw err;
+        });
+    }
+    return this.keys;
+  }
+
+  private async encrypt(
+    storageKey: string,
+    value: string,
+    { id, key }: EncryptionKey
+  ) {
+    const iv = this.crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await this.crypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        // Bind the ciphertext to the storage key, so it can't be moved to another key
+        additionalData: new TextEncoder().encode(storageKey),
+      },
+      key,
+      new TextEncoder().encode(value)
+    );
+    return `${ENCRYPTED_VALUE_PREFIX}${id}:${bufferToBase64(iv)}:${bufferToBase64(
+      ciphertext
+    )}`;
+  }
+
+  private async generateKey(): Promise<EncryptionKey> {
+    return {
+      id: bufferToBase64(this.crypto.getRandomValues(new Uint8Array(9))),
+      key: await this.crypto.subtle.generateKey(
+        { name: "AES-GCM", length: 256 },
+        false, // non-extractable
+        ["encrypt", "decrypt"]
+      ),
+    };
+  }
+}
+
+/**
+ * Keeps CryptoKeys in IndexedDB. Non-extractable keys can be stored there, without exposing the key material
+ */
+class IndexedDbKeyStore {
+  private db?: Promise<IDBDatabase>;
+  constructor(private databaseName: string) {}
+
+  async getKeys() {
+    const records = await this.request<
+      (EncryptionKey & { createdAt: number })[]
+    >("readonly", (store) => store.getAll());
+    // Most recent key first: that's the current key
+    return records
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(({ id, key }) => ({ id, key }));
+  }
+
+  async addKey(key: EncryptionKey) {
+    await this.request("readwrite", (store) =>
+      store.add({ ...key, createdAt: Date.now() })
+    );
+  }
+
+  async deleteKeys(ids: string[]) {
+    for (const id of ids) {
+      await this.request("readwrite", (store) => store.delete(id));
+    }
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest
+  ) {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = fn(db.transaction("keys", mode).objectStore("keys"));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open() {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () =>
+          request.result.createObjectStore("keys", { keyPath: "id" });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,515 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { bufferFromBase64Url, bufferToBase64Url } from "./util.js";
+import { Fido2CredentialCreator, Fido2CredentialGetter } from "./fido2.js";
+
+export type VirtualAuthenticatorAlgorithm = "ES256" | "RS256";
+
+/** A credential held by the virtual authenticator */
+export interface VirtualCredential {
+  credentialId: string;
+  rpId: string;
+  userHandle: Uint8Array;
+  algorithm: VirtualAuthenticatorAlgorithm;
+  signCount: number;
+  keyPair: CryptoKeyPair;
+}
+
+const coseAlgorithms = new Map<VirtualAuthenticatorAlgorithm, number>([
+  ["ES256", -7],
+  ["RS256", -257],
+]);
+
+/**
+ * A software FIDO2 (WebAuthn) authenticator, for automated tests of the FIDO2 sign-in flows, e.g. in Node.js where there is no browser authenticator.
+ *
+ * Use `credentialCreator` with `fido2CreateCredential()` and `credentialGetter` with `authenticateWithFido2()`:
+ *
+ * const authenticator = new VirtualAuthenticator({ origin: "http://localhost:5173" });
+ * await fido2CreateCredential({ friendlyName: "Test", credentialCreator: authenticator.credentialCreator });
+ * await authenticateWithFido2({ username, credentialGetter: authenticator.credentialGetter }).signedIn;
+ *
+ * Alternatively, `create()` and `get()` implement `navigator.credentials.create()` and `navigator.credentials.get()`.
+ *
+ * Don't use this in production: the private keys are kept in memory and the user is never asked for consent
+ */
+export class VirtualAuthenticator {
+  private credentials: VirtualCredential[] = [];
+  private crypto: Crypto;
+  private origin: string;
+  private attestationFormat: "none" | "packed";
+  private algorithms: VirtualAuthenticatorAlgorithm[];
+  private userVerified: boolean;
+  private aaguid: Uint8Array;
+  private transports: AuthenticatorTransport[];
+  private incrementSignCount: boolean;
+
+  constructor(props: {
+    /** The origin that the client data is reported to come from, e.g. "http://localhost:5173" */
+    origin: string;
+    /** The attestation statement format to use upon credential creation: "none" (default) or "packed" (self attestation) */
+    attestationFormat?: "none" | "packed";
+    /** The signature algorithms that the authenticator supports (default: ES256 and RS256) */
+    algorithms?: VirtualAuthenticatorAlgorithm[];
+    /** Should the authenticator report that the user was verified (UV flag)? (default: true) */
+    userVerified?: boolean;
+    /** The AAGUID of the authenticator, 16 bytes (default: all zeroes) */
+    aaguid?: Uint8Array;
+    /** The transports to report for created credentials (default: ["internal"]) */
+    transports?: AuthenticatorTransport[];
+    /** Should the signature counter be incremented upon each assertion? Set to false to mimic e.g. synced passkeys that always report 0 (default: true) */
+    incrementSignCount?: boolean;
+    /** The WebCrypto implementation to use (default: globalThis.crypto) */
+    crypto?: Crypto;
+  }) {
+    this.origin = new URL(props.origin).origin;
+    this.attestationFormat = props.attestationFormat ?? "none";
+    this.algorithms = props.algorithms ?? ["ES256", "RS256"];
+    this.userVerified = props.userVerified ?? true;
+    this.aaguid = props.aaguid ?? new Uint8Array(16);
+    this.transports = props.transports ?? ["internal"];
+    this.incrementSignCount = props.incrementSignCount ?? true;
+    this.crypto = props.crypto ?? globalThis.crypto;
+  }
+
+  /** The credentials that this authenticator holds */
+  listCredentials() {
+    return [...this.credentials];
+  }
+
+  /** Remove a credential from this authenticator, e.g. to simulate the user deleting it */
+  removeCredential(credentialId: string) {
+    this.credentials = this.credentials.filter(
+      (c) => c.credentialId !== credentialId
+    );
+  }
+
+  /** Implementation of `navigator.credentials.create()` for public key credentials */
+  async create(options: CredentialCreationOptions) {
+    const { publicKey } = options;
+    if (!publicKey) {
+      throw new DOMException(
+        "Only public key credentials are supported",
+        "NotSupportedError"
+      );
+    }
+    options.signal?.throwIfAborted();
+    const rpId = this.assertValidRpId(publicKey.rp.id);
+    this.assertUserVerification(
+      publicKey.authenticatorSelection?.userVerification
+    );
+    const excluded = (publicKey.excludeCredentials ?? []).map((c) =>
+      bufferToBase64Url(toArrayBuffer(toBytes(c.id)))
+    );
+    if (
+      this.credentials.some(
+        (c) => c.rpId === rpId && excluded.includes(c.credentialId)
+      )
+    ) {
+      throw new DOMException(
+        "The authenticator already holds an excluded credential",
+        "InvalidStateError"
+      );
+    }
+    const algorithm = publicKey.pubKeyCredParams
+      .map(({ alg }) =>
+        this.algorithms.find((a) => coseAlgorithms.get(a) === alg)
+      )
+      .find((a): a is VirtualAuthenticatorAlgorithm => !!a);
+    if (!algorithm) {
+      throw new DOMException(
+        "None of the requested algorithms is supported",
+        "NotSupportedError"
+      );
+    }
+    const keyPair = await this.generateKeyPair(algorithm);
+    const credentialIdBytes = this.crypto.getRandomValues(new Uint8Array(32));
+    const credential: VirtualCredential = {
+      credentialId: bufferToBase64Url(toArrayBuffer(credentialIdBytes)),
+      rpId,
+      userHandle: toBytes(publicKey.user.id).slice(),
+      algorithm,
+      signCount: 0,
+      keyPair,
+    };
+    const clientDataJSON = this.createClientDataJSON(
+      "webauthn.create",
+      publicKey.challenge
+    );
+    const authenticatorData = await this.createAuthenticatorData({
+      rpId,
+      signCount: credential.signCount,
+      attestedCredentialData: concat(
+        this.aaguid,
+        Uint8Array.from([
+          (credentialIdBytes.length >> 8) & 0xff,
+          credentialIdBytes.length & 0xff,
+        ]),
+        credentialIdBytes,
+        await this.createCosePublicKey(credential)
+      ),
+    });
+    const attStmt = new Map<string, CborValue>();
+    if (this.attestationFormat === "packed") {
+      // Self attestation: signed with the credential private key itself
+      attStmt.set("alg", coseAlgorithms.get(algorithm)!);
+      attStmt.set(
+        "sig",
+        await this.sign(
+          credential,
+          concat(authenticatorData, await this.sha256(clientDataJSON))
+        )
+      );
+    }
+    const attestationObject = cborEncode(
+      new Map<string, CborValue>([
+        ["fmt", this.attestationFormat],
+        ["attStmt", attStmt],
+        ["authData", authenticatorData],
+      ])
+    );
+    this.credentials.push(credential);
+    const transports = [...this.transports];
+    return {
+      id: credential.credentialId,
+      rawId: toArrayBuffer(credentialIdBytes),
+      type: "public-key" as const,
+      authenticatorAttachment: "platform" as const,
+      response: {
+        clientDataJSON: toArrayBuffer(clientDataJSON),
+        attestationObject: toArrayBuffer(attestationObject),
+        getTransports: () => transports,
+        getAuthenticatorData: () => toArrayBuffer(authenticatorData),
+        getPublicKeyAlgorithm: () => coseAlgorithms.get(algorithm)!,
+      },
+      getClientExtensionResults: () => ({}),
+    };
+  }
+
+  /** Implementation of `navigator.credentials.get()` for public key credentials */
+  async get(options: CredentialRequestOptions) {
+    const { publicKey } = options;
+    if (!publicKey) {
+      throw new DOMException(
+        "Only public key credentials are supported",
+        "NotSupportedError"
+      );
+    }
+    options.signal?.throwIfAborted();
+    const rpId = this.assertValidRpId(publicKey.rpId);
+    this.assertUserVerification(publicKey.userVerification);
+    const allowed = (publicKey.allowCredentials ?? []).map((c) =>
+      bufferToBase64Url(toArrayBuffer(toBytes(c.id)))
+    );
+    const candidates = this.credentials.filter(
+      (c) =>
+        c.rpId === rpId && (!allowed.length || allowed.includes(c.credentialId))
+    );
+    // Like a user that picks the most recently created credential
+    const credential = candidates[candidates.length - 1];
+    if (!credential) {
+      throw new DOMException(
+        "The authenticator holds no matching credential",
+        "NotAllowedError"
+      );
+    }
+    if (this.incrementSignCount) credential.signCount++;
+    const clientDataJSON = this.createClientDataJSON(
+      "webauthn.get",
+      publicKey.challenge
+    );
+    const authenticatorData = await this.createAuthenticatorData({
+      rpId,
+      signCount: credential.signCount,
+    });
+    const signature = await this.sign(
+      credential,
+      concat(authenticatorData, await this.sha256(clientDataJSON))
+    );
+    return {
+      id: credential.credentialId,
+      rawId: toArrayBuffer(bufferFromBase64Url(credential.credentialId)),
+      type: "public-key" as const,
+      authenticatorAttachment: "platform" as const,
+      response: {
+        clientDataJSON: toArrayBuffer(clientDataJSON),
+        authenticatorData: toArrayBuffer(authenticatorData),
+        signature: toArrayBuffer(signature),
+        userHandle: toArrayBuffer(credential.userHandle),
+      },
+      getClientExtensionResults: () => ({}),
+    };
+  }
+
+  /** Use as `credentialCreator` with `fido2CreateCredential()` */
+  credentialCreator: Fido2CredentialCreator = async ({ publicKey }) => {
+    const credential = await this.create({ publicKey });
+    return {
+      clientDataJSON_B64: bufferToBase64Url(credential.response.clientDataJSON),
+      attestationObjectB64: bufferToBase64Url(
+        credential.response.attestationObject
+      ),
+      transports: credential.response.getTransports(),
+    };
+  };
+
+  /** Use as `credentialGetter` with `authenticateWithFido2()` */
+  credentialGetter: Fido2CredentialGetter = async ({
+    challenge,
+    relyingPartyId,
+    credentials,
+    timeout,
+    userVerification,
+    signal,
+  }) => {
+    const credential = await this.get({
+      publicKey: {
+        challenge: bufferFromBase64Url(challenge),
+        rpId: relyingPartyId,
+        allowCredentials: credentials?.map((c) => ({
+          id: bufferFromBase64Url(c.id),
+          transports: c.transports,
+          type: "public-key" as const,
+        })),
+        timeout,
+        userVerification,
+      },
+      signal,
+    });
+    return {
+      credentialIdB64: bufferToBase64Url(credential.rawId),
+      authenticatorDataB64: bufferToBase64Url(
+        credential.response.authenticatorData
+      ),
+      clientDataJSON_B64: bufferToBase64Url(credential.response.clientDataJSON),
+      signatureB64: bufferToBase64Url(credential.response.signature),
+      userHandleB64: credential.response.userHandle.byteLength
+        ? bufferToBase64Url(credential.response.userHandle)
+        : null,
+    };
+  };
+
+  private assertValidRpId(rpId?: string) {
+    const { hostname } = new URL(this.origin);
+    if (!rpId) return hostname;
+    if (hostname !== rpId && !hostname.endsWith(`.${rpId}`)) {
+      throw new DOMException(
+        `RP ID ${rpId} is not valid for origin ${this.origin}`,
+        "SecurityError"
+      );
+    }
+    return rpId;
+  }
+
+  private assertUserVerification(
+    userVerification?: UserVerificationRequirement
+  ) {
+    if (userVerification === "required" && !this.userVerified) {
+      throw new DOMException(
+        "User verification is required, but the authenticator doesn't verify the user",
+        "NotAllowedError"
+      );
+    }
+  }
+
+  private createClientDataJSON(
+    type: "webauthn.create" | "webauthn.get",
+    challenge: BufferSource
+  ) {
+    return new TextEncoder().encode(
+      JSON.stringify({
+        type,
+        challenge: bufferToBase64Url(toArrayBuffer(toBytes(challenge))),
+        origin: this.origin,
+        crossOrigin: false,
+      })
+    );
+  }
+
+  private async createAuthenticatorData({
+    rpId,
+    signCount,
+    attestedCredentialData,
+  }: {
+    rpId: string;
+    signCount: number;
+    attestedCredentialData?: Uint8Array;
+  }) {
+    const flags =
+      0x01 | // User Present
+      (this.userVerified ? 0x04 : 0) | // User Verified
+      (attestedCredentialData ? 0x40 : 0); // Attested credential data included
+    return concat(
+      await this.sha256(new TextEncoder().encode(rpId)),
+      Uint8Array.from([
+        flags,
+        (signCount >>> 24) & 0xff,
+        (signCount >>> 16) & 0xff,
+        (signCount >>> 8) & 0xff,
+        signCount & 0xff,
+      ]),
+      attestedCredentialData ?? new Uint8Array()
+    );
+  }
+
+  private async generateKeyPair(algorithm: VirtualAuthenticatorAlgorithm) {
+    if (algorithm === "ES256") {
+      return this.crypto.subtle.generateKey(
+        { name: "ECDSA", namedCurve: "P-256" },
+        false,
+        ["sign", "verify"]
+      );
+    }
+    return this.crypto.subtle.generateKey(
+      {
+        name: "RSASSA-PKCS1-v1_5",
+        modulusLength: 2048,
+        publicExponent: Uint8Array.from([1, 0, 1]),
+        hash: "SHA-256",
+      },
+      false,
+      ["sign", "verify"]
+    );
+  }
+
+  /** See https://www.w3.org/TR/webauthn-2/#sctn-encoded-credPubKey-examples */
+  private async createCosePublicKey({ algorithm, keyPair }: VirtualCredential) {
+    const jwk = await this.crypto.subtle.exportKey("jwk", keyPair.publicKey);
+    if (algorithm === "ES256") {
+      return cborEncode(
+        new Map<number, CborValue>([
+          [1, 2], // kty: EC2
+          [3, coseAlgorithms.get(algorithm)!],
+          [-1, 1], // crv: P-256
+          [-2, bufferFromBase64Url(jwk.x!)],
+          [-3, bufferFromBase64Url(jwk.y!)],
+        ])
+      );
+    }
+    return cborEncode(
+      new Map<number, CborValue>([
+        [1, 3], // kty: RSA
+        [3, coseAlgorithms.get(algorithm)!],
+        [-1, bufferFromBase64Url(jwk.n!)],
+        [-2, bufferFromBase64Url(jwk.e!)],
+      ])
+    );
+  }
+
+  private async sign(
+    { algorithm, keyPair }: VirtualCredential,
+    data: Uint8Array
+  ) {
+    if (algorithm === "ES256") {
+      const signature = await this.crypto.subtle.sign(
+        { name: "ECDSA", hash: "SHA-256" },
+        keyPair.privateKey,
+        data
+      );
+      // WebCrypto returns r|s, whereas WebAuthn uses the ASN.1 DER encoding
+      return derEncodeEcdsaSignature(new Uint8Array(signature));
+    }
+    return new Uint8Array(
+      await this.crypto.subtle.sign(
+        { name: "RSASSA-PKCS1-v1_5" },
+        keyPair.privateKey,
+        data
+      )
+    );
+  }
+
+  private async sha256(data: Uint8Array) {
+    return new Uint8Array(await this.crypto.subtle.digest("SHA-256", data));
+  }
+}
+
+function toBytes(data: BufferSource) {
+  return data instanceof ArrayBuffer
+    ? new Uint8Array(data)
+    : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function toArrayBuffer(bytes: Uint8Array) {
+  return bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength
+  );
+}
+
+function concat(...arrays: Uint8Array[]) {
+  const result = new Uint8Array(
+    arrays.reduce((length, array) => length + array.length, 0)
+  );
+  arrays.reduce((offset, array) => {
+    result.set(array, offset);
+    return offset + array.length;
+  }, 0);
+  return result;
+}
+
+function derEncodeEcdsaSignature(signature: Uint8Array) {
+  const encodeInteger = (integer: Uint8Array) => {
+    const firstNonZero = integer.findIndex((b) => b !== 0);
+    let bytes = integer.slice(
+      firstNonZero === -1 ? integer.length - 1 : firstNonZero
+    );
+    // Prevent the integer from being interpreted as negative
+    if (bytes[0] & 0x80) bytes = concat(Uint8Array.from([0]), bytes);
+    return concat(Uint8Array.from([0x02, bytes.length]), bytes);
+  };
+  const half = signature.length / 2;
+  const r = encodeInteger(signature.slice(0, half));
+  const s = encodeInteger(signature.slice(half));
+  return concat(Uint8Array.from([0x30, r.length + s.length]), r, s);
+}
+
+type CborValue =
+  | number
+  | string
+  | Uint8Array
+  | CborValue[]
+  | Map<number | string, CborValue>;
+
+/** Minimal CBOR encoder (RFC 8949), supporting the types needed for attestation objects and COSE keys */
+function cborEncode(value: CborValue): Uint8Array {
+  const header = (majorType: number, length: number) => {
+    const type = majorType << 5;
+    if (length < 24) return Uint8Array.from([type | length]);
+    if (length < 0x100) return Uint8Array.from([type | 24, length]);
+    if (length < 0x10000)
+      return Uint8Array.from([type | 25, length >> 8, length & 0xff]);
+    return Uint8Array.from([
+      type | 26,
+      (length >>> 24) & 0xff,
+      (length >>> 16) & 0xff,
+      (length >>> 8) & 0xff,
+      length & 0xff,
+    ]);
+  };
+  if (typeof value === "number") {
+    return value >= 0 ? header(0, value) : header(1, -1 - value);
+  } else if (typeof value === "string") {
+    const bytes = new TextEncoder().encode(value);
+    return concat(header(3, bytes.length), bytes);
+  } else if (value instanceof Uint8Array) {
+    return concat(header(2, value.length), value);
+  } else if (Array.isArray(value)) {
+    return concat(header(4, value.length), ...value.map(cborEncode));
+  }
+  return concat(
+    header(5, value.size),
+    ...[...value.entries()].flatMap(([k, v]) => [cborEncode(k), cborEncode(v)])
+  );
+}
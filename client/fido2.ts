@@ -25,10 +25,12 @@ import {
   throwIfNot2xx,
   bufferFromBase64Url,
   bufferToBase64Url,
+  canonicalizeTransaction,
 } from "./util.js";
 import { configure } from "./config.js";
 import { retrieveTokens } from "./storage.js";
 import { CognitoIdTokenPayload } from "./jwt-model.js";
+import { Factor } from "./multi-factor.js";
 
 export interface StoredCredential {
   credentialId: string;
@@ -37,6 +39,10 @@ export interface StoredCredential {
   lastSignIn?: Date;
   signCount: number;
   transports?: AuthenticatorTransport[];
+  /** The name of the authenticator, from the FIDO metadata service (if configured in the backend) */
+  authenticatorName?: string;
+  /** The icon of the authenticator (data URL), from the FIDO metadata service (if configured in the backend) */
+  authenticatorIcon?: string;
 }
 
 type AuthenticatorAttestationResponseWithOptionalMembers =
@@ -49,12 +55,18 @@ type AuthenticatorAttestationResponseWithOptionalMembers =
 
 export async function fido2CreateCredential({
   friendlyName,
+  credentialCreator = fido2createCredential,
 }: {
   friendlyName: string | (() => string | Promise<string>);
+  /**
+   * Override how the credential is created, e.g. to use a virtual authenticator in automated tests.
+   * By default, `navigator.credentials.create()` is used
+   */
+  credentialCreator?: Fido2CredentialCreator;
 }) {
   const { debug, fido2 } = configure();
   const publicKeyOptions = await fido2StartCreateCredential();
-  const publicKey: CredentialCreationOptions["publicKey"] = {
+  const publicKey: PublicKeyCredentialCreationOptions = {
     ...publicKeyOptions,
     rp: {
       name: fido2?.rp?.name ?? publicKeyOptions.rp.name,
@@ -78,6 +90,21 @@ export async function fido2CreateCredential({
     ),
   };
   debug?.("Assembled public key options:", publicKey);
+  const credential = await credentialCreator({ publicKey });
+  const resolvedFriendlyName =
+    typeof friendlyName === "string" ? friendlyName : await friendlyName();
+  return fido2CompleteCreateCredential({
+    credential,
+    friendlyName: resolvedFriendlyName,
+  });
+}
+
+async function fido2createCredential({
+  publicKey,
+}: {
+  publicKey: PublicKeyCredentialCreationOptions;
+}): Promise<ParsedCredential> {
+  const { debug } = configure();
   const credential = await navigator.credentials.create({
     publicKey,
   });
@@ -101,14 +128,12 @@ export async function fido2CreateCredential({
     getPublicKey: response.getPublicKey?.(),
     getPublicKeyAlgorithm: response.getPublicKeyAlgorithm?.(),
   });
-  const resolvedFriendlyName =
-    typeof friendlyName === "string" ? friendlyName : await friendlyName();
-  return fido2CompleteCreateCredential({
-    credential: credential,
-    friendlyName: resolvedFriendlyName,
-  });
+  return parseAuthenticatorAttestationResponse(response);
 }
 
+/** Creates a FIDO2 credential, see `credentialCreator` of `fido2CreateCredential()` */
+export type Fido2CredentialCreator = typeof fido2createCredential;
+
 interface StartCreateCredentialResponse {
   challenge: string;
   attestation: "none";
@@ -206,6 +231,9 @@ export async function fido2CompleteCreateCredential({
           credentialId: string;
           createdAt: string;
           signCount: number;
+          authenticatorName?: string;
+          authenticatorIcon?: string;
+          recoveryCodes?: string[];
         }>
     )
     .then(
@@ -213,7 +241,13 @@ export async function fido2CompleteCreateCredential({
         ({
           ...res,
           createdAt: new Date(res.createdAt),
-        }) as StoredCredential
+        }) as StoredCredential & {
+          /**
+           * One-time recovery codes, to sign in with if the user loses their credentials (if enabled in the backend).
+           * These are only returned upon registration of the user's first credential: show them to the user now
+           */
+          recoveryCodes?: string[];
+        }
     );
 }
 
@@ -249,6 +283,8 @@ export async function fido2ListCredentials() {
             createdAt: string;
             signCount: number;
             lastSignIn?: string;
+            authenticatorName?: string;
+            authenticatorIcon?: string;
           }[];
         }>
     )
@@ -314,7 +350,33 @@ export async function fido2UpdateCredential({
   }).then(throwIfNot2xx);
 }
 
-interface Fido2Options {
+/**
+ * Generate a new set of one-time recovery codes for the signed-in user, replacing their existing ones.
+ * Show these to the user: they can sign in with them if they lose their FIDO2 credentials.
+ * This requires a recent step-up with FIDO2 (see `stepUpAuthenticationWithFido2`)
+ */
+export async function fido2GenerateRecoveryCodes() {
+  const { fido2, fetch } = configure();
+  if (!fido2) {
+    throw new Error("Missing Fido2 config");
+  }
+  const tokens = await retrieveTokens();
+  if (!tokens?.idToken) {
+    throw new Error("No JWT to invoke Fido2 API with");
+  }
+  return fetch(getFullFido2Url("recovery-codes/generate"), {
+    method: "POST",
+    headers: {
+      accept: "application/json, text/javascript",
+      "content-type": "application/json; charset=UTF-8",
+      authorization: `Bearer ${tokens.idToken}`,
+    },
+  })
+    .then(throwIfNot2xx)
+    .then((res) => res.json() as Promise<{ recoveryCodes: string[] }>);
+}
+
+export interface Fido2Options {
   challenge: string;
   timeout?: number;
   userVerification?: UserVerificationRequirement;
@@ -351,13 +413,29 @@ function assertIsFido2Options(o: unknown): asserts o is Fido2Options {
   }
 }
 
+/**
+ * Does the browser support conditional mediation for WebAuthn, i.e. offering the user's Passkeys in the autofill UI of input fields?
+ */
+export async function fido2IsConditionalMediationAvailable() {
+  return (
+    typeof PublicKeyCredential !== "undefined" &&
+    typeof PublicKeyCredential.isConditionalMediationAvailable === "function" &&
+    PublicKeyCredential.isConditionalMediationAvailable()
+  );
+}
+
 async function fido2getCredential({
   relyingPartyId,
   challenge,
   credentials,
   timeout,
   userVerification,
-}: Fido2Options) {
+  mediation,
+  signal,
+}: Fido2Options & {
+  mediation?: CredentialMediationRequirement;
+  signal?: AbortSignal;
+}) {
   const { debug, fido2: { extensions } = {} } = configure();
   const publicKey: CredentialRequestOptions["publicKey"] = {
     challenge: bufferFromBase64Url(challenge),
@@ -374,6 +452,8 @@ async function fido2getCredential({
   debug?.("Assembled public key options:", publicKey);
   const credential = await navigator.credentials.get({
     publicKey,
+    mediation,
+    signal,
   });
   if (!credential) {
     throw new Error(`Failed to get credential`);
@@ -393,6 +473,9 @@ async function fido2getCredential({
   );
 }
 
+/** Gets a FIDO2 assertion, see `credentialGetter` of `authenticateWithFido2()` */
+export type Fido2CredentialGetter = typeof fido2getCredential;
+
 const parseAuthenticatorAttestationResponse = async (
   response: AuthenticatorAttestationResponseWithOptionalMembers
 ) => {
@@ -438,7 +521,11 @@ const parseAuthenticatorAssertionResponse = async (
   };
 };
 
-async function requestUsernamelessSignInChallenge() {
+async function requestUsernamelessSignInChallenge({
+  abort,
+}: {
+  abort?: AbortSignal;
+} = {}) {
   const { fido2, fetch } = configure();
   if (!fido2) {
     throw new Error("Missing Fido2 config");
@@ -448,6 +535,7 @@ async function requestUsernamelessSignInChallenge() {
     headers: {
       accept: "application/json, text/javascript",
     },
+    signal: abort,
   })
     .then(throwIfNot2xx)
     .then((res) => res.json() as unknown);
@@ -460,6 +548,7 @@ export function authenticateWithFido2({
   statusCb,
   currentStatus,
   clientMetadata,
+  mediation,
   credentialGetter = fido2getCredential,
 }: {
   /**
@@ -477,20 +566,35 @@ export function authenticateWithFido2({
   statusCb?: (status: BusyState | IdleState) => void;
   currentStatus?: BusyState | IdleState;
   clientMetadata?: Record<string, string>;
-  credentialGetter?: typeof fido2getCredential;
+  /**
+   * Use "conditional" to sign in with a Passkey through the browser's autofill UI (aka Conditional UI):
+   * the usernameless challenge is requested right away (e.g. at page load), and the browser then offers the user's Passkeys
+   * in the autofill UI of input fields with `autocomplete="username webauthn"`.
+   * This runs in the background (without status updates) until the user picks a Passkey,
+   * so call `abort()` when the user chooses to sign in otherwise.
+   * Ignored if username is specified
+   */
+  mediation?: "conditional";
+  /**
+   * Override how the FIDO2 assertion is gotten, e.g. to use a virtual authenticator in automated tests.
+   * By default, `navigator.credentials.get()` is used
+   */
+  credentialGetter?: Fido2CredentialGetter;
 }) {
   if (currentStatus && busyState.includes(currentStatus as BusyState)) {
     throw new Error(`Can't sign in while in status ${currentStatus}`);
   }
   const abort = new AbortController();
+  const conditional = mediation === "conditional" && !username;
   const signedIn = (async () => {
     const { debug, fido2 } = configure();
     if (!fido2) {
       throw new Error("Missing Fido2 config");
     }
-    statusCb?.("STARTING_SIGN_IN_WITH_FIDO2");
+    if (!conditional) statusCb?.("STARTING_SIGN_IN_WITH_FIDO2");
     let fido2credential: Awaited<ReturnType<typeof credentialGetter>>,
       session: string;
+    let credentialPicked = false;
     try {
       if (username) {
         debug?.(`Invoking initiateAuth ...`);
@@ -526,11 +630,16 @@ export function authenticateWithFido2({
                 )
             ) ?? []
           ),
+          signal: abort.signal,
         });
         session = initAuthResponse.Session;
       } else {
-        debug?.("Starting usernameless authentication");
-        const fido2options = await requestUsernamelessSignInChallenge();
+        debug?.(
+          `Starting usernameless authentication${conditional ? " (conditional mediation)" : ""}`
+        );
+        const fido2options = await requestUsernamelessSignInChallenge({
+          abort: abort.signal,
+        });
         assertIsFido2Options(fido2options);
         debug?.("FIDO2 options from usernameless challenge:", fido2options);
         fido2credential = await credentialGetter({
@@ -540,7 +649,14 @@ export function authenticateWithFido2({
           userVerification:
             fido2.authenticatorSelection?.userVerification ??
             fido2options.userVerification,
+          mediation: conditional ? "conditional" : undefined,
+          signal: abort.signal,
         });
+        if (conditional) {
+          // The user picked a Passkey from the autofill UI, from here on this is a regular sign-in
+          credentialPicked = true;
+          statusCb?.("STARTING_SIGN_IN_WITH_FIDO2");
+        }
         if (!fido2credential.userHandleB64) {
           throw new Error("No discoverable credentials available");
         }
@@ -604,6 +720,306 @@ export function authenticateWithFido2({
         : await defaultTokensCb({ tokens, abort: abort.signal });
       statusCb?.("SIGNED_IN_WITH_FIDO2");
       return tokens;
+    } catch (err) {
+      // Until the user picks a Passkey, a conditional sign-in runs in the background, so there's no status to update
+      if (!conditional || credentialPicked) {
+        statusCb?.("FIDO2_SIGNIN_FAILED");
+      }
+      throw err;
+    }
+  })();
+  return {
+    signedIn,
+    abort: () => abort.abort(),
+  };
+}
+
+/**
+ * Sign a transaction (e.g. a payment the user must approve) with FIDO2. The user must be signed-in already.
+ * This is a FIDO2 sign-in, whose challenge is derived from the hash of the transaction: the ID token that is issued
+ * carries that hash in the `transaction_hash` claim, so your back-end can verify that the user approved that very transaction.
+ * Requires `transactionSigning` to be enabled in the Passwordless CDK construct
+ */
+export function signTransactionWithFido2({
+  username,
+  transaction,
+  credentials,
+  tokensCb,
+  statusCb,
+  currentStatus,
+  clientMetadata,
+  accessToken,
+  credentialGetter = fido2getCredential,
+}: {
+  /**
+   * Username, or alias (e-mail, phone number).
+   * If not specified, the username of the signed-in user is used
+   */
+  username?: string;
+  /** The transaction to sign, e.g. `{ amount: "100.00", currency: "EUR", payee: "ACME" }`. It's sent to the back-end as canonical JSON */
+  transaction: Record<string, unknown>;
+  /**
+   * The FIDO2 credentials to use.
+   * Must be specified for non-discoverable credentials to work, optional for Passkeys (discoverable credentials).
+   */
+  credentials?: { id: string; transports?: AuthenticatorTransport[] }[];
+  tokensCb?: (tokens: TokensFromSignIn) => void | Promise<void>;
+  statusCb?: (status: BusyState | IdleState) => void;
+  currentStatus?: BusyState | IdleState;
+  clientMetadata?: Record<string, string>;
+  /** The access token of the signed-in user. If not specified, the access token from storage is used */
+  accessToken?: string;
+  /**
+   * Override how the FIDO2 assertion is gotten, e.g. to use a virtual authenticator in automated tests.
+   * By default, `navigator.credentials.get()` is used
+   */
+  credentialGetter?: Fido2CredentialGetter;
+}) {
+  if (currentStatus && busyState.includes(currentStatus as BusyState)) {
+    throw new Error(`Can't sign in while in status ${currentStatus}`);
+  }
+  const abort = new AbortController();
+  const signedIn = (async () => {
+    const { debug, fido2 } = configure();
+    if (!fido2) {
+      throw new Error("Missing Fido2 config");
+    }
+    statusCb?.("STARTING_SIGN_IN_WITH_FIDO2");
+    try {
+      const storedTokens = await retrieveTokens();
+      const token = accessToken ?? storedTokens?.accessToken;
+      if (!token) {
+        throw new Error(
+          "Missing access token. You must be signed-in already to sign a transaction"
+        );
+      }
+      username = username ?? storedTokens?.username;
+      if (!username) {
+        throw new Error("Missing username");
+      }
+      const transactionClientMetadata = {
+        ...clientMetadata,
+        signInMethod: "FIDO2_TRANSACTION",
+        transaction: canonicalizeTransaction(transaction),
+      };
+      debug?.(`Invoking initiateAuth ...`);
+      const initAuthResponse = await initiateAuth({
+        authflow: "CUSTOM_AUTH",
+        authParameters: {
+          USERNAME: username,
+        },
+        abort: abort.signal,
+      });
+      debug?.(`Response from initiateAuth:`, initAuthResponse);
+      assertIsChallengeResponse(initAuthResponse);
+      debug?.(`Invoking respondToAuthChallenge ...`);
+      const challengeResponse = await respondToAuthChallenge({
+        challengeName: "CUSTOM_CHALLENGE",
+        challengeResponses: {
+          ANSWER: "__dummy__",
+          USERNAME: username,
+        },
+        clientMetadata: transactionClientMetadata,
+        session: initAuthResponse.Session,
+        abort: abort.signal,
+      });
+      debug?.(`Response from respondToAuthChallenge:`, challengeResponse);
+      assertIsChallengeResponse(challengeResponse);
+      if (!challengeResponse.ChallengeParameters.fido2options) {
+        throw new Error("Server did not send a FIDO2 transaction challenge");
+      }
+      const fido2options: unknown = JSON.parse(
+        challengeResponse.ChallengeParameters.fido2options
+      );
+      assertIsFido2Options(fido2options);
+      debug?.("FIDO2 options from transaction challenge:", fido2options);
+      const fido2credential = await credentialGetter({
+        ...fido2options,
+        relyingPartyId: fido2.rp?.id ?? fido2options.relyingPartyId,
+        timeout: fido2.timeout ?? fido2options.timeout,
+        credentials: (fido2options.credentials ?? []).concat(
+          credentials?.filter(
+            (cred) =>
+              !fido2options.credentials?.find(
+                (optionsCred) => cred.id === optionsCred.id
+              )
+          ) ?? []
+        ),
+        signal: abort.signal,
+      });
+      statusCb?.("COMPLETING_SIGN_IN_WITH_FIDO2");
+      debug?.(`Invoking respondToAuthChallenge ...`);
+      const authResult = await respondToAuthChallenge({
+        challengeName: "CUSTOM_CHALLENGE",
+        challengeResponses: {
+          ANSWER: JSON.stringify({
+            jwt: token,
+            authenticatorAssertion: fido2credential,
+          }),
+          USERNAME: username,
+        },
+        clientMetadata: transactionClientMetadata,
+        session: challengeResponse.Session,
+        abort: abort.signal,
+      });
+      assertIsAuthenticatedResponse(authResult);
+      debug?.(`Response from respondToAuthChallenge:`, authResult);
+      const tokens = {
+        accessToken: authResult.AuthenticationResult.AccessToken,
+        idToken: authResult.AuthenticationResult.IdToken,
+        refreshToken: authResult.AuthenticationResult.RefreshToken,
+        expireAt: new Date(
+          Date.now() + authResult.AuthenticationResult.ExpiresIn * 1000
+        ),
+        username: parseJwtPayload<CognitoIdTokenPayload>(
+          authResult.AuthenticationResult.IdToken
+        )["cognito:username"],
+      };
+      tokensCb
+        ? await tokensCb(tokens)
+        : await defaultTokensCb({ tokens, abort: abort.signal });
+      statusCb?.("SIGNED_IN_WITH_FIDO2");
+      return tokens;
+    } catch (err) {
+      statusCb?.("FIDO2_SIGNIN_FAILED");
+      throw err;
+    }
+  })();
+  return {
+    signedIn,
+    abort: () => abort.abort(),
+  };
+}
+
+/**
+ * Step-up authentication with FIDO2: let the signed-in user verify themselves again with FIDO2 (with user verification),
+ * e.g. before a sensitive operation. The ID token that is issued carries the claims `step_up_method` ("FIDO2") and `step_up_auth_time`.
+ * Requires `stepUp` to be enabled for FIDO2 in the Passwordless CDK construct
+ */
+export function stepUpAuthenticationWithFido2({
+  username,
+  credentials,
+  tokensCb,
+  statusCb,
+  currentStatus,
+  clientMetadata,
+  accessToken,
+  credentialGetter = fido2getCredential,
+}: {
+  /**
+   * Username, or alias (e-mail, phone number).
+   * If not specified, the username of the signed-in user is used
+   */
+  username?: string;
+  /**
+   * The FIDO2 credentials to use.
+   * Must be specified for non-discoverable credentials to work, optional for Passkeys (discoverable credentials).
+   */
+  credentials?: { id: string; transports?: AuthenticatorTransport[] }[];
+  tokensCb?: (tokens: TokensFromSignIn) => void | Promise<void>;
+  statusCb?: (status: BusyState | IdleState) => void;
+  currentStatus?: BusyState | IdleState;
+  clientMetadata?: Record<string, string>;
+  /** The access token of the signed-in user. If not specified, the access token from storage is used */
+  accessToken?: string;
+  /**
+   * Override how the FIDO2 assertion is gotten, e.g. to use a virtual authenticator in automated tests.
+   * By default, `navigator.credentials.get()` is used
+   */
+  credentialGetter?: Fido2CredentialGetter;
+}) {
+  if (currentStatus && busyState.includes(currentStatus as BusyState)) {
+    throw new Error(`Can't sign in while in status ${currentStatus}`);
+  }
+  const abort = new AbortController();
+  const signedIn = (async () => {
+    const { debug, fido2 } = configure();
+    if (!fido2) {
+      throw new Error("Missing Fido2 config");
+    }
+    statusCb?.("STARTING_SIGN_IN_WITH_FIDO2");
+    try {
+      const storedTokens = await retrieveTokens();
+      const token = accessToken ?? storedTokens?.accessToken;
+      if (!token) {
+        throw new Error(
+          "Missing access token. You must be signed-in already for step-up auth"
+        );
+      }
+      username = username ?? storedTokens?.username;
+      if (!username) {
+        throw new Error("Missing username");
+      }
+      debug?.(`Invoking initiateAuth ...`);
+      const initAuthResponse = await initiateAuth({
+        authflow: "CUSTOM_AUTH",
+        authParameters: {
+          USERNAME: username,
+        },
+        abort: abort.signal,
+      });
+      debug?.(`Response from initiateAuth:`, initAuthResponse);
+      assertIsChallengeResponse(initAuthResponse);
+      if (!initAuthResponse.ChallengeParameters.fido2options) {
+        throw new Error("Server did not send a FIDO2 challenge");
+      }
+      const fido2options: unknown = JSON.parse(
+        initAuthResponse.ChallengeParameters.fido2options
+      );
+      assertIsFido2Options(fido2options);
+      debug?.("FIDO2 options from Cognito challenge:", fido2options);
+      const fido2credential = await credentialGetter({
+        ...fido2options,
+        relyingPartyId: fido2.rp?.id ?? fido2options.relyingPartyId,
+        timeout: fido2.timeout ?? fido2options.timeout,
+        // Step-up authentication requires user verification
+        userVerification: "required",
+        credentials: (fido2options.credentials ?? []).concat(
+          credentials?.filter(
+            (cred) =>
+              !fido2options.credentials?.find(
+                (optionsCred) => cred.id === optionsCred.id
+              )
+          ) ?? []
+        ),
+        signal: abort.signal,
+      });
+      statusCb?.("COMPLETING_SIGN_IN_WITH_FIDO2");
+      debug?.(`Invoking respondToAuthChallenge ...`);
+      const authResult = await respondToAuthChallenge({
+        challengeName: "CUSTOM_CHALLENGE",
+        challengeResponses: {
+          ANSWER: JSON.stringify({
+            jwt: token,
+            authenticatorAssertion: fido2credential,
+          }),
+          USERNAME: username,
+        },
+        clientMetadata: {
+          ...clientMetadata,
+          signInMethod: "FIDO2_STEPUP",
+        },
+        session: initAuthResponse.Session,
+        abort: abort.signal,
+      });
+      assertIsAuthenticatedResponse(authResult);
+      debug?.(`Response from respondToAuthChallenge:`, authResult);
+      const tokens = {
+        accessToken: authResult.AuthenticationResult.AccessToken,
+        idToken: authResult.AuthenticationResult.IdToken,
+        refreshToken: authResult.AuthenticationResult.RefreshToken,
+        expireAt: new Date(
+          Date.now() + authResult.AuthenticationResult.ExpiresIn * 1000
+        ),
+        username: parseJwtPayload<CognitoIdTokenPayload>(
+          authResult.AuthenticationResult.IdToken
+        )["cognito:username"],
+      };
+      tokensCb
+        ? await tokensCb(tokens)
+        : await defaultTokensCb({ tokens, abort: abort.signal });
+      statusCb?.("SIGNED_IN_WITH_FIDO2");
+      return tokens;
     } catch (err) {
       statusCb?.("FIDO2_SIGNIN_FAILED");
       throw err;
@@ -614,3 +1030,61 @@ export function authenticateWithFido2({
     abort: () => abort.abort(),
   };
 }
+
+/**
+ * Sign in with FIDO2 (e.g. Face or Touch), as factor of a multi-factor sign-in (see `authenticateWithMultipleFactors()`)
+ */
+export function fido2Factor({
+  credentials,
+  credentialGetter = fido2getCredential,
+}: {
+  /**
+   * The FIDO2 credentials to use.
+   * Must be specified for non-discoverable credentials to work, optional for Passkeys (discoverable credentials).
+   */
+  credentials?: { id: string; transports?: AuthenticatorTransport[] }[];
+  /**
+   * Override how the FIDO2 assertion is gotten, e.g. to use a virtual authenticator in automated tests.
+   * By default, `navigator.credentials.get()` is used
+   */
+  credentialGetter?: Fido2CredentialGetter;
+} = {}): Factor {
+  return {
+    signInMethod: "FIDO2",
+    complete: async ({ challenge, respond, abort }) => {
+      const { debug, fido2 } = configure();
+      if (!fido2) {
+        throw new Error("Missing Fido2 config");
+      }
+      if (!challenge.ChallengeParameters.fido2options) {
+        throw new Error("Server did not send a FIDO2 challenge");
+      }
+      const fido2options: unknown = JSON.parse(
+        challenge.ChallengeParameters.fido2options
+      );
+      assertIsFido2Options(fido2options);
+      debug?.("FIDO2 options from Cognito challenge:", fido2options);
+      const fido2credential = await credentialGetter({
+        ...fido2options,
+        relyingPartyId: fido2.rp?.id ?? fido2options.relyingPartyId,
+        timeout: fido2.timeout ?? fido2options.timeout,
+        userVerification:
+          fido2.authenticatorSelection?.userVerification ??
+          fido2options.userVerification,
+        credentials: (fido2options.credentials ?? []).concat(
+          credentials?.filter(
+            (cred) =>
+              !fido2options.credentials?.find(
+                (optionsCred) => cred.id === optionsCred.id
+              )
+          ) ?? []
+        ),
+        signal: abort,
+      });
+      return respond({
+        answer: JSON.stringify(fido2credential),
+        session: challenge.Session,
+      });
+    },
+  };
+}
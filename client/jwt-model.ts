@@ -48,6 +48,16 @@ interface CognitoIdTokenFields extends CognitoJwtFields {
   }[];
   "cognito:roles"?: string[];
   "cognito:preferred_role"?: string;
+  /** Hash of the transaction that the user signed with FIDO2 (see `signTransactionWithFido2`) */
+  transaction_hash?: string;
+  /** Set if the user stepped up their authentication (see `stepUpAuthenticationWithFido2`): the method used, e.g. "FIDO2" */
+  step_up_method?: string;
+  /** Set if the user stepped up their authentication: when they did (seconds since epoch, as string) */
+  step_up_auth_time?: string;
+  /** Set if enabled in the Passwordless CDK construct (`authenticationMethodClaims`): how the user authenticated, as space separated RFC 8176 values (e.g. "hwk user mfa") */
+  passwordless_amr?: string;
+  /** Set if enabled in the Passwordless CDK construct (`authenticationMethodClaims`): when the user authenticated (seconds since epoch, as string) */
+  passwordless_auth_time?: string;
 }
 
 export type CognitoIdTokenPayload = CognitoIdTokenFields & JsonObject;
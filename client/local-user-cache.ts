@@ -0,0 +1,56 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { configure } from "./config.js";
+
+/** User Details stored in your configured storage (e.g. localStorage) */
+export type StoredUser = {
+  username: string;
+  email?: string;
+  useFido?: "YES" | "NO" | "ASK";
+  credentials?: { id: string; transports?: AuthenticatorTransport[] }[];
+};
+
+/** Retrieve the last signed in users from your configured storage (e.g. localStorage) */
+export async function getLastSignedInUsers() {
+  const { clientId, storage } = configure();
+  const lastUsers = await storage.getItem(`Passwordless.${clientId}.lastUsers`);
+  if (!lastUsers) return [];
+  const users = JSON.parse(lastUsers) as StoredUser[];
+  return users;
+}
+
+/** Clear the last signed in users from your configured storage (e.g. localStorage) */
+export async function clearLastSignedInUsers() {
+  const { clientId, storage } = configure();
+  await storage.removeItem(`Passwordless.${clientId}.lastUsers`);
+}
+
+/** Register a signed in user in your configured storage (e.g. localStorage) */
+export async function registerSignedInUser(user: StoredUser) {
+  const { clientId, debug, storage } = configure();
+  debug?.(`Registering user in storage: ${JSON.stringify(user)}`);
+  const lastUsers = await getLastSignedInUsers();
+  const index = lastUsers.findIndex(
+    (lastUser) => lastUser.username === user.username
+  );
+  if (index !== -1) {
+    lastUsers.splice(index, 1);
+  }
+  lastUsers.unshift(user);
+  await storage.setItem(
+    `Passwordless.${clientId}.lastUsers`,
+    JSON.stringify(lastUsers.slice(0, 10))
+  );
+}
@@ -26,15 +26,19 @@ import {
   currentBrowserLocationWithoutFragmentIdentifier,
   removeFragmentIdentifierFromBrowserLocation,
   bufferFromBase64Url,
+  bufferToBase64Url,
+  throwIfNot2xx,
 } from "./util.js";
 import { configure, UndefinedGlobalVariableError } from "./config.js";
 import { CognitoIdTokenPayload } from "./jwt-model.js";
+import { Factor } from "./multi-factor.js";
 
 export const requestSignInLink = ({
   username,
   redirectUri,
   currentStatus,
   statusCb,
+  clientMetadata,
 }: {
   /**
    * Username, or alias (e-mail, phone number)
@@ -43,6 +47,7 @@ export const requestSignInLink = ({
   redirectUri?: string;
   currentStatus?: BusyState | IdleState;
   statusCb?: (status: BusyState | IdleState) => void;
+  clientMetadata?: Record<string, string>;
 }) => {
   const { clientId, storage, debug } = configure();
   if (currentStatus && busyState.includes(currentStatus as BusyState)) {
@@ -70,6 +75,7 @@ export const requestSignInLink = ({
           USERNAME: username,
         },
         clientMetadata: {
+          ...clientMetadata,
           signInMethod: "MAGIC_LINK",
           redirectUri:
             redirectUri || currentBrowserLocationWithoutFragmentIdentifier(),
@@ -152,13 +158,17 @@ function checkCurrentLocationForSignInLink() {
   return {
     username: message.userName,
     exp: message.exp,
+    remoteApproval: !!message.remoteApproval,
     fragmentIdentifier,
   };
 }
 
-function assertIsMessage(
-  msg: unknown
-): asserts msg is { userName: string; exp: number; iat: number } {
+function assertIsMessage(msg: unknown): asserts msg is {
+  userName: string;
+  exp: number;
+  iat: number;
+  remoteApproval?: boolean;
+} {
   if (
     !msg ||
     typeof msg !== "object" ||
@@ -307,10 +317,17 @@ export const signInWithLink = (props?: {
   session?: Session;
   tokensCb?: (tokens: TokensFromSignIn) => void | Promise<void>;
   statusCb?: (status: BusyState | IdleState) => void;
+  /**
+   * Ask the user to confirm, before approving the sign-in of another device (if the link was requested with remote approval).
+   * Resolve to true to approve, or false to decline. Links with remote approval are never approved without this confirmation
+   */
+  confirmRemoteApproval?: (props: {
+    username: string;
+  }) => boolean | Promise<boolean>;
 }) => {
   const { debug } = configure();
   const abort = new AbortController();
-  const { statusCb, tokensCb } = props ?? {};
+  const { statusCb, tokensCb, confirmRemoteApproval } = props ?? {};
   const signedIn = (async () => {
     const params = checkCurrentLocationForSignInLink();
     if (!params) {
@@ -322,6 +339,40 @@ export const signInWithLink = (props?: {
       return;
     }
     statusCb?.("SIGNING_IN_WITH_LINK");
+    if (params.remoteApproval) {
+      // This link was requested on another device, that will be signed in (not this one)
+      // Anyone can request a link for the user, so the user must confirm they want to sign in that other device
+      if (!confirmRemoteApproval) {
+        statusCb?.("SIGNIN_LINK_APPROVAL_DECLINED");
+        throw new Error(
+          "Sign-in link requires remote approval, but no confirmRemoteApproval callback was provided"
+        );
+      }
+      statusCb?.("CONFIRMING_SIGNIN_LINK_APPROVAL");
+      const confirmed = await confirmRemoteApproval({
+        username: params.username,
+      });
+      if (abort.signal.aborted) return;
+      if (!confirmed) {
+        removeFragmentIdentifierFromBrowserLocation();
+        statusCb?.("SIGNIN_LINK_APPROVAL_DECLINED");
+        return;
+      }
+      statusCb?.("SIGNING_IN_WITH_LINK");
+      try {
+        await approveSignInLink({
+          fragmentIdentifier: params.fragmentIdentifier,
+          abort: abort.signal,
+        });
+        removeFragmentIdentifierFromBrowserLocation();
+        statusCb?.("SIGNIN_LINK_APPROVED");
+        return;
+      } catch (err) {
+        failedFragmentIdentifieres.add(params.fragmentIdentifier);
+        statusCb?.("INVALID_SIGNIN_LINK");
+        throw err;
+      }
+    }
     try {
       const tokens = await authenticateWithSignInLink({
         username: params.username,
@@ -357,3 +408,222 @@ export const signInWithLink = (props?: {
     abort: () => abort.abort(),
   };
 };
+
+function getFullMagicLinkUrl(path: string) {
+  const { magicLink } = configure();
+  if (!magicLink) {
+    throw new Error("Missing Magic Link config");
+  }
+  return `${magicLink.baseUrl.replace(/\/$/, "")}/${path.replace(/^\//, "")}`;
+}
+
+async function approveSignInLink({
+  fragmentIdentifier,
+  abort,
+}: {
+  fragmentIdentifier: string;
+  abort?: AbortSignal;
+}) {
+  const { clientId, fetch, debug } = configure();
+  debug?.("Approving sign-in link for sign-in on other device ...");
+  await fetch(getFullMagicLinkUrl("sign-in-link/approve"), {
+    body: JSON.stringify({ fragmentIdentifier, clientId }),
+    method: "POST",
+    headers: {
+      accept: "application/json, text/javascript",
+      "content-type": "application/json; charset=UTF-8",
+    },
+    signal: abort,
+  }).then(throwIfNot2xx);
+}
+
+async function pollRemoteApproval({
+  username,
+  remoteApprovalSecret,
+  abort,
+}: {
+  username: string;
+  remoteApprovalSecret: string;
+  abort?: AbortSignal;
+}) {
+  const { fetch, debug } = configure();
+  for (;;) {
+    debug?.("Polling for remote approval of sign-in link ...");
+    const { status } = await fetch(getFullMagicLinkUrl("sign-in-link/status"), {
+      body: JSON.stringify({ username, remoteApprovalSecret }),
+      method: "POST",
+      headers: {
+        accept: "application/json, text/javascript",
+        "content-type": "application/json; charset=UTF-8",
+      },
+      signal: abort,
+    })
+      .then(throwIfNot2xx)
+      .then(
+        (res) =>
+          res.json() as Promise<{
+            status: "PENDING" | "APPROVED" | "INVALID";
+          }>
+      );
+    debug?.(`Remote approval status: ${status}`);
+    if (status === "APPROVED") return;
+    if (status === "INVALID") {
+      throw new Error("Sign-in link expired or no longer valid");
+    }
+  }
+}
+
+/**
+ * Request a sign-in link ("magic link") that the user may open on any device (e.g. their phone),
+ * which then signs the user in here, on the device that requested it (e.g. their desktop).
+ * The user won't be signed in on the device that opened the link.
+ *
+ * Requires the Magic Link API (`magicLink.baseUrl` in the configuration)
+ */
+export const requestSignInLinkWithRemoteApproval = ({
+  username,
+  redirectUri,
+  currentStatus,
+  statusCb,
+  tokensCb,
+}: {
+  /**
+   * Username, or alias (e-mail, phone number)
+   */
+  username: string;
+  redirectUri?: string;
+  currentStatus?: BusyState | IdleState;
+  statusCb?: (status: BusyState | IdleState) => void;
+  tokensCb?: (tokens: TokensFromSignIn) => void | Promise<void>;
+}) => {
+  const { clientId, storage, crypto, debug } = configure();
+  const abort = new AbortController();
+  const signedIn = (async () => {
+    const remoteApprovalSecret = bufferToBase64Url(
+      crypto.getRandomValues(new Uint8Array(32))
+    );
+    const remoteApprovalHash = bufferToBase64Url(
+      await crypto.subtle.digest(
+        "SHA-256",
+        new TextEncoder().encode(remoteApprovalSecret)
+      )
+    );
+    const requesting = requestSignInLink({
+      username,
+      redirectUri,
+      currentStatus,
+      statusCb,
+      clientMetadata: { remoteApprovalHash },
+    });
+    abort.signal.addEventListener("abort", requesting.abort);
+    const res = await requesting.signInLinkRequested;
+    username = res.ChallengeParameters.USERNAME ?? username; // switch to non-alias if necessary
+    try {
+      statusCb?.("WAITING_FOR_REMOTE_APPROVAL");
+      await pollRemoteApproval({
+        username,
+        remoteApprovalSecret,
+        abort: abort.signal,
+      });
+      statusCb?.("SIGNING_IN_WITH_LINK");
+      const session = await storage.getItem(
+        `Passwordless.${clientId}.${username}.session`
+      );
+      await storage.removeItem(`Passwordless.${clientId}.${username}.session`);
+      if (!session) {
+        throw new Error("Missing session to complete sign-in with");
+      }
+      debug?.(`Invoking respondToAuthChallenge ...`);
+      const authResult = await respondToAuthChallenge({
+        challengeName: "CUSTOM_CHALLENGE",
+        challengeResponses: {
+          ANSWER: remoteApprovalSecret,
+          USERNAME: username,
+        },
+        clientMetadata: {
+          signInMethod: "MAGIC_LINK",
+          alreadyHaveMagicLink: "yes",
+          remoteApproval: "yes",
+        },
+        session,
+        abort: abort.signal,
+      });
+      assertIsAuthenticatedResponse(authResult);
+      debug?.(`Response from respondToAuthChallenge:`, authResult);
+      const tokens = {
+        accessToken: authResult.AuthenticationResult.AccessToken,
+        idToken: authResult.AuthenticationResult.IdToken,
+        refreshToken: authResult.AuthenticationResult.RefreshToken,
+        expireAt: new Date(
+          Date.now() + authResult.AuthenticationResult.ExpiresIn * 1000
+        ),
+        username: parseJwtPayload<CognitoIdTokenPayload>(
+          authResult.AuthenticationResult.IdToken
+        )["cognito:username"],
+      };
+      tokensCb
+        ? await tokensCb(tokens)
+        : await defaultTokensCb({ tokens, abort: abort.signal });
+      statusCb?.("SIGNED_IN_WITH_LINK");
+      return tokens;
+    } catch (err) {
+      statusCb?.("INVALID_SIGNIN_LINK");
+      throw err;
+    }
+  })();
+  return {
+    signedIn,
+    abort: () => abort.abort(),
+  };
+};
+
+/**
+ * Sign in with a magic link, as the first factor of a multi-factor sign-in (see `authenticateWithMultipleFactors()`).
+ * If the current location is a magic link, the link is used to complete this factor. Otherwise, a magic link is
+ * requested and the sign-in pauses: run `authenticateWithMultipleFactors()` again on the page the magic link
+ * redirects to (without passing the username, as that's taken from the magic link)
+ */
+export function magicLinkFactor({
+  redirectUri,
+}: {
+  /** The URL the magic link should redirect to, defaults to the current location */
+  redirectUri?: string;
+} = {}): Factor {
+  return {
+    signInMethod: "MAGIC_LINK",
+    determineUsername: () => checkCurrentLocationForSignInLink()?.username,
+    complete: async ({ username, challenge, respond }) => {
+      const params = checkCurrentLocationForSignInLink();
+      if (params && params.username === username && !params.remoteApproval) {
+        if (params.exp < Date.now() / 1000) {
+          throw new Error("Magic link expired");
+        }
+        try {
+          const authResult = await respond({
+            answer: params.fragmentIdentifier,
+            session: challenge.Session,
+            clientMetadata: {
+              redirectUri: currentBrowserLocationWithoutFragmentIdentifier(),
+              alreadyHaveMagicLink: "yes",
+            },
+          });
+          removeFragmentIdentifierFromBrowserLocation();
+          return authResult;
+        } catch (err) {
+          failedFragmentIdentifieres.add(params.fragmentIdentifier);
+          throw err;
+        }
+      }
+      await respond({
+        answer: "__dummy__",
+        session: challenge.Session,
+        clientMetadata: {
+          redirectUri:
+            redirectUri || currentBrowserLocationWithoutFragmentIdentifier(),
+          alreadyHaveMagicLink: "no",
+        },
+      });
+      return undefined;
+    },
+  };
+}
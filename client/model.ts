@@ -15,7 +15,8 @@
 export interface TokensFromSignIn {
   accessToken: string;
   idToken: string;
-  refreshToken: string;
+  /** Not available in cookie mode (with `bff` configured): then the refresh token is kept in an HttpOnly cookie */
+  refreshToken?: string;
   expireAt: Date;
   username: string;
 }
@@ -30,10 +31,14 @@ export const busyState = [
   "CHECKING_FOR_SIGNIN_LINK",
   "REQUESTING_SIGNIN_LINK",
   "SIGNING_IN_WITH_LINK",
+  "WAITING_FOR_REMOTE_APPROVAL",
   "STARTING_SIGN_IN_WITH_FIDO2",
   "COMPLETING_SIGN_IN_WITH_FIDO2",
   "SIGNING_IN_WITH_PASSWORD",
   "SIGNING_IN_WITH_OTP",
+  "SIGNING_IN_WITH_SMS_OTP",
+  "SIGNING_IN_WITH_RECOVERY_CODE",
+  "SIGNING_IN_WITH_MULTIPLE_FACTORS",
   "SIGNING_OUT",
 ] as const;
 export type BusyState = (typeof busyState)[number];
@@ -43,13 +48,110 @@ const idleState = [
   "SIGNIN_LINK_REQUESTED",
   "SIGNIN_LINK_EXPIRED",
   "INVALID_SIGNIN_LINK",
+  "CONFIRMING_SIGNIN_LINK_APPROVAL",
+  "SIGNIN_LINK_APPROVED",
+  "SIGNIN_LINK_APPROVAL_DECLINED",
   "SIGNED_OUT",
   "SIGNED_IN_WITH_LINK",
   "SIGNED_IN_WITH_FIDO2",
   "SIGNED_IN_WITH_PASSWORD",
   "SIGNED_IN_WITH_OTP",
+  "SIGNED_IN_WITH_SMS_OTP",
+  "SIGNED_IN_WITH_RECOVERY_CODE",
+  "SIGNED_IN_WITH_MULTIPLE_FACTORS",
   "FIDO2_SIGNIN_FAILED",
   "SIGNIN_WITH_OTP_FAILED",
   "PASSWORD_SIGNIN_FAILED",
+  "RECOVERY_CODE_SIGNIN_FAILED",
+  "MULTI_FACTOR_SIGNIN_FAILED",
 ] as const;
 export type IdleState = (typeof idleState)[number];
+
+/**
+ * The status that each sign-in (or sign-out) attempt starts with.
+ * A new attempt may start from any status, superseding the pending attempt (if any)
+ */
+const initialBusyState: readonly BusyState[] = [
+  "CHECKING_FOR_SIGNIN_LINK",
+  "REQUESTING_SIGNIN_LINK",
+  "STARTING_SIGN_IN_WITH_FIDO2",
+  "SIGNING_IN_WITH_PASSWORD",
+  "SIGNING_IN_WITH_OTP",
+  "SIGNING_IN_WITH_SMS_OTP",
+  "SIGNING_IN_WITH_RECOVERY_CODE",
+  "SIGNING_IN_WITH_MULTIPLE_FACTORS",
+  "SIGNING_OUT",
+];
+
+/** The statuses that may follow each status, besides the start of a new attempt */
+const transitions: {
+  readonly [S in BusyState | IdleState]?: readonly (BusyState | IdleState)[];
+} = {
+  CHECKING_FOR_SIGNIN_LINK: [
+    "NO_SIGNIN_LINK",
+    "SIGNIN_LINK_EXPIRED",
+    "SIGNING_IN_WITH_LINK",
+  ],
+  REQUESTING_SIGNIN_LINK: [
+    "SIGNIN_LINK_REQUESTED",
+    "SIGNIN_LINK_REQUEST_FAILED",
+  ],
+  SIGNIN_LINK_REQUESTED: ["WAITING_FOR_REMOTE_APPROVAL"],
+  WAITING_FOR_REMOTE_APPROVAL: ["SIGNING_IN_WITH_LINK", "INVALID_SIGNIN_LINK"],
+  SIGNING_IN_WITH_LINK: [
+    "SIGNED_IN_WITH_LINK",
+    "CONFIRMING_SIGNIN_LINK_APPROVAL",
+    "SIGNIN_LINK_APPROVAL_DECLINED",
+    "SIGNIN_LINK_APPROVED",
+    "SIGNIN_LINK_EXPIRED",
+    "INVALID_SIGNIN_LINK",
+  ],
+  // The user confirms (or declines) the sign-in of the device that requested the link
+  CONFIRMING_SIGNIN_LINK_APPROVAL: [
+    "SIGNING_IN_WITH_LINK",
+    "SIGNIN_LINK_APPROVAL_DECLINED",
+  ],
+  STARTING_SIGN_IN_WITH_FIDO2: [
+    "COMPLETING_SIGN_IN_WITH_FIDO2",
+    "FIDO2_SIGNIN_FAILED",
+  ],
+  COMPLETING_SIGN_IN_WITH_FIDO2: [
+    "SIGNED_IN_WITH_FIDO2",
+    "FIDO2_SIGNIN_FAILED",
+  ],
+  SIGNING_IN_WITH_PASSWORD: [
+    "SIGNED_IN_WITH_PASSWORD",
+    "PASSWORD_SIGNIN_FAILED",
+  ],
+  SIGNING_IN_WITH_OTP: ["SIGNED_IN_WITH_OTP", "SIGNIN_WITH_OTP_FAILED"],
+  SIGNING_IN_WITH_SMS_OTP: ["SIGNED_IN_WITH_SMS_OTP", "SIGNIN_WITH_OTP_FAILED"],
+  SIGNING_IN_WITH_RECOVERY_CODE: [
+    "SIGNED_IN_WITH_RECOVERY_CODE",
+    "RECOVERY_CODE_SIGNIN_FAILED",
+  ],
+  SIGNING_IN_WITH_MULTIPLE_FACTORS: [
+    "SIGNED_IN_WITH_MULTIPLE_FACTORS",
+    "MULTI_FACTOR_SIGNIN_FAILED",
+    // The flow pauses if a factor requires the user to open a magic link
+    "SIGNIN_LINK_REQUESTED",
+  ],
+  // An aborted or failed sign-out restores the status from before the sign-out
+  SIGNING_OUT: [...busyState, ...idleState],
+};
+
+/**
+ * Is the transition from one status to the other valid?
+ * Signing out in another tab (SIGNED_OUT) may happen at any time
+ */
+export function isValidTransition(
+  from: BusyState | IdleState,
+  to: BusyState | IdleState
+) {
+  return (
+    from === to ||
+    to === "SIGNED_OUT" ||
+    initialBusyState.includes(to as BusyState) ||
+    // eslint-disable-next-line security/detect-object-injection
+    !!transitions[from]?.includes(to)
+  );
+}
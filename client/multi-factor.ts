@@ -0,0 +1,204 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { configure } from "./config.js";
+import { IdleState, BusyState, TokensFromSignIn, busyState } from "./model.js";
+import {
+  AuthenticatedResponse,
+  ChallengeResponse,
+  Session,
+  assertIsChallengeResponse,
+  initiateAuth,
+  isAuthenticatedResponse,
+  respondToAuthChallenge,
+} from "./cognito-api.js";
+import { defaultTokensCb } from "./common.js";
+import { parseJwtPayload } from "./util.js";
+import { CognitoIdTokenPayload } from "./jwt-model.js";
+
+/**
+ * One factor (signInMethod) of a multi-factor sign-in, see `authenticateWithMultipleFactors()`.
+ * Use the factors this library provides (`fido2Factor`, `emailOtpFactor`, `smsOtpFactor`, `magicLinkFactor`),
+ * or implement your own, e.g. for your own custom signInMethod
+ */
+export interface Factor {
+  /** The signInMethod that this factor implements, e.g. "SMS_OTP" */
+  signInMethod: string;
+  /**
+   * Complete this factor: answer the challenge (possibly in multiple rounds, e.g. if the user keys in a wrong code),
+   * and return the response to the last answer: either the challenge for the next factor, or the tokens.
+   * Return undefined if the sign-in can't proceed right now, e.g. because the user must open a magic link first
+   */
+  complete: (props: {
+    username: string;
+    /** The PROVIDE_AUTH_PARAMETERS challenge that starts this factor */
+    challenge: ChallengeResponse;
+    /** Respond to a challenge. The signInMethod of this factor is added to the clientMetadata */
+    respond: (props: {
+      answer: string;
+      session: Session;
+      clientMetadata?: Record<string, string>;
+    }) => Promise<ChallengeResponse | AuthenticatedResponse>;
+    abort: AbortSignal;
+  }) => Promise<ChallengeResponse | AuthenticatedResponse | undefined>;
+  /** The factor may be able to tell the username itself, e.g. from a magic link */
+  determineUsername?: () => string | undefined;
+}
+
+/**
+ * Does this challenge start a new factor (rather than e.g. being a retry after a wrong answer)?
+ */
+export function isFactorStart(challenge: ChallengeResponse) {
+  return challenge.ChallengeParameters.challenge === "PROVIDE_AUTH_PARAMETERS";
+}
+
+/**
+ * Sign in with multiple factors, as required by the multi-factor policy in the back-end (`multiFactorPolicies` in the Passwordless CDK construct).
+ * The first factor is the first one you pass; after that, the back-end tells which signInMethod(s) may come next,
+ * and the first of the factors you pass that matches, is used. This continues until the back-end issues tokens.
+ *
+ * E.g. to sign in with a magic link, followed by an SMS OTP, run this on the page the magic link redirects to:
+ *
+ * ```javascript
+ * authenticateWithMultipleFactors({
+ *   factors: [magicLinkFactor(), smsOtpFactor({ smsOtpCode: promptForCode })],
+ * });
+ * ```
+ */
+export function authenticateWithMultipleFactors({
+  username,
+  factors,
+  tokensCb,
+  statusCb,
+  currentStatus,
+  clientMetadata,
+}: {
+  /**
+   * Username, or alias (e-mail, phone number).
+   * May be omitted if the first factor can tell the username itself (e.g. from a magic link)
+   */
+  username?: string;
+  factors: Factor[];
+  tokensCb?: (tokens: TokensFromSignIn) => void | Promise<void>;
+  statusCb?: (status: BusyState | IdleState) => void;
+  currentStatus?: BusyState | IdleState;
+  clientMetadata?: Record<string, string>;
+}) {
+  if (currentStatus && busyState.includes(currentStatus as BusyState)) {
+    throw new Error(`Can't sign in while in status ${currentStatus}`);
+  }
+  const abort = new AbortController();
+  const signedIn = (async () => {
+    const { debug } = configure();
+    statusCb?.("SIGNING_IN_WITH_MULTIPLE_FACTORS");
+    try {
+      let factor = factors[0];
+      if (!factor) {
+        throw new Error("Provide at least one factor");
+      }
+      username ??= factor.determineUsername?.();
+      if (!username) {
+        throw new Error("Missing username");
+      }
+      debug?.(`Invoking initiateAuth ...`);
+      const initAuthResponse = await initiateAuth({
+        authflow: "CUSTOM_AUTH",
+        authParameters: {
+          USERNAME: username,
+        },
+        abort: abort.signal,
+      });
+      debug?.(`Response from initiateAuth:`, initAuthResponse);
+      assertIsChallengeResponse(initAuthResponse);
+      const cognitoUsername = initAuthResponse.ChallengeParameters.USERNAME; // switch to non-alias if necessary
+      let challenge = initAuthResponse;
+      for (;;) {
+        const signInMethod = factor.signInMethod;
+        debug?.(`Starting factor: ${signInMethod}`);
+        const authResult = await factor.complete({
+          username: cognitoUsername,
+          challenge,
+          respond: async ({ answer, session, clientMetadata: metadata }) => {
+            debug?.(`Invoking respondToAuthChallenge ...`);
+            const res = await respondToAuthChallenge({
+              challengeName: "CUSTOM_CHALLENGE",
+              challengeResponses: {
+                ANSWER: answer,
+                USERNAME: cognitoUsername,
+              },
+              clientMetadata: {
+                ...clientMetadata,
+                ...metadata,
+                signInMethod,
+              },
+              session,
+              abort: abort.signal,
+            });
+            debug?.(`Response from respondToAuthChallenge:`, res);
+            return res;
+          },
+          abort: abort.signal,
+        });
+        if (!authResult) {
+          debug?.(`Factor ${signInMethod} can't be completed right now`);
+          statusCb?.("SIGNIN_LINK_REQUESTED");
+          return;
+        }
+        if (isAuthenticatedResponse(authResult)) {
+          const tokens = {
+            accessToken: authResult.AuthenticationResult.AccessToken,
+            idToken: authResult.AuthenticationResult.IdToken,
+            refreshToken: authResult.AuthenticationResult.RefreshToken,
+            expireAt: new Date(
+              Date.now() + authResult.AuthenticationResult.ExpiresIn * 1000
+            ),
+            username: parseJwtPayload<CognitoIdTokenPayload>(
+              authResult.AuthenticationResult.IdToken
+            )["cognito:username"],
+          };
+          tokensCb
+            ? await tokensCb(tokens)
+            : await defaultTokensCb({ tokens, abort: abort.signal });
+          statusCb?.("SIGNED_IN_WITH_MULTIPLE_FACTORS");
+          return tokens;
+        }
+        assertIsChallengeResponse(authResult);
+        const nextSignInMethods =
+          authResult.ChallengeParameters.nextSignInMethods?.split(",");
+        if (!isFactorStart(authResult) || !nextSignInMethods) {
+          throw new Error(
+            `Unexpected challenge after completing factor ${signInMethod}`
+          );
+        }
+        const nextFactor = factors.find((f) =>
+          nextSignInMethods.includes(f.signInMethod)
+        );
+        if (!nextFactor) {
+          throw new Error(
+            `No factor provided for next signInMethod: ${nextSignInMethods.join(" or ")}`
+          );
+        }
+        factor = nextFactor;
+        challenge = authResult;
+      }
+    } catch (err) {
+      statusCb?.("MULTI_FACTOR_SIGNIN_FAILED");
+      throw err;
+    }
+  })();
+  return {
+    signedIn,
+    abort: () => abort.abort(),
+  };
+}
@@ -18,8 +18,9 @@ import {
   useAwaitableState,
   useLocalUserCache,
 } from "./hooks.js";
-import { timeAgo } from "../util.js";
+import { timeAgo, determineMobileDeviceName } from "../util.js";
 import { configure } from "../config.js";
+import { fido2IsConditionalMediationAvailable } from "../fido2.js";
 
 interface CustomBrand {
   backgroundImageUrl?: string;
@@ -59,15 +60,20 @@ const FlexContainer = (props: {
 
 export const Passwordless = ({
   brand,
+  smsOtpSignIn,
   children,
 }: {
   brand?: CustomBrand;
+  /** Offer sign-in with SMS OTP (requires `smsOtpSignIn` to be enabled in the Passwordless CDK construct) */
+  smsOtpSignIn?: boolean;
   children?: React.ReactNode;
 } = {}) => {
   const {
     requestSignInLink,
+    confirmSignInLinkApproval,
     lastError,
     authenticateWithFido2,
+    authenticateWithSmsOtp,
     busy,
     signInStatus,
     signingInStatus,
@@ -83,6 +89,69 @@ export const Passwordless = ({
     "LAST_USER" | "NEW_USER_ENTRY" | "NEW_USER"
   >("LAST_USER");
   const { lastSignedInUsers } = useLocalUserCache();
+  const [smsOtp, setSmsOtp] = useState("");
+  const [smsOtpPrompt, setSmsOtpPrompt] = useState<{
+    phoneNumber: string;
+    attempt: number;
+  }>();
+  const { awaitable: awaitableSmsOtp, resolve: resolveSmsOtp } =
+    useAwaitableState(smsOtp);
+  const signInWithSmsOtp = (username: string) => {
+    authenticateWithSmsOtp({
+      username,
+      smsOtpCode: (phoneNumber, attempt) => {
+        setSmsOtp("");
+        setSmsOtpPrompt({ phoneNumber, attempt });
+        return awaitableSmsOtp();
+      },
+    })
+      .signedIn.catch(() => {
+        // the error is available as lastError
+      })
+      .finally(() => setSmsOtpPrompt(undefined));
+  };
+
+  const showFido2AuthOption = !!configure().fido2;
+  const lastUser = lastSignedInUsers?.at(0);
+  const user: typeof lastUser =
+    newUsername && showSignInOptionsForUser === "NEW_USER"
+      ? {
+          email: newUsername,
+          username: newUsername,
+          useFido: showFido2AuthOption
+            ? "YES" // Presume the user might want to (and can) use FIDO2
+            : "NO",
+        }
+      : showSignInOptionsForUser === "LAST_USER"
+        ? lastUser
+        : undefined;
+
+  // While the username input is shown, offer the user's Passkeys in its autofill UI (conditional mediation)
+  const offerPasskeyAutofill =
+    showFido2AuthOption &&
+    signInStatus === "NOT_SIGNED_IN" &&
+    !!lastSignedInUsers &&
+    !user;
+  useEffect(() => {
+    if (!offerPasskeyAutofill) return;
+    let signingIn: ReturnType<typeof authenticateWithFido2> | undefined;
+    let cancelled = false;
+    fido2IsConditionalMediationAvailable()
+      .then((available) => {
+        if (available && !cancelled) {
+          signingIn = authenticateWithFido2({ mediation: "conditional" });
+        }
+      })
+      .catch(() => {
+        // Conditional mediation isn't available, the user can still use the passkey button
+      });
+    return () => {
+      cancelled = true;
+      signingIn?.abort();
+    };
+    // authenticateWithFido2 is a new function on each render, but we only want to (re)start when offerPasskeyAutofill changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [offerPasskeyAutofill]);
 
   if (signInStatus === "SIGNED_IN") {
     // reset state fields for entering new username
@@ -124,6 +193,51 @@ export const Passwordless = ({
     );
   }
 
+  if (signingInStatus === "SIGNING_IN_WITH_SMS_OTP") {
+    return (
+      <FlexContainer brand={brand}>
+        {smsOtpPrompt ? (
+          <form
+            className="passwordless-flex passwordless-flex-justify-end"
+            onSubmit={(e) => {
+              e.preventDefault();
+              resolveSmsOtp();
+              setSmsOtpPrompt(undefined);
+              return false;
+            }}
+          >
+            <label className="passwordless-input-label">
+              {smsOtpPrompt.attempt > 1
+                ? "That code is incorrect, please try again:"
+                : `Enter the code we've sent to ${smsOtpPrompt.phoneNumber}:`}
+            </label>
+            <input
+              className="passwordless-otp-input"
+              value={smsOtp}
+              onChange={(e) => setSmsOtp(e.target.value)}
+              placeholder="Code"
+              autoComplete="one-time-code"
+              inputMode="numeric"
+              autoFocus
+            />
+            <button
+              className="passwordless-button"
+              type="submit"
+              disabled={!smsOtp.match(/^\d+$/)}
+            >
+              Sign in
+            </button>
+          </form>
+        ) : (
+          <div className="passwordless-flex">
+            <div className="passwordless-loading-spinner" />
+            <div>Signing in with SMS code...</div>
+          </div>
+        )}
+      </FlexContainer>
+    );
+  }
+
   if (signingInStatus === "SIGNING_OUT") {
     return (
       <FlexContainer brand={brand}>
@@ -159,6 +273,65 @@ export const Passwordless = ({
     );
   }
 
+  if (signingInStatus === "WAITING_FOR_REMOTE_APPROVAL") {
+    return (
+      <FlexContainer brand={brand}>
+        <div className="passwordless-flex passwordless-flex-align-start">
+          <div className="passwordless-loading-spinner" />
+          <div>
+            <div className="passwordless-text-left">
+              <strong>Please check your email.</strong>
+            </div>
+            <div>
+              Open the sign-in link we&apos;ve emailed you on any device, to
+              sign in here
+            </div>
+          </div>
+        </div>
+      </FlexContainer>
+    );
+  }
+
+  if (signingInStatus === "CONFIRMING_SIGNIN_LINK_APPROVAL") {
+    return (
+      <FlexContainer brand={brand}>
+        <div className="passwordless-flex-col">
+          <div>
+            This sign-in link was requested on another device. Do you want to
+            sign in on that other device?
+          </div>
+          <div className="passwordless-flex">
+            <button
+              className="passwordless-button passwordless-button-sign-in"
+              onClick={() => confirmSignInLinkApproval(true)}
+            >
+              Yes, sign in my other device
+            </button>
+            <button
+              className="passwordless-button passwordless-button-outlined"
+              onClick={() => confirmSignInLinkApproval(false)}
+            >
+              No, this wasn&apos;t me
+            </button>
+          </div>
+        </div>
+      </FlexContainer>
+    );
+  }
+
+  if (signingInStatus === "SIGNIN_LINK_APPROVED") {
+    return (
+      <FlexContainer brand={brand}>
+        <div className="passwordless-flex">
+          <div>
+            You&apos;ve approved the sign-in on your other device. You can now
+            close this window.
+          </div>
+        </div>
+      </FlexContainer>
+    );
+  }
+
   if (signInStatus === "SIGNED_IN" && tokens) {
     if (children) return <>{children}</>;
     return (
@@ -206,21 +379,6 @@ export const Passwordless = ({
     );
   }
 
-  const showFido2AuthOption = !!configure().fido2;
-  const lastUser = lastSignedInUsers.at(0);
-  const user: typeof lastUser =
-    newUsername && showSignInOptionsForUser === "NEW_USER"
-      ? {
-          email: newUsername,
-          username: newUsername,
-          useFido: showFido2AuthOption
-            ? "YES" // Presume the user might want to (and can) use FIDO2
-            : "NO",
-        }
-      : showSignInOptionsForUser === "LAST_USER"
-        ? lastUser
-        : undefined;
-
   return (
     <FlexContainer brand={brand}>
       {signInStatus === "NOT_SIGNED_IN" && user && (
@@ -276,6 +434,22 @@ export const Passwordless = ({
                   <div>Sign in with magic link</div>
                 </div>
               </button>
+              {smsOtpSignIn && (
+                <button
+                  className="passwordless-button passwordless-button-sign-in passwordless-button-outlined"
+                  onClick={() => signInWithSmsOtp(user.username)}
+                  disabled={busy}
+                >
+                  <div className="passwordless-flex">
+                    <div className="passwordless-svg-icon-container">
+                      <svg width="24px" height="24px" viewBox="0 0 24 24">
+                        <path d="M17,1H7C5.9,1,5,1.9,5,3v18c0,1.1,0.9,2,2,2h10c1.1,0,2-0.9,2-2V3C19,1.9,18.1,1,17,1z M17,19H7V5h10V19z"></path>
+                      </svg>
+                    </div>
+                    <div>Sign in with SMS code</div>
+                  </div>
+                </button>
+              )}
             </p>
             <div className="passwordless-mobile-spacer"></div>
           </div>
@@ -318,8 +492,8 @@ export const Passwordless = ({
             className="passwordless-flex passwordless-flex-justify-end"
             onSubmit={(e) => {
               e.preventDefault();
-              if (showFido2AuthOption) {
-                // let the user choose between FIDO2 and Magic Link
+              if (showFido2AuthOption || smsOtpSignIn) {
+                // let the user choose between FIDO2, SMS OTP and Magic Link
                 setShowSignInOptionsForUser("NEW_USER");
               } else {
                 // no user choice necessary––only magic links supported
@@ -339,6 +513,7 @@ export const Passwordless = ({
               onChange={(e) => setNewUsername(e.target.value)}
               placeholder="E-mail"
               type="email"
+              autoComplete="username webauthn"
               disabled={busy}
               autoFocus={!showFido2AuthOption}
             />
@@ -347,7 +522,7 @@ export const Passwordless = ({
               type="submit"
               disabled={busy || !newUsername?.match(/^\S+@\S+\.\S+$/)}
             >
-              {showFido2AuthOption ? (
+              {showFido2AuthOption || smsOtpSignIn ? (
                 <div className="passwordless-flex">
                   <span>Next</span>
                   <svg
@@ -877,19 +1052,3 @@ export function Fido2Toast() {
     </>
   );
 }
-
-function determineMobileDeviceName() {
-  const mobileDevices = [
-    "Android",
-    "webOS",
-    "iPhone",
-    "iPad",
-    "iPod",
-    "BlackBerry",
-    "Windows Phone",
-  ] as const;
-  return mobileDevices.find((dev) =>
-    // eslint-disable-next-line security/detect-non-literal-regexp
-    navigator.userAgent.match(new RegExp(dev, "i"))
-  );
-}
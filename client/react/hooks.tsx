@@ -12,35 +12,21 @@
  * ANY KIND, either express or implied. See the License for the specific
  * language governing permissions and limitations under the License.
  */
-import { signOut } from "../common.js";
-import { parseJwtPayload, setTimeoutWallClock } from "../util.js";
-import { signInWithLink, requestSignInLink } from "../magic-link.js";
-import {
-  fido2CreateCredential,
-  fido2DeleteCredential,
-  fido2ListCredentials,
-  fido2UpdateCredential,
-  StoredCredential,
-  authenticateWithFido2,
-} from "../fido2.js";
-import { authenticateWithSRP } from "../srp.js";
-import { authenticateWithPlaintextPassword } from "../plaintext.js";
-import { stepUpAuthenticationWithSmsOtp } from "../sms-otp-stepup.js";
 import { configure } from "../config.js";
-import { retrieveTokens, storeTokens, TokensFromStorage } from "../storage.js";
-import { BusyState, IdleState, busyState } from "../model.js";
-import { scheduleRefresh, refreshTokens } from "../refresh.js";
+import { PasswordlessStore } from "../store.js";
 import {
-  CognitoAccessTokenPayload,
-  CognitoIdTokenPayload,
-} from "../jwt-model.js";
+  StoredUser,
+  getLastSignedInUsers,
+  clearLastSignedInUsers,
+  registerSignedInUser,
+} from "../local-user-cache.js";
 import React, {
   useState,
   useEffect,
   useContext,
   useCallback,
-  useMemo,
   useRef,
+  useSyncExternalStore,
 } from "react";
 
 const PasswordlessContext = React.createContext<UsePasswordless | undefined>(
@@ -76,9 +62,11 @@ export function useLocalUserCache() {
 export const PasswordlessContextProvider = (props: {
   children: React.ReactNode;
   enableLocalUserCache?: boolean;
+  /** The store to use, e.g. to share the sign-in state with non-React parts of your app. By default, a new store is created */
+  store?: PasswordlessStore;
 }) => {
   return (
-    <PasswordlessContext.Provider value={_usePasswordless()}>
+    <PasswordlessContext.Provider value={_usePasswordless(props.store)}>
       {props.enableLocalUserCache ? (
         <LocalUserCacheContextProvider>
           {props.children}
@@ -100,486 +88,52 @@ const LocalUserCacheContextProvider = (props: {
   );
 };
 
-/** A FIDO2 credential (e.g. Face ID or Touch), with convenient methods for updating and deleting */
-type Fido2Credential = StoredCredential & {
-  /** Update the friendly name of the credential */
-  update: (update: { friendlyName: string }) => Promise<void>;
-  /** Delete the credential */
-  delete: () => Promise<void>;
-  /** The credential is currently being updated or deleted */
-  busy: boolean;
-};
-
 type UsePasswordless = ReturnType<typeof _usePasswordless>;
 
-function _usePasswordless() {
-  const [signingInStatus, setSigninInStatus] = useState<BusyState | IdleState>(
-    "CHECKING_FOR_SIGNIN_LINK"
-  );
-  const [
-    initiallyRetrievingTokensFromStorage,
-    setInitiallyRetrievingTokensFromStorage,
-  ] = useState(true);
-  const [tokens, _setTokens] = useState<TokensFromStorage>();
-  const [tokensParsed, setTokensParsed] = useState<{
-    idToken: CognitoIdTokenPayload;
-    accessToken: CognitoAccessTokenPayload;
-    expireAt: Date;
-  }>();
-  const setTokens: typeof _setTokens = useCallback((reactSetStateAction) => {
-    _setTokens((prevState) => {
-      const newTokens =
-        typeof reactSetStateAction === "function"
-          ? reactSetStateAction(prevState)
-          : reactSetStateAction;
-      const { idToken, accessToken, expireAt } = newTokens ?? {};
-      if (idToken && accessToken && expireAt) {
-        setTokensParsed({
-          idToken: parseJwtPayload<CognitoIdTokenPayload>(idToken),
-          accessToken: parseJwtPayload<CognitoAccessTokenPayload>(accessToken),
-          expireAt,
-        });
-      } else {
-        setTokensParsed(undefined);
-      }
-      return newTokens;
-    });
-  }, []);
-  const [lastError, setLastError] = useState<Error>();
-  const [
-    userVerifyingPlatformAuthenticatorAvailable,
-    setUserVerifyingPlatformAuthenticatorAvailable,
-  ] = useState<boolean>();
-  const [creatingCredential, setCreatingCredential] = useState(false);
-  const [fido2Credentials, setFido2Credentials] = useState<Fido2Credential[]>();
-  const updateFido2Credential = useCallback(
-    (update: { credentialId: string } & Partial<Fido2Credential>) =>
-      setFido2Credentials((state) => {
-        if (!state) return state;
-        const index = state.findIndex(
-          (i) => i.credentialId === update.credentialId
-        );
-        if (index === -1) return state;
-        // eslint-disable-next-line security/detect-object-injection
-        state[index] = { ...state[index], ...update };
-        return [...state];
-      }),
-    []
-  );
-  const deleteFido2Credential = useCallback(
-    (credentialId: string) =>
-      setFido2Credentials((state) =>
-        state?.filter(
-          (remainingAuthenticator) =>
-            credentialId !== remainingAuthenticator.credentialId
-        )
-      ),
-    []
-  );
-  const [isSchedulingRefresh, setIsSchedulingRefresh] = useState<boolean>();
-  const [isRefreshingTokens, setIsRefreshingTokens] = useState<boolean>();
+function _usePasswordless(passwordlessStore?: PasswordlessStore) {
+  const [store] = useState(() => passwordlessStore ?? new PasswordlessStore());
+  const state = useSyncExternalStore(store.subscribe, store.getState);
   const [showAuthenticatorManager, setShowAuthenticatorManager] =
     useState(false);
-  const [recheckSignInStatus, setRecheckSignInStatus] = useState(0);
-
-  // At component mount, attempt sign-in with link
-  // This is a no-op, if there's no secret hash in the location bar
-  useEffect(() => {
-    setLastError(undefined);
-    const signingIn = signInWithLink({
-      statusCb: setSigninInStatus,
-      tokensCb: (tokens) => storeTokens(tokens).then(() => setTokens(tokens)),
-    });
-    signingIn.signedIn.catch(setLastError);
-    return signingIn.abort;
-  }, [setTokens]);
-  const busy = busyState.includes(signingInStatus as BusyState);
-
-  // Schedule token refresh
-  const refreshToken = tokens?.refreshToken;
-  const expireAtTime = tokens?.expireAt?.getTime();
-  useEffect(() => {
-    if (refreshToken) {
-      const abort = new AbortController();
-      scheduleRefresh({
-        abort: abort.signal,
-        tokensCb: (newTokens) =>
-          newTokens &&
-          storeTokens(newTokens).then(() =>
-            setTokens((tokens) => ({ ...tokens, ...newTokens }))
-          ),
-        isRefreshingCb: setIsRefreshingTokens,
-      })
-        .catch((err) => {
-          const { debug } = configure();
-          debug?.("Failed to schedule token refresh:", err);
-        })
-        .finally(() => setIsSchedulingRefresh(false));
-      return () => abort.abort();
-    }
-  }, [setTokens, refreshToken, expireAtTime]);
-
-  // If we have some tokens, but not all, attempt a refresh
-  // Should only happen in corner cases, e.g. a developer deleted some keys from storage
-  if (
-    tokens &&
-    (!tokens.idToken || !tokens.accessToken || !tokens.expireAt) &&
-    !isRefreshingTokens &&
-    !isSchedulingRefresh
-  ) {
-    refreshTokens({
-      tokensCb: (newTokens) =>
-        newTokens &&
-        storeTokens(newTokens).then(() =>
-          setTokens((tokens) => ({ ...tokens, ...newTokens }))
-        ),
-      isRefreshingCb: setIsRefreshingTokens,
-    }).catch(() => {
-      setTokens(undefined);
-    });
-  }
-
-  // At component mount, load tokens from storage
-  useEffect(() => {
-    retrieveTokens()
-      .then(setTokens)
-      .catch((err) => {
-        const { debug } = configure();
-        debug?.("Failed to retrieve tokens from storage:", err);
-      })
-      .finally(() => setInitiallyRetrievingTokensFromStorage(false));
-  }, [setTokens]);
-
-  // Give easy access to isUserVerifyingPlatformAuthenticatorAvailable
-  useEffect(() => {
-    if (typeof PublicKeyCredential !== "undefined") {
-      const cancel = new AbortController();
-      PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable()
-        .then((res) => {
-          if (!cancel.signal.aborted) {
-            setUserVerifyingPlatformAuthenticatorAvailable(res);
-          }
-          return () => cancel.abort();
-        })
-        .catch((err) => {
-          const { debug } = configure();
-          debug?.(
-            "Failed to determine if a user verifying platform authenticator is available:",
-            err
-          );
-        });
-    } else {
-      setUserVerifyingPlatformAuthenticatorAvailable(false);
-    }
-  }, []);
-
-  const toFido2Credential = useCallback(
-    (credential: StoredCredential) => {
-      return {
-        ...credential,
-        busy: false,
-        update: async (update: { friendlyName: string }) => {
-          updateFido2Credential({
-            credentialId: credential.credentialId,
-            busy: true,
-          });
-          return fido2UpdateCredential({
-            ...update,
-            credentialId: credential.credentialId,
-          })
-            .catch((err) => {
-              updateFido2Credential({
-                credentialId: credential.credentialId,
-                busy: false,
-              });
-              throw err;
-            })
-            .then(() =>
-              updateFido2Credential({
-                ...update,
-                credentialId: credential.credentialId,
-                busy: false,
-              })
-            );
-        },
-        delete: async () => {
-          updateFido2Credential({
-            credentialId: credential.credentialId,
-            busy: true,
-          });
-          return fido2DeleteCredential({
-            credentialId: credential.credentialId,
-          })
-            .catch((err) => {
-              updateFido2Credential({
-                credentialId: credential.credentialId,
-                busy: false,
-              });
-              throw err;
-            })
-            .then(() => deleteFido2Credential(credential.credentialId));
-        },
-      };
-    },
-    [deleteFido2Credential, updateFido2Credential]
-  );
-
-  // Determine sign-in status
-  const signInStatus = useMemo(() => {
-    recheckSignInStatus; // dummy usage otherwise eslint complains we should remove it from the dep array
-    return tokensParsed && tokensParsed.expireAt.valueOf() >= Date.now()
-      ? ("SIGNED_IN" as const)
-      : tokensParsed && (isSchedulingRefresh || isRefreshingTokens)
-        ? ("REFRESHING_SIGN_IN" as const)
-        : busyState
-              .filter(
-                (state) =>
-                  !["SIGNING_OUT", "CHECKING_FOR_SIGNIN_LINK"].includes(state)
-              )
-              .includes(signingInStatus as BusyState)
-          ? ("SIGNING_IN" as const)
-          : initiallyRetrievingTokensFromStorage ||
-              signingInStatus === "CHECKING_FOR_SIGNIN_LINK"
-            ? ("CHECKING" as const)
-            : signingInStatus === "SIGNING_OUT"
-              ? ("SIGNING_OUT" as const)
-              : ("NOT_SIGNED_IN" as const);
-  }, [
-    tokensParsed,
-    isSchedulingRefresh,
-    isRefreshingTokens,
-    signingInStatus,
-    initiallyRetrievingTokensFromStorage,
-    recheckSignInStatus, // if this increments we should redetermine the signInStatus
-  ]);
-
-  // Check signInStatus upon token expiry
-  useEffect(() => {
-    if (!tokens?.expireAt) return;
-    const checkIn = tokens.expireAt.valueOf() - Date.now();
-    if (checkIn < 0) return;
-    return setTimeoutWallClock(() => {
-      const { debug } = configure();
-      debug?.(
-        "Checking signInStatus as tokens have expired at:",
-        tokens.expireAt?.toISOString()
-      );
-      setRecheckSignInStatus((s) => s + 1);
-    }, checkIn);
-  }, [tokens?.expireAt]);
-
-  // Track FIDO2 authenticators for the user
-  const isSignedIn = signInStatus === "SIGNED_IN";
-  const revalidateFido2Credentials = () => {
-    const cancel = new AbortController();
-    if (isSignedIn) {
-      fido2ListCredentials()
-        .then((res) => {
-          if (!cancel.signal.aborted) {
-            setFido2Credentials(res.authenticators.map(toFido2Credential));
-          }
-        })
-        .catch((err) => {
-          const { debug } = configure();
-          debug?.("Failed to list credentials:", err);
-        });
-      return () => cancel.abort();
-    }
-  };
-  useEffect(revalidateFido2Credentials, [isSignedIn, toFido2Credential]);
 
   return {
-    /** The (raw) tokens: ID token, Access token and Refresh Token */
-    tokens,
-    /** The JSON parsed ID and Access token */
-    tokensParsed,
-    /** Is the UI currently refreshing tokens? */
-    isRefreshingTokens,
+    ...state,
     /** Execute (and reschedule) token refresh */
-    refreshTokens: (abort?: AbortSignal) =>
-      refreshTokens({
-        abort,
-        tokensCb: (newTokens) =>
-          newTokens &&
-          storeTokens(newTokens).then(() =>
-            setTokens((tokens) => ({ ...tokens, ...newTokens }))
-          ),
-        isRefreshingCb: setIsRefreshingTokens,
-      }),
-    /** Last error that occured */
-    lastError,
-    /** The status of the most recent sign-in attempt */
-    signingInStatus,
-    /** Are we currently busy signing in or out? */
-    busy,
-    /**
-     * The overall auth status, e.g. is the user signed in or not?
-     * Use this field to show the relevant UI, e.g. render a sign-in page,
-     * if the status equals "NOT_SIGNED_IN"
-     */
-    signInStatus,
-    /** Is a user verifying platform authenticator available? E.g. Face ID or Touch */
-    userVerifyingPlatformAuthenticatorAvailable,
-    /** The user's registered FIDO2 credentials. Each credential provides `update` and `delete` methods */
-    fido2Credentials,
-    /** Are we currently creating a FIDO2 credential? */
-    creatingCredential,
+    refreshTokens: store.refreshTokens,
     /** Register a FIDO2 credential with the Relying Party */
-    fido2CreateCredential: (
-      ...args: Parameters<typeof fido2CreateCredential>
-    ) => {
-      setCreatingCredential(true);
-      return fido2CreateCredential(...args)
-        .then((storedCredential) => {
-          setFido2Credentials((state) => {
-            const credential = toFido2Credential(storedCredential);
-            return state ? state.concat([credential]) : [credential];
-          });
-          return storedCredential;
-        })
-        .finally(() => setCreatingCredential(false));
-    },
+    fido2CreateCredential: store.fido2CreateCredential,
     /** Sign out */
-    signOut: () => {
-      setLastError(undefined);
-      const signingOut = signOut({
-        statusCb: setSigninInStatus,
-        tokensRemovedLocallyCb: () => {
-          setTokens(undefined);
-          setTokensParsed(undefined);
-          setFido2Credentials(undefined);
-        },
-        currentStatus: signingInStatus,
-      });
-      signingOut.signedOut.catch(setLastError);
-      return signingOut;
-    },
+    signOut: store.signOut,
     /** Request a sign-in link ("magic link") to be sent to the user's e-mail address */
-    requestSignInLink: ({
-      username,
-      redirectUri,
-    }: {
-      username: string;
-      redirectUri?: string;
-    }) => {
-      setLastError(undefined);
-      const requesting = requestSignInLink({
-        username,
-        redirectUri,
-        statusCb: setSigninInStatus,
-        currentStatus: signingInStatus,
-      });
-      requesting.signInLinkRequested.catch(setLastError);
-      return requesting;
-    },
+    requestSignInLink: store.requestSignInLink,
+    /**
+     * Request a sign-in link ("magic link") to be sent to the user's e-mail address,
+     * that may be opened on any device, to sign the user in on this device
+     */
+    requestSignInLinkWithRemoteApproval:
+      store.requestSignInLinkWithRemoteApproval,
+    /** Approve (or decline) the sign-in of the other device that requested the sign-in link, that was opened on this device */
+    confirmSignInLinkApproval: store.confirmSignInLinkApproval,
     /** Sign in with FIDO2 (e.g. Face ID or Touch) */
-    authenticateWithFido2: ({
-      username,
-      credentials,
-      clientMetadata,
-    }: {
-      /**
-       * Username, or alias (e-mail, phone number)
-       */
-      username?: string;
-      credentials?: { id: string; transports?: AuthenticatorTransport[] }[];
-      clientMetadata?: Record<string, string>;
-    } = {}) => {
-      setLastError(undefined);
-      const signinIn = authenticateWithFido2({
-        username,
-        credentials,
-        clientMetadata,
-        statusCb: setSigninInStatus,
-        tokensCb: (tokens) => storeTokens(tokens).then(() => setTokens(tokens)),
-      });
-      signinIn.signedIn.catch(setLastError);
-      return signinIn;
-    },
+    authenticateWithFido2: store.authenticateWithFido2,
+    /** Sign a transaction (e.g. a payment the user must approve) with FIDO2. The ID token that is issued carries the hash of the transaction */
+    signTransactionWithFido2: store.signTransactionWithFido2,
     /** Sign in with username and password (using SRP: Secure Remote Password, where the password isn't sent over the wire) */
-    authenticateWithSRP: ({
-      username,
-      password,
-      smsMfaCode,
-      otpMfaCode,
-      clientMetadata,
-    }: {
-      /**
-       * Username, or alias (e-mail, phone number)
-       */
-      username: string;
-      password: string;
-      smsMfaCode?: () => Promise<string>;
-      otpMfaCode?: () => Promise<string>;
-      clientMetadata?: Record<string, string>;
-    }) => {
-      setLastError(undefined);
-      const signinIn = authenticateWithSRP({
-        username,
-        password,
-        smsMfaCode,
-        otpMfaCode,
-        clientMetadata,
-        statusCb: setSigninInStatus,
-        tokensCb: (tokens) => storeTokens(tokens).then(() => setTokens(tokens)),
-      });
-      signinIn.signedIn.catch(setLastError);
-      return signinIn;
-    },
+    authenticateWithSRP: store.authenticateWithSRP,
     /** Sign in with username and password (the password is sent in plaintext over the wire) */
-    authenticateWithPlaintextPassword: ({
-      username,
-      password,
-      smsMfaCode,
-      otpMfaCode,
-      clientMetadata,
-    }: {
-      /**
-       * Username, or alias (e-mail, phone number)
-       */
-      username: string;
-      password: string;
-      smsMfaCode?: () => Promise<string>;
-      otpMfaCode?: () => Promise<string>;
-      clientMetadata?: Record<string, string>;
-    }) => {
-      setLastError(undefined);
-      const signinIn = authenticateWithPlaintextPassword({
-        username,
-        password,
-        smsMfaCode,
-        otpMfaCode,
-        clientMetadata,
-        statusCb: setSigninInStatus,
-        tokensCb: (tokens) => storeTokens(tokens).then(() => setTokens(tokens)),
-      });
-      signinIn.signedIn.catch(setLastError);
-      return signinIn;
-    },
+    authenticateWithPlaintextPassword: store.authenticateWithPlaintextPassword,
     /** Sign-in again, using the user's current tokens (JWTs) and an OTP (One Time Password) that is sent to the user via SMS */
-    stepUpAuthenticationWithSmsOtp: ({
-      username,
-      smsMfaCode,
-      clientMetadata,
-    }: {
-      /**
-       * Username, or alias (e-mail, phone number)
-       */
-      username: string;
-      smsMfaCode: (phoneNumber: string, attempt: number) => Promise<string>;
-      clientMetadata?: Record<string, string>;
-    }) => {
-      setLastError(undefined);
-      const signinIn = stepUpAuthenticationWithSmsOtp({
-        username,
-        smsMfaCode,
-        clientMetadata,
-        statusCb: setSigninInStatus,
-        tokensCb: (tokens) => storeTokens(tokens).then(() => setTokens(tokens)),
-      });
-      signinIn.signedIn.catch(setLastError);
-      return signinIn;
-    },
+    stepUpAuthenticationWithSmsOtp: store.stepUpAuthenticationWithSmsOtp,
+    /** Sign-in again, using the user's current tokens (JWTs) and FIDO2 (with user verification), e.g. before a sensitive operation */
+    stepUpAuthenticationWithFido2: store.stepUpAuthenticationWithFido2,
+    /** Sign in with an OTP (One Time Password) that is sent to the user via SMS, as first factor (no prior sign-in needed) */
+    authenticateWithSmsOtp: store.authenticateWithSmsOtp,
+    /** Sign in with an OTP (One Time Password) that is sent to the user via e-mail */
+    authenticateWithEmailOtp: store.authenticateWithEmailOtp,
+    /** Sign in with multiple factors (e.g. a magic link, followed by an SMS OTP), as required by the multi-factor policy in the back-end */
+    authenticateWithMultipleFactors: store.authenticateWithMultipleFactors,
+    /** Sign in with a one-time recovery code, e.g. because the user lost their FIDO2 credentials */
+    authenticateWithRecoveryCode: store.authenticateWithRecoveryCode,
     /** Should the FIDO2 credential manager UI component be shown? */
     showAuthenticatorManager,
     /** Toggle showing the FIDO2 credential manager UI component */
@@ -590,47 +144,6 @@ function _usePasswordless() {
   };
 }
 
-/** User Details stored in your configured storage (e.g. localStorage) */
-type StoredUser = {
-  username: string;
-  email?: string;
-  useFido?: "YES" | "NO" | "ASK";
-  credentials?: { id: string; transports?: AuthenticatorTransport[] }[];
-};
-
-/** Retrieve the last signed in users from your configured storage (e.g. localStorage) */
-async function getLastSignedInUsers() {
-  const { clientId, storage } = configure();
-  const lastUsers = await storage.getItem(`Passwordless.${clientId}.lastUsers`);
-  if (!lastUsers) return [];
-  const users = JSON.parse(lastUsers) as StoredUser[];
-  return users;
-}
-
-/** Clear the last signed in users from your configured storage (e.g. localStorage) */
-async function clearLastSignedInUsers() {
-  const { clientId, storage } = configure();
-  await storage.removeItem(`Passwordless.${clientId}.lastUsers`);
-}
-
-/** Register a signed in user in your configured storage (e.g. localStorage) */
-async function registerSignedInUser(user: StoredUser) {
-  const { clientId, debug, storage } = configure();
-  debug?.(`Registering user in storage: ${JSON.stringify(user)}`);
-  const lastUsers = await getLastSignedInUsers();
-  const index = lastUsers.findIndex(
-    (lastUser) => lastUser.username === user.username
-  );
-  if (index !== -1) {
-    lastUsers.splice(index, 1);
-  }
-  lastUsers.unshift(user);
-  await storage.setItem(
-    `Passwordless.${clientId}.lastUsers`,
-    JSON.stringify(lastUsers.slice(0, 10))
-  );
-}
-
 type UseLocalUserCache = ReturnType<typeof _useLocalUserCache>;
 function _useLocalUserCache() {
   const {
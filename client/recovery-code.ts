@@ -0,0 +1,111 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { configure } from "./config.js";
+import { IdleState, BusyState, TokensFromSignIn, busyState } from "./model.js";
+import {
+  assertIsChallengeResponse,
+  assertIsAuthenticatedResponse,
+  initiateAuth,
+  respondToAuthChallenge,
+} from "./cognito-api.js";
+import { defaultTokensCb } from "./common.js";
+import { parseJwtPayload } from "./util.js";
+import { CognitoIdTokenPayload } from "./jwt-model.js";
+
+/**
+ * Sign in with one of the user's one-time recovery codes, e.g. because they lost their FIDO2 credentials.
+ * Each recovery code can only be used once
+ */
+export function authenticateWithRecoveryCode({
+  username,
+  recoveryCode,
+  tokensCb,
+  statusCb,
+  currentStatus,
+  clientMetadata,
+}: {
+  /**
+   * Username, or alias (e-mail, phone number)
+   */
+  username: string;
+  recoveryCode: string;
+  tokensCb?: (tokens: TokensFromSignIn) => void | Promise<void>;
+  statusCb?: (status: BusyState | IdleState) => void;
+  currentStatus?: BusyState | IdleState;
+  clientMetadata?: Record<string, string>;
+}) {
+  if (currentStatus && busyState.includes(currentStatus as BusyState)) {
+    throw new Error(`Can't sign in while in status ${currentStatus}`);
+  }
+  const abort = new AbortController();
+  const signedIn = (async () => {
+    const { debug } = configure();
+    statusCb?.("SIGNING_IN_WITH_RECOVERY_CODE");
+    try {
+      debug?.(`Invoking initiateAuth ...`);
+      const initAuthResponse = await initiateAuth({
+        authflow: "CUSTOM_AUTH",
+        authParameters: {
+          USERNAME: username,
+        },
+        abort: abort.signal,
+      });
+      debug?.(`Response from initiateAuth:`, initAuthResponse);
+      assertIsChallengeResponse(initAuthResponse);
+      username = initAuthResponse.ChallengeParameters.USERNAME; // switch to non-alias if necessary
+      debug?.(`Invoking respondToAuthChallenge ...`);
+      const authResult = await respondToAuthChallenge({
+        challengeName: "CUSTOM_CHALLENGE",
+        challengeResponses: {
+          ANSWER: recoveryCode,
+          USERNAME: username,
+        },
+        clientMetadata: {
+          ...clientMetadata,
+          signInMethod: "RECOVERY_CODE",
+          // The back-end consumes the code when it issues tokens, and only gets the clientMetadata then
+          recoveryCode,
+        },
+        session: initAuthResponse.Session,
+        abort: abort.signal,
+      });
+      debug?.(`Response from respondToAuthChallenge:`, authResult);
+      assertIsAuthenticatedResponse(authResult);
+      const tokens = {
+        accessToken: authResult.AuthenticationResult.AccessToken,
+        idToken: authResult.AuthenticationResult.IdToken,
+        refreshToken: authResult.AuthenticationResult.RefreshToken,
+        expireAt: new Date(
+          Date.now() + authResult.AuthenticationResult.ExpiresIn * 1000
+        ),
+        username: parseJwtPayload<CognitoIdTokenPayload>(
+          authResult.AuthenticationResult.IdToken
+        )["cognito:username"],
+      };
+      tokensCb
+        ? await tokensCb(tokens)
+        : await defaultTokensCb({ tokens, abort: abort.signal });
+      statusCb?.("SIGNED_IN_WITH_RECOVERY_CODE");
+      return tokens;
+    } catch (err) {
+      statusCb?.("RECOVERY_CODE_SIGNIN_FAILED");
+      throw err;
+    }
+  })();
+  return {
+    signedIn,
+    abort: () => abort.abort(),
+  };
+}
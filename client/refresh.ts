@@ -15,8 +15,10 @@
 import { configure } from "./config.js";
 import { TokensFromRefresh } from "./model.js";
 import { retrieveTokens, TokensFromStorage } from "./storage.js";
-import { initiateAuth } from "./cognito-api.js";
-import { setTimeoutWallClock } from "./util.js";
+import { initiateAuth, refreshTokensWithBff } from "./cognito-api.js";
+import { parseJwtPayload, setTimeoutWallClock } from "./util.js";
+import { CognitoIdTokenPayload } from "./jwt-model.js";
+import { isTabSyncEnabled, withRefreshLock } from "./tab-sync.js";
 
 let schedulingRefresh: ReturnType<typeof _scheduleRefresh> | undefined =
   undefined;
@@ -106,10 +108,14 @@ async function _refreshTokens({
 }): Promise<TokensFromRefresh> {
   isRefreshingCb?.(true);
   try {
-    const { debug } = configure();
+    const { debug, bff } = configure();
     if (!tokens) {
       tokens = await retrieveTokens();
     }
+    if (bff) {
+      // Cookie mode: the BFF has the refresh token
+      return await refreshWithBff({ abort, tokensCb, tokens });
+    }
     const { refreshToken, username } = tokens ?? {};
     if (!refreshToken || !username) {
       throw new Error("Cannot refresh without refresh token and username");
@@ -119,28 +125,118 @@ async function _refreshTokens({
         `Will not attempt refresh using token that failed previously: ${refreshToken}`
       );
     }
-    debug?.("Refreshing tokens using refresh token ...");
-    const authResult = await initiateAuth({
-      authflow: "REFRESH_TOKEN_AUTH",
-      authParameters: {
-        REFRESH_TOKEN: refreshToken,
-      },
-      abort,
-    }).catch((err) => {
-      invalidRefreshTokens.add(refreshToken);
-      throw err;
+    const expireAt = tokens?.expireAt;
+    // With tab sync, only one tab at a time refreshes tokens (the others wait for it, and then use its tokens)
+    return await withRefreshLock(async () => {
+      if (isTabSyncEnabled()) {
+        const tokensFromOtherTab = await getTokensRefreshedByOtherTab({
+          refreshToken,
+          expireAt,
+        });
+        if (tokensFromOtherTab) {
+          debug?.("Using tokens that were refreshed in another tab");
+          await tokensCb?.(tokensFromOtherTab);
+          return tokensFromOtherTab;
+        }
+      }
+      debug?.("Refreshing tokens using refresh token ...");
+      const authResult = await initiateAuth({
+        authflow: "REFRESH_TOKEN_AUTH",
+        authParameters: {
+          REFRESH_TOKEN: refreshToken,
+        },
+        abort,
+      }).catch((err) => {
+        invalidRefreshTokens.add(refreshToken);
+        throw err;
+      });
+      const tokensFromRefresh: TokensFromRefresh = {
+        accessToken: authResult.AuthenticationResult.AccessToken,
+        idToken: authResult.AuthenticationResult.IdToken,
+        expireAt: new Date(
+          Date.now() + authResult.AuthenticationResult.ExpiresIn * 1000
+        ),
+        username,
+      };
+      // Store the tokens while we still hold the lock, so other tabs can use them
+      await tokensCb?.(tokensFromRefresh);
+      return tokensFromRefresh;
     });
+  } finally {
+    isRefreshingCb?.(false);
+  }
+}
+
+/**
+ * Refresh tokens in cookie mode: the BFF uses the refresh token from its HttpOnly cookie.
+ * This also works without any tokens in storage (e.g. at page load), if the cookie is still valid
+ */
+async function refreshWithBff({
+  abort,
+  tokensCb,
+  tokens,
+}: {
+  abort?: AbortSignal;
+  tokensCb?: (res: TokensFromRefresh) => void | Promise<void>;
+  tokens?: TokensForRefresh;
+}) {
+  const { debug } = configure();
+  return withRefreshLock(async () => {
+    if (isTabSyncEnabled() && tokens) {
+      const tokensFromOtherTab = await getTokensRefreshedByOtherTab({
+        expireAt: tokens.expireAt,
+      });
+      if (tokensFromOtherTab) {
+        debug?.("Using tokens that were refreshed in another tab");
+        await tokensCb?.(tokensFromOtherTab);
+        return tokensFromOtherTab;
+      }
+    }
+    debug?.("Refreshing tokens using BFF ...");
+    const authResult = await refreshTokensWithBff({ abort });
     const tokensFromRefresh: TokensFromRefresh = {
       accessToken: authResult.AuthenticationResult.AccessToken,
       idToken: authResult.AuthenticationResult.IdToken,
       expireAt: new Date(
         Date.now() + authResult.AuthenticationResult.ExpiresIn * 1000
       ),
-      username,
+      username: parseJwtPayload<CognitoIdTokenPayload>(
+        authResult.AuthenticationResult.IdToken
+      )["cognito:username"],
     };
     await tokensCb?.(tokensFromRefresh);
     return tokensFromRefresh;
-  } finally {
-    isRefreshingCb?.(false);
+  });
+}
+
+/**
+ * Check storage for tokens that another tab refreshed (after we started our refresh).
+ * Throws if the other tab signed out
+ */
+async function getTokensRefreshedByOtherTab({
+  refreshToken,
+  expireAt,
+}: {
+  /** Undefined in cookie mode */
+  refreshToken?: string;
+  expireAt?: Date;
+}): Promise<TokensFromRefresh | undefined> {
+  const stored = await retrieveTokens();
+  if (!stored || stored.refreshToken !== refreshToken) {
+    throw new Error("Cannot refresh: signed out (in another tab)");
+  }
+  if (
+    stored.accessToken &&
+    stored.idToken &&
+    stored.expireAt &&
+    expireAt &&
+    stored.expireAt > expireAt
+  ) {
+    return {
+      accessToken: stored.accessToken,
+      idToken: stored.idToken,
+      expireAt: stored.expireAt,
+      username: stored.username,
+    };
   }
 }
@@ -25,6 +25,7 @@ import { defaultTokensCb } from "./common.js";
 import { parseJwtPayload } from "./util.js";
 import { CognitoIdTokenPayload } from "./jwt-model.js";
 import { retrieveTokens } from "./storage.js";
+import { Factor, isFactorStart } from "./multi-factor.js";
 
 export function stepUpAuthenticationWithSmsOtp({
   username,
@@ -154,3 +155,147 @@ export function stepUpAuthenticationWithSmsOtp({
     abort: () => abort.abort(),
   };
 }
+
+export function authenticateWithSmsOtp({
+  username,
+  smsOtpCode,
+  tokensCb,
+  statusCb,
+  currentStatus,
+  clientMetadata,
+}: {
+  /**
+   * Username, or alias (e-mail, phone number)
+   */
+  username: string;
+  /**
+   * Function that should return the OTP the user received by SMS.
+   * Is invoked again with an incremented attempt number if the user keyed in a wrong code
+   */
+  smsOtpCode: (phoneNumber: string, attempt: number) => Promise<string>;
+  tokensCb?: (tokens: TokensFromSignIn) => void | Promise<void>;
+  statusCb?: (status: BusyState | IdleState) => void;
+  currentStatus?: BusyState | IdleState;
+  clientMetadata?: Record<string, string>;
+}) {
+  if (currentStatus && busyState.includes(currentStatus as BusyState)) {
+    throw new Error(`Can't sign in while in status ${currentStatus}`);
+  }
+  const abort = new AbortController();
+  const signedIn = (async () => {
+    const { debug } = configure();
+    statusCb?.("SIGNING_IN_WITH_SMS_OTP");
+    try {
+      debug?.(`Invoking initiateAuth ...`);
+      const initAuthResponse = await initiateAuth({
+        authflow: "CUSTOM_AUTH",
+        authParameters: {
+          USERNAME: username,
+        },
+        abort: abort.signal,
+      });
+      debug?.(`Response from initiateAuth:`, initAuthResponse);
+      assertIsChallengeResponse(initAuthResponse);
+      username = initAuthResponse.ChallengeParameters.USERNAME; // switch to non-alias if necessary
+      debug?.(`Invoking respondToAuthChallenge ...`);
+      let authResult = await respondToAuthChallenge({
+        challengeName: "CUSTOM_CHALLENGE",
+        challengeResponses: {
+          ANSWER: "__dummy__",
+          USERNAME: username,
+        },
+        clientMetadata: {
+          ...clientMetadata,
+          signInMethod: "SMS_OTP",
+        },
+        session: initAuthResponse.Session,
+        abort: abort.signal,
+      });
+      debug?.(`Response from respondToAuthChallenge:`, authResult);
+      assertIsChallengeResponse(authResult);
+      const phoneNumberWithOtp = authResult.ChallengeParameters.phoneNumber;
+      let attempt = 1;
+      for (;;) {
+        const secretCode = await smsOtpCode(phoneNumberWithOtp, attempt);
+        debug?.(`Invoking respondToAuthChallenge ...`);
+        authResult = await respondToAuthChallenge({
+          challengeName: "CUSTOM_CHALLENGE",
+          challengeResponses: {
+            ANSWER: secretCode,
+            USERNAME: username,
+          },
+          clientMetadata: {
+            ...clientMetadata,
+            signInMethod: "SMS_OTP",
+          },
+          session: authResult.Session,
+          abort: abort.signal,
+        });
+        debug?.(`Response from respondToAuthChallenge:`, authResult);
+        if (!isChallengeResponse(authResult)) {
+          break;
+        }
+        attempt++;
+      }
+      assertIsAuthenticatedResponse(authResult);
+      const tokens = {
+        accessToken: authResult.AuthenticationResult.AccessToken,
+        idToken: authResult.AuthenticationResult.IdToken,
+        refreshToken: authResult.AuthenticationResult.RefreshToken,
+        expireAt: new Date(
+          Date.now() + authResult.AuthenticationResult.ExpiresIn * 1000
+        ),
+        username: parseJwtPayload<CognitoIdTokenPayload>(
+          authResult.AuthenticationResult.IdToken
+        )["cognito:username"],
+      };
+      tokensCb
+        ? await tokensCb(tokens)
+        : await defaultTokensCb({ tokens, abort: abort.signal });
+      statusCb?.("SIGNED_IN_WITH_SMS_OTP");
+      return tokens;
+    } catch (err) {
+      statusCb?.("SIGNIN_WITH_OTP_FAILED");
+      throw err;
+    }
+  })();
+  return {
+    signedIn,
+    abort: () => abort.abort(),
+  };
+}
+
+/**
+ * Sign in with an OTP (One Time Password) that is sent to the user via SMS, as factor of a multi-factor sign-in (see `authenticateWithMultipleFactors()`)
+ */
+export function smsOtpFactor({
+  smsOtpCode,
+}: {
+  /**
+   * Function that should return the OTP the user received by SMS.
+   * Is invoked again with an incremented attempt number if the user keyed in a wrong code
+   */
+  smsOtpCode: (phoneNumber: string, attempt: number) => Promise<string>;
+}): Factor {
+  return {
+    signInMethod: "SMS_OTP",
+    complete: async ({ challenge, respond }) => {
+      let authResult = await respond({
+        answer: "__dummy__",
+        session: challenge.Session,
+      });
+      assertIsChallengeResponse(authResult);
+      const phoneNumber = authResult.ChallengeParameters.phoneNumber;
+      for (let attempt = 1; ; attempt++) {
+        authResult = await respond({
+          answer: await smsOtpCode(phoneNumber, attempt),
+          session: authResult.Session,
+        });
+        // Another challenge for this factor means the code was wrong, otherwise the factor is complete
+        if (!isChallengeResponse(authResult) || isFactorStart(authResult)) {
+          return authResult;
+        }
+      }
+    },
+  };
+}
@@ -14,6 +14,7 @@
  */
 import { parseJwtPayload } from "./util.js";
 import { configure } from "./config.js";
+import { broadcastTabSyncMessage } from "./tab-sync.js";
 import {
   CognitoIdTokenPayload,
   CognitoAccessTokenPayload,
@@ -33,7 +34,15 @@ export interface TokensFromStorage {
   username: string;
 }
 
-export async function storeTokens(tokens: TokensToStore) {
+/**
+ * Store the tokens, and notify other tabs (if tab sync is enabled) of the sign-in or refresh.
+ * The caller tells which of these it is: it can't be derived from the tokens,
+ * e.g. in cookie mode (BFF) sign-ins don't come with a refresh token either
+ */
+export async function storeTokens(
+  tokens: TokensToStore,
+  tabSyncEvent: "SIGNED_IN" | "TOKENS_REFRESHED"
+) {
   const { clientId, storage } = configure();
   const {
     sub,
@@ -93,6 +102,7 @@ export async function storeTokens(tokens: TokensToStore) {
     )
   );
   await Promise.all(promises.filter((p) => !!p));
+  broadcastTabSyncMessage({ type: tabSyncEvent });
 }
 
 export async function retrieveTokens(): Promise<TokensFromStorage | undefined> {
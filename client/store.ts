@@ -0,0 +1,907 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { signOut } from "./common.js";
+import { parseJwtPayload, setTimeoutWallClock } from "./util.js";
+import {
+  signInWithLink,
+  requestSignInLink,
+  requestSignInLinkWithRemoteApproval,
+} from "./magic-link.js";
+import {
+  fido2CreateCredential,
+  fido2DeleteCredential,
+  fido2ListCredentials,
+  fido2UpdateCredential,
+  StoredCredential,
+  authenticateWithFido2,
+  signTransactionWithFido2,
+  stepUpAuthenticationWithFido2,
+} from "./fido2.js";
+import { authenticateWithSRP } from "./srp.js";
+import { authenticateWithPlaintextPassword } from "./plaintext.js";
+import {
+  stepUpAuthenticationWithSmsOtp,
+  authenticateWithSmsOtp,
+} from "./sms-otp-stepup.js";
+import { authenticateWithEmailOtp } from "./email-otp.js";
+import { authenticateWithRecoveryCode } from "./recovery-code.js";
+import { authenticateWithMultipleFactors, Factor } from "./multi-factor.js";
+import { configure } from "./config.js";
+import {
+  retrieveTokens,
+  storeTokens,
+  TokensFromStorage,
+  TokensToStore,
+} from "./storage.js";
+import {
+  BusyState,
+  IdleState,
+  busyState,
+  isValidTransition,
+  TokensFromRefresh,
+} from "./model.js";
+import { scheduleRefresh, refreshTokens } from "./refresh.js";
+import { addTabSyncListener } from "./tab-sync.js";
+import {
+  CognitoAccessTokenPayload,
+  CognitoIdTokenPayload,
+} from "./jwt-model.js";
+
+/** A FIDO2 credential (e.g. Face ID or Touch), with convenient methods for updating and deleting */
+export type Fido2Credential = StoredCredential & {
+  /** Update the friendly name of the credential */
+  update: (update: { friendlyName: string }) => Promise<void>;
+  /** Delete the credential */
+  delete: () => Promise<void>;
+  /** The credential is currently being updated or deleted */
+  busy: boolean;
+};
+
+/** The overall auth status, e.g. is the user signed in or not? */
+export type SignInStatus =
+  | "SIGNED_IN"
+  | "REFRESHING_SIGN_IN"
+  | "SIGNING_IN"
+  | "CHECKING"
+  | "SIGNING_OUT"
+  | "NOT_SIGNED_IN";
+
+export interface PasswordlessState {
+  /** The (raw) tokens: ID token, Access token and Refresh Token */
+  tokens: TokensFromStorage | undefined;
+  /** The JSON parsed ID and Access token */
+  tokensParsed:
+    | {
+        idToken: CognitoIdTokenPayload;
+        accessToken: CognitoAccessTokenPayload;
+        expireAt: Date;
+      }
+    | undefined;
+  /** Is the UI currently refreshing tokens? */
+  isRefreshingTokens: boolean | undefined;
+  /** Last error that occured */
+  lastError: Error | undefined;
+  /** The status of the most recent sign-in attempt */
+  signingInStatus: BusyState | IdleState;
+  /** Are we currently busy signing in or out? */
+  busy: boolean;
+  /**
+   * The overall auth status, e.g. is the user signed in or not?
+   * Use this field to show the relevant UI, e.g. render a sign-in page,
+   * if the status equals "NOT_SIGNED_IN"
+   */
+  signInStatus: SignInStatus;
+  /** Is a user verifying platform authenticator available? E.g. Face ID or Touch */
+  userVerifyingPlatformAuthenticatorAvailable: boolean | undefined;
+  /** The user's registered FIDO2 credentials. Each credential provides `update` and `delete` methods */
+  fido2Credentials: Fido2Credential[] | undefined;
+  /** Are we currently creating a FIDO2 credential? */
+  creatingCredential: boolean;
+}
+
+type PasswordlessStoreListener = (state: PasswordlessState) => void;
+
+/**
+ * Framework-agnostic, observable store with the Passwordless sign-in state: sign-in status, tokens, FIDO2 credentials, etc.
+ *
+ * The `signingInStatus` is a state machine, that moves between busy and idle states as sign-in attempts progress.
+ * Only the transitions that are valid per `isValidTransition` are made. The overall `signInStatus` is derived from it,
+ * together with the tokens, which are parsed, refreshed before they expire, and rechecked upon expiry.
+ *
+ * The store starts when it gets its first subscriber (it then checks for a sign-in link in the location bar,
+ * loads tokens from storage and schedules token refreshes), and stops when it loses its last subscriber.
+ * This is what the framework bindings (e.g. React, Vue, Svelte) are built on, but it can be used directly too
+ */
+export class PasswordlessStore {
+  private state: PasswordlessState = {
+    tokens: undefined,
+    tokensParsed: undefined,
+    isRefreshingTokens: undefined,
+    lastError: undefined,
+    signingInStatus: "CHECKING_FOR_SIGNIN_LINK",
+    busy: true,
+    signInStatus: "CHECKING",
+    userVerifyingPlatformAuthenticatorAvailable: undefined,
+    fido2Credentials: undefined,
+    creatingCredential: false,
+  };
+  private initiallyRetrievingTokensFromStorage = true;
+  private isSchedulingRefresh?: boolean;
+  private listeners = new Set<PasswordlessStoreListener>();
+  private running?: {
+    stop: (() => void)[];
+    refreshKey?: string;
+    abortRefresh?: () => void;
+    recheckAt?: number;
+    clearRecheck?: () => void;
+    abortListCredentials?: () => void;
+  };
+  /** A pending conditional (autofill UI) FIDO2 sign-in, that must be aborted before starting another FIDO2 sign-in */
+  private abortConditionalFido2SignIn?: () => void;
+  /** Settles the pending confirmation of a sign-in link with remote approval, see `confirmSignInLinkApproval` */
+  private settleSignInLinkApproval?: (approved: boolean) => void;
+
+  /** The current state */
+  getState = () => this.state;
+
+  /**
+   * Subscribe to state changes. Returns a function to unsubscribe.
+   * The store starts with the first subscriber, and stops when the last one unsubscribes
+   */
+  subscribe = (listener: PasswordlessStoreListener) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.start();
+    return () => {
+      this.listeners.delete(listener);
+      if (!this.listeners.size) this.stop();
+    };
+  };
+
+  private start() {
+    this.running = { stop: [] };
+    this.initiallyRetrievingTokensFromStorage = true;
+    this.update({ lastError: undefined });
+    this.setSigningInStatus("CHECKING_FOR_SIGNIN_LINK");
+
+    // Attempt sign-in with link
+    // This is a no-op, if there's no secret hash in the location bar
+    // If the link approves the sign-in of another device, wait for the user to confirm that (see confirmSignInLinkApproval)
+    const signingIn = signInWithLink({
+      statusCb: this.setSigningInStatus,
+      tokensCb: this.storeAndSetTokens,
+      confirmRemoteApproval: () =>
+        new Promise<boolean>((resolve) => {
+          this.settleSignInLinkApproval = resolve;
+        }),
+    });
+    signingIn.signedIn.catch(this.setLastError);
+    this.running.stop.push(signingIn.abort);
+
+    // Load tokens from storage
+    // In cookie mode, if there are no tokens in storage, the BFF might still have a session for us
+    retrieveTokens()
+      .then(async (tokens) => {
+        if (tokens || !configure().bff) return tokens;
+        return refreshTokens({
+          tokensCb: (tokens) =>
+            tokens && storeTokens(tokens, "TOKENS_REFRESHED"),
+          isRefreshingCb: this.setIsRefreshingTokens,
+        }).then(retrieveTokens, (err) => {
+          const { debug } = configure();
+          debug?.("No session to restore from BFF:", err);
+          return undefined;
+        });
+      })
+      .then(this.setTokens)
+      .catch((err) => {
+        const { debug } = configure();
+        debug?.("Failed to retrieve tokens from storage:", err);
+      })
+      .finally(() => {
+        this.initiallyRetrievingTokensFromStorage = false;
+        this.update({});
+      });
+
+    // Follow sign-in, sign-out and token refreshes in other tabs
+    // This is a no-op, unless tab sync is enabled with configure({ tabSync: true })
+    this.running.stop.push(
+      addTabSyncListener((message) => {
+        if (message.type === "SIGNED_OUT") {
+          this.setTokens(undefined);
+          this.update({ fido2Credentials: undefined });
+          this.setSigningInStatus("SIGNED_OUT");
+          return;
+        }
+        retrieveTokens()
+          .then(this.setTokens)
+          .catch((err) => {
+            const { debug } = configure();
+            debug?.("Failed to retrieve tokens from storage:", err);
+          });
+      })
+    );
+
+    // Give easy access to isUserVerifyingPlatformAuthenticatorAvailable
+    if (typeof PublicKeyCredential !== "undefined") {
+      const cancel = new AbortController();
+      PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable()
+        .then((res) => {
+          if (!cancel.signal.aborted) {
+            this.update({ userVerifyingPlatformAuthenticatorAvailable: res });
+          }
+        })
+        .catch((err) => {
+          const { debug } = configure();
+          debug?.(
+            "Failed to determine if a user verifying platform authenticator is available:",
+            err
+          );
+        });
+      this.running.stop.push(() => cancel.abort());
+    } else {
+      this.update({ userVerifyingPlatformAuthenticatorAvailable: false });
+    }
+  }
+
+  private stop() {
+    const running = this.running;
+    if (!running) return;
+    this.running = undefined;
+    running.stop.forEach((stop) => stop());
+    this.confirmSignInLinkApproval(false);
+    running.abortRefresh?.();
+    running.clearRecheck?.();
+    running.abortListCredentials?.();
+  }
+
+  /** Apply a state update, derive the sign-in status, (re)schedule background work, and notify subscribers */
+  private update(update: Partial<PasswordlessState>) {
+    const previous = this.state;
+    const next = { ...previous, ...update };
+    next.busy = busyState.includes(next.signingInStatus as BusyState);
+    next.signInStatus = this.determineSignInStatus(next);
+    this.state = next;
+    this.reconcile();
+    if (this.state === next) {
+      this.listeners.forEach((listener) => listener(next));
+    }
+  }
+
+  private determineSignInStatus({
+    tokensParsed,
+    isRefreshingTokens,
+    signingInStatus,
+  }: PasswordlessState): SignInStatus {
+    return tokensParsed && tokensParsed.expireAt.valueOf() >= Date.now()
+      ? "SIGNED_IN"
+      : tokensParsed && (this.isSchedulingRefresh || isRefreshingTokens)
+        ? "REFRESHING_SIGN_IN"
+        : busyState
+              .filter(
+                (state) =>
+                  !["SIGNING_OUT", "CHECKING_FOR_SIGNIN_LINK"].includes(state)
+              )
+              .includes(signingInStatus as BusyState)
+          ? "SIGNING_IN"
+          : this.initiallyRetrievingTokensFromStorage ||
+              signingInStatus === "CHECKING_FOR_SIGNIN_LINK"
+            ? "CHECKING"
+            : signingInStatus === "SIGNING_OUT"
+              ? "SIGNING_OUT"
+              : "NOT_SIGNED_IN";
+  }
+
+  /** Start or stop background work (token refresh, status recheck, listing credentials) to match the current state */
+  private reconcile() {
+    const running = this.running;
+    if (!running) return;
+    const { tokens, signInStatus } = this.state;
+
+    // Schedule token refresh
+    // In cookie mode there's no refresh token in storage (the BFF has it), but we can refresh nonetheless
+    const canRefresh =
+      !!tokens?.refreshToken || (!!tokens && !!configure().bff);
+    const refreshKey = canRefresh
+      ? `${tokens?.refreshToken}|${tokens?.expireAt?.valueOf()}`
+      : undefined;
+    if (refreshKey !== running.refreshKey) {
+      running.refreshKey = refreshKey;
+      running.abortRefresh?.();
+      running.abortRefresh = undefined;
+      if (refreshKey) {
+        const abort = new AbortController();
+        running.abortRefresh = () => abort.abort();
+        this.isSchedulingRefresh = true;
+        scheduleRefresh({
+          abort: abort.signal,
+          tokensCb: this.storeAndMergeTokens,
+          isRefreshingCb: this.setIsRefreshingTokens,
+        })
+          .catch((err) => {
+            const { debug } = configure();
+            debug?.("Failed to schedule token refresh:", err);
+          })
+          .finally(() => {
+            this.isSchedulingRefresh = false;
+            this.update({});
+          });
+      }
+    }
+
+    // If we have some tokens, but not all, attempt a refresh
+    // Should only happen in corner cases, e.g. a developer deleted some keys from storage
+    if (
+      tokens &&
+      (!tokens.idToken || !tokens.accessToken || !tokens.expireAt) &&
+      !this.state.isRefreshingTokens &&
+      !this.isSchedulingRefresh
+    ) {
+      refreshTokens({
+        tokensCb: this.storeAndMergeTokens,
+        isRefreshingCb: this.setIsRefreshingTokens,
+      }).catch(() => {
+        this.setTokens(undefined);
+      });
+    }
+
+    // Check signInStatus upon token expiry
+    const recheckAt = tokens?.expireAt?.valueOf();
+    if (recheckAt !== running.recheckAt) {
+      running.recheckAt = recheckAt;
+      running.clearRecheck?.();
+      running.clearRecheck = undefined;
+      if (recheckAt && recheckAt >= Date.now()) {
+        running.clearRecheck = setTimeoutWallClock(() => {
+          const { debug } = configure();
+          debug?.(
+            "Checking signInStatus as tokens have expired at:",
+            new Date(recheckAt).toISOString()
+          );
+          this.update({});
+        }, recheckAt - Date.now());
+      }
+    }
+
+    // Track FIDO2 authenticators for the user
+    const isSignedIn = signInStatus === "SIGNED_IN";
+    if (isSignedIn && !running.abortListCredentials) {
+      const cancel = new AbortController();
+      running.abortListCredentials = () => cancel.abort();
+      fido2ListCredentials()
+        .then((res) => {
+          if (!cancel.signal.aborted) {
+            this.update({
+              fido2Credentials: res.authenticators.map(this.toFido2Credential),
+            });
+          }
+        })
+        .catch((err) => {
+          const { debug } = configure();
+          debug?.("Failed to list credentials:", err);
+        });
+    } else if (!isSignedIn && running.abortListCredentials) {
+      running.abortListCredentials();
+      running.abortListCredentials = undefined;
+    }
+  }
+
+  private setTokens = (tokens: TokensFromStorage | undefined) => {
+    const { idToken, accessToken, expireAt } = tokens ?? {};
+    this.update({
+      tokens,
+      tokensParsed:
+        idToken && accessToken && expireAt
+          ? {
+              idToken: parseJwtPayload<CognitoIdTokenPayload>(idToken),
+              accessToken:
+                parseJwtPayload<CognitoAccessTokenPayload>(accessToken),
+              expireAt,
+            }
+          : undefined,
+    });
+  };
+
+  private storeAndSetTokens = (tokens: TokensToStore & { username: string }) =>
+    storeTokens(tokens, "SIGNED_IN").then(() => this.setTokens(tokens));
+
+  private storeAndMergeTokens = (newTokens?: TokensFromRefresh) =>
+    newTokens &&
+    storeTokens(newTokens, "TOKENS_REFRESHED").then(() =>
+      this.setTokens({ ...this.state.tokens, ...newTokens })
+    );
+
+  /**
+   * Transition to the next status of the current sign-in attempt.
+   * Invalid transitions are ignored, e.g. a late status update from an attempt that was superseded by a new one
+   */
+  private setSigningInStatus = (signingInStatus: BusyState | IdleState) => {
+    const current = this.state.signingInStatus;
+    if (!isValidTransition(current, signingInStatus)) {
+      const { debug } = configure();
+      debug?.(
+        `Ignoring invalid transition of signingInStatus from ${current} to ${signingInStatus}`
+      );
+      return;
+    }
+    this.update({ signingInStatus });
+  };
+
+  private setIsRefreshingTokens = (isRefreshingTokens: boolean) =>
+    this.update({ isRefreshingTokens });
+
+  private setLastError = (lastError: Error) => this.update({ lastError });
+
+  private updateFido2Credential = (
+    update: { credentialId: string } & Partial<Fido2Credential>
+  ) =>
+    this.update({
+      fido2Credentials: this.state.fido2Credentials?.map((credential) =>
+        credential.credentialId === update.credentialId
+          ? { ...credential, ...update }
+          : credential
+      ),
+    });
+
+  private deleteFido2Credential = (credentialId: string) =>
+    this.update({
+      fido2Credentials: this.state.fido2Credentials?.filter(
+        (remainingAuthenticator) =>
+          credentialId !== remainingAuthenticator.credentialId
+      ),
+    });
+
+  private toFido2Credential = (
+    credential: StoredCredential
+  ): Fido2Credential => ({
+    ...credential,
+    busy: false,
+    update: async (update: { friendlyName: string }) => {
+      this.updateFido2Credential({
+        credentialId: credential.credentialId,
+        busy: true,
+      });
+      return fido2UpdateCredential({
+        ...update,
+        credentialId: credential.credentialId,
+      })
+        .catch((err) => {
+          this.updateFido2Credential({
+            credentialId: credential.credentialId,
+            busy: false,
+          });
+          throw err;
+        })
+        .then(() =>
+          this.updateFido2Credential({
+            ...update,
+            credentialId: credential.credentialId,
+            busy: false,
+          })
+        );
+    },
+    delete: async () => {
+      this.updateFido2Credential({
+        credentialId: credential.credentialId,
+        busy: true,
+      });
+      return fido2DeleteCredential({
+        credentialId: credential.credentialId,
+      })
+        .catch((err) => {
+          this.updateFido2Credential({
+            credentialId: credential.credentialId,
+            busy: false,
+          });
+          throw err;
+        })
+        .then(() => this.deleteFido2Credential(credential.credentialId));
+    },
+  });
+
+  /** Execute (and reschedule) token refresh */
+  refreshTokens = (abort?: AbortSignal) =>
+    refreshTokens({
+      abort,
+      tokensCb: this.storeAndMergeTokens,
+      isRefreshingCb: this.setIsRefreshingTokens,
+    });
+
+  /** Register a FIDO2 credential with the Relying Party */
+  fido2CreateCredential = (
+    ...args: Parameters<typeof fido2CreateCredential>
+  ) => {
+    this.update({ creatingCredential: true });
+    return fido2CreateCredential(...args)
+      .then((storedCredential) => {
+        const credential = this.toFido2Credential(storedCredential);
+        const { fido2Credentials } = this.state;
+        this.update({
+          fido2Credentials: fido2Credentials
+            ? fido2Credentials.concat([credential])
+            : [credential],
+        });
+        return storedCredential;
+      })
+      .finally(() => this.update({ creatingCredential: false }));
+  };
+
+  /** Sign out */
+  signOut = () => {
+    this.update({ lastError: undefined });
+    const signingOut = signOut({
+      statusCb: this.setSigningInStatus,
+      tokensRemovedLocallyCb: () => {
+        this.setTokens(undefined);
+        this.update({ fido2Credentials: undefined });
+      },
+      currentStatus: this.state.signingInStatus,
+    });
+    signingOut.signedOut.catch(this.setLastError);
+    return signingOut;
+  };
+
+  /**
+   * Approve (or decline) the sign-in of the other device that requested the sign-in link, that was opened on this device.
+   * Call this when the `signingInStatus` is "CONFIRMING_SIGNIN_LINK_APPROVAL", after asking the user
+   */
+  confirmSignInLinkApproval = (approved: boolean) => {
+    const settle = this.settleSignInLinkApproval;
+    this.settleSignInLinkApproval = undefined;
+    settle?.(approved);
+  };
+
+  /** Request a sign-in link ("magic link") to be sent to the user's e-mail address */
+  requestSignInLink = ({
+    username,
+    redirectUri,
+  }: {
+    username: string;
+    redirectUri?: string;
+  }) => {
+    this.update({ lastError: undefined });
+    const requesting = requestSignInLink({
+      username,
+      redirectUri,
+      statusCb: this.setSigningInStatus,
+      currentStatus: this.state.signingInStatus,
+    });
+    requesting.signInLinkRequested.catch(this.setLastError);
+    return requesting;
+  };
+
+  /**
+   * Request a sign-in link ("magic link") to be sent to the user's e-mail address,
+   * that may be opened on any device, to sign the user in on this device
+   */
+  requestSignInLinkWithRemoteApproval = ({
+    username,
+    redirectUri,
+  }: {
+    username: string;
+    redirectUri?: string;
+  }) => {
+    this.update({ lastError: undefined });
+    const signinIn = requestSignInLinkWithRemoteApproval({
+      username,
+      redirectUri,
+      statusCb: this.setSigningInStatus,
+      currentStatus: this.state.signingInStatus,
+      tokensCb: this.storeAndSetTokens,
+    });
+    signinIn.signedIn.catch(this.setLastError);
+    return signinIn;
+  };
+
+  /** Sign in with FIDO2 (e.g. Face ID or Touch) */
+  authenticateWithFido2 = ({
+    username,
+    credentials,
+    clientMetadata,
+    mediation,
+  }: {
+    /**
+     * Username, or alias (e-mail, phone number)
+     */
+    username?: string;
+    credentials?: { id: string; transports?: AuthenticatorTransport[] }[];
+    clientMetadata?: Record<string, string>;
+    /**
+     * Use "conditional" to offer the user's Passkeys in the autofill UI of input fields with `autocomplete="username webauthn"`.
+     * This runs in the background until the user picks a Passkey. It is aborted automatically if you start another FIDO2 sign-in,
+     * otherwise call `abort()` if the user signs in differently
+     */
+    mediation?: "conditional";
+  } = {}) => {
+    if (!mediation) this.update({ lastError: undefined });
+    this.abortConditionalFido2SignIn?.();
+    const signinIn = authenticateWithFido2({
+      username,
+      credentials,
+      clientMetadata,
+      mediation,
+      statusCb: this.setSigningInStatus,
+      tokensCb: this.storeAndSetTokens,
+    });
+    let aborted = false;
+    const abort = () => {
+      aborted = true;
+      signinIn.abort();
+    };
+    if (mediation === "conditional") {
+      this.abortConditionalFido2SignIn = abort;
+    }
+    signinIn.signedIn
+      .catch((err: Error) => {
+        // An aborted conditional sign-in isn't an error: the user signed in differently
+        if (!(mediation === "conditional" && aborted)) this.setLastError(err);
+      })
+      .finally(() => {
+        if (this.abortConditionalFido2SignIn === abort) {
+          this.abortConditionalFido2SignIn = undefined;
+        }
+      });
+    return { signedIn: signinIn.signedIn, abort };
+  };
+
+  /**
+   * Sign a transaction (e.g. a payment the user must approve) with FIDO2. The user must be signed-in already.
+   * The ID token that is issued carries the hash of the transaction, in the `transaction_hash` claim
+   */
+  signTransactionWithFido2 = ({
+    username,
+    transaction,
+    credentials,
+    clientMetadata,
+  }: {
+    /**
+     * Username, or alias (e-mail, phone number).
+     * If not specified, the username of the signed-in user is used
+     */
+    username?: string;
+    transaction: Record<string, unknown>;
+    credentials?: { id: string; transports?: AuthenticatorTransport[] }[];
+    clientMetadata?: Record<string, string>;
+  }) => {
+    this.update({ lastError: undefined });
+    this.abortConditionalFido2SignIn?.();
+    const signinIn = signTransactionWithFido2({
+      username,
+      transaction,
+      credentials,
+      clientMetadata,
+      statusCb: this.setSigningInStatus,
+      tokensCb: this.storeAndSetTokens,
+    });
+    signinIn.signedIn.catch(this.setLastError);
+    return signinIn;
+  };
+
+  /** Sign in with username and password (using SRP: Secure Remote Password, where the password isn't sent over the wire) */
+  authenticateWithSRP = ({
+    username,
+    password,
+    smsMfaCode,
+    otpMfaCode,
+    clientMetadata,
+  }: {
+    /**
+     * Username, or alias (e-mail, phone number)
+     */
+    username: string;
+    password: string;
+    smsMfaCode?: () => Promise<string>;
+    otpMfaCode?: () => Promise<string>;
+    clientMetadata?: Record<string, string>;
+  }) => {
+    this.update({ lastError: undefined });
+    const signinIn = authenticateWithSRP({
+      username,
+      password,
+      smsMfaCode,
+      otpMfaCode,
+      clientMetadata,
+      statusCb: this.setSigningInStatus,
+      tokensCb: this.storeAndSetTokens,
+    });
+    signinIn.signedIn.catch(this.setLastError);
+    return signinIn;
+  };
+
+  /** Sign in with username and password (the password is sent in plaintext over the wire) */
+  authenticateWithPlaintextPassword = ({
+    username,
+    password,
+    smsMfaCode,
+    otpMfaCode,
+    clientMetadata,
+  }: {
+    /**
+     * Username, or alias (e-mail, phone number)
+     */
+    username: string;
+    password: string;
+    smsMfaCode?: () => Promise<string>;
+    otpMfaCode?: () => Promise<string>;
+    clientMetadata?: Record<string, string>;
+  }) => {
+    this.update({ lastError: undefined });
+    const signinIn = authenticateWithPlaintextPassword({
+      username,
+      password,
+      smsMfaCode,
+      otpMfaCode,
+      clientMetadata,
+      statusCb: this.setSigningInStatus,
+      tokensCb: this.storeAndSetTokens,
+    });
+    signinIn.signedIn.catch(this.setLastError);
+    return signinIn;
+  };
+
+  /** Sign-in again, using the user's current tokens (JWTs) and an OTP (One Time Password) that is sent to the user via SMS */
+  stepUpAuthenticationWithSmsOtp = ({
+    username,
+    smsMfaCode,
+    clientMetadata,
+  }: {
+    /**
+     * Username, or alias (e-mail, phone number)
+     */
+    username: string;
+    smsMfaCode: (phoneNumber: string, attempt: number) => Promise<string>;
+    clientMetadata?: Record<string, string>;
+  }) => {
+    this.update({ lastError: undefined });
+    const signinIn = stepUpAuthenticationWithSmsOtp({
+      username,
+      smsMfaCode,
+      clientMetadata,
+      statusCb: this.setSigningInStatus,
+      tokensCb: this.storeAndSetTokens,
+    });
+    signinIn.signedIn.catch(this.setLastError);
+    return signinIn;
+  };
+
+  /** Sign-in again, using the user's current tokens (JWTs) and FIDO2 (with user verification), e.g. before a sensitive operation */
+  stepUpAuthenticationWithFido2 = ({
+    username,
+    credentials,
+    clientMetadata,
+  }: {
+    /**
+     * Username, or alias (e-mail, phone number).
+     * If not specified, the username of the signed-in user is used
+     */
+    username?: string;
+    credentials?: { id: string; transports?: AuthenticatorTransport[] }[];
+    clientMetadata?: Record<string, string>;
+  } = {}) => {
+    this.update({ lastError: undefined });
+    this.abortConditionalFido2SignIn?.();
+    const signinIn = stepUpAuthenticationWithFido2({
+      username,
+      credentials,
+      clientMetadata,
+      accessToken: this.state.tokens?.accessToken,
+      statusCb: this.setSigningInStatus,
+      tokensCb: this.storeAndSetTokens,
+    });
+    signinIn.signedIn.catch(this.setLastError);
+    return signinIn;
+  };
+
+  /** Sign in with an OTP (One Time Password) that is sent to the user via SMS, as first factor (no prior sign-in needed) */
+  authenticateWithSmsOtp = ({
+    username,
+    smsOtpCode,
+    clientMetadata,
+  }: {
+    /**
+     * Username, or alias (e-mail, phone number)
+     */
+    username: string;
+    smsOtpCode: (phoneNumber: string, attempt: number) => Promise<string>;
+    clientMetadata?: Record<string, string>;
+  }) => {
+    this.update({ lastError: undefined });
+    const signinIn = authenticateWithSmsOtp({
+      username,
+      smsOtpCode,
+      clientMetadata,
+      statusCb: this.setSigningInStatus,
+      tokensCb: this.storeAndSetTokens,
+    });
+    signinIn.signedIn.catch(this.setLastError);
+    return signinIn;
+  };
+
+  /** Sign in with an OTP (One Time Password) that is sent to the user via e-mail */
+  authenticateWithEmailOtp = ({
+    username,
+    emailOtpCode,
+    clientMetadata,
+  }: {
+    /**
+     * Username, or alias (e-mail, phone number)
+     */
+    username: string;
+    emailOtpCode: (maskedEmail: string, attempt: number) => Promise<string>;
+    clientMetadata?: Record<string, string>;
+  }) => {
+    this.update({ lastError: undefined });
+    const signinIn = authenticateWithEmailOtp({
+      username,
+      emailOtpCode,
+      clientMetadata,
+      statusCb: this.setSigningInStatus,
+      tokensCb: this.storeAndSetTokens,
+    });
+    signinIn.signedIn.catch(this.setLastError);
+    return signinIn;
+  };
+
+  /** Sign in with multiple factors (e.g. a magic link, followed by an SMS OTP), as required by the multi-factor policy in the back-end */
+  authenticateWithMultipleFactors = ({
+    username,
+    factors,
+    clientMetadata,
+  }: {
+    /**
+     * Username, or alias (e-mail, phone number).
+     * May be omitted if the first factor can tell the username itself (e.g. from a magic link)
+     */
+    username?: string;
+    factors: Factor[];
+    clientMetadata?: Record<string, string>;
+  }) => {
+    this.update({ lastError: undefined });
+    this.abortConditionalFido2SignIn?.();
+    const signinIn = authenticateWithMultipleFactors({
+      username,
+      factors,
+      clientMetadata,
+      statusCb: this.setSigningInStatus,
+      tokensCb: this.storeAndSetTokens,
+    });
+    signinIn.signedIn.catch(this.setLastError);
+    return signinIn;
+  };
+
+  /** Sign in with a one-time recovery code, e.g. because the user lost their FIDO2 credentials */
+  authenticateWithRecoveryCode = ({
+    username,
+    recoveryCode,
+    clientMetadata,
+  }: {
+    /**
+     * Username, or alias (e-mail, phone number)
+     */
+    username: string;
+    recoveryCode: string;
+    clientMetadata?: Record<string, string>;
+  }) => {
+    this.update({ lastError: undefined });
+    const signinIn = authenticateWithRecoveryCode({
+      username,
+      recoveryCode,
+      clientMetadata,
+      statusCb: this.setSigningInStatus,
+      tokensCb: this.storeAndSetTokens,
+    });
+    signinIn.signedIn.catch(this.setLastError);
+    return signinIn;
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { PasswordlessStore, PasswordlessState } from "../store.js";
+
+/**
+ * Create a Svelte store that provides convenient access to the Passwordless lib's features.
+ *
+ * This implements the Svelte store contract, so you can use the `$` prefix to read the state,
+ * e.g. `$passwordless.signInStatus`, and call the methods directly, e.g. `passwordless.signOut()`.
+ * Create it once (e.g. in a module of its own) and share it between your components
+ */
+export function createPasswordless(store = new PasswordlessStore()) {
+  return {
+    /** Svelte store contract: the subscriber is called synchronously with the current state, and upon every change */
+    subscribe: (run: (state: PasswordlessState) => void) => {
+      const unsubscribe = store.subscribe(run);
+      run(store.getState());
+      return unsubscribe;
+    },
+    refreshTokens: store.refreshTokens,
+    fido2CreateCredential: store.fido2CreateCredential,
+    signOut: store.signOut,
+    requestSignInLink: store.requestSignInLink,
+    requestSignInLinkWithRemoteApproval:
+      store.requestSignInLinkWithRemoteApproval,
+    confirmSignInLinkApproval: store.confirmSignInLinkApproval,
+    authenticateWithFido2: store.authenticateWithFido2,
+    signTransactionWithFido2: store.signTransactionWithFido2,
+    authenticateWithSRP: store.authenticateWithSRP,
+    authenticateWithPlaintextPassword: store.authenticateWithPlaintextPassword,
+    stepUpAuthenticationWithSmsOtp: store.stepUpAuthenticationWithSmsOtp,
+    stepUpAuthenticationWithFido2: store.stepUpAuthenticationWithFido2,
+    authenticateWithSmsOtp: store.authenticateWithSmsOtp,
+    authenticateWithEmailOtp: store.authenticateWithEmailOtp,
+    authenticateWithMultipleFactors: store.authenticateWithMultipleFactors,
+    authenticateWithRecoveryCode: store.authenticateWithRecoveryCode,
+  };
+}
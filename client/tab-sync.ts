@@ -0,0 +1,178 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { configure } from "./config.js";
+import { bufferToBase64Url } from "./util.js";
+
+export interface TabSyncMessage {
+  /**
+   * - SIGNED_IN: another tab stored tokens from a new sign-in
+   * - TOKENS_REFRESHED: another tab stored refreshed tokens
+   * - SIGNED_OUT: another tab signed out
+   */
+  type: "SIGNED_IN" | "TOKENS_REFRESHED" | "SIGNED_OUT";
+}
+
+type TabSyncListener = (message: TabSyncMessage) => void;
+
+/** How long a tab may hold the refresh lock, if the Web Locks API is not available */
+const storageLockTimeout = 10000;
+
+/** Random ID of this tab, to tell our own messages (and refresh lock) apart from those of other tabs */
+let tabId_: string | undefined;
+function tabId() {
+  if (!tabId_) {
+    const { crypto } = configure();
+    tabId_ = bufferToBase64Url(crypto.getRandomValues(new Uint8Array(12)));
+  }
+  return tabId_;
+}
+
+const listeners = new Set<TabSyncListener>();
+let stopListening: (() => void) | undefined;
+
+/**
+ * Is tab synchronization enabled (with `configure({ tabSync: true })`), and supported in this environment?
+ */
+export function isTabSyncEnabled() {
+  const { tabSync } = configure();
+  return (
+    !!tabSync &&
+    (typeof BroadcastChannel !== "undefined" ||
+      typeof globalThis.localStorage !== "undefined")
+  );
+}
+
+function channelName() {
+  const { clientId } = configure();
+  return `Passwordless.${clientId}.tabSync`;
+}
+
+/**
+ * Notify other tabs, e.g. that we've signed out
+ */
+export function broadcastTabSyncMessage(message: TabSyncMessage) {
+  if (!isTabSyncEnabled()) return;
+  const { debug } = configure();
+  debug?.("Notifying other tabs:", message.type);
+  // Our own listener receives the message too (on its own BroadcastChannel instance), the sender's tabId tells it to ignore it
+  const tagged = { type: message.type, tabId: tabId() };
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(channelName());
+    channel.postMessage(tagged);
+    channel.close();
+  } else {
+    // Other tabs receive a "storage" event for this
+    globalThis.localStorage.setItem(
+      channelName(),
+      JSON.stringify({ ...tagged, sentAt: Date.now() })
+    );
+  }
+}
+
+/**
+ * Listen for messages from other tabs, e.g. that they have signed out.
+ * Returns a function to stop listening.
+ * This is a no-op if tab synchronization is not enabled
+ */
+export function addTabSyncListener(listener: TabSyncListener) {
+  if (!isTabSyncEnabled()) return () => undefined;
+  listeners.add(listener);
+  if (!stopListening) {
+    stopListening = startListening();
+  }
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size) {
+      stopListening?.();
+      stopListening = undefined;
+    }
+  };
+}
+
+function startListening() {
+  const notify = (message: unknown) => {
+    if (!isTabSyncMessage(message) || message.tabId === tabId()) return;
+    const { debug } = configure();
+    debug?.("Received message from other tab:", message.type);
+    listeners.forEach((listener) => listener({ type: message.type }));
+  };
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(channelName());
+    channel.onmessage = (event: MessageEvent) => notify(event.data);
+    return () => channel.close();
+  }
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== channelName() || !event.newValue) return;
+    try {
+      notify(JSON.parse(event.newValue));
+    } catch {
+      // ignore
+    }
+  };
+  globalThis.addEventListener("storage", onStorage);
+  return () => globalThis.removeEventListener("storage", onStorage);
+}
+
+function isTabSyncMessage(
+  message: unknown
+): message is TabSyncMessage & { tabId?: string } {
+  return (
+    !!message &&
+    typeof message === "object" &&
+    "type" in message &&
+    ["SIGNED_IN", "TOKENS_REFRESHED", "SIGNED_OUT"].includes(
+      message.type as string
+    )
+  );
+}
+
+/**
+ * Run the function while holding the (cross-tab) refresh lock, so that only one tab at a time refreshes tokens.
+ * Uses the Web Locks API if available, and otherwise a lock in storage.
+ * If tab synchronization is not enabled, the function is just run
+ */
+export async function withRefreshLock<T>(fn: () => Promise<T>): Promise<T> {
+  if (!isTabSyncEnabled()) return fn();
+  const lockName = `${channelName()}.refreshLock`;
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return navigator.locks.request(lockName, fn) as Promise<T>;
+  }
+  const { storage } = configure();
+  for (;;) {
+    const current = await storage.getItem(lockName);
+    const { expireAt } = current
+      ? (JSON.parse(current) as { expireAt: number })
+      : { expireAt: 0 };
+    if (expireAt < Date.now()) {
+      const ours = JSON.stringify({
+        tabId: tabId(),
+        expireAt: Date.now() + storageLockTimeout,
+      });
+      await storage.setItem(lockName, ours);
+      // Another tab might have written the lock at the same time, verify we got it
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      if ((await storage.getItem(lockName)) === ours) {
+        try {
+          return await fn();
+        } finally {
+          if ((await storage.getItem(lockName)) === ours) {
+            await storage.removeItem(lockName);
+          }
+        }
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+}
@@ -82,6 +82,44 @@ export function removeFragmentIdentifierFromBrowserLocation() {
   history.pushState("", "", currentBrowserLocationWithoutFragmentIdentifier());
 }
 
+/**
+ * Serialize a transaction (e.g. `{ amount: "100.00", payee: "ACME" }`) to canonical JSON: object keys sorted, no whitespace.
+ * The back-end does the same, so that both sides hash the very same bytes
+ */
+export function canonicalizeTransaction(transaction: unknown): string {
+  if (Array.isArray(transaction)) {
+    return `[${transaction.map(canonicalizeTransaction).join(",")}]`;
+  }
+  if (transaction && typeof transaction === "object") {
+    return `{${Object.entries(transaction)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(
+        ([key, value]) =>
+          `${JSON.stringify(key)}:${canonicalizeTransaction(value)}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(transaction) ?? "null";
+}
+
+/** The type of mobile device (e.g. "iPhone") this is running on, if any */
+export function determineMobileDeviceName() {
+  const mobileDevices = [
+    "Android",
+    "webOS",
+    "iPhone",
+    "iPad",
+    "iPod",
+    "BlackBerry",
+    "Windows Phone",
+  ] as const;
+  return mobileDevices.find((dev) =>
+    // eslint-disable-next-line security/detect-non-literal-regexp
+    navigator.userAgent.match(new RegExp(dev, "i"))
+  );
+}
+
 export function timeAgo(now: Date, historicDate?: Date) {
   if (!historicDate) return;
   const ranges = {
@@ -0,0 +1,77 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import {
+  App,
+  InjectionKey,
+  getCurrentScope,
+  inject,
+  onScopeDispose,
+  shallowReactive,
+  shallowReadonly,
+  toRefs,
+} from "vue";
+import { PasswordlessStore, PasswordlessState } from "../store.js";
+
+const passwordlessStoreKey: InjectionKey<PasswordlessStore> =
+  Symbol("PasswordlessStore");
+
+/**
+ * Vue plugin that provides the Passwordless store to your app's components:
+ *
+ * app.use(PasswordlessPlugin)
+ */
+export const PasswordlessPlugin = {
+  install(app: App, store = new PasswordlessStore()) {
+    app.provide(passwordlessStoreKey, store);
+  },
+};
+
+/**
+ * Vue composable that provides convenient access to the Passwordless lib's features.
+ * The state (e.g. `signInStatus`, `tokensParsed`, `fido2Credentials`) is exposed as readonly refs
+ */
+export function usePasswordless() {
+  const store = inject(passwordlessStoreKey);
+  if (!store) {
+    throw new Error(
+      "The PasswordlessPlugin must be installed in your Vue app: app.use(PasswordlessPlugin)"
+    );
+  }
+  const state = shallowReactive<PasswordlessState>({ ...store.getState() });
+  const unsubscribe = store.subscribe((update) => Object.assign(state, update));
+  if (getCurrentScope()) {
+    onScopeDispose(unsubscribe);
+  }
+  return {
+    ...toRefs(shallowReadonly(state)),
+    refreshTokens: store.refreshTokens,
+    fido2CreateCredential: store.fido2CreateCredential,
+    signOut: store.signOut,
+    requestSignInLink: store.requestSignInLink,
+    requestSignInLinkWithRemoteApproval:
+      store.requestSignInLinkWithRemoteApproval,
+    confirmSignInLinkApproval: store.confirmSignInLinkApproval,
+    authenticateWithFido2: store.authenticateWithFido2,
+    signTransactionWithFido2: store.signTransactionWithFido2,
+    authenticateWithSRP: store.authenticateWithSRP,
+    authenticateWithPlaintextPassword: store.authenticateWithPlaintextPassword,
+    stepUpAuthenticationWithSmsOtp: store.stepUpAuthenticationWithSmsOtp,
+    stepUpAuthenticationWithFido2: store.stepUpAuthenticationWithFido2,
+    authenticateWithSmsOtp: store.authenticateWithSmsOtp,
+    authenticateWithEmailOtp: store.authenticateWithEmailOtp,
+    authenticateWithMultipleFactors: store.authenticateWithMultipleFactors,
+    authenticateWithRecoveryCode: store.authenticateWithRecoveryCode,
+  };
+}
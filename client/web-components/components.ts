@@ -0,0 +1,1578 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { PasswordlessStore, PasswordlessState } from "../store.js";
+import { configure } from "../config.js";
+import { fido2IsConditionalMediationAvailable } from "../fido2.js";
+import { timeAgo, determineMobileDeviceName } from "../util.js";
+import {
+  StoredUser,
+  getLastSignedInUsers,
+  registerSignedInUser,
+} from "../local-user-cache.js";
+
+/** Detail of the `passwordless-status-change` event, that the elements fire when the sign-in status changes */
+export interface PasswordlessStatusChangeDetail {
+  signInStatus: PasswordlessState["signInStatus"];
+  signingInStatus: PasswordlessState["signingInStatus"];
+  busy: boolean;
+}
+
+/** Detail of the `passwordless-error` event, that the elements fire when an error occurs during sign-in or sign-out */
+export interface PasswordlessErrorDetail {
+  error: Error;
+}
+
+type Child = Node | string | false | null | undefined | Child[];
+type Props = Record<
+  string,
+  string | boolean | undefined | ((event: Event) => void)
+>;
+
+const svgTags = ["svg", "path", "polygon"];
+
+/** State that is shared by all elements on the page */
+const shared: {
+  store?: PasswordlessStore;
+  styles?: string;
+  stylesheetUrl?: string;
+  elements: Set<PasswordlessElement>;
+  lastSignedInUsers?: StoredUser[];
+  loadingLastSignedInUsers?: boolean;
+  currentUser?: StoredUser;
+  fidoPreferenceOverride?: "YES" | "NO";
+  showAuthenticatorManager: boolean;
+} = { elements: new Set(), showAuthenticatorManager: false };
+
+/** Configure the store and the styles that the elements use. Call this before the elements are added to the page */
+export function configureElements({
+  store,
+  styles,
+  stylesheetUrl,
+}: {
+  store?: PasswordlessStore;
+  styles?: string;
+  stylesheetUrl?: string;
+}) {
+  shared.store = store ?? shared.store;
+  shared.styles = styles ?? shared.styles;
+  shared.stylesheetUrl = stylesheetUrl ?? shared.stylesheetUrl;
+}
+
+/** The store that the elements use */
+export function passwordlessStore() {
+  if (!shared.store) shared.store = new PasswordlessStore();
+  return shared.store;
+}
+
+function updateAll() {
+  shared.elements.forEach((element) => element.update());
+}
+
+function loadLastSignedInUsers() {
+  if (shared.lastSignedInUsers || shared.loadingLastSignedInUsers) return;
+  shared.loadingLastSignedInUsers = true;
+  getLastSignedInUsers()
+    .then((users) => {
+      shared.lastSignedInUsers = users;
+      updateCurrentUser(passwordlessStore().getState());
+      updateAll();
+    })
+    .catch((err) => {
+      const { debug } = configure();
+      debug?.("Failed to determine last signed-in users:", err);
+    })
+    .finally(() => (shared.loadingLastSignedInUsers = false));
+}
+
+function determineFido(
+  user: StoredUser,
+  { fido2Credentials, creatingCredential, signingInStatus }: PasswordlessState
+): "YES" | "NO" | "ASK" | "INDETERMINATE" {
+  const { fido2 } = configure();
+  if (!fido2) {
+    return "NO";
+  }
+  if (!fido2Credentials) {
+    return "INDETERMINATE";
+  }
+  if (shared.fidoPreferenceOverride) {
+    return shared.fidoPreferenceOverride;
+  }
+  if (user.useFido === "NO") {
+    if (signingInStatus === "SIGNED_IN_WITH_LINK") {
+      return "ASK";
+    }
+    return "NO";
+  }
+  if (fido2Credentials.length) {
+    return "YES";
+  }
+  if (creatingCredential) {
+    return user.useFido ?? "INDETERMINATE";
+  }
+  return "ASK";
+}
+
+/** Keep track of the signed-in user (and their FIDO2 preference) in the list of last signed-in users, like the React `useLocalUserCache` hook does */
+function updateCurrentUser(state: PasswordlessState) {
+  const idToken = state.tokensParsed?.idToken;
+  if (!idToken) {
+    shared.currentUser = undefined;
+    shared.fidoPreferenceOverride = undefined;
+    return;
+  }
+  if (!shared.lastSignedInUsers) return;
+  const found = shared.lastSignedInUsers.find(
+    (lastUser) => lastUser.username === idToken["cognito:username"]
+  );
+  const user: StoredUser = {
+    username: idToken["cognito:username"],
+    email:
+      idToken.email && idToken.email_verified ? idToken.email : found?.email,
+    useFido: found?.useFido,
+    credentials: found?.credentials,
+  };
+  const useFido = determineFido(user, state);
+  if (useFido !== "INDETERMINATE") {
+    user.useFido = useFido;
+    user.credentials = state.fido2Credentials?.map((c) => ({
+      id: c.credentialId,
+      transports: c.transports,
+    }));
+  }
+  if (JSON.stringify(user) === JSON.stringify(shared.currentUser)) return;
+  shared.currentUser = user;
+  shared.lastSignedInUsers = [
+    user,
+    ...shared.lastSignedInUsers.filter((u) => u.username !== user.username),
+  ];
+  registerSignedInUser(user).catch((err) => {
+    const { debug } = configure();
+    debug?.("Failed to register last signed-in user:", err);
+  });
+}
+
+function updateFidoPreference(useFido: "YES" | "NO") {
+  shared.fidoPreferenceOverride = useFido;
+  updateCurrentUser(passwordlessStore().getState());
+  updateAll();
+}
+
+function toggleShowAuthenticatorManager() {
+  shared.showAuthenticatorManager = !shared.showAuthenticatorManager;
+  updateAll();
+}
+
+function flatten(children: Child[]): (Node | string)[] {
+  return children.flatMap((child) =>
+    Array.isArray(child) ? flatten(child) : child ? [child] : []
+  );
+}
+
+// Custom elements can only be defined in the browser, but this module may be imported elsewhere too (e.g. during SSR)
+const BaseElement =
+  typeof HTMLElement !== "undefined"
+    ? HTMLElement
+    : (class {} as typeof HTMLElement);
+
+/**
+ * Base class of the Passwordless elements: renders into shadow DOM upon every state change of the store,
+ * and fires `passwordless-status-change` and `passwordless-error` events
+ */
+abstract class PasswordlessElement extends BaseElement {
+  private container?: HTMLElement;
+  private unsubscribe?: () => void;
+  private lastStatus?: string;
+  private lastError?: Error;
+  private lastAutofocus?: string;
+
+  connectedCallback() {
+    if (!this.shadowRoot) {
+      const root = this.attachShadow({ mode: "open" });
+      if (shared.stylesheetUrl) {
+        root.append(
+          this.h("link", { rel: "stylesheet", href: shared.stylesheetUrl })
+        );
+      }
+      if (shared.styles) {
+        root.append(this.h("style", null, shared.styles));
+      }
+      this.container = this.h("div", { style: "display: contents" });
+      root.append(this.container);
+    }
+    shared.elements.add(this);
+    loadLastSignedInUsers();
+    this.unsubscribe = passwordlessStore().subscribe(this.onStateChange);
+    this.onStateChange(passwordlessStore().getState());
+  }
+
+  disconnectedCallback() {
+    shared.elements.delete(this);
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  attributeChangedCallback() {
+    if (this.isConnected) this.update();
+  }
+
+  private onStateChange = (state: PasswordlessState) => {
+    updateCurrentUser(state);
+    if (state.signInStatus === "NOT_SIGNED_IN") {
+      shared.showAuthenticatorManager = false;
+    }
+    const { signInStatus, signingInStatus, busy } = state;
+    const status = `${signInStatus}|${signingInStatus}`;
+    if (status !== this.lastStatus) {
+      this.lastStatus = status;
+      this.dispatchEvent(
+        new CustomEvent<PasswordlessStatusChangeDetail>(
+          "passwordless-status-change",
+          {
+            detail: { signInStatus, signingInStatus, busy },
+            bubbles: true,
+            composed: true,
+          }
+        )
+      );
+    }
+    if (state.lastError && state.lastError !== this.lastError) {
+      this.dispatchEvent(
+        new CustomEvent<PasswordlessErrorDetail>("passwordless-error", {
+          detail: { error: state.lastError },
+          bubbles: true,
+          composed: true,
+        })
+      );
+    }
+    this.lastError = state.lastError;
+    this.update();
+  };
+
+  /** Render the element anew, keeping focus on the input that had it */
+  update() {
+    const root = this.shadowRoot;
+    if (!root || !this.container) return;
+    const focused = root.activeElement?.getAttribute("name");
+    this.container.replaceChildren(
+      ...flatten([this.render(passwordlessStore().getState())])
+    );
+    const autofocus = root.querySelector<HTMLElement>("[autofocus]");
+    const autofocusName = autofocus?.getAttribute("name") ?? undefined;
+    if (focused) {
+      root.querySelector<HTMLElement>(`[name="${focused}"]`)?.focus();
+    } else if (autofocus && autofocusName !== this.lastAutofocus) {
+      autofocus.focus();
+    }
+    this.lastAutofocus = autofocusName;
+  }
+
+  protected abstract render(state: PasswordlessState): Child;
+
+  /** Create a DOM element. Props starting with "on" are added as event listeners, the others as attributes */
+  protected h<K extends keyof HTMLElementTagNameMap>(
+    tag: K,
+    props: Props | null,
+    ...children: Child[]
+  ): HTMLElementTagNameMap[K];
+  protected h(tag: string, props: Props | null, ...children: Child[]): Element;
+  protected h(tag: string, props: Props | null, ...children: Child[]) {
+    const element = svgTags.includes(tag)
+      ? this.ownerDocument.createElementNS("http://www.w3.org/2000/svg", tag)
+      : this.ownerDocument.createElement(tag);
+    for (const [key, value] of Object.entries(props ?? {})) {
+      if (typeof value === "function") {
+        element.addEventListener(key.slice(2).toLowerCase(), value);
+      } else if (value === true) {
+        element.setAttribute(key, "");
+      } else if (typeof value === "string") {
+        element.setAttribute(key, value);
+      }
+    }
+    element.append(...flatten(children));
+    return element;
+  }
+
+  protected spinner(text: string) {
+    return this.h(
+      "div",
+      { class: "passwordless-flex" },
+      this.h("div", { class: "passwordless-loading-spinner" }),
+      this.h("div", null, text)
+    );
+  }
+
+  protected icon(
+    path: string,
+    attributes: Props = { width: "24px", height: "24px" }
+  ) {
+    return this.h(
+      "svg",
+      { xmlns: "http://www.w3.org/2000/svg", ...attributes },
+      this.h("path", { d: path })
+    );
+  }
+}
+
+/**
+ * `<passwordless-signin>`: renders a sign-in page, allowing the user to choose between FIDO2, Magic Links (and SMS OTP).
+ *
+ * Attributes:
+ * - `sms-otp-sign-in`: offer sign-in with SMS OTP (requires `smsOtpSignIn` to be enabled in the Passwordless CDK construct)
+ * - `customer-name`, `customer-logo-url`, `background-image-url`: your brand
+ *
+ * Child elements are shown (instead of the sign-in page) once the user is signed in
+ */
+export class PasswordlessSignInElement extends PasswordlessElement {
+  static observedAttributes = [
+    "sms-otp-sign-in",
+    "customer-name",
+    "customer-logo-url",
+    "background-image-url",
+  ];
+  private newUsername = "";
+  private showSignInOptionsForUser:
+    | "LAST_USER"
+    | "NEW_USER_ENTRY"
+    | "NEW_USER" = "LAST_USER";
+  private smsOtpPrompt?: {
+    phoneNumber: string;
+    attempt: number;
+    resolve: (code: string) => void;
+  };
+  private conditionalSignIn?: { abort: () => void };
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.offerPasskeyAutofill(false);
+  }
+
+  update() {
+    super.update();
+    // While the username input is shown, offer the user's Passkeys in its autofill UI (conditional mediation)
+    this.offerPasskeyAutofill(
+      this.isConnected &&
+        !!this.shadowRoot?.querySelector(".passwordless-email-input") &&
+        !!configure().fido2
+    );
+  }
+
+  private offerPasskeyAutofill(offer: boolean) {
+    if (offer && !this.conditionalSignIn) {
+      let cancelled = false;
+      let signingIn: { abort: () => void } | undefined;
+      this.conditionalSignIn = {
+        abort: () => {
+          cancelled = true;
+          signingIn?.abort();
+        },
+      };
+      fido2IsConditionalMediationAvailable()
+        .then((available) => {
+          if (available && !cancelled) {
+            signingIn = passwordlessStore().authenticateWithFido2({
+              mediation: "conditional",
+            });
+          }
+        })
+        .catch(() => {
+          // Conditional mediation isn't available, the user can still use the passkey button
+        });
+    } else if (!offer && this.conditionalSignIn) {
+      this.conditionalSignIn.abort();
+      this.conditionalSignIn = undefined;
+    }
+  }
+
+  private signInWithSmsOtp(username: string) {
+    passwordlessStore()
+      .authenticateWithSmsOtp({
+        username,
+        smsOtpCode: (phoneNumber, attempt) =>
+          new Promise<string>((resolve) => {
+            this.smsOtpPrompt = { phoneNumber, attempt, resolve };
+            this.update();
+          }),
+      })
+      .signedIn.catch(() => {
+        // the error is available as lastError
+      })
+      .finally(() => {
+        this.smsOtpPrompt = undefined;
+        this.update();
+      });
+  }
+
+  private container_(...children: Child[]) {
+    const backgroundImageUrl = this.getAttribute("background-image-url");
+    const customerLogoUrl = this.getAttribute("customer-logo-url");
+    const customerName = this.getAttribute("customer-name");
+    return this.h(
+      "div",
+      { class: "passwordless-main-container" },
+      backgroundImageUrl &&
+        this.h("img", {
+          src: backgroundImageUrl,
+          class: "passwordless-main-background-image",
+        }),
+      this.h(
+        "div",
+        { class: "passwordless-card-container" },
+        customerLogoUrl &&
+          this.h("img", {
+            src: customerLogoUrl,
+            class: "passwordless-customer-logo",
+          }),
+        customerName &&
+          this.h(
+            "div",
+            {
+              class: "passwordless-text-center passwordless-customer-name",
+            },
+            customerName
+          ),
+        ...children
+      )
+    );
+  }
+
+  protected render(state: PasswordlessState): Child {
+    const store = passwordlessStore();
+    const { signInStatus, signingInStatus, busy, lastError, tokensParsed } =
+      state;
+    const smsOtpSignIn = this.hasAttribute("sms-otp-sign-in");
+    const hasChildren = this.childNodes.length > 0;
+    const showFido2AuthOption = !!configure().fido2;
+    const { lastSignedInUsers } = shared;
+
+    if (signInStatus === "SIGNED_IN") {
+      // reset state fields for entering new username
+      this.newUsername = "";
+      this.showSignInOptionsForUser = "LAST_USER";
+    }
+
+    if (signInStatus === "REFRESHING_SIGN_IN" && hasChildren) {
+      return this.h("slot", null);
+    }
+
+    if (
+      signInStatus === "CHECKING" ||
+      signInStatus === "REFRESHING_SIGN_IN" ||
+      !lastSignedInUsers
+    ) {
+      return this.container_(this.spinner("Checking your sign-in status..."));
+    }
+
+    if (signingInStatus === "SIGNING_IN_WITH_LINK") {
+      return this.container_(this.spinner("Checking the sign-in link..."));
+    }
+
+    if (signingInStatus === "SIGNING_IN_WITH_SMS_OTP") {
+      const prompt = this.smsOtpPrompt;
+      if (!prompt) {
+        return this.container_(this.spinner("Signing in with SMS code..."));
+      }
+      let smsOtp = "";
+      const submit = this.h(
+        "button",
+        { class: "passwordless-button", type: "submit", disabled: true },
+        "Sign in"
+      );
+      return this.container_(
+        this.h(
+          "form",
+          {
+            class: "passwordless-flex passwordless-flex-justify-end",
+            onSubmit: (e) => {
+              e.preventDefault();
+              this.smsOtpPrompt = undefined;
+              prompt.resolve(smsOtp);
+              this.update();
+            },
+          },
+          this.h(
+            "label",
+            { class: "passwordless-input-label" },
+            prompt.attempt > 1
+              ? "That code is incorrect, please try again:"
+              : `Enter the code we've sent to ${prompt.phoneNumber}:`
+          ),
+          this.h("input", {
+            class: "passwordless-otp-input",
+            name: "sms-otp",
+            placeholder: "Code",
+            autocomplete: "one-time-code",
+            inputmode: "numeric",
+            autofocus: true,
+            onInput: (e) => {
+              smsOtp = (e.target as HTMLInputElement).value;
+              submit.disabled = !smsOtp.match(/^\d+$/);
+            },
+          }),
+          submit
+        )
+      );
+    }
+
+    if (signingInStatus === "SIGNING_OUT") {
+      return this.container_(this.spinner("Signing out, please wait..."));
+    }
+
+    if (signingInStatus === "SIGNIN_LINK_REQUESTED") {
+      return this.container_(
+        this.h(
+          "div",
+          { class: "passwordless-flex passwordless-flex-align-start" },
+          this.icon(envelopeIconPath, {
+            width: "24px",
+            height: "20px",
+            viewBox: "0 0 24 20",
+          }),
+          this.h(
+            "div",
+            null,
+            this.h(
+              "div",
+              { class: "passwordless-text-left" },
+              this.h("strong", null, "Please check your email.")
+            ),
+            this.h("div", null, "We've emailed you a secret sign-in link")
+          )
+        )
+      );
+    }
+
+    if (signingInStatus === "WAITING_FOR_REMOTE_APPROVAL") {
+      return this.container_(
+        this.h(
+          "div",
+          { class: "passwordless-flex passwordless-flex-align-start" },
+          this.h("div", { class: "passwordless-loading-spinner" }),
+          this.h(
+            "div",
+            null,
+            this.h(
+              "div",
+              { class: "passwordless-text-left" },
+              this.h("strong", null, "Please check your email.")
+            ),
+            this.h(
+              "div",
+              null,
+              "Open the sign-in link we've emailed you on any device, to sign in here"
+            )
+          )
+        )
+      );
+    }
+
+    if (signingInStatus === "CONFIRMING_SIGNIN_LINK_APPROVAL") {
+      return this.container_(
+        this.h(
+          "div",
+          { class: "passwordless-flex-col" },
+          this.h(
+            "div",
+            null,
+            "This sign-in link was requested on another device. Do you want to sign in on that other device?"
+          ),
+          this.h(
+            "div",
+            { class: "passwordless-flex" },
+            this.h(
+              "button",
+              {
+                class: "passwordless-button passwordless-button-sign-in",
+                onClick: () => store.confirmSignInLinkApproval(true),
+              },
+              "Yes, sign in my other device"
+            ),
+            this.h(
+              "button",
+              {
+                class: "passwordless-button passwordless-button-outlined",
+                onClick: () => store.confirmSignInLinkApproval(false),
+              },
+              "No, this wasn't me"
+            )
+          )
+        )
+      );
+    }
+
+    if (signingInStatus === "SIGNIN_LINK_APPROVED") {
+      return this.container_(
+        this.h(
+          "div",
+          { class: "passwordless-flex" },
+          this.h(
+            "div",
+            null,
+            "You've approved the sign-in on your other device. You can now close this window."
+          )
+        )
+      );
+    }
+
+    if (signInStatus === "SIGNED_IN") {
+      if (hasChildren) return this.h("slot", null);
+      return this.container_(
+        this.h(
+          "div",
+          { class: "passwordless-flex-col" },
+          this.h(
+            "div",
+            null,
+            "You're currently signed-in as: ",
+            this.h(
+              "span",
+              { class: "passwordless-username" },
+              tokensParsed?.idToken.email ??
+                tokensParsed?.idToken["cognito:username"]
+            )
+          ),
+          this.h(
+            "div",
+            { class: "passwordless-flex" },
+            this.h(
+              "button",
+              {
+                class: "passwordless-button passwordless-button-sign-out",
+                onClick: toggleShowAuthenticatorManager,
+                disabled: shared.showAuthenticatorManager,
+              },
+              "Manage authenticators"
+            ),
+            this.h(
+              "button",
+              {
+                class: "passwordless-button passwordless-button-sign-out",
+                onClick: () => store.signOut(),
+              },
+              "Sign out"
+            )
+          )
+        )
+      );
+    }
+
+    const lastUser = lastSignedInUsers[0];
+    const user: StoredUser | undefined =
+      this.newUsername && this.showSignInOptionsForUser === "NEW_USER"
+        ? {
+            email: this.newUsername,
+            username: this.newUsername,
+            useFido: showFido2AuthOption
+              ? "YES" // Presume the user might want to (and can) use FIDO2
+              : "NO",
+          }
+        : this.showSignInOptionsForUser === "LAST_USER"
+          ? lastUser
+          : undefined;
+
+    return this.container_(
+      signInStatus === "NOT_SIGNED_IN" &&
+        user &&
+        this.renderSignInOptions(user, { busy, smsOtpSignIn }),
+      signInStatus === "NOT_SIGNED_IN" &&
+        !user &&
+        this.renderUsernameEntry({ busy, smsOtpSignIn }),
+      this.h(
+        "div",
+        { class: "passwordless-flex" },
+        signingInStatus === "SIGNIN_LINK_EXPIRED" &&
+          this.h(
+            "div",
+            { class: "passwordless-flex passwordless-flex-align-start" },
+            this.icon(expiredIconPath, {
+              width: "24px",
+              height: "24px",
+              viewBox: "0 0 24 24",
+              class: "rotate-45",
+            }),
+            this.h(
+              "div",
+              null,
+              this.h(
+                "div",
+                { class: "passwordless-text-left" },
+                this.h("strong", null, "Authentication error.")
+              ),
+              this.h(
+                "div",
+                null,
+                "The sign-in link you tried to use is no longer valid"
+              )
+            )
+          ),
+        (signingInStatus === "REQUESTING_SIGNIN_LINK" ||
+          signingInStatus === "STARTING_SIGN_IN_WITH_FIDO2") && [
+          this.h("div", { class: "passwordless-loading-spinner" }),
+          this.h("div", null, "Starting sign-in..."),
+        ],
+        signingInStatus === "COMPLETING_SIGN_IN_WITH_FIDO2" && [
+          this.h("div", { class: "passwordless-loading-spinner" }),
+          this.h("div", null, "Completing your sign-in..."),
+        ],
+        lastError &&
+          this.h("div", { class: "passwordless-error" }, lastError.message)
+      )
+    );
+  }
+
+  private renderSignInOptions(
+    user: StoredUser,
+    { busy, smsOtpSignIn }: { busy: boolean; smsOtpSignIn: boolean }
+  ) {
+    const store = passwordlessStore();
+    const offerFido2 = !!configure().fido2 && user.useFido === "YES";
+    return this.h(
+      "div",
+      null,
+      this.h(
+        "div",
+        null,
+        this.h("div", { class: "passwordless-email-title" }, user.email),
+        this.h(
+          "p",
+          { class: "passwordless-flex passwordless-flex-vertical-buttons" },
+          offerFido2 &&
+            this.h(
+              "button",
+              {
+                class: "passwordless-button passwordless-button-sign-in",
+                onClick: () =>
+                  store.authenticateWithFido2({
+                    username: user.username,
+                    credentials: user.credentials,
+                  }),
+                disabled: busy,
+              },
+              this.h(
+                "div",
+                { class: "passwordless-flex" },
+                this.h(
+                  "div",
+                  { class: "passwordless-svg-icon-container" },
+                  this.icon(fingerprintIconPath)
+                ),
+                this.h("div", null, "Sign in with face or touch")
+              )
+            ),
+          this.h(
+            "button",
+            {
+              class: `passwordless-button passwordless-button-sign-in ${
+                offerFido2 ? "passwordless-button-outlined" : ""
+              }`,
+              onClick: () =>
+                store.requestSignInLink({ username: user.username }),
+              disabled: busy,
+            },
+            this.h(
+              "div",
+              { class: "passwordless-flex" },
+              this.h(
+                "div",
+                {
+                  class:
+                    "passwordless-svg-icon-container passwordless-flex-align-start",
+                },
+                this.icon(envelopeIconPath, { width: "24px", height: "20px" })
+              ),
+              this.h("div", null, "Sign in with magic link")
+            )
+          ),
+          smsOtpSignIn &&
+            this.h(
+              "button",
+              {
+                class:
+                  "passwordless-button passwordless-button-sign-in passwordless-button-outlined",
+                onClick: () => this.signInWithSmsOtp(user.username),
+                disabled: busy,
+              },
+              this.h(
+                "div",
+                { class: "passwordless-flex" },
+                this.h(
+                  "div",
+                  { class: "passwordless-svg-icon-container" },
+                  this.icon(phoneIconPath, {
+                    width: "24px",
+                    height: "24px",
+                    viewBox: "0 0 24 24",
+                  })
+                ),
+                this.h("div", null, "Sign in with SMS code")
+              )
+            )
+        ),
+        this.h("div", { class: "passwordless-mobile-spacer" })
+      ),
+      this.h("div", null),
+      this.h(
+        "button",
+        {
+          class: "passwordless-link",
+          onClick: () => {
+            this.showSignInOptionsForUser = "NEW_USER_ENTRY";
+            this.update();
+          },
+        },
+        "Sign-in as another user"
+      ),
+      this.h("div", null)
+    );
+  }
+
+  private renderUsernameEntry({
+    busy,
+    smsOtpSignIn,
+  }: {
+    busy: boolean;
+    smsOtpSignIn: boolean;
+  }) {
+    const store = passwordlessStore();
+    const showFido2AuthOption = !!configure().fido2;
+    const isValid = () => !!this.newUsername.match(/^\S+@\S+\.\S+$/);
+    const submit = this.h(
+      "button",
+      {
+        class: "passwordless-button",
+        type: "submit",
+        disabled: busy || !isValid(),
+      },
+      showFido2AuthOption || smsOtpSignIn
+        ? this.h(
+            "div",
+            { class: "passwordless-flex" },
+            this.h("span", null, "Next"),
+            this.h(
+              "svg",
+              {
+                xmlns: "http://www.w3.org/2000/svg",
+                viewBox: "0 0 24 24",
+                height: "18px",
+                width: "18px",
+              },
+              this.h("polygon", { points: nextIconPoints })
+            )
+          )
+        : this.h(
+            "div",
+            { class: "passwordless-flex" },
+            this.h("div", null, "Sign in"),
+            this.h(
+              "div",
+              {
+                class:
+                  "passwordless-svg-icon-container passwordless-flex-align-start",
+              },
+              this.icon(envelopeIconPath, { width: "24px", height: "20px" })
+            )
+          )
+    );
+    return [
+      showFido2AuthOption && [
+        this.h(
+          "button",
+          {
+            class: "passwordless-button",
+            onClick: () => store.authenticateWithFido2(),
+            disabled: busy,
+          },
+          this.h(
+            "div",
+            { class: "passwordless-flex" },
+            this.h(
+              "div",
+              { class: "passwordless-svg-icon-container" },
+              this.icon(fingerprintIconPath)
+            ),
+            this.h("span", null, "Sign in with passkey")
+          )
+        ),
+        this.h("div", { class: "passwordless-between-lines" }, "or"),
+      ],
+      this.h(
+        "form",
+        {
+          class: "passwordless-flex passwordless-flex-justify-end",
+          onSubmit: (e) => {
+            e.preventDefault();
+            if (showFido2AuthOption || smsOtpSignIn) {
+              // let the user choose between FIDO2, SMS OTP and Magic Link
+              this.showSignInOptionsForUser = "NEW_USER";
+              this.update();
+            } else {
+              // no user choice necessary––only magic links supported
+              store.requestSignInLink({ username: this.newUsername });
+            }
+          },
+        },
+        this.h(
+          "label",
+          { class: "passwordless-input-label" },
+          "Enter your e-mail address to sign in:"
+        ),
+        this.h("input", {
+          class: "passwordless-email-input",
+          name: "username",
+          value: this.newUsername,
+          placeholder: "E-mail",
+          type: "email",
+          autocomplete: "username webauthn",
+          disabled: busy,
+          autofocus: !showFido2AuthOption,
+          onInput: (e) => {
+            this.newUsername = (e.target as HTMLInputElement).value;
+            submit.disabled = busy || !isValid();
+          },
+        }),
+        submit
+      ),
+    ];
+  }
+}
+
+/**
+ * `<passwordless-authenticators>`: shows the user's registered FIDO2 credentials, and allows the user
+ * to register new ones, and to rename and delete them.
+ *
+ * Attributes:
+ * - `closable`: show a "close" link, that hides the authenticators manager of the `<passwordless-fido2-toast>`
+ */
+export class PasswordlessAuthenticatorsElement extends PasswordlessElement {
+  static observedAttributes = ["closable"];
+  private error?: Error;
+  private addingAuthenticatorStatus:
+    | "IDLE"
+    | "STARTING"
+    | "INPUT_NAME"
+    | "COMPLETING" = "IDLE";
+  private resolveFriendlyName?: (friendlyName: string) => void;
+  private confirmDeleteRowIndex = -1;
+  private editFriendlyNameRowIndex = -1;
+  private editedFriendlyName = "";
+  private clearTimeAgoInterval?: () => void;
+
+  connectedCallback() {
+    super.connectedCallback();
+    // Keep the "time ago" cells current, without rendering anew (which would interrupt the user's input)
+    const intervalId = setInterval(() => {
+      const now = new Date();
+      this.shadowRoot
+        ?.querySelectorAll<HTMLElement>("[data-time-ago]")
+        .forEach((cell) => {
+          cell.textContent =
+            timeAgo(now, new Date(cell.dataset.timeAgo!)) ??
+            cell.dataset.timeAgoFallback ??
+            null;
+        });
+    }, 1000);
+    this.clearTimeAgoInterval = () => clearInterval(intervalId);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.clearTimeAgoInterval?.();
+  }
+
+  /** Reset the UI state, e.g. when the authenticators manager is hidden */
+  reset() {
+    this.error = undefined;
+    this.confirmDeleteRowIndex = -1;
+    this.editFriendlyNameRowIndex = -1;
+    this.addingAuthenticatorStatus = "IDLE";
+    this.editedFriendlyName = "";
+  }
+
+  private setError = (error: Error) => {
+    this.error = error;
+    this.update();
+  };
+
+  private timeAgoCell(className: string, date?: Date, fallback?: string) {
+    return this.h(
+      "td",
+      {
+        class: className,
+        "data-time-ago": date?.toISOString(),
+        "data-time-ago-fallback": fallback,
+      },
+      timeAgo(new Date(), date) || fallback
+    );
+  }
+
+  private addAuthenticator() {
+    this.addingAuthenticatorStatus = "STARTING";
+    this.error = undefined;
+    this.update();
+    passwordlessStore()
+      .fido2CreateCredential({
+        friendlyName: () => {
+          const mobileDeviceName = determineMobileDeviceName();
+          if (mobileDeviceName) return mobileDeviceName;
+          this.addingAuthenticatorStatus = "INPUT_NAME";
+          this.update();
+          return new Promise<string>(
+            (resolve) => (this.resolveFriendlyName = resolve)
+          );
+        },
+      })
+      .then(() => {
+        updateFidoPreference("YES");
+        this.reset();
+      })
+      .catch(this.setError)
+      .finally(() => {
+        this.addingAuthenticatorStatus = "IDLE";
+        this.update();
+      });
+  }
+
+  protected render({ signInStatus, fido2Credentials }: PasswordlessState) {
+    if (signInStatus !== "SIGNED_IN") return null;
+    const status = {
+      isAddingAuthenticator: this.addingAuthenticatorStatus !== "IDLE",
+      isDeletingAuthenticator: this.confirmDeleteRowIndex !== -1,
+      isEditingAuthenticator: this.editFriendlyNameRowIndex !== -1,
+    };
+    const showList =
+      this.addingAuthenticatorStatus === "IDLE" ||
+      this.addingAuthenticatorStatus === "STARTING";
+    return this.h(
+      "div",
+      { class: "passwordless-table" },
+      showList &&
+        fido2Credentials?.length === 0 &&
+        this.h(
+          "div",
+          { class: "passwordless-no-devices-yet" },
+          this.h("span", null, "You don't have any authenticators yet."),
+          this.h(
+            "span",
+            null,
+            "Press the button ",
+            this.h("strong", null, '"Register new authenticator"'),
+            " to get started."
+          )
+        ),
+      showList &&
+        !!fido2Credentials?.length &&
+        this.h(
+          "table",
+          null,
+          this.h(
+            "thead",
+            null,
+            this.h(
+              "tr",
+              {
+                class:
+                  status.isEditingAuthenticator ||
+                  status.isDeletingAuthenticator
+                    ? "passwordless-table-hide-headers"
+                    : "",
+              },
+              this.h("th", null),
+              this.h(
+                "th",
+                { class: "passwordless-table-col-last-sign-in" },
+                "Last sign-in"
+              ),
+              this.h(
+                "th",
+                { class: "passwordless-table-col-created-at" },
+                "Created at"
+              ),
+              this.h("th", null)
+            )
+          ),
+          this.h(
+            "tbody",
+            null,
+            fido2Credentials.map((credential, index) => {
+              if (this.editFriendlyNameRowIndex === index) {
+                const save = this.h(
+                  "button",
+                  {
+                    class: "passwordless-button passwordless-button-save",
+                    type: "submit",
+                    disabled:
+                      credential.busy ||
+                      !this.editedFriendlyName ||
+                      this.editedFriendlyName === credential.friendlyName,
+                  },
+                  "Save"
+                );
+                return this.h(
+                  "tr",
+                  null,
+                  this.h(
+                    "td",
+                    { colspan: "4" },
+                    this.h(
+                      "form",
+                      {
+                        class: "passwordless-edit-friendly-name",
+                        onSubmit: (e) => {
+                          e.preventDefault();
+                          this.error = undefined;
+                          credential
+                            .update({ friendlyName: this.editedFriendlyName })
+                            .then(() => {
+                              this.reset();
+                              this.update();
+                            })
+                            .catch(this.setError);
+                        },
+                      },
+                      this.h("input", {
+                        class: "passwordless-friendly-name-input",
+                        name: "edited-friendly-name",
+                        autofocus: true,
+                        value: this.editedFriendlyName,
+                        onInput: (e) => {
+                          this.editedFriendlyName = (
+                            e.target as HTMLInputElement
+                          ).value;
+                          save.disabled =
+                            credential.busy ||
+                            !this.editedFriendlyName ||
+                            this.editedFriendlyName === credential.friendlyName;
+                        },
+                      }),
+                      save,
+                      this.h(
+                        "button",
+                        {
+                          class:
+                            "passwordless-button passwordless-button-cancel",
+                          type: "button",
+                          onClick: () => {
+                            this.editFriendlyNameRowIndex = -1;
+                            this.update();
+                          },
+                          disabled: credential.busy,
+                        },
+                        "Cancel"
+                      )
+                    )
+                  )
+                );
+              }
+              if (this.confirmDeleteRowIndex === index) {
+                return this.h(
+                  "tr",
+                  null,
+                  this.h(
+                    "td",
+                    { colspan: "4" },
+                    this.h(
+                      "div",
+                      { class: "passwordless-confirm-delete-device" },
+                      this.h(
+                        "span",
+                        null,
+                        " Are you sure you want to delete your device named ",
+                        this.h("strong", null, `"${credential.friendlyName}"`),
+                        "? "
+                      ),
+                      this.h(
+                        "div",
+                        null,
+                        this.h(
+                          "button",
+                          {
+                            class:
+                              "passwordless-button passwordless-button-save",
+                            onClick: () => {
+                              this.error = undefined;
+                              credential
+                                .delete()
+                                .then(() => {
+                                  this.reset();
+                                  this.update();
+                                })
+                                .catch(this.setError);
+                            },
+                            disabled: credential.busy,
+                          },
+                          "Yes"
+                        ),
+                        this.h(
+                          "button",
+                          {
+                            class:
+                              "passwordless-button passwordless-button-cancel",
+                            onClick: () => {
+                              this.error = undefined;
+                              this.confirmDeleteRowIndex = -1;
+                              this.update();
+                            },
+                            disabled: credential.busy,
+                          },
+                          "No"
+                        )
+                      )
+                    )
+                  )
+                );
+              }
+              const disabled =
+                credential.busy ||
+                status.isAddingAuthenticator ||
+                status.isEditingAuthenticator ||
+                status.isDeletingAuthenticator;
+              return this.h(
+                "tr",
+                null,
+                this.h(
+                  "td",
+                  {
+                    class:
+                      "passwordless-table-col-friendly-name passwordless-table-cell-ellipsis",
+                  },
+                  this.h(
+                    "span",
+                    null,
+                    this.h(
+                      "button",
+                      {
+                        class: "passwordless-friendly-name",
+                        onClick: () => {
+                          this.editFriendlyNameRowIndex = index;
+                          this.editedFriendlyName = credential.friendlyName;
+                          this.update();
+                        },
+                        disabled,
+                      },
+                      this.icon(editIconPath, {
+                        class: "passwordless-edit-icon",
+                        viewBox: "0 0 24 24",
+                      }),
+                      credential.friendlyName
+                    )
+                  )
+                ),
+                this.timeAgoCell(
+                  "passwordless-table-col-last-sign-in",
+                  credential.lastSignIn,
+                  "Never"
+                ),
+                this.timeAgoCell(
+                  "passwordless-table-col-created-at",
+                  credential.createdAt,
+                  "Unknown"
+                ),
+                this.h(
+                  "td",
+                  { class: "passwordless-table-col-delete" },
+                  this.h(
+                    "button",
+                    {
+                      class:
+                        "passwordless-button passwordless-button-outlined passwordless-button-delete",
+                      onClick: () => {
+                        this.error = undefined;
+                        this.confirmDeleteRowIndex = index;
+                        this.update();
+                      },
+                      disabled,
+                    },
+                    this.icon(deleteIconPath, {
+                      class: "passwordless-delete-icon",
+                      viewBox: "0 0 24 24",
+                    })
+                  )
+                )
+              );
+            })
+          )
+        ),
+      this.h(
+        "div",
+        { class: "passwordless-authenticators-action-row" },
+        showList &&
+          this.h(
+            "button",
+            {
+              class:
+                "passwordless-button passwordless-button-add-authenticator",
+              onClick: () => this.addAuthenticator(),
+              disabled:
+                this.addingAuthenticatorStatus === "STARTING" ||
+                status.isEditingAuthenticator ||
+                status.isDeletingAuthenticator,
+            },
+            "Register new authenticator"
+          ),
+        !showList &&
+          this.friendlyNameForm(this.addingAuthenticatorStatus, () => {
+            this.addingAuthenticatorStatus = "COMPLETING";
+            this.update();
+          }),
+        this.hasAttribute("closable") &&
+          this.h(
+            "div",
+            {
+              class: "passwordless-link",
+              onClick: toggleShowAuthenticatorManager,
+            },
+            "close"
+          )
+      ),
+      this.error &&
+        this.h(
+          "div",
+          { class: "passwordless-authenticator-error" },
+          this.error.message
+        )
+    );
+  }
+
+  /** Form to enter the friendly name of a new FIDO2 credential */
+  private friendlyNameForm(
+    status: "IDLE" | "STARTING" | "INPUT_NAME" | "COMPLETING",
+    onSubmitted: () => void
+  ) {
+    let friendlyName = "";
+    const finish = this.h(
+      "button",
+      {
+        class: "passwordless-button passwordless-button-finish",
+        type: "submit",
+        disabled: true,
+      },
+      "Finish"
+    );
+    return this.h(
+      "form",
+      {
+        class: "passwordless-flex",
+        onSubmit: (e) => {
+          e.preventDefault();
+          this.resolveFriendlyName?.(friendlyName);
+          onSubmitted();
+        },
+      },
+      this.h(
+        "div",
+        { class: "passwordless-fido-recommendation-text" },
+        "Provide a name for this authenticator, so you can recognize it easily later"
+      ),
+      this.h("input", {
+        class: "passwordless-friendly-name-input",
+        name: "friendly-name",
+        autofocus: true,
+        placeholder: "authenticator name",
+        disabled: status === "COMPLETING",
+        onInput: (e) => {
+          friendlyName = (e.target as HTMLInputElement).value;
+          finish.disabled = !friendlyName;
+        },
+      }),
+      finish
+    );
+  }
+}
+
+/**
+ * `<passwordless-fido2-toast>`: a "toast" at the top of the page that (1) recommends to add a FIDO2 credential
+ * if the user doesn't yet have one and (2) shows the user's registered FIDO2 credentials, when the user
+ * clicks "Manage authenticators" in the `<passwordless-signin>` element
+ */
+export class PasswordlessFido2ToastElement extends PasswordlessElement {
+  private status:
+    | "IDLE"
+    | "STARTING"
+    | "INPUT_NAME"
+    | "COMPLETING"
+    | "COMPLETED" = "IDLE";
+  private error?: Error;
+  private friendlyName = "";
+  private resolveFriendlyName?: (friendlyName: string) => void;
+  private resetTimeout?: ReturnType<typeof setTimeout>;
+  private authenticatorsManager?: PasswordlessAuthenticatorsElement;
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    clearTimeout(this.resetTimeout);
+  }
+
+  private reset() {
+    clearTimeout(this.resetTimeout);
+    this.error = undefined;
+    this.status = "IDLE";
+    this.friendlyName = "";
+    this.update();
+  }
+
+  private addAuthenticator() {
+    this.status = "STARTING";
+    this.update();
+    passwordlessStore()
+      .fido2CreateCredential({
+        friendlyName: () => {
+          const mobileDeviceName = determineMobileDeviceName();
+          if (mobileDeviceName) return mobileDeviceName;
+          this.status = "INPUT_NAME";
+          this.update();
+          return new Promise<string>(
+            (resolve) => (this.resolveFriendlyName = resolve)
+          );
+        },
+      })
+      .then(() => updateFidoPreference("YES"))
+      .catch((err: Error) => (this.error = err))
+      .finally(() => {
+        this.status = "COMPLETED";
+        this.resetTimeout = setTimeout(() => this.reset(), 10000);
+        this.update();
+      });
+  }
+
+  protected render({ signInStatus }: PasswordlessState): Child {
+    if (shared.showAuthenticatorManager) {
+      if (this.status !== "IDLE") this.reset();
+      if (!this.authenticatorsManager) {
+        this.authenticatorsManager = this.h("passwordless-authenticators", {
+          closable: true,
+        });
+      }
+      return this.authenticatorsManager;
+    }
+    this.authenticatorsManager?.reset();
+    const { currentUser } = shared;
+    const show =
+      signInStatus === "SIGNED_IN" &&
+      currentUser &&
+      (currentUser.useFido === "ASK" || this.status === "COMPLETED");
+    if (!show) return null;
+    const close = (text: string) =>
+      this.h(
+        "div",
+        {
+          class: "passwordless-link",
+          onClick: () => {
+            updateFidoPreference("NO");
+            this.reset();
+          },
+        },
+        text
+      );
+    return this.h(
+      "div",
+      null,
+      this.h(
+        "div",
+        { class: "passwordless-fido-recommendation" },
+        (this.status === "IDLE" || this.status === "STARTING") && [
+          this.h(
+            "div",
+            { class: "passwordless-fido-recommendation-text" },
+            "We recommend increasing the security of your account by adding face or touch unlock for this website."
+          ),
+          this.h(
+            "button",
+            {
+              class:
+                "passwordless-button passwordless-button-add-face-touch-unlock",
+              disabled: this.status === "STARTING",
+              onClick: () => this.addAuthenticator(),
+            },
+            "Add face or touch unlock"
+          ),
+          close("close"),
+        ],
+        (this.status === "INPUT_NAME" || this.status === "COMPLETING") &&
+          this.renderFriendlyNameForm(close("cancel")),
+        this.status === "COMPLETED" && [
+          this.h(
+            "div",
+            { class: "passwordless-fido-recommendation-text" },
+            this.error
+              ? `Failed to activate face or touch unlock: ${this.error.message}`
+              : "Face or touch unlock activated successfully"
+          ),
+          this.h(
+            "div",
+            { class: "passwordless-link", onClick: () => this.reset() },
+            "close"
+          ),
+        ]
+      )
+    );
+  }
+
+  private renderFriendlyNameForm(cancel: Element) {
+    const finish = this.h(
+      "button",
+      {
+        class: "passwordless-button passwordless-button-finish",
+        type: "submit",
+        disabled: !this.friendlyName || this.status === "COMPLETING",
+      },
+      "Finish"
+    );
+    return this.h(
+      "form",
+      {
+        class: "passwordless-flex",
+        onSubmit: (e) => {
+          e.preventDefault();
+          this.resolveFriendlyName?.(this.friendlyName);
+          this.status = "COMPLETING";
+          this.update();
+        },
+      },
+      this.h(
+        "div",
+        { class: "passwordless-fido-recommendation-text" },
+        "Provide a name for this authenticator, so you can recognize it easily later"
+      ),
+      this.h("input", {
+        class: "passwordless-friendly-name-input",
+        name: "friendly-name",
+        autofocus: true,
+        placeholder: "authenticator name",
+        value: this.friendlyName,
+        onInput: (e) => {
+          this.friendlyName = (e.target as HTMLInputElement).value;
+          finish.disabled = !this.friendlyName;
+        },
+      }),
+      finish,
+      cancel
+    );
+  }
+}
+
+const envelopeIconPath =
+  "M1.8,17.4 L1.8,3.23906256 L12,13.4402345 L22.2,3.23906256 L22.2,17.5195313 L1.8,17.5195313 L1.8,17.4 Z M21,1.8 L12,10.8 L3,1.8 L21,1.8 Z M0,0 L0,19.2 L24,19.2 L24,0 L0,0 Z";
+const phoneIconPath =
+  "M17,1H7C5.9,1,5,1.9,5,3v18c0,1.1,0.9,2,2,2h10c1.1,0,2-0.9,2-2V3C19,1.9,18.1,1,17,1z M17,19H7V5h10V19z";
+const expiredIconPath =
+  "M18,11.1 L12.9,11.1 L12.9,6 L11.1,6 L11.1,11.1 L6,11.1 L6,12.9 L11.1,12.9 L11.1,17.9988281 L12.9,17.9988281 L12.9,12.9 L18,12.9 L18,11.1 Z M12,24 C5.38359372,24 0,18.6164063 0,12 C0,5.38300776 5.38359372,0 12,0 C18.6164063,0 24,5.38300776 24,12 C24,18.6164063 18.6164063,24 12,24 Z M12,1.8 C6.37617192,1.8 1.8,6.37558596 1.8,12 C1.8,17.6238281 6.37617192,22.2 12,22.2 C17.6238281,22.2 22.2,17.6238281 22.2,12 C22.2,6.37558596 17.6238281,1.8 12,1.8 Z";
+const editIconPath =
+  "M20.71,7.04C21.1,6.65 21.1,6 20.71,5.63L18.37,3.29C18,2.9 17.35,2.9 16.96,3.29L15.12,5.12L18.87,8.87M3,17.25V21H6.75L17.81,9.93L14.06,6.18L3,17.25Z";
+const deleteIconPath =
+  "M9,3V4H4V6H5V19A2,2 0 0,0 7,21H17A2,2 0 0,0 19,19V6H20V4H15V3H9M9,8H11V17H9V8M13,8H15V17H13V8Z";
+const nextIconPoints =
+  "14.1015625 6.08091905 19.1386718 11.2357642 2 11.2357642 2 12.7642358 19.1386718 12.7642358 14.0996094 17.9190808 15.1582031 19 22 12.000999 15.1582031 5";
+const fingerprintIconPath =
+  "M3.1,9.4 C3.03333333,9.36666667 3,9.3125 3,9.2375 C3,9.1625 3.01666667,9.09166667 3.05,9.025 C4.08333333,7.59166667 5.39166667,6.48333333 6.975,5.7 C8.55833333,4.91666667 10.25,4.525 12.05,4.525 C13.85,4.525 15.5458333,4.90833333 17.1375,5.675 C18.7291667,6.44166667 20.05,7.54166667 21.1,8.975 C21.15,9.05833333 21.1708333,9.125 21.1625,9.175 C21.1541667,9.225 21.125,9.275 21.075,9.325 C21.025,9.375 20.9625,9.4 20.8875,9.4 C20.8125,9.4 20.7416667,9.35833333 20.675,9.275 C19.6916667,7.90833333 18.4375,6.85833333 16.9125,6.125 C15.3875,5.39166667 13.7666667,5.025 12.05,5.025 C10.3333333,5.025 8.725,5.39583333 7.225,6.1375 C5.725,6.87916667 4.475,7.925 3.475,9.275 C3.40833333,9.35833333 3.34583333,9.40833333 3.2875,9.425 C3.22916667,9.44166667 3.16666667,9.43333333 3.1,9.4 Z M15.025,21.975 C13.3083333,21.5416667 11.8958333,20.6833333 10.7875,19.4 C9.67916667,18.1166667 9.125,16.5583333 9.125,14.725 C9.125,13.9416667 9.4125,13.2833333 9.9875,12.75 C10.5625,12.2166667 11.25,11.95 12.05,11.95 C12.85,11.95 13.5375,12.2166667 14.1125,12.75 C14.6875,13.2833333 14.975,13.9416667 14.975,14.725 C14.975,15.3583333 15.2208333,15.8916667 15.7125,16.325 C16.2041667,16.7583333 16.775,16.975 17.425,16.975 C18.0583333,16.975 18.6125,16.7583333 19.0875,16.325 C19.5625,15.8916667 19.8,15.3583333 19.8,14.725 C19.8,12.675 19.0375,10.9583333 17.5125,9.575 C15.9875,8.19166667 14.1666667,7.5 12.05,7.5 C9.93333333,7.5 8.1125,8.19166667 6.5875,9.575 C5.0625,10.9583333 4.3,12.675 4.3,14.725 C4.3,15.125 4.34583333,15.6458333 4.4375,16.2875 C4.52916667,16.9291667 4.725,17.6583333 5.025,18.475 C5.05833333,18.5583333 5.05833333,18.6208333 5.025,18.6625 C4.99166667,18.7041667 4.95,18.7416667 4.9,18.775 C4.83333333,18.8083333 4.7625,18.8166667 4.6875,18.8 C4.6125,18.7833333 4.55833333,18.7333333 4.525,18.65 C4.30833333,18.0166667 4.1375,17.3708333 4.0125,16.7125 C3.8875,16.0541667 3.825,15.3916667 3.825,14.725 C3.825,12.575 4.64166667,10.7375 6.275,9.2125 C7.90833333,7.6875 9.83333333,6.925 12.05,6.925 C14.3166667,6.925 16.2625,7.675 17.8875,9.175 C19.5125,10.675 20.325,12.525 20.325,14.725 C20.325,15.4916667 20.0416667,16.1416667 19.475,16.675 C18.9083333,17.2083333 18.225,17.475 17.425,17.475 C16.6083333,17.475 15.9083333,17.2083333 15.325,16.675 C14.7416667,16.1416667 14.45,15.4916667 14.45,14.725 C14.45,14.075 14.2125,13.5333333 13.7375,13.1 C13.2625,12.6666667 12.7,12.45 12.05,12.45 C11.4,12.45 10.8333333,12.6666667 10.35,13.1 C9.86666667,13.5333333 9.625,14.075 9.625,14.725 C9.625,16.4583333 10.15,17.9041667 11.2,19.0625 C12.25,20.2208333 13.5583333,21.0333333 15.125,21.5 C15.225,21.5333333 15.2875,21.575 15.3125,21.625 C15.3375,21.675 15.3416667,21.7333333 15.325,21.8 C15.3083333,21.8833333 15.275,21.9416667 15.225,21.975 C15.175,22.0083333 15.1083333,22.0083333 15.025,21.975 Z M6.2,3.975 C6.11666667,4.00833333 6.05416667,4.0125 6.0125,3.9875 C5.97083333,3.9625 5.93333333,3.925 5.9,3.875 C5.86666667,3.84166667 5.85,3.79166667 5.85,3.725 C5.85,3.65833333 5.875,3.60833333 5.925,3.575 C6.875,3.05833333 7.87083333,2.66666667 8.9125,2.4 C9.95416667,2.13333333 11,2 12.05,2 C13.1333333,2 14.1958333,2.13333333 15.2375,2.4 C16.2791667,2.66666667 17.275,3.04166667 18.225,3.525 C18.3083333,3.55833333 18.3541667,3.60833333 18.3625,3.675 C18.3708333,3.74166667 18.3583333,3.8 18.325,3.85 C18.2916667,3.9 18.2458333,3.94166667 18.1875,3.975 C18.1291667,4.00833333 18.0583333,4.00833333 17.975,3.975 C17.0583333,3.525 16.1,3.17083333 15.1,2.9125 C14.1,2.65416667 13.0833333,2.525 12.05,2.525 C11.0166667,2.525 10.0083333,2.64583333 9.025,2.8875 C8.04166667,3.12916667 7.1,3.49166667 6.2,3.975 L6.2,3.975 Z M9.55,21.7 C8.58333333,20.7 7.82916667,19.65 7.2875,18.55 C6.74583333,17.45 6.475,16.175 6.475,14.725 C6.475,13.2416667 7.02083333,11.9916667 8.1125,10.975 C9.20416667,9.95833333 10.5166667,9.45 12.05,9.45 C13.5833333,9.45 14.9041667,9.95833333 16.0125,10.975 C17.1208333,11.9916667 17.675,13.2416667 17.675,14.725 C17.675,14.8083333 17.6541667,14.8708333 17.6125,14.9125 C17.5708333,14.9541667 17.5083333,14.975 17.425,14.975 C17.3416667,14.975 17.275,14.9541667 17.225,14.9125 C17.175,14.8708333 17.15,14.8083333 17.15,14.725 C17.15,13.375 16.6458333,12.2416667 15.6375,11.325 C14.6291667,10.4083333 13.4333333,9.95 12.05,9.95 C10.6666667,9.95 9.47916667,10.4083333 8.4875,11.325 C7.49583333,12.2416667 7,13.375 7,14.725 C7,16.1416667 7.24583333,17.35 7.7375,18.35 C8.22916667,19.35 8.95833333,20.35 9.925,21.35 C9.99166667,21.4166667 10.0208333,21.4791667 10.0125,21.5375 C10.0041667,21.5958333 9.975,21.65 9.925,21.7 C9.89166667,21.7333333 9.8375,21.7625 9.7625,21.7875 C9.6875,21.8125 9.61666667,21.7833333 9.55,21.7 Z M17.2,19.875 C15.7333333,19.875 14.4625,19.3875 13.3875,18.4125 C12.3125,17.4375 11.775,16.2083333 11.775,14.725 C11.775,14.6416667 11.7958333,14.575 11.8375,14.525 C11.8791667,14.475 11.9416667,14.45 12.025,14.45 C12.1083333,14.45 12.1708333,14.475 12.2125,14.525 C12.2541667,14.575 12.275,14.6416667 12.275,14.725 C12.275,16.075 12.7708333,17.1875 13.7625,18.0625 C14.7541667,18.9375 15.9,19.375 17.2,19.375 C17.3333333,19.375 17.4916667,19.3666667 17.675,19.35 C17.8583333,19.3333333 18.0583333,19.3083333 18.275,19.275 C18.3583333,19.2583333 18.425,19.2708333 18.475,19.3125 C18.525,19.3541667 18.5583333,19.4 18.575,19.45 C18.5916667,19.5166667 18.5875,19.575 18.5625,19.625 C18.5375,19.675 18.4833333,19.7083333 18.4,19.725 C18.1,19.8083333 17.8375,19.8541667 17.6125,19.8625 C17.3875,19.8708333 17.25,19.875 17.2,19.875 Z";
@@ -0,0 +1,67 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { PasswordlessStore } from "../store.js";
+import {
+  PasswordlessAuthenticatorsElement,
+  PasswordlessFido2ToastElement,
+  PasswordlessSignInElement,
+  configureElements,
+} from "./components.js";
+
+export {
+  PasswordlessAuthenticatorsElement,
+  PasswordlessFido2ToastElement,
+  PasswordlessSignInElement,
+  passwordlessStore,
+} from "./components.js";
+export type {
+  PasswordlessErrorDetail,
+  PasswordlessStatusChangeDetail,
+} from "./components.js";
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "passwordless-signin": PasswordlessSignInElement;
+    "passwordless-fido2-toast": PasswordlessFido2ToastElement;
+    "passwordless-authenticators": PasswordlessAuthenticatorsElement;
+  }
+}
+
+/**
+ * Register the `<passwordless-signin>`, `<passwordless-fido2-toast>` and `<passwordless-authenticators>`
+ * custom elements. The elements render into shadow DOM, so page styles don't reach them: pass the
+ * Passwordless CSS (`passwordless.css`) either as text (`styles`) or as URL (`stylesheetUrl`).
+ *
+ * All elements share one `PasswordlessStore`, pass your own to share it with other parts of your app.
+ */
+export function definePasswordlessElements(
+  options: {
+    store?: PasswordlessStore;
+    styles?: string;
+    stylesheetUrl?: string;
+  } = {}
+) {
+  configureElements(options);
+  const elements: [string, CustomElementConstructor][] = [
+    ["passwordless-signin", PasswordlessSignInElement],
+    ["passwordless-fido2-toast", PasswordlessFido2ToastElement],
+    ["passwordless-authenticators", PasswordlessAuthenticatorsElement],
+  ];
+  for (const [name, element] of elements) {
+    if (!customElements.get(name)) {
+      customElements.define(name, element);
+    }
+  }
+}
@@ -0,0 +1,430 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import {
+  KeyObject,
+  createHash,
+  generateKeyPairSync,
+  randomBytes,
+  sign,
+} from "crypto";
+
+/**
+ * Fixtures for attestation verification: minimal DER encoding and X.509 certificate issuance,
+ * to create attestation statements of each format, as authenticators would
+ */
+
+export const der = {
+  element: (tag: number | number[], ...content: Buffer[]) => {
+    const value = Buffer.concat(content);
+    const length =
+      value.length < 0x80
+        ? Buffer.from([value.length])
+        : value.length < 0x100
+          ? Buffer.from([0x81, value.length])
+          : Buffer.from([0x82, value.length >> 8, value.length & 0xff]);
+    return Buffer.concat([Buffer.from([tag].flat()), length, value]);
+  },
+  sequence: (...content: Buffer[]) => der.element(0x30, ...content),
+  set: (...content: Buffer[]) => der.element(0x31, ...content),
+  integer: (value: number) => {
+    const bytes = [];
+    do {
+      bytes.unshift(value & 0xff);
+      value = Math.floor(value / 256);
+    } while (value);
+    if (bytes[0] & 0x80) bytes.unshift(0);
+    return der.element(0x02, Buffer.from(bytes));
+  },
+  enumerated: (value: number) => der.element(0x0a, Buffer.from([value])),
+  boolean: (value: boolean) =>
+    der.element(0x01, Buffer.from([value ? 0xff : 0])),
+  null: () => der.element(0x05),
+  octetString: (value: Buffer) => der.element(0x04, value),
+  bitString: (value: Buffer) => der.element(0x03, Buffer.from([0]), value),
+  utf8String: (value: string) => der.element(0x0c, Buffer.from(value)),
+  printableString: (value: string) => der.element(0x13, Buffer.from(value)),
+  utcTime: (date: Date) =>
+    der.element(
+      0x17,
+      Buffer.from(
+        date.toISOString().replace(/[-:T]/g, "").slice(2, 14).concat("Z")
+      )
+    ),
+  oid: (oid: string) => {
+    const [first, second, ...rest] = oid.split(".").map(Number);
+    const bytes = [first * 40 + second];
+    for (const arc of rest) {
+      const arcBytes = [arc & 0x7f];
+      for (let rem = Math.floor(arc / 128); rem; rem = Math.floor(rem / 128)) {
+        arcBytes.unshift((rem & 0x7f) | 0x80);
+      }
+      bytes.push(...arcBytes);
+    }
+    return der.element(0x06, Buffer.from(bytes));
+  },
+  /** Context specific, constructed (i.e. EXPLICIT) tag */
+  explicit: (tagNumber: number, ...content: Buffer[]) =>
+    tagNumber < 0x1f
+      ? der.element(0xa0 + tagNumber, ...content)
+      : der.element(
+          [
+            0xbf,
+            ...(tagNumber > 0x7f ? [0x80 | (tagNumber >> 7)] : []),
+            tagNumber & 0x7f,
+          ],
+          ...content
+        ),
+};
+
+const OIDS = {
+  C: "2.5.4.6",
+  O: "2.5.4.10",
+  OU: "2.5.4.11",
+  CN: "2.5.4.3",
+  basicConstraints: "2.5.29.19",
+  subjectAltName: "2.5.29.17",
+  extendedKeyUsage: "2.5.29.37",
+  tcgKpAikCertificate: "2.23.133.8.3",
+  fidoGenCeAaguid: "1.3.6.1.4.1.45724.1.1.4",
+  androidKeyDescription: "1.3.6.1.4.1.11129.2.1.17",
+  appleNonce: "1.2.840.113635.100.8.2",
+  ecdsaWithSha256: "1.2.840.10045.4.3.2",
+  sha256WithRsaEncryption: "1.2.840.113549.1.1.11",
+};
+
+export interface Extension {
+  oid: string;
+  critical?: boolean;
+  value: Buffer;
+}
+
+export interface Issued {
+  cert: Buffer;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  subject: Record<string, string>;
+}
+
+function encodeName(name: Record<string, string>) {
+  return der.sequence(
+    ...Object.entries(name).map(([type, value]) =>
+      der.set(
+        der.sequence(
+          der.oid(OIDS[type as keyof typeof OIDS]),
+          type === "C" ? der.printableString(value) : der.utf8String(value)
+        )
+      )
+    )
+  );
+}
+
+function signatureAlgorithm(key: KeyObject) {
+  return key.asymmetricKeyType === "ec"
+    ? der.sequence(der.oid(OIDS.ecdsaWithSha256))
+    : der.sequence(der.oid(OIDS.sha256WithRsaEncryption), der.null());
+}
+
+/** Issue an X.509 v3 certificate, for the key pair (a new EC P-256 key pair by default), signed by the issuer (self-signed by default) */
+export function issueCertificate({
+  subject,
+  issuer,
+  ca = false,
+  extensions = [],
+  keyPair = generateKeyPairSync("ec", { namedCurve: "P-256" }),
+  validFrom = new Date(Date.now() - 3600_000),
+  validTo = new Date(Date.now() + 3600_000),
+}: {
+  subject: Record<string, string>;
+  issuer?: Issued;
+  ca?: boolean;
+  extensions?: Extension[];
+  keyPair?: { privateKey: KeyObject; publicKey: KeyObject };
+  validFrom?: Date;
+  validTo?: Date;
+}): Issued {
+  const signingKey = issuer?.privateKey ?? keyPair.privateKey;
+  const allExtensions: Extension[] = [
+    {
+      oid: OIDS.basicConstraints,
+      critical: true,
+      value: der.sequence(...(ca ? [der.boolean(true)] : [])),
+    },
+    ...extensions,
+  ];
+  const tbsCertificate = der.sequence(
+    der.explicit(0, der.integer(2)),
+    der.integer(randomBytes(4).readUInt32BE(0) >>> 1),
+    signatureAlgorithm(signingKey),
+    encodeName(issuer?.subject ?? subject),
+    der.sequence(der.utcTime(validFrom), der.utcTime(validTo)),
+    encodeName(subject),
+    keyPair.publicKey.export({ format: "der", type: "spki" }),
+    der.explicit(
+      3,
+      der.sequence(
+        ...allExtensions.map(({ oid, critical, value }) =>
+          der.sequence(
+            der.oid(oid),
+            ...(critical ? [der.boolean(true)] : []),
+            der.octetString(value)
+          )
+        )
+      )
+    )
+  );
+  const cert = der.sequence(
+    tbsCertificate,
+    signatureAlgorithm(signingKey),
+    der.bitString(sign("sha256", tbsCertificate, signingKey))
+  );
+  return { cert, subject, ...keyPair };
+}
+
+/** A root CA, that attestation certificates can be issued by */
+export function issueRootCertificate(commonName = "Test Attestation Root") {
+  return issueCertificate({
+    subject: { C: "US", O: "Test Vendor", CN: commonName },
+    ca: true,
+  });
+}
+
+export const aaguidExtension = (aaguid: Buffer): Extension => ({
+  oid: OIDS.fidoGenCeAaguid,
+  value: der.octetString(aaguid),
+});
+
+/** The inputs that authenticators sign over when they create a credential */
+export function createRegistration({
+  algorithm = "ES256",
+}: { algorithm?: "ES256" | "RS256" } = {}) {
+  const credentialKeyPair =
+    algorithm === "ES256"
+      ? generateKeyPairSync("ec", { namedCurve: "P-256" })
+      : generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const rpIdHash = createHash("sha256").update("localhost").digest();
+  const aaguid = randomBytes(16);
+  const credentialId = randomBytes(32);
+  // rpIdHash | flags | signCount | aaguid | credentialIdLength | credentialId (the credential public key is left out, it isn't parsed here)
+  const authData = Buffer.concat([
+    rpIdHash,
+    Buffer.from([0x45, 0, 0, 0, 0]),
+    aaguid,
+    Buffer.from([0, credentialId.length]),
+    credentialId,
+  ]);
+  const clientDataHash = createHash("sha256")
+    .update(JSON.stringify({ type: "webauthn.create", challenge: "abc" }))
+    .digest();
+  return {
+    credentialKeyPair,
+    fields: {
+      authData,
+      clientDataHash,
+      rpIdHash,
+      aaguid,
+      credentialId,
+      credentialPublicKey: {
+        alg: algorithm,
+        ...credentialKeyPair.publicKey.export({ format: "jwk" }),
+      },
+    },
+  };
+}
+
+export type Registration = ReturnType<typeof createRegistration>;
+
+const attToBeSigned = ({ fields }: Registration) =>
+  Buffer.concat([fields.authData, fields.clientDataHash]);
+
+/** Packed self attestation: signed with the credential private key */
+export function packedSelfAttestation(registration: Registration) {
+  const rsa = registration.credentialKeyPair.privateKey.asymmetricKeyType;
+  return {
+    alg: rsa === "rsa" ? -257 : -7,
+    sig: sign(
+      "sha256",
+      attToBeSigned(registration),
+      registration.credentialKeyPair.privateKey
+    ),
+  };
+}
+
+/** Packed attestation with an attestation certificate, issued by the root */
+export function packedAttestation(registration: Registration, root: Issued) {
+  const attestation = issueCertificate({
+    subject: {
+      C: "US",
+      O: "Test Vendor",
+      OU: "Authenticator Attestation",
+      CN: "Test Authenticator",
+    },
+    issuer: root,
+    extensions: [aaguidExtension(registration.fields.aaguid)],
+  });
+  return {
+    alg: -7,
+    sig: sign("sha256", attToBeSigned(registration), attestation.privateKey),
+    x5c: [attestation.cert],
+  };
+}
+
+/** FIDO U2F attestation, of an EC P-256 credential */
+export function fidoU2fAttestation(registration: Registration, root: Issued) {
+  const attestation = issueCertificate({
+    subject: { C: "US", O: "Test Vendor", CN: "Test U2F Key" },
+    issuer: root,
+  });
+  const { x, y } = registration.fields.credentialPublicKey;
+  const { rpIdHash, clientDataHash, credentialId } = registration.fields;
+  const verificationData = Buffer.concat([
+    Buffer.from([0x00]),
+    rpIdHash,
+    clientDataHash,
+    credentialId,
+    Buffer.from([0x04]),
+    Buffer.from(x!, "base64url"),
+    Buffer.from(y!, "base64url"),
+  ]);
+  return {
+    sig: sign("sha256", verificationData, attestation.privateKey),
+    x5c: [attestation.cert],
+  };
+}
+
+/** Android Key attestation: the credential certificate carries the key description with the attestation challenge */
+export function androidKeyAttestation(
+  registration: Registration,
+  root: Issued,
+  { attestationChallenge = registration.fields.clientDataHash } = {}
+) {
+  const authorizationList = (origin: number) =>
+    der.sequence(
+      der.explicit(1, der.set(der.integer(2))), // purpose: sign
+      der.explicit(702, der.integer(origin)) // origin: generated
+    );
+  const keyDescription = der.sequence(
+    der.integer(3), // attestationVersion
+    der.enumerated(1), // attestationSecurityLevel: TrustedEnvironment
+    der.integer(4), // keymasterVersion
+    der.enumerated(1), // keymasterSecurityLevel: TrustedEnvironment
+    der.octetString(attestationChallenge),
+    der.octetString(Buffer.alloc(0)), // uniqueId
+    der.sequence(), // softwareEnforced
+    authorizationList(0) // teeEnforced
+  );
+  const credCert = issueCertificate({
+    subject: { C: "US", O: "Test Vendor", CN: "Android Keystore Key" },
+    issuer: root,
+    keyPair: registration.credentialKeyPair,
+    extensions: [{ oid: OIDS.androidKeyDescription, value: keyDescription }],
+  });
+  return {
+    alg: -7,
+    sig: sign(
+      "sha256",
+      attToBeSigned(registration),
+      registration.credentialKeyPair.privateKey
+    ),
+    x5c: [credCert.cert, root.cert],
+  };
+}
+
+/** Apple anonymous attestation: the credential certificate carries a nonce over the data to be signed */
+export function appleAttestation(registration: Registration, root: Issued) {
+  const nonce = createHash("sha256")
+    .update(attToBeSigned(registration))
+    .digest();
+  const credCert = issueCertificate({
+    subject: { O: "Apple Inc.", CN: "Test Apple Credential" },
+    issuer: root,
+    keyPair: registration.credentialKeyPair,
+    extensions: [
+      {
+        oid: OIDS.appleNonce,
+        value: der.sequence(der.explicit(1, der.octetString(nonce))),
+      },
+    ],
+  });
+  return { x5c: [credCert.cert, root.cert] };
+}
+
+/** TPM attestation: the AIK certifies the TPM public area of the credential key */
+export function tpmAttestation(registration: Registration, root: Issued) {
+  const aik = issueCertificate({
+    subject: {},
+    issuer: root,
+    extensions: [
+      {
+        oid: OIDS.subjectAltName,
+        critical: true,
+        value: der.sequence(
+          der.explicit(4, encodeName({ O: "TPM Manufacturer" }))
+        ),
+      },
+      {
+        oid: OIDS.extendedKeyUsage,
+        value: der.sequence(der.oid(OIDS.tcgKpAikCertificate)),
+      },
+      aaguidExtension(registration.fields.aaguid),
+    ],
+  });
+  const u16 = (value: number) => {
+    const buf = Buffer.alloc(2);
+    buf.writeUInt16BE(value);
+    return buf;
+  };
+  const u32 = (value: number) => {
+    const buf = Buffer.alloc(4);
+    buf.writeUInt32BE(value);
+    return buf;
+  };
+  const sized = (value: Buffer) => Buffer.concat([u16(value.length), value]);
+  const { x, y } = registration.fields.credentialPublicKey;
+  const pubArea = Buffer.concat([
+    u16(0x0023), // type: TPM_ALG_ECC
+    u16(0x000b), // nameAlg: TPM_ALG_SHA256
+    u32(0x00040072), // objectAttributes
+    sized(Buffer.alloc(0)), // authPolicy
+    u16(0x0010), // symmetric: TPM_ALG_NULL
+    u16(0x0010), // scheme: TPM_ALG_NULL
+    u16(0x0003), // curveId: TPM_ECC_NIST_P256
+    u16(0x0010), // kdf: TPM_ALG_NULL
+    sized(Buffer.from(x!, "base64url")),
+    sized(Buffer.from(y!, "base64url")),
+  ]);
+  const certInfo = Buffer.concat([
+    u32(0xff544347), // magic: TPM_GENERATED_VALUE
+    u16(0x8017), // type: TPM_ST_ATTEST_CERTIFY
+    sized(Buffer.alloc(0)), // qualifiedSigner
+    sized(createHash("sha256").update(attToBeSigned(registration)).digest()), // extraData
+    Buffer.alloc(17), // clockInfo
+    Buffer.alloc(8), // firmwareVersion
+    sized(
+      Buffer.concat([
+        u16(0x000b),
+        createHash("sha256").update(pubArea).digest(),
+      ])
+    ), // attestedName
+    sized(Buffer.alloc(0)), // attestedQualifiedName
+  ]);
+  return {
+    ver: "2.0",
+    alg: -7,
+    sig: sign("sha256", certInfo, aik.privateKey),
+    x5c: [aik.cert, root.cert],
+    certInfo,
+    pubArea,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { DynamoDBDocumentClient, DeleteCommand } from "@aws-sdk/lib-dynamodb";
+import { startEmulatorWithClient, rejection, origin } from "./helpers.js";
+import { VirtualAuthenticator } from "../client/fido2-virtual-authenticator.js";
+import {
+  authenticateWithFido2,
+  fido2CreateCredential,
+  fido2Factor,
+} from "../client/fido2.js";
+import {
+  authenticateWithEmailOtp,
+  emailOtpFactor,
+} from "../client/email-otp.js";
+import { authenticateWithMultipleFactors } from "../client/multi-factor.js";
+import { parseJwtPayload } from "../client/util.js";
+import { TokensFromSignIn } from "../client/model.js";
+import { CognitoIdTokenPayload } from "../client/jwt-model.js";
+
+describe("authentication method claims", () => {
+  let env: Awaited<ReturnType<typeof startEmulatorWithClient>>;
+  let multiFactor: typeof import("../cdk/custom-auth/multi-factor.js");
+  const authenticator = new VirtualAuthenticator({ origin });
+
+  const amrOf = (tokens?: TokensFromSignIn) =>
+    tokens &&
+    parseJwtPayload<CognitoIdTokenPayload>(
+      tokens.idToken
+    ).passwordless_amr?.split(" ");
+
+  before(async () => {
+    env = await startEmulatorWithClient({
+      users: [
+        { username: "alice", attributes: { email: "alice@example.com" } },
+      ],
+    });
+    // Import after the emulator has set the environment, that the handlers read when imported
+    multiFactor = await import("../cdk/custom-auth/multi-factor.js");
+  });
+
+  after(() => env.emulator.close());
+
+  it("adds the references of the sign-in method", async () => {
+    const tokens = await authenticateWithEmailOtp({
+      username: "alice",
+      emailOtpCode: async () => env.lastCode(),
+    }).signedIn;
+    assert.deepEqual(amrOf(tokens), ["otp"]);
+    await fido2CreateCredential({
+      friendlyName: "Virtual",
+      credentialCreator: authenticator.credentialCreator,
+    });
+  });
+
+  it("fails closed when sign-ins of the same user are completed at the same time", async () => {
+    // Hold the FIDO2 sign-in in the PreToken-generation trigger (as it takes the record), while the e-mail OTP sign-in completes
+    const { send } = DynamoDBDocumentClient.prototype as unknown as {
+      send: (command: unknown) => Promise<unknown>;
+    };
+    let holding!: () => void;
+    const held = new Promise<void>((resolve) => (holding = resolve));
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    Object.defineProperty(DynamoDBDocumentClient.prototype, "send", {
+      value: async function (this: DynamoDBDocumentClient, command: unknown) {
+        if (
+          command instanceof DeleteCommand &&
+          command.input.TableName === "local-authentication-methods"
+        ) {
+          holding();
+          await released;
+        }
+        return send.call(this, command);
+      },
+      writable: true,
+      configurable: true,
+    });
+    try {
+      const fido2SignIn = authenticateWithFido2({
+        username: "alice",
+        credentialGetter: authenticator.credentialGetter,
+      }).signedIn;
+      await held;
+      const err = await rejection(
+        authenticateWithEmailOtp({
+          username: "alice",
+          emailOtpCode: async () => env.lastCode(),
+        }).signedIn
+      );
+      assert.equal(err.name, "NotAuthorizedException");
+      release();
+      assert.deepEqual(amrOf(await fido2SignIn)?.sort(), [
+        "hwk",
+        "mfa",
+        "user",
+      ]);
+    } finally {
+      release();
+      Object.defineProperty(DynamoDBDocumentClient.prototype, "send", {
+        value: send,
+        writable: true,
+        configurable: true,
+      });
+    }
+
+    // Once the FIDO2 sign-in took its record, the user can sign in again
+    const tokens = await authenticateWithEmailOtp({
+      username: "alice",
+      emailOtpCode: async () => env.lastCode(),
+    }).signedIn;
+    assert.deepEqual(amrOf(tokens), ["otp"]);
+  });
+
+  describe("with a multi-factor policy", () => {
+    before(() => {
+      multiFactor.configure({
+        policies: {
+          clients: {
+            [env.emulator.clientId]: [["EMAIL_OTP", "FIDO2"], ["FIDO2"]],
+          },
+        },
+      });
+    });
+
+    after(() => multiFactor.configure({ policies: undefined }));
+
+    it("adds the references of all factors the user completed", async () => {
+      const tokens = await authenticateWithMultipleFactors({
+        username: "alice",
+        factors: [
+          emailOtpFactor({ emailOtpCode: async () => env.lastCode() }),
+          fido2Factor({ credentialGetter: authenticator.credentialGetter }),
+        ],
+      }).signedIn;
+      assert.deepEqual(amrOf(tokens)?.sort(), ["hwk", "mfa", "otp", "user"]);
+    });
+
+    it("doesn't add references of factors the user skipped", async () => {
+      const tokens = await authenticateWithFido2({
+        username: "alice",
+        credentialGetter: authenticator.credentialGetter,
+      }).signedIn;
+      assert.deepEqual(amrOf(tokens)?.sort(), ["hwk", "mfa", "user"]);
+    });
+  });
+});
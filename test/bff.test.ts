@@ -0,0 +1,189 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startEmulatorWithClient } from "./helpers.js";
+import { createBffHandlers, MemorySessionStore } from "../client/bff.js";
+import { configure } from "../client/config.js";
+
+const bffUrl = "https://www.example.com/auth";
+
+describe("backend-for-frontend", () => {
+  let env: Awaited<ReturnType<typeof startEmulatorWithClient>>;
+
+  before(async () => {
+    env = await startEmulatorWithClient({
+      users: [
+        { username: "alice", attributes: { email: "alice@example.com" } },
+      ],
+    });
+  });
+
+  after(() => env.emulator.close());
+
+  function post(
+    bff: ReturnType<typeof createBffHandlers>,
+    path: string,
+    {
+      target,
+      body = {},
+      cookie,
+    }: { target?: string; body?: unknown; cookie?: string }
+  ) {
+    const headers: Record<string, string> = {};
+    if (target)
+      headers["x-amz-target"] = `AWSCognitoIdentityProviderService.${target}`;
+    if (cookie) headers["cookie"] = cookie;
+    return bff.handle(
+      new Request(`${bffUrl}/${path}`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+      })
+    );
+  }
+
+  /** Sign in with e-mail OTP through the BFF, and return the session cookie and the final response */
+  async function signIn(bff: ReturnType<typeof createBffHandlers>) {
+    const initiate = (await (
+      await post(bff, "sign-in", {
+        target: "InitiateAuth",
+        body: {
+          AuthFlow: "CUSTOM_AUTH",
+          AuthParameters: { USERNAME: "alice" },
+        },
+      })
+    ).json()) as { Session: string };
+    const respond = (await (
+      await post(bff, "sign-in", {
+        target: "RespondToAuthChallenge",
+        body: {
+          ChallengeName: "CUSTOM_CHALLENGE",
+          ChallengeResponses: { ANSWER: "__dummy__", USERNAME: "alice" },
+          ClientMetadata: { signInMethod: "EMAIL_OTP" },
+          Session: initiate.Session,
+        },
+      })
+    ).json()) as { Session: string };
+    const response = await post(bff, "sign-in", {
+      target: "RespondToAuthChallenge",
+      body: {
+        ChallengeName: "CUSTOM_CHALLENGE",
+        ChallengeResponses: { ANSWER: env.lastCode(), USERNAME: "alice" },
+        ClientMetadata: { signInMethod: "EMAIL_OTP" },
+        Session: respond.Session,
+      },
+    });
+    const body = (await response.json()) as {
+      AuthenticationResult: Record<string, string>;
+    };
+    return { cookie: sessionCookie(response), body };
+  }
+
+  /** The name=value part of the session cookie that the response sets */
+  function sessionCookie(response: Response) {
+    const setCookie = response.headers.get("set-cookie");
+    assert.ok(setCookie, "Expected the response to set the session cookie");
+    assert.match(setCookie, /HttpOnly/);
+    return setCookie.split(";")[0];
+  }
+
+  const bffWithCookies = () =>
+    createBffHandlers({ cookieSecrets: ["x".repeat(32)] });
+
+  it("keeps the refresh token in the session cookie", async () => {
+    const bff = bffWithCookies();
+    const { cookie, body } = await signIn(bff);
+    const { AuthenticationResult } = body;
+    assert.ok(AuthenticationResult.IdToken);
+    assert.equal(AuthenticationResult.RefreshToken, undefined);
+
+    const refreshed = await post(bff, "refresh", {
+      target: "InitiateAuth",
+      cookie,
+    });
+    assert.equal(refreshed.status, 200);
+    const refreshedBody = (await refreshed.json()) as {
+      AuthenticationResult: Record<string, string>;
+    };
+    assert.ok(refreshedBody.AuthenticationResult.AccessToken);
+    assert.equal(refreshedBody.AuthenticationResult.RefreshToken, undefined);
+    // No rotation, so no new cookie
+    assert.equal(refreshed.headers.get("set-cookie"), null);
+  });
+
+  it("re-issues the session cookie when the refresh token rotates", async () => {
+    const sessionStore = new MemorySessionStore();
+    const bff = createBffHandlers({ sessionStore });
+    const { cookie } = await signIn(bff);
+
+    // Have Amazon Cognito rotate the refresh token
+    const config = configure();
+    configure({
+      ...config,
+      fetch: async (input, init) => {
+        const response = await config.fetch(input, init);
+        const body = (await response.json()) as {
+          AuthenticationResult?: Record<string, string>;
+        };
+        if (body.AuthenticationResult) {
+          body.AuthenticationResult.RefreshToken = "rotated-refresh-token";
+        }
+        return { ok: response.ok, json: async () => body };
+      },
+    });
+    after(() => configure(config));
+
+    const refreshed = await post(bff, "refresh", {
+      target: "InitiateAuth",
+      cookie,
+    });
+    assert.equal(refreshed.status, 200);
+    const refreshedBody = (await refreshed.json()) as {
+      AuthenticationResult: Record<string, string>;
+    };
+    assert.equal(refreshedBody.AuthenticationResult.RefreshToken, undefined);
+    const newCookie = sessionCookie(refreshed);
+    assert.notEqual(newCookie, cookie);
+    assert.equal(
+      (await sessionStore.get(newCookie.split("=")[1]))?.refreshToken,
+      "rotated-refresh-token"
+    );
+    assert.equal(await sessionStore.get(cookie.split("=")[1]), undefined);
+  });
+
+  it("requires the x-amz-target header for refresh and sign-out", async () => {
+    const bff = bffWithCookies();
+    const { cookie } = await signIn(bff);
+
+    for (const [path, target] of [
+      ["refresh", undefined],
+      ["refresh", "RevokeToken"],
+      ["sign-out", undefined],
+      ["sign-out", "InitiateAuth"],
+    ]) {
+      const response = await post(bff, path!, { target, cookie });
+      assert.equal(response.status, 400, `${path} with target ${target}`);
+      assert.equal(response.headers.get("set-cookie"), null);
+    }
+
+    const signedOut = await post(bff, "sign-out", {
+      target: "RevokeToken",
+      cookie,
+    });
+    assert.equal(signedOut.status, 200);
+    assert.match(signedOut.headers.get("set-cookie") ?? "", /Max-Age=0/);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { startEmulatorWithClient, rejection, origin } from "./helpers.js";
+import { VirtualAuthenticator } from "../client/fido2-virtual-authenticator.js";
+import {
+  authenticateWithFido2,
+  fido2CreateCredential,
+} from "../client/fido2.js";
+import { authenticateWithEmailOtp } from "../client/email-otp.js";
+
+describe("authentication policies per app client", () => {
+  let env: Awaited<ReturnType<typeof startEmulatorWithClient>>;
+  let clientPolicy: typeof import("../cdk/custom-auth/client-policy.js");
+  const authenticator = new VirtualAuthenticator({ origin });
+
+  const signInWithEmailOtp = (username: string) =>
+    authenticateWithEmailOtp({
+      username,
+      emailOtpCode: async () => env.lastCode(),
+    }).signedIn;
+
+  const usePolicy = (
+    policy: import("../cdk/custom-auth/client-policy.js").ClientPolicy
+  ) =>
+    clientPolicy.configure({ policies: { [env.emulator.clientId]: policy } });
+
+  before(async () => {
+    env = await startEmulatorWithClient({
+      users: [
+        { username: "alice", attributes: { email: "alice@example.com" } },
+        { username: "bob", attributes: { email: "bob@example.com" } },
+      ],
+    });
+    // Import after the emulator has set the environment, that the handlers read when imported
+    clientPolicy = await import("../cdk/custom-auth/client-policy.js");
+    await signInWithEmailOtp("alice");
+    await fido2CreateCredential({
+      friendlyName: "Virtual",
+      credentialCreator: authenticator.credentialCreator,
+    });
+  });
+
+  afterEach(() => clientPolicy.configure({ policies: undefined }));
+
+  after(() => env.emulator.close());
+
+  it("denies sign-in methods that the policy doesn't allow", async () => {
+    usePolicy({ allowedSignInMethods: ["FIDO2"] });
+    const err = await rejection(signInWithEmailOtp("bob"));
+    assert.equal(err.name, "NotAuthorizedException");
+
+    const tokens = await authenticateWithFido2({
+      username: "alice",
+      credentialGetter: authenticator.credentialGetter,
+    }).signedIn;
+    assert.equal(tokens.username, "alice");
+  });
+
+  it("enforces FIDO2 for users that have a FIDO2 credential", async () => {
+    usePolicy({ enforceFido2IfAvailable: true });
+    const err = await rejection(signInWithEmailOtp("alice"));
+    assert.match(err.message, /You must sign-in with FIDO2/);
+
+    const tokens = await signInWithEmailOtp("bob");
+    assert.equal(tokens.username, "bob");
+  });
+
+  it("only accepts FIDO2 assertions from the policy's origins", async () => {
+    usePolicy({ allowedOrigins: ["https://admin.example.com"] });
+    const err = await rejection(
+      authenticateWithFido2({
+        username: "alice",
+        credentialGetter: authenticator.credentialGetter,
+      }).signedIn
+    );
+    assert.equal(err.name, "NotAuthorizedException");
+  });
+
+  it("uses the global configuration for app clients without a policy", async () => {
+    const tokens = await signInWithEmailOtp("alice");
+    assert.equal(tokens.username, "alice");
+  });
+});
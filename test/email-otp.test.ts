@@ -0,0 +1,90 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  CreateAuthChallengeTriggerEvent,
+  VerifyAuthChallengeResponseTriggerEvent,
+} from "aws-lambda";
+import * as emailOtp from "../cdk/custom-auth/email-otp.js";
+import { secretCodeMatches } from "../cdk/custom-auth/common.js";
+
+emailOtp.configure({
+  emailOtpEnabled: true,
+  sesFromAddress: "no-reply@example.com",
+  emailSender: { sendEmail: async () => undefined },
+});
+
+function createEvent() {
+  return {
+    userName: "alice",
+    request: {
+      userAttributes: { email: "alice@example.com", email_verified: "true" },
+      session: [{ challengeName: "CUSTOM_CHALLENGE", challengeResult: true }],
+    },
+    response: {},
+  } as unknown as CreateAuthChallengeTriggerEvent;
+}
+
+function verifyEvent(
+  privateChallengeParameters: Record<string, string>,
+  challengeAnswer: string
+) {
+  return {
+    userName: "alice",
+    request: { privateChallengeParameters, challengeAnswer },
+    response: {},
+  } as unknown as VerifyAuthChallengeResponseTriggerEvent;
+}
+
+describe("e-mail OTP", () => {
+  it("generates codes with all digits 0-9", async () => {
+    const digits = new Set<string>();
+    for (let i = 0; i < 100; i++) {
+      const event = createEvent();
+      await emailOtp.addChallengeToEvent(event);
+      const { secretCode } = event.response.privateChallengeParameters;
+      assert.match(secretCode, /^\d{6}$/);
+      secretCode.split("").forEach((digit) => digits.add(digit));
+    }
+    assert.deepEqual([...digits].sort(), "0123456789".split(""));
+  });
+
+  it("accepts the right code only", async () => {
+    const exp = Math.floor(Date.now() / 1000 + 60).toString();
+    const correct = verifyEvent({ secretCode: "123456", exp }, "123456");
+    await emailOtp.addChallengeVerificationResultToEvent(correct);
+    assert.equal(correct.response.answerCorrect, true);
+    for (const answer of ["123457", "12345", "1234567", ""]) {
+      const wrong = verifyEvent({ secretCode: "123456", exp }, answer);
+      await emailOtp.addChallengeVerificationResultToEvent(wrong);
+      assert.equal(wrong.response.answerCorrect, false, answer);
+    }
+  });
+
+  it("rejects an expired code", async () => {
+    const exp = Math.floor(Date.now() / 1000 - 1).toString();
+    const event = verifyEvent({ secretCode: "123456", exp }, "123456");
+    await emailOtp.addChallengeVerificationResultToEvent(event);
+    assert.equal(event.response.answerCorrect, false);
+  });
+
+  it("compares secret codes", () => {
+    assert.equal(secretCodeMatches("123456", "123456"), true);
+    assert.equal(secretCodeMatches("123456", "654321"), false);
+    assert.equal(secretCodeMatches(undefined, ""), false);
+    assert.equal(secretCodeMatches("", ""), false);
+  });
+});
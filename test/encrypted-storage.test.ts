@@ -0,0 +1,146 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  EncryptedStorage,
+  EncryptionKey,
+} from "../client/encrypted-storage.js";
+
+async function generateKey(id: string): Promise<EncryptionKey> {
+  return {
+    id,
+    key: await crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    ),
+  };
+}
+
+/** In-memory storage, that exposes what is actually stored */
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+}
+
+describe("encrypted storage", () => {
+  it("stores values encrypted, and decrypts them upon reading", async () => {
+    const storage = memoryStorage();
+    const encrypted = new EncryptedStorage({
+      storage,
+      keys: [await generateKey("k1")],
+    });
+    await encrypted.setItem("refreshToken", "secret-token");
+    assert.match(storage.items.get("refreshToken")!, /^enc:v1:k1:/);
+    assert.doesNotMatch(storage.items.get("refreshToken")!, /secret-token/);
+    assert.equal(await encrypted.getItem("refreshToken"), "secret-token");
+  });
+
+  it("encrypts plaintext values upon reading them", async () => {
+    const storage = memoryStorage();
+    storage.setItem("refreshToken", "secret-token");
+    const encrypted = new EncryptedStorage({
+      storage,
+      keys: [await generateKey("k1")],
+    });
+    assert.equal(await encrypted.getItem("refreshToken"), "secret-token");
+    assert.match(storage.items.get("refreshToken")!, /^enc:v1:k1:/);
+  });
+
+  it("doesn't decrypt values that were tampered with", async () => {
+    const storage = memoryStorage();
+    const encrypted = new EncryptedStorage({
+      storage,
+      keys: [await generateKey("k1")],
+    });
+    await encrypted.setItem("refreshToken", "secret-token");
+    const [prefix, ciphertext] = storage.items
+      .get("refreshToken")!
+      .split(/:(?=[^:]+$)/);
+    const tampered = (ciphertext[0] === "A" ? "B" : "A") + ciphertext.slice(1);
+    storage.setItem("refreshToken", `${prefix}:${tampered}`);
+    assert.equal(await encrypted.getItem("refreshToken"), null);
+  });
+
+  it("doesn't decrypt values that were moved to another storage key", async () => {
+    const storage = memoryStorage();
+    const encrypted = new EncryptedStorage({
+      storage,
+      keys: [await generateKey("k1")],
+    });
+    await encrypted.setItem("refreshToken", "secret-token");
+    storage.setItem("idToken", storage.items.get("refreshToken")!);
+    assert.equal(await encrypted.getItem("idToken"), null);
+  });
+
+  it("re-encrypts values with the current key, upon key rotation", async () => {
+    const storage = memoryStorage();
+    const previousKey = await generateKey("k1");
+    await new EncryptedStorage({ storage, keys: [previousKey] }).setItem(
+      "refreshToken",
+      "secret-token"
+    );
+    const currentKey = await generateKey("k2");
+    const rotated = new EncryptedStorage({
+      storage,
+      keys: [currentKey, previousKey],
+    });
+    assert.equal(await rotated.getItem("refreshToken"), "secret-token");
+    assert.match(storage.items.get("refreshToken")!, /^enc:v1:k2:/);
+
+    // Once re-encrypted, the previous key is no longer needed
+    const currentOnly = new EncryptedStorage({ storage, keys: [currentKey] });
+    assert.equal(await currentOnly.getItem("refreshToken"), "secret-token");
+  });
+
+  it("can't read values that were encrypted with an unknown key", async () => {
+    const storage = memoryStorage();
+    await new EncryptedStorage({
+      storage,
+      keys: [await generateKey("k1")],
+    }).setItem("refreshToken", "secret-token");
+    const other = new EncryptedStorage({
+      storage,
+      keys: [await generateKey("k2")],
+    });
+    assert.equal(await other.getItem("refreshToken"), null);
+  });
+
+  it("only encrypts the values selected by shouldEncrypt", async () => {
+    const storage = memoryStorage();
+    const encrypted = new EncryptedStorage({
+      storage,
+      keys: [await generateKey("k1")],
+      shouldEncrypt: (key) => key.endsWith("refreshToken"),
+    });
+    await encrypted.setItem("username", "alice");
+    await encrypted.setItem("refreshToken", "secret-token");
+    assert.equal(storage.items.get("username"), "alice");
+    assert.match(storage.items.get("refreshToken")!, /^enc:v1:/);
+  });
+
+  it("requires at least one key, if keys are provided", () => {
+    assert.throws(
+      () => new EncryptedStorage({ storage: memoryStorage(), keys: [] }),
+      /Provide at least one key/
+    );
+  });
+});
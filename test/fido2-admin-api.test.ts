@@ -0,0 +1,84 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { startEmulatorWithClient } from "./helpers.js";
+
+describe("FIDO2 admin API authorization", () => {
+  let env: Awaited<ReturnType<typeof startEmulatorWithClient>>;
+  let adminApi: typeof import("../cdk/custom-auth/fido2-admin-api.js");
+  let defaults: ReturnType<typeof adminApi.configure>;
+
+  before(async () => {
+    env = await startEmulatorWithClient({
+      users: [
+        { username: "alice", attributes: { email: "alice@example.com" } },
+      ],
+    });
+    // Import after the emulator has set the environment, that the handlers read when imported
+    adminApi = await import("../cdk/custom-auth/fido2-admin-api.js");
+    defaults = { ...adminApi.configure() };
+  });
+
+  afterEach(() => adminApi.configure(defaults));
+
+  after(() => env.emulator.close());
+
+  async function listAuthenticators(groups?: string) {
+    const response = await adminApi.handler(
+      {
+        path: "/admin/authenticators/list",
+        body: JSON.stringify({ username: "alice" }),
+        headers: {},
+        requestContext: {
+          authorizer: groups ? { claims: { "cognito:groups": groups } } : {},
+        },
+      } as unknown as APIGatewayProxyEvent,
+      {} as never,
+      () => undefined
+    );
+    return (response as APIGatewayProxyResult).statusCode;
+  }
+
+  it("allows members of the admin group", async () => {
+    assert.equal(await listAuthenticators("passwordless-admins"), 200);
+    assert.equal(
+      await listAuthenticators("[helpdesk passwordless-admins]"),
+      200
+    );
+  });
+
+  it("denies others", async () => {
+    assert.equal(await listAuthenticators("helpdesk"), 403);
+    assert.equal(await listAuthenticators(), 403);
+  });
+
+  it("denies everyone if no admin group is configured", async () => {
+    adminApi.configure({ adminGroupName: undefined });
+    assert.equal(await listAuthenticators("passwordless-admins"), 403);
+    assert.equal(await listAuthenticators(), 403);
+  });
+
+  it("denies everyone with an unknown authorization type", async () => {
+    adminApi.configure({ authorizationType: "NONE" as "IAM" });
+    assert.equal(await listAuthenticators("passwordless-admins"), 403);
+  });
+
+  it("leaves authorization to API Gateway with IAM", async () => {
+    adminApi.configure({ authorizationType: "IAM", adminGroupName: undefined });
+    assert.equal(await listAuthenticators(), 200);
+  });
+});
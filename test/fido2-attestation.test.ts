@@ -0,0 +1,318 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { X509Certificate } from "crypto";
+import {
+  configure,
+  verifyAttestation,
+} from "../cdk/custom-auth/fido2-attestation.js";
+import {
+  Registration,
+  androidKeyAttestation,
+  appleAttestation,
+  createRegistration,
+  fidoU2fAttestation,
+  issueRootCertificate,
+  packedAttestation,
+  packedSelfAttestation,
+  tpmAttestation,
+} from "./attestation-fixtures.js";
+
+const root = issueRootCertificate();
+const otherRoot = issueRootCertificate("Other Attestation Root");
+
+function verify(
+  fmt: string,
+  attStmt: Record<string, unknown>,
+  registration: Registration
+) {
+  return verifyAttestation({ fmt, attStmt, ...registration.fields });
+}
+
+/** Flip a bit in the last byte */
+function tamper(buf: Buffer) {
+  const tampered = Buffer.from(buf);
+  tampered[tampered.length - 1] ^= 0x01;
+  return tampered;
+}
+
+describe("attestation verification", () => {
+  beforeEach(() => {
+    configure({
+      trustAnchors: [new X509Certificate(root.cert)],
+      requireTrustedAttestation: false,
+    });
+  });
+
+  describe("none", () => {
+    it("accepts an empty statement", () => {
+      const registration = createRegistration();
+      const result = verify("none", {}, registration);
+      assert.equal(result.attestationType, "None");
+      assert.equal(result.trusted, false);
+    });
+
+    it("rejects a non-empty statement", () => {
+      const registration = createRegistration();
+      assert.throws(
+        () => verify("none", { sig: Buffer.alloc(1) }, registration),
+        /Invalid attestation/
+      );
+    });
+  });
+
+  describe("packed", () => {
+    for (const algorithm of ["ES256", "RS256"] as const) {
+      it(`accepts self attestation (${algorithm})`, () => {
+        const registration = createRegistration({ algorithm });
+        const result = verify(
+          "packed",
+          packedSelfAttestation(registration),
+          registration
+        );
+        assert.equal(result.attestationType, "Self");
+        assert.equal(result.trusted, false);
+      });
+    }
+
+    it("rejects self attestation with a tampered signature", () => {
+      const registration = createRegistration();
+      const attStmt = packedSelfAttestation(registration);
+      assert.throws(
+        () =>
+          verify(
+            "packed",
+            { ...attStmt, sig: tamper(attStmt.sig) },
+            registration
+          ),
+        /Invalid attestation/
+      );
+    });
+
+    it("accepts attestation with a certificate that chains to a trust anchor", () => {
+      const registration = createRegistration();
+      const result = verify(
+        "packed",
+        packedAttestation(registration, root),
+        registration
+      );
+      assert.equal(result.attestationType, "Basic");
+      assert.equal(result.trustPath.length, 1);
+      assert.equal(result.trusted, true);
+    });
+
+    it("reports attestation from another root as untrusted", () => {
+      const registration = createRegistration();
+      const result = verify(
+        "packed",
+        packedAttestation(registration, otherRoot),
+        registration
+      );
+      assert.equal(result.trusted, false);
+      configure({ requireTrustedAttestation: true });
+      assert.throws(
+        () =>
+          verify(
+            "packed",
+            packedAttestation(registration, otherRoot),
+            registration
+          ),
+        /Untrusted attestation/
+      );
+    });
+
+    it("rejects attestation over tampered authenticator data", () => {
+      const registration = createRegistration();
+      const attStmt = packedAttestation(registration, root);
+      registration.fields.authData = tamper(registration.fields.authData);
+      assert.throws(
+        () => verify("packed", attStmt, registration),
+        /Invalid attestation/
+      );
+    });
+
+    it("rejects an attestation certificate for another AAGUID", () => {
+      const registration = createRegistration();
+      const attStmt = packedAttestation(registration, root);
+      registration.fields.aaguid = tamper(registration.fields.aaguid);
+      assert.throws(
+        () => verify("packed", attStmt, registration),
+        /Invalid attestation/
+      );
+    });
+  });
+
+  describe("fido-u2f", () => {
+    it("accepts a valid statement", () => {
+      const registration = createRegistration();
+      const result = verify(
+        "fido-u2f",
+        fidoU2fAttestation(registration, root),
+        registration
+      );
+      assert.equal(result.attestationType, "Basic");
+      assert.equal(result.trusted, true);
+    });
+
+    it("rejects a statement for another relying party", () => {
+      const registration = createRegistration();
+      const attStmt = fidoU2fAttestation(registration, root);
+      registration.fields.rpIdHash = tamper(registration.fields.rpIdHash);
+      assert.throws(
+        () => verify("fido-u2f", attStmt, registration),
+        /Invalid attestation/
+      );
+    });
+
+    it("rejects an RSA credential", () => {
+      const registration = createRegistration({ algorithm: "RS256" });
+      assert.throws(
+        () =>
+          verify(
+            "fido-u2f",
+            { sig: Buffer.alloc(64), x5c: [root.cert] },
+            registration
+          ),
+        /Invalid attestation/
+      );
+    });
+  });
+
+  describe("android-key", () => {
+    it("accepts a valid statement", () => {
+      const registration = createRegistration();
+      const result = verify(
+        "android-key",
+        androidKeyAttestation(registration, root),
+        registration
+      );
+      assert.equal(result.attestationType, "Basic");
+      assert.equal(result.trustPath.length, 2);
+      assert.equal(result.trusted, true);
+    });
+
+    it("rejects a statement with another attestation challenge", () => {
+      const registration = createRegistration();
+      const attStmt = androidKeyAttestation(registration, root, {
+        attestationChallenge: tamper(registration.fields.clientDataHash),
+      });
+      assert.throws(
+        () => verify("android-key", attStmt, registration),
+        /Invalid attestation/
+      );
+    });
+
+    it("rejects a statement with a tampered signature", () => {
+      const registration = createRegistration();
+      const attStmt = androidKeyAttestation(registration, root);
+      assert.throws(
+        () =>
+          verify(
+            "android-key",
+            { ...attStmt, sig: tamper(attStmt.sig) },
+            registration
+          ),
+        /Invalid attestation/
+      );
+    });
+  });
+
+  describe("apple", () => {
+    it("accepts a valid statement", () => {
+      const registration = createRegistration();
+      const result = verify(
+        "apple",
+        appleAttestation(registration, root),
+        registration
+      );
+      assert.equal(result.attestationType, "AnonCA");
+      assert.equal(result.trusted, true);
+    });
+
+    it("rejects a statement over other client data", () => {
+      const registration = createRegistration();
+      const attStmt = appleAttestation(registration, root);
+      registration.fields.clientDataHash = tamper(
+        registration.fields.clientDataHash
+      );
+      assert.throws(
+        () => verify("apple", attStmt, registration),
+        /Invalid attestation/
+      );
+    });
+
+    it("rejects a certificate for another credential key", () => {
+      const registration = createRegistration();
+      const attStmt = appleAttestation(createRegistration(), root);
+      assert.throws(
+        () => verify("apple", attStmt, registration),
+        /Invalid attestation/
+      );
+    });
+  });
+
+  describe("tpm", () => {
+    it("accepts a valid statement", () => {
+      const registration = createRegistration();
+      const result = verify(
+        "tpm",
+        tpmAttestation(registration, root),
+        registration
+      );
+      assert.equal(result.attestationType, "AttCA");
+      assert.equal(result.trusted, true);
+    });
+
+    it("rejects a statement with a tampered signature", () => {
+      const registration = createRegistration();
+      const attStmt = tpmAttestation(registration, root);
+      assert.throws(
+        () =>
+          verify("tpm", { ...attStmt, sig: tamper(attStmt.sig) }, registration),
+        /Invalid attestation/
+      );
+    });
+
+    it("rejects a statement over other authenticator data", () => {
+      const registration = createRegistration();
+      const attStmt = tpmAttestation(registration, root);
+      registration.fields.authData = tamper(registration.fields.authData);
+      assert.throws(
+        () => verify("tpm", attStmt, registration),
+        /Invalid attestation/
+      );
+    });
+
+    it("rejects a public area of another key", () => {
+      const registration = createRegistration();
+      const attStmt = tpmAttestation(registration, root);
+      const other = tpmAttestation(createRegistration(), root);
+      assert.throws(
+        () =>
+          verify("tpm", { ...attStmt, pubArea: other.pubArea }, registration),
+        /Invalid attestation/
+      );
+    });
+  });
+
+  it("rejects unsupported formats", () => {
+    const registration = createRegistration();
+    assert.throws(
+      () => verify("unknown", {}, registration),
+      /Invalid attestation/
+    );
+  });
+});
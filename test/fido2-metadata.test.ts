@@ -0,0 +1,228 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { X509Certificate, sign } from "crypto";
+import {
+  assertAuthenticatorIsAllowed,
+  configure,
+  getAuthenticatorMetadata,
+} from "../cdk/custom-auth/fido2-metadata.js";
+import { verifyAttestation } from "../cdk/custom-auth/fido2-attestation.js";
+import {
+  Issued,
+  createRegistration,
+  issueCertificate,
+  issueRootCertificate,
+  packedAttestation,
+  packedSelfAttestation,
+} from "./attestation-fixtures.js";
+import { rejection } from "./helpers.js";
+
+const mdsRoot = issueRootCertificate("Test MDS Root");
+const vendorRoot = issueRootCertificate("Test Vendor Root");
+const otherRoot = issueRootCertificate("Other Vendor Root");
+
+function formatAaguid(aaguid: Buffer) {
+  return aaguid
+    .toString("hex")
+    .replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, "$1-$2-$3-$4-$5");
+}
+
+/** Create a FIDO MDS3 BLOB (a JWT), signed by a certificate issued by the root */
+function createBlob(
+  entries: {
+    aaguid: Buffer;
+    status: string;
+    attestationRootCertificates?: Issued[];
+  }[],
+  root = mdsRoot
+) {
+  const signer = issueCertificate({
+    subject: { C: "US", O: "Test MDS", CN: "Test MDS Signer" },
+    issuer: root,
+  });
+  const header = Buffer.from(
+    JSON.stringify({
+      alg: "ES256",
+      typ: "JWT",
+      x5c: [signer.cert.toString("base64"), root.cert.toString("base64")],
+    })
+  ).toString("base64url");
+  const payload = Buffer.from(
+    JSON.stringify({
+      no: 1,
+      nextUpdate: new Date(Date.now() + 86400_000).toISOString().slice(0, 10),
+      entries: entries.map(
+        ({ aaguid, status, attestationRootCertificates }) => ({
+          aaguid: formatAaguid(aaguid),
+          metadataStatement: {
+            description: "Test Authenticator",
+            attestationRootCertificates: (
+              attestationRootCertificates ?? []
+            ).map((cert) => cert.cert.toString("base64")),
+          },
+          statusReports: [{ status, effectiveDate: "2024-01-01" }],
+        })
+      ),
+    })
+  ).toString("base64url");
+  const signature = sign("sha256", Buffer.from(`${header}.${payload}`), {
+    key: signer.privateKey,
+    dsaEncoding: "ieee-p1363",
+  }).toString("base64url");
+  return `${header}.${payload}.${signature}`;
+}
+
+function useBlob(blob: string, update: Parameters<typeof configure>[0] = {}) {
+  configure({
+    blobLocation: "test-blob.jwt",
+    blobLoader: async () => blob,
+    blobRootCertificates: [new X509Certificate(mdsRoot.cert)],
+    skipBlobSignatureVerification: false,
+    allowedCertificationLevels: [],
+    ...update,
+  });
+}
+
+describe("FIDO metadata service", () => {
+  describe("BLOB signature", () => {
+    const aaguid = createRegistration().fields.aaguid;
+
+    it("loads a BLOB signed by a certificate that chains to the root", async () => {
+      useBlob(createBlob([{ aaguid, status: "FIDO_CERTIFIED_L1" }]));
+      const metadata = await getAuthenticatorMetadata(aaguid);
+      assert.equal(metadata?.certificationLevel, "FIDO_CERTIFIED_L1");
+    });
+
+    it("rejects a BLOB signed by a certificate from another root", async () => {
+      useBlob(createBlob([{ aaguid, status: "FIDO_CERTIFIED_L1" }], otherRoot));
+      const err = await rejection(getAuthenticatorMetadata(aaguid));
+      assert.match(err.message, /Untrusted FIDO MDS3 BLOB signing certificate/);
+    });
+
+    it("rejects a tampered BLOB", async () => {
+      const [header, , signature] = createBlob([
+        { aaguid, status: "FIDO_CERTIFIED_L1" },
+      ]).split(".");
+      const [, payload] = createBlob([
+        { aaguid, status: "FIDO_CERTIFIED_L2" },
+      ]).split(".");
+      useBlob(`${header}.${payload}.${signature}`);
+      const err = await rejection(getAuthenticatorMetadata(aaguid));
+      assert.match(err.message, /Invalid FIDO MDS3 BLOB signature/);
+    });
+
+    it("fails if no root certificate is configured", async () => {
+      useBlob(createBlob([{ aaguid, status: "FIDO_CERTIFIED_L1" }]), {
+        blobRootCertificates: [],
+      });
+      const err = await rejection(getAuthenticatorMetadata(aaguid));
+      assert.match(err.message, /No root certificate configured/);
+    });
+
+    it("skips verification only if explicitly configured", async () => {
+      useBlob(
+        createBlob([{ aaguid, status: "FIDO_CERTIFIED_L1" }], otherRoot),
+        {
+          blobRootCertificates: [],
+          skipBlobSignatureVerification: true,
+        }
+      );
+      const metadata = await getAuthenticatorMetadata(aaguid);
+      assert.equal(metadata?.certificationLevel, "FIDO_CERTIFIED_L1");
+    });
+  });
+
+  describe("policies", () => {
+    function registerWith(
+      attStmtFor: (
+        registration: ReturnType<typeof createRegistration>
+      ) => Record<string, unknown>,
+      { fmt = "packed", status = "FIDO_CERTIFIED_L1" } = {}
+    ) {
+      const registration = createRegistration();
+      const attestation = verifyAttestation({
+        fmt,
+        attStmt: attStmtFor(registration),
+        ...registration.fields,
+      });
+      useBlob(
+        createBlob([
+          {
+            aaguid: registration.fields.aaguid,
+            status,
+            attestationRootCertificates: [vendorRoot],
+          },
+        ]),
+        { allowedCertificationLevels: ["FIDO_CERTIFIED_L1"] }
+      );
+      return assertAuthenticatorIsAllowed(
+        registration.fields.aaguid,
+        attestation
+      );
+    }
+
+    it("allows a certified authenticator with attestation from its metadata root", async () => {
+      const metadata = await registerWith((registration) =>
+        packedAttestation(registration, vendorRoot)
+      );
+      assert.equal(metadata?.certificationLevel, "FIDO_CERTIFIED_L1");
+    });
+
+    it("denies a certified authenticator with attestation from another root", async () => {
+      const err = await rejection(
+        registerWith((registration) =>
+          packedAttestation(registration, otherRoot)
+        )
+      );
+      assert.match(err.message, /Authenticator not allowed/);
+    });
+
+    it("denies a certified AAGUID with self attestation", async () => {
+      const err = await rejection(registerWith(packedSelfAttestation));
+      assert.match(err.message, /Authenticator not allowed/);
+    });
+
+    it("denies a certified AAGUID without attestation", async () => {
+      const err = await rejection(registerWith(() => ({}), { fmt: "none" }));
+      assert.match(err.message, /Authenticator not allowed/);
+    });
+
+    it("denies an authenticator with another certification level", async () => {
+      const err = await rejection(
+        registerWith(
+          (registration) => packedAttestation(registration, vendorRoot),
+          { status: "NOT_FIDO_CERTIFIED" }
+        )
+      );
+      assert.match(err.message, /Authenticator not allowed/);
+    });
+
+    it("denies an authenticator with revoked status, regardless of attestation", async () => {
+      const registration = createRegistration();
+      useBlob(
+        createBlob([{ aaguid: registration.fields.aaguid, status: "REVOKED" }])
+      );
+      const err = await rejection(
+        assertAuthenticatorIsAllowed(registration.fields.aaguid, {
+          attestationType: "None",
+          trustPath: [],
+        })
+      );
+      assert.match(err.message, /Authenticator not allowed/);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startEmulatorWithClient, rejection, origin } from "./helpers.js";
+import { VirtualAuthenticator } from "../client/fido2-virtual-authenticator.js";
+import {
+  fido2CreateCredential,
+  signTransactionWithFido2,
+} from "../client/fido2.js";
+import { authenticateWithEmailOtp } from "../client/email-otp.js";
+import { parseJwtPayload } from "../client/util.js";
+
+describe("FIDO2 transaction signing", () => {
+  let env: Awaited<ReturnType<typeof startEmulatorWithClient>>;
+  const authenticator = new VirtualAuthenticator({ origin });
+  const transaction = { amount: "100.00", currency: "EUR", payee: "ACME" };
+  let bobAccessToken: string;
+
+  const signInWithEmailOtp = (username: string) =>
+    authenticateWithEmailOtp({
+      username,
+      emailOtpCode: async () => env.lastCode(),
+    }).signedIn;
+
+  before(async () => {
+    env = await startEmulatorWithClient({
+      users: [
+        { username: "alice", attributes: { email: "alice@example.com" } },
+        { username: "bob", attributes: { email: "bob@example.com" } },
+      ],
+    });
+    bobAccessToken = (await signInWithEmailOtp("bob")).accessToken;
+    await signInWithEmailOtp("alice");
+    await fido2CreateCredential({
+      friendlyName: "Virtual",
+      credentialCreator: authenticator.credentialCreator,
+    });
+  });
+
+  after(() => env.emulator.close());
+
+  it("issues a token with the hash of the signed transaction", async () => {
+    const tokens = await signTransactionWithFido2({
+      transaction,
+      credentialGetter: authenticator.credentialGetter,
+    }).signedIn;
+    assert.equal(tokens.username, "alice");
+    const payload: Record<string, unknown> = parseJwtPayload(tokens.idToken);
+    assert.ok(payload.transaction_hash);
+  });
+
+  it("requires a valid access token", async () => {
+    const err = await rejection(
+      signTransactionWithFido2({
+        transaction,
+        accessToken: "not-a-jwt",
+        credentialGetter: authenticator.credentialGetter,
+      }).signedIn
+    );
+    assert.equal(err.name, "NotAuthorizedException");
+  });
+
+  it("requires the access token of the same user", async () => {
+    const err = await rejection(
+      signTransactionWithFido2({
+        username: "alice",
+        transaction,
+        accessToken: bobAccessToken,
+        credentialGetter: authenticator.credentialGetter,
+      }).signedIn
+    );
+    assert.equal(err.name, "NotAuthorizedException");
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startEmulatorWithClient, rejection, origin } from "./helpers.js";
+import {
+  VirtualAuthenticator,
+  VirtualAuthenticatorAlgorithm,
+} from "../client/fido2-virtual-authenticator.js";
+import {
+  authenticateWithFido2,
+  fido2CreateCredential,
+  fido2ListCredentials,
+} from "../client/fido2.js";
+import { authenticateWithEmailOtp } from "../client/email-otp.js";
+import { parseJwtPayload } from "../client/util.js";
+import { CognitoIdTokenPayload } from "../client/jwt-model.js";
+import { bufferFromBase64Url, bufferToBase64Url } from "../client/util.js";
+
+describe("virtual authenticator against the FIDO2 back-end", () => {
+  let env: Awaited<ReturnType<typeof startEmulatorWithClient>>;
+
+  before(async () => {
+    env = await startEmulatorWithClient({
+      users: [
+        { username: "alice", attributes: { email: "alice@example.com" } },
+      ],
+    });
+    // Registering credentials requires a signed-in user
+    await authenticateWithEmailOtp({
+      username: "alice",
+      emailOtpCode: async () => env.lastCode(),
+    }).signedIn;
+  });
+
+  after(() => env.emulator.close());
+
+  const combinations: [VirtualAuthenticatorAlgorithm, "none" | "packed"][] = [
+    ["ES256", "none"],
+    ["ES256", "packed"],
+    ["RS256", "none"],
+    ["RS256", "packed"],
+  ];
+  for (const [algorithm, attestationFormat] of combinations) {
+    it(`registers and signs in with ${algorithm} (attestation: ${attestationFormat})`, async () => {
+      const authenticator = new VirtualAuthenticator({
+        origin,
+        algorithms: [algorithm],
+        attestationFormat,
+      });
+      const registered = await fido2CreateCredential({
+        friendlyName: `${algorithm} ${attestationFormat}`,
+        credentialCreator: authenticator.credentialCreator,
+      });
+      assert.equal(
+        registered.credentialId,
+        authenticator.listCredentials()[0].credentialId
+      );
+      const tokens = await authenticateWithFido2({
+        username: "alice",
+        credentialGetter: authenticator.credentialGetter,
+      }).signedIn;
+      assert.equal(
+        parseJwtPayload<CognitoIdTokenPayload>(tokens.idToken)[
+          "cognito:username"
+        ],
+        "alice"
+      );
+    });
+  }
+
+  it("lists the registered credentials", async () => {
+    const { authenticators } = await fido2ListCredentials();
+    assert.equal(authenticators.length, combinations.length);
+  });
+
+  it("rejects an assertion with a tampered signature", async () => {
+    const authenticator = new VirtualAuthenticator({ origin });
+    await fido2CreateCredential({
+      friendlyName: "tampered",
+      credentialCreator: authenticator.credentialCreator,
+    });
+    const err = await rejection(
+      authenticateWithFido2({
+        username: "alice",
+        credentialGetter: async (options) => {
+          const assertion = await authenticator.credentialGetter(options);
+          const signature = bufferFromBase64Url(assertion.signatureB64);
+          signature[signature.length - 1] ^= 0x01;
+          return {
+            ...assertion,
+            signatureB64: bufferToBase64Url(signature.buffer),
+          };
+        },
+      }).signedIn
+    );
+    assert.equal(err.name, "NotAuthorizedException");
+  });
+
+  it("rejects an assertion from another origin", async () => {
+    const authenticator = new VirtualAuthenticator({ origin });
+    await fido2CreateCredential({
+      friendlyName: "phished",
+      credentialCreator: authenticator.credentialCreator,
+    });
+    const phishingSite = new VirtualAuthenticator({
+      origin: "http://localhost:4000", // not an allowed origin
+    });
+    // Move the credential to an authenticator that reports another origin
+    Object.assign(phishingSite, {
+      credentials: authenticator.listCredentials(),
+    });
+    const err = await rejection(
+      authenticateWithFido2({
+        username: "alice",
+        credentialGetter: phishingSite.credentialGetter,
+      }).signedIn
+    );
+    assert.equal(err.name, "NotAuthorizedException");
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import {
+  startLocalEmulator,
+  LocalEmulatorProps,
+} from "../cdk/custom-auth/local-emulator.js";
+import { configure } from "../client/config.js";
+
+export const origin = "http://localhost:5173";
+
+/**
+ * Start the local emulator and configure the client library to use it, with in-memory storage.
+ * Returns the emulator, and accessors for what it printed (e-mails and text messages)
+ */
+export async function startEmulatorWithClient(
+  props: Omit<LocalEmulatorProps, "port" | "print"> = {}
+) {
+  const printed: string[] = [];
+  const emulator = await startLocalEmulator({
+    ...props,
+    port: 0,
+    print: (...msg) => printed.push(msg.map(String).join(" ")),
+  });
+  const storage = new Map<string, string>();
+  configure({
+    clientId: emulator.clientId,
+    cognitoIdpEndpoint: emulator.url,
+    fido2: { baseUrl: `${emulator.url}/fido2` },
+    storage: {
+      getItem: (key) => storage.get(key) ?? null,
+      setItem: (key, value) => void storage.set(key, value),
+      removeItem: (key) => void storage.delete(key),
+    },
+    location: { href: `${origin}/`, hostname: "localhost" },
+    history: { pushState: () => undefined },
+  });
+  return {
+    emulator,
+    printed,
+    /** The last secret code (e-mail or SMS OTP) that the emulator sent */
+    lastCode: () => {
+      const match = [...printed.join("\n").matchAll(/code is: (\d+)/g)].pop();
+      if (!match) throw new Error("No code was sent");
+      return match[1];
+    },
+  };
+}
+
+/** Await a promise that should reject, and return the error */
+export async function rejection(promise: Promise<unknown>) {
+  try {
+    await promise;
+  } catch (err) {
+    return err as Error;
+  }
+  throw new Error("Expected promise to reject");
+}
@@ -0,0 +1,111 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startEmulatorWithClient, rejection, origin } from "./helpers.js";
+import {
+  requestSignInLinkWithRemoteApproval,
+  signInWithLink,
+} from "../client/magic-link.js";
+import { configure } from "../client/config.js";
+import { BusyState, IdleState } from "../client/model.js";
+
+describe("magic link with remote approval", () => {
+  let env: Awaited<ReturnType<typeof startEmulatorWithClient>>;
+
+  before(async () => {
+    env = await startEmulatorWithClient({
+      users: [
+        { username: "alice", attributes: { email: "alice@example.com" } },
+      ],
+      environment: {
+        MAGIC_LINK_REMOTE_APPROVAL_ENABLED: "TRUE",
+        LONG_POLL_TIMEOUT: "1000",
+      },
+    });
+    configure({
+      ...configure(),
+      magicLink: { baseUrl: `${env.emulator.url}/magic-link` },
+    });
+  });
+
+  after(() => env.emulator.close());
+
+  /** Open the magic link from the last e-mail, on "another device" */
+  function openLastMagicLink() {
+    const match = [
+      ...env.printed.join("\n").matchAll(/(http:\/\/localhost:5173\/#\S+)/g),
+    ].pop();
+    if (!match) throw new Error("No magic link was sent");
+    configure({
+      ...configure(),
+      location: { href: match[1], hostname: "localhost" },
+    });
+  }
+
+  async function waitForEmail() {
+    for (let i = 0; i < 50 && !env.printed.join().includes("E-mail"); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+
+  it("only approves the sign-in after the user confirms", async () => {
+    const requesting = requestSignInLinkWithRemoteApproval({
+      username: "alice",
+    });
+    await waitForEmail();
+    assert.match(
+      env.printed.join("\n"),
+      /Approve the sign-in on your other device/
+    );
+    openLastMagicLink();
+
+    // Without a confirmation callback, the link isn't approved
+    const err = await rejection(signInWithLink().signedIn);
+    assert.match(err.message, /confirmRemoteApproval/);
+
+    // The user declines
+    const declinedStatuses: (BusyState | IdleState)[] = [];
+    await signInWithLink({
+      statusCb: (status) => declinedStatuses.push(status),
+      confirmRemoteApproval: () => false,
+    }).signedIn;
+    assert.deepEqual(declinedStatuses, [
+      "SIGNING_IN_WITH_LINK",
+      "CONFIRMING_SIGNIN_LINK_APPROVAL",
+      "SIGNIN_LINK_APPROVAL_DECLINED",
+    ]);
+
+    // The user confirms
+    const confirmedFor: string[] = [];
+    const approvedStatuses: (BusyState | IdleState)[] = [];
+    await signInWithLink({
+      statusCb: (status) => approvedStatuses.push(status),
+      confirmRemoteApproval: ({ username }) => {
+        confirmedFor.push(username);
+        return true;
+      },
+    }).signedIn;
+    assert.deepEqual(confirmedFor, ["alice"]);
+    assert.equal(approvedStatuses.at(-1), "SIGNIN_LINK_APPROVED");
+
+    configure({
+      ...configure(),
+      location: { href: `${origin}/`, hostname: "localhost" },
+    });
+    const tokens = await requesting.signedIn;
+    assert.equal(tokens.username, "alice");
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startEmulatorWithClient, rejection } from "./helpers.js";
+import {
+  authenticateWithEmailOtp,
+  emailOtpFactor,
+} from "../client/email-otp.js";
+import { smsOtpFactor } from "../client/sms-otp-stepup.js";
+import { authenticateWithMultipleFactors } from "../client/multi-factor.js";
+
+describe("multi-factor policies", () => {
+  let env: Awaited<ReturnType<typeof startEmulatorWithClient>>;
+  let multiFactor: typeof import("../cdk/custom-auth/multi-factor.js");
+
+  const factors = () => [
+    emailOtpFactor({ emailOtpCode: async () => env.lastCode() }),
+    smsOtpFactor({ smsOtpCode: async () => env.lastCode() }),
+  ];
+
+  before(async () => {
+    env = await startEmulatorWithClient({
+      users: [
+        {
+          username: "alice",
+          attributes: {
+            email: "alice@example.com",
+            phone_number: "+15555550100",
+          },
+        },
+        {
+          username: "bob",
+          attributes: { email: "bob@example.com" },
+          groups: ["low-risk"],
+        },
+      ],
+    });
+    // Import after the emulator has set the environment, that the handlers read when imported
+    multiFactor = await import("../cdk/custom-auth/multi-factor.js");
+    multiFactor.configure({
+      policies: {
+        clients: { [env.emulator.clientId]: [["EMAIL_OTP", "SMS_OTP"]] },
+        groups: { "low-risk": [["EMAIL_OTP"]] },
+      },
+    });
+  });
+
+  after(() => env.emulator.close());
+
+  it("issues tokens only after the user completed a chain", async () => {
+    const err = await rejection(
+      authenticateWithEmailOtp({
+        username: "alice",
+        emailOtpCode: async () => env.lastCode(),
+      }).signedIn
+    );
+    assert.equal(err.name, "NotAuthorizedException");
+
+    const tokens = await authenticateWithMultipleFactors({
+      username: "alice",
+      factors: factors(),
+    }).signedIn;
+    assert.equal(tokens?.username, "alice");
+    assert.match(env.printed.join("\n"), /Text message to \+15555550100/);
+  });
+
+  it("denies sign-in methods that are not next in a chain", async () => {
+    const err = await rejection(
+      authenticateWithMultipleFactors({
+        username: "alice",
+        factors: [smsOtpFactor({ smsOtpCode: async () => env.lastCode() })],
+      }).signedIn
+    );
+    assert.equal(err.name, "NotAuthorizedException");
+  });
+
+  it("applies the policy of the user's group, instead of the app client's", async () => {
+    const tokens = await authenticateWithEmailOtp({
+      username: "bob",
+      emailOtpCode: async () => env.lastCode(),
+    }).signedIn;
+    assert.equal(tokens.username, "bob");
+  });
+
+  it("determines the next sign-in methods from the factors completed", () => {
+    const chains = [
+      ["MAGIC_LINK", "SMS_OTP"],
+      ["MAGIC_LINK", "FIDO2"],
+      ["FIDO2"],
+    ];
+    assert.deepEqual(multiFactor.determineNextSignInMethods(chains, []), [
+      "MAGIC_LINK",
+      "FIDO2",
+    ]);
+    assert.deepEqual(
+      multiFactor.determineNextSignInMethods(chains, ["MAGIC_LINK"]),
+      ["SMS_OTP", "FIDO2"]
+    );
+    assert.deepEqual(
+      multiFactor.determineNextSignInMethods(chains, ["FIDO2"]),
+      []
+    );
+    assert.equal(
+      multiFactor.determineNextSignInMethods(chains, ["SMS_OTP"]),
+      undefined
+    );
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { VerifyAuthChallengeResponseTriggerEvent } from "aws-lambda";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand } from "@aws-sdk/lib-dynamodb";
+import { startEmulatorWithClient, rejection } from "./helpers.js";
+import { authenticateWithEmailOtp } from "../client/email-otp.js";
+
+describe("rate limiting", () => {
+  let env: Awaited<ReturnType<typeof startEmulatorWithClient>>;
+  let verifyAuthChallengeResponse: (
+    event: VerifyAuthChallengeResponseTriggerEvent
+  ) => Promise<unknown>;
+  let rateLimit: typeof import("../cdk/custom-auth/rate-limit.js");
+
+  before(async () => {
+    env = await startEmulatorWithClient({
+      users: [
+        { username: "alice", attributes: { email: "alice@example.com" } },
+        { username: "bob", attributes: { email: "bob@example.com" } },
+      ],
+      environment: {
+        DYNAMODB_RATE_LIMIT_TABLE: "local-rate-limit",
+        RATE_LIMIT_MAX_FAILED_ATTEMPTS_PER_USER: "2",
+        RATE_LIMIT_LOCKOUT_SECONDS: "60",
+      },
+    });
+    // Import after the emulator has set the environment, that the handlers read when imported
+    const { handler } = await import(
+      "../cdk/custom-auth/verify-auth-challenge-response.js"
+    );
+    verifyAuthChallengeResponse = (event) =>
+      handler(event, {} as never, () => undefined) as Promise<unknown>;
+    rateLimit = await import("../cdk/custom-auth/rate-limit.js");
+  });
+
+  after(() => env.emulator.close());
+
+  /** A code that differs from the one that was sent */
+  const wrongCode = () =>
+    ((Number(env.lastCode()) + 1) % 1_000_000).toString().padStart(6, "0");
+
+  function verifyEvent(username: string) {
+    const secretCode = "123456";
+    return {
+      userName: username,
+      callerContext: { clientId: env.emulator.clientId },
+      request: {
+        userAttributes: { email: `${username}@example.com` },
+        clientMetadata: { signInMethod: "EMAIL_OTP" },
+        privateChallengeParameters: {
+          secretCode,
+          exp: Math.floor(Date.now() / 1000 + 60).toString(),
+        },
+        challengeAnswer: secretCode,
+      },
+      response: {},
+    } as unknown as VerifyAuthChallengeResponseTriggerEvent;
+  }
+
+  it("locks out a username after too many failed attempts", async () => {
+    const err = await rejection(
+      authenticateWithEmailOtp({
+        username: "bob",
+        emailOtpCode: async () => wrongCode(),
+      }).signedIn
+    );
+    assert.equal(err.name, "NotAuthorizedException");
+
+    // Even the right code doesn't help now
+    const locked = await rejection(
+      authenticateWithEmailOtp({
+        username: "bob",
+        emailOtpCode: async () => env.lastCode(),
+      }).signedIn
+    );
+    assert.equal(locked.name, "NotAuthorizedException");
+  });
+
+  it("doesn't verify answers during a lockout", async () => {
+    const event = verifyEvent("bob");
+    await verifyAuthChallengeResponse(event);
+    assert.equal(event.response.answerCorrect, false);
+  });
+
+  it("doesn't lock out other users", async () => {
+    const event = verifyEvent("alice");
+    await verifyAuthChallengeResponse(event);
+    assert.equal(event.response.answerCorrect, true);
+
+    const tokens = await authenticateWithEmailOtp({
+      username: "alice",
+      emailOtpCode: async () => env.lastCode(),
+    }).signedIn;
+    assert.equal(tokens.username, "alice");
+  });
+
+  it("keeps the lockout history upon successful authentication", async () => {
+    const subject = { username: "carol" };
+    // With a lockout of 0 seconds, the first lockout is over immediately
+    rateLimit.configure({ lockoutSeconds: 0 });
+    try {
+      await rateLimit.recordFailedAttempt(subject);
+      await rateLimit.recordFailedAttempt(subject);
+    } finally {
+      rateLimit.configure({ lockoutSeconds: 60 });
+    }
+    assert.equal(await rateLimit.isLockedOut(subject), false);
+
+    await rateLimit.recordFailedAttempt(subject);
+    await rateLimit.recordSuccessfulAuthentication(subject);
+
+    // The failed attempt before the successful authentication doesn't count anymore
+    await rateLimit.recordFailedAttempt(subject);
+    assert.equal(await rateLimit.isLockedOut(subject), false);
+
+    // The second lockout lasts twice as long as the first one would
+    const start = Math.floor(Date.now() / 1000);
+    await rateLimit.recordFailedAttempt(subject);
+    assert.equal(await rateLimit.isLockedOut(subject), true);
+    const { Item } = await DynamoDBDocumentClient.from(
+      new DynamoDBClient({})
+    ).send(
+      new GetCommand({
+        TableName: "local-rate-limit",
+        Key: {
+          pk: `USER#${createHash("sha256").update(subject.username).digest("base64url")}`,
+        },
+      })
+    );
+    assert.equal(Item?.lockouts, 2);
+    assert.ok((Item?.lockedUntil as number) >= start + 120);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startEmulatorWithClient, rejection, origin } from "./helpers.js";
+import { VirtualAuthenticator } from "../client/fido2-virtual-authenticator.js";
+import {
+  fido2CreateCredential,
+  fido2GenerateRecoveryCodes,
+  fido2ListCredentials,
+  stepUpAuthenticationWithFido2,
+} from "../client/fido2.js";
+import { authenticateWithEmailOtp } from "../client/email-otp.js";
+import { authenticateWithRecoveryCode } from "../client/recovery-code.js";
+
+describe("recovery codes", () => {
+  let env: Awaited<ReturnType<typeof startEmulatorWithClient>>;
+  let multiFactor: typeof import("../cdk/custom-auth/multi-factor.js");
+  const authenticator = new VirtualAuthenticator({ origin });
+  let recoveryCodes: string[];
+
+  before(async () => {
+    env = await startEmulatorWithClient({
+      users: [
+        { username: "alice", attributes: { email: "alice@example.com" } },
+      ],
+      environment: { RECOVERY_CODES_REVOKE_CREDENTIALS: "TRUE" },
+    });
+    // Import after the emulator has set the environment, that the handlers read when imported
+    multiFactor = await import("../cdk/custom-auth/multi-factor.js");
+    await authenticateWithEmailOtp({
+      username: "alice",
+      emailOtpCode: async () => env.lastCode(),
+    }).signedIn;
+  });
+
+  after(() => env.emulator.close());
+
+  const signInWithRecoveryCode = (recoveryCode: string) =>
+    authenticateWithRecoveryCode({ username: "alice", recoveryCode }).signedIn;
+
+  it("generates recovery codes upon registration of the first credential", async () => {
+    const registered = await fido2CreateCredential({
+      friendlyName: "Virtual",
+      credentialCreator: authenticator.credentialCreator,
+    });
+    assert.ok(registered.recoveryCodes);
+    assert.equal(registered.recoveryCodes.length, 10);
+    recoveryCodes = registered.recoveryCodes;
+  });
+
+  it("requires a recent step-up to generate new codes", async () => {
+    const err = await rejection(fido2GenerateRecoveryCodes());
+    assert.match(err.message, /Step-up authentication with FIDO2 required/);
+
+    await stepUpAuthenticationWithFido2({
+      credentialGetter: authenticator.credentialGetter,
+    }).signedIn;
+    const generated = await fido2GenerateRecoveryCodes();
+    assert.equal(generated.recoveryCodes.length, 10);
+
+    // The new codes replace the old ones
+    const oldCode = await rejection(signInWithRecoveryCode(recoveryCodes[0]));
+    assert.equal(oldCode.name, "NotAuthorizedException");
+    recoveryCodes = generated.recoveryCodes;
+  });
+
+  it("doesn't consume the code if the sign-in is denied after verifying it", async () => {
+    // The multi-factor policy makes Define Auth Challenge deny, after Verify Auth Challenge Response accepted the code
+    multiFactor.configure({
+      policies: {
+        clients: { [env.emulator.clientId]: [["RECOVERY_CODE", "EMAIL_OTP"]] },
+      },
+    });
+    try {
+      const err = await rejection(signInWithRecoveryCode(recoveryCodes[0]));
+      assert.equal(err.name, "NotAuthorizedException");
+    } finally {
+      multiFactor.configure({ policies: undefined });
+    }
+    assert.equal(
+      (await fido2ListCredentials()).authenticators.length,
+      1,
+      "Credentials should not have been revoked"
+    );
+    assert.doesNotMatch(env.printed.join("\n"), /recovery code was just used/);
+
+    const tokens = await signInWithRecoveryCode(recoveryCodes[0]);
+    assert.equal(tokens.username, "alice");
+  });
+
+  it("consumes the code upon sign-in, revokes credentials and notifies the user", async () => {
+    assert.match(env.printed.join("\n"), /recovery code was just used/);
+    assert.equal((await fido2ListCredentials()).authenticators.length, 0);
+
+    const err = await rejection(signInWithRecoveryCode(recoveryCodes[0]));
+    assert.equal(err.name, "NotAuthorizedException");
+  });
+
+  it("accepts codes in lower case and without dash", async () => {
+    const tokens = await signInWithRecoveryCode(
+      recoveryCodes[1].replace("-", "").toLowerCase()
+    );
+    assert.equal(tokens.username, "alice");
+  });
+
+  it("doesn't hand out new codes upon registration of a credential, if the user had codes before", async () => {
+    for (const recoveryCode of recoveryCodes.slice(2)) {
+      await signInWithRecoveryCode(recoveryCode);
+    }
+    // The user used up all codes, and the credentials were revoked upon recovery, so this is the user's only credential again
+    const registered = await fido2CreateCredential({
+      friendlyName: "Virtual",
+      credentialCreator: authenticator.credentialCreator,
+    });
+    assert.equal(registered.recoveryCodes, undefined);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Copyright Amazon.com, Inc. and its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You
+ * may not use this file except in compliance with the License. A copy of
+ * the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is
+ * distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF
+ * ANY KIND, either express or implied. See the License for the specific
+ * language governing permissions and limitations under the License.
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { configure } from "../client/config.js";
+import { storeTokens } from "../client/storage.js";
+import {
+  TabSyncMessage,
+  addTabSyncListener,
+  broadcastTabSyncMessage,
+} from "../client/tab-sync.js";
+
+const clientId = "tabSyncTestClient";
+
+function jwt(payload: Record<string, unknown>) {
+  const encode = (part: object) =>
+    Buffer.from(JSON.stringify(part)).toString("base64url");
+  return `${encode({ alg: "none" })}.${encode(payload)}.`;
+}
+
+/** Collect the messages that another tab (i.e. another BroadcastChannel instance) receives */
+function otherTab() {
+  const received: unknown[] = [];
+  const channel = new BroadcastChannel(`Passwordless.${clientId}.tabSync`);
+  channel.onmessage = (event: MessageEvent) => received.push(event.data);
+  return { received, channel };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe("tab sync", () => {
+  before(() => {
+    const storage = new Map<string, string>();
+    configure({
+      clientId,
+      cognitoIdpEndpoint: "eu-west-1",
+      tabSync: true,
+      storage: {
+        getItem: (key) => storage.get(key) ?? null,
+        setItem: (key, value) => void storage.set(key, value),
+        removeItem: (key) => void storage.delete(key),
+      },
+    });
+  });
+
+  const tokens = {
+    accessToken: jwt({ sub: "sub", scope: "openid" }),
+    idToken: jwt({ sub: "sub", "cognito:username": "alice" }),
+    expireAt: new Date(Date.now() + 3600_000),
+  };
+
+  it("sends the event type that the caller passes, also without refresh token", async () => {
+    const { received, channel } = otherTab();
+    after(() => channel.close());
+    await storeTokens(tokens, "SIGNED_IN");
+    await storeTokens(tokens, "TOKENS_REFRESHED");
+    await tick();
+    assert.deepEqual(
+      received.map((message) => (message as TabSyncMessage).type),
+      ["SIGNED_IN", "TOKENS_REFRESHED"]
+    );
+  });
+
+  it("ignores messages from its own tab", async () => {
+    const received: TabSyncMessage[] = [];
+    const stop = addTabSyncListener((message) => received.push(message));
+    after(stop);
+    broadcastTabSyncMessage({ type: "SIGNED_OUT" });
+    await tick();
+    assert.deepEqual(received, []);
+
+    const { channel } = otherTab();
+    channel.postMessage({ type: "SIGNED_OUT", tabId: "otherTab" });
+    channel.close();
+    await tick();
+    assert.deepEqual(received, [{ type: "SIGNED_OUT" }]);
+  });
+});